@@ -19,7 +19,16 @@ import Signup from "./pages/signup";
 import ForgotPassword from "./pages/ForgotPassword";
 import ResetPassword from "./pages/ResetPassword";
 import NotFound from "./pages/NotFound";
+import PointOfSale from "./pages/PointOfSale";
+import Customers from "./pages/Customers";
+import Purchasing from "./pages/Purchasing";
+import StockTakes from "./pages/StockTakes";
+import Labels from "./pages/Labels";
+import Promotions from "./pages/Promotions";
+import Settings from "./pages/Settings";
+import TaxReports from "./pages/TaxReports";
 import { ThemeProvider } from "./context/ThemeContext";
+import { InventoryProvider } from "./context/InventoryContext";
 
 const queryClient = new QueryClient();
 
@@ -35,15 +44,21 @@ const ProtectedLayout: React.FC = () => {
       setLoading(false);
     });
     // subscribe to auth changes
-    const { data: listener } = supabase.auth.onAuthStateChange((_ev, session) => {
+    const { data: listener } = supabase.auth.onAuthStateChange((ev, session) => {
       setSession(session);
+      // Drop the previous user's cached inventory and sales
+      if (ev === "SIGNED_OUT") queryClient.clear();
     });
     return () => listener.subscription.unsubscribe();
   }, []);
 
   if (loading) return <div>Loading…</div>;
   if (!session) return <Navigate to="/login" state={{ from: location }} replace />;
-  return <Outlet />;
+  return (
+    <InventoryProvider>
+      <Outlet />
+    </InventoryProvider>
+  );
 };
 
 const App = () => (
@@ -66,6 +81,14 @@ const App = () => (
             {/* Protected */}
             <Route element={<ProtectedLayout />}>
               <Route path="/dashboard" element={<Index />} />
+              <Route path="/pos" element={<PointOfSale />} />
+              <Route path="/customers" element={<Customers />} />
+              <Route path="/purchasing" element={<Purchasing />} />
+              <Route path="/stock-takes" element={<StockTakes />} />
+              <Route path="/labels" element={<Labels />} />
+              <Route path="/promotions" element={<Promotions />} />
+              <Route path="/tax" element={<TaxReports />} />
+              <Route path="/settings" element={<Settings />} />
             </Route>
 
             {/* 404 fallback */}
@@ -1,52 +1,135 @@
 import React from "react";
-import { useForm } from "react-hook-form";
-import { supabase } from "@/lib/supabaseClient";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
-import { Product } from "@/types";
-import { nanoid } from "nanoid";
-
-const formSchema = z.object({
-  name: z.string().min(2, {
-    message: "Product name must be at least 2 characters.",
-  }),
-  category: z.string().min(1, {
-    message: "Category is required.",
-  }),
-  price: z.coerce.number().min(0.01, {
-    message: "Price must be greater than 0.",
-  }),
-  cost: z.coerce.number().min(0.01, {
-    message: "Cost must be greater than 0.",
-  }),
-  stockQuantity: z.coerce.number().int().min(0, {
-    message: "Stock quantity must be a non-negative integer.",
-  }),
-  reorderLevel: z.coerce.number().int().min(1, {
-    message: "Reorder level must be at least 1.",
-  }),
+import { Product, TaxCategory } from "@/types";
+import { ProductInput } from "@/lib/repository";
+import { useInventory } from "@/context/InventoryContext";
+import { usePurchasing } from "@/hooks/use-purchasing";
+import { generateBarcode } from "@/lib/barcode";
+import { COMMON_UNITS } from "@/lib/units";
+import { TAX_CATEGORIES } from "@/lib/tax";
+
+// Select items can't have an empty value.
+const NO_SUPPLIER = "none";
+
+const unitSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name the pack." }),
+  factor: z.coerce.number().positive({ message: "Must be more than 0." }),
+  // Blank sells the pack at the base price × factor.
+  price: z
+    .string()
+    .trim()
+    .refine((v) => v === "" || Number(v) > 0, { message: "Must be more than 0." }),
+  purchase: z.boolean(),
+  sale: z.boolean(),
 });
 
+const formSchema = z
+  .object({
+    name: z.string().min(2, {
+      message: "Product name must be at least 2 characters.",
+    }),
+    category: z.string().min(1, {
+      message: "Category is required.",
+    }),
+    price: z.coerce.number().min(0.01, {
+      message: "Price must be greater than 0.",
+    }),
+    cost: z.coerce.number().min(0.01, {
+      message: "Cost must be greater than 0.",
+    }),
+    stockQuantity: z.coerce.number().min(0, {
+      message: "Stock quantity can't be negative.",
+    }),
+    reorderLevel: z.coerce.number().int().min(1, {
+      message: "Reorder level must be at least 1.",
+    }),
+    supplierId: z.string(),
+    sku: z.string().trim().max(40, { message: "SKU must be 40 characters or fewer." }),
+    barcode: z
+      .string()
+      .trim()
+      .regex(/^[0-9A-Za-z-]*$/, { message: "Barcodes are letters, digits and dashes only." }),
+    unit: z.string().trim().min(1, { message: "Unit is required." }).max(12, {
+      message: "Unit must be 12 characters or fewer.",
+    }),
+    decimalQuantities: z.boolean(),
+    units: z.array(unitSchema),
+    taxCategory: z.enum(["standard", "zero_rated", "exempt"]),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.decimalQuantities && !Number.isInteger(data.stockQuantity)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Enter a whole number, or allow decimal quantities.",
+        path: ["stockQuantity"],
+      });
+    }
+    const names = new Set([data.unit.toLowerCase()]);
+    data.units.forEach((unit, i) => {
+      if (names.has(unit.name.toLowerCase())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Already a unit of this product.",
+          path: ["units", i, "name"],
+        });
+      }
+      names.add(unit.name.toLowerCase());
+      if (!data.decimalQuantities && !Number.isInteger(unit.factor)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Must be a whole number.",
+          path: ["units", i, "factor"],
+        });
+      }
+      if (!unit.purchase && !unit.sale) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Use it to buy, sell or both.",
+          path: ["units", i, "name"],
+        });
+      }
+    });
+  });
+
 type FormValues = z.infer<typeof formSchema>;
 
 interface AddProductFormProps {
   onClose: () => void;
-  onAddProduct: (product: Product) => void;
   editProduct?: Product | null;
+  /** Prefills the barcode of a new product, e.g. one just scanned. */
+  defaultBarcode?: string;
 }
 
-const AddProductForm: React.FC<AddProductFormProps> = ({ onClose, onAddProduct, editProduct }) => {
+const AddProductForm: React.FC<AddProductFormProps> = ({
+  onClose,
+  editProduct,
+  defaultBarcode,
+}) => {
+  const { products, saveProduct } = useInventory();
+  const { suppliers } = usePurchasing();
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: editProduct
@@ -57,6 +140,13 @@ const AddProductForm: React.FC<AddProductFormProps> = ({ onClose, onAddProduct,
           cost: editProduct.cost,
           stockQuantity: editProduct.stockQuantity,
           reorderLevel: editProduct.reorderLevel,
+          supplierId: editProduct.supplierId ?? NO_SUPPLIER,
+          sku: editProduct.sku ?? "",
+          barcode: editProduct.barcode ?? "",
+          unit: editProduct.unit,
+          decimalQuantities: editProduct.decimalQuantities,
+          units: editProduct.units.map((u) => ({ ...u, price: u.price?.toString() ?? "" })),
+          taxCategory: editProduct.taxCategory,
         }
       : {
           name: "",
@@ -65,79 +155,41 @@ const AddProductForm: React.FC<AddProductFormProps> = ({ onClose, onAddProduct,
           cost: 0,
           stockQuantity: 0,
           reorderLevel: 5,
+          supplierId: NO_SUPPLIER,
+          sku: "",
+          barcode: defaultBarcode ?? "",
+          unit: "pc",
+          decimalQuantities: false,
+          units: [],
+          taxCategory: "standard",
         },
   });
 
-  const { handleSubmit, control, formState } = form;
+  const { handleSubmit, control, formState, setValue } = form;
+  const { fields, append, remove } = useFieldArray({ control, name: "units" });
+  const [unit, price, packs] = useWatch({ control, name: ["unit", "price", "units"] });
+
+  const fillBarcode = () => {
+    const taken = new Set(products.map((p) => p.barcode).filter(Boolean) as string[]);
+    setValue("barcode", generateBarcode(taken), { shouldValidate: true });
+  };
 
   const onSubmit = handleSubmit(async (data) => {
-    // Get current user from Supabase Auth
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-    if (userError || !user) {
-      toast.error("You must be logged in to manage products.");
-      return;
-    }
-    const userId = user.id;
-
-    // Prepare payload for database
-    const payload = {
-      name: data.name,
-      category: data.category,
-      price: data.price,
-      cost: data.cost,
-      stock_quantity: data.stockQuantity,
-      reorder_level: data.reorderLevel,
-      user_id: userId,
-    };
-
-    if (editProduct) {
-      // Update existing product
-      const { data: updated, error } = await supabase
-        .from("inventory")
-        .update(payload)
-        .eq("id", editProduct.id)
-        .select()
-        .single();
-      if (error || !updated) {
-        toast.error(error?.message || "Failed to update product.");
-      } else {
-        toast.success("Product updated successfully!");
-        onAddProduct({
-          id: updated.id,
-          name: updated.name,
-          category: updated.category,
-          price: updated.price,
-          cost: updated.cost,
-          stockQuantity: updated.stock_quantity,
-          reorderLevel: updated.reorder_level,
-        });
-        onClose();
-      }
-    } else {
-      // Insert new product
-      const { data: inserted, error } = await supabase
-        .from("inventory")
-        .insert([payload])
-        .select()
-        .single();
-      if (error || !inserted) {
-        toast.error(error?.message || "Failed to add product.");
-      } else {
-        toast.success("Product added successfully!");
-        onAddProduct({
-          id: inserted.id,
-          name: inserted.name,
-          category: inserted.category,
-          price: inserted.price,
-          cost: inserted.cost,
-          stockQuantity: inserted.stock_quantity,
-          reorderLevel: inserted.reorder_level,
-        });
-        onClose();
-      }
+    try {
+      await saveProduct(
+        {
+          ...data,
+          supplierId: data.supplierId === NO_SUPPLIER ? null : data.supplierId,
+          // Unchanged costs are left out: a new one revalues the stock on hand.
+          cost: editProduct && data.cost === editProduct.cost ? undefined : data.cost,
+          units: data.units.map((u) => ({ ...u, price: u.price ? Number(u.price) : null })),
+        } as ProductInput,
+        editProduct?.id
+      );
+      toast.success(editProduct ? "Product updated successfully!" : "Product added successfully!");
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
     }
   });
 
@@ -158,19 +210,92 @@ const AddProductForm: React.FC<AddProductFormProps> = ({ onClose, onAddProduct,
           )}
         />
 
-        <FormField
-          control={control}
-          name="category"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Category</FormLabel>
-              <FormControl>
-                <Input placeholder="Enter category" {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter category" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="taxCategory"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>VAT</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(v) => field.onChange(v as TaxCategory)}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {TAX_CATEGORIES.map((c) => (
+                      <SelectItem key={c.value} value={c.value}>
+                        {c.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  {TAX_CATEGORIES.find((c) => c.value === field.value)?.description}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="sku"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>SKU</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="barcode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Barcode</FormLabel>
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input
+                      placeholder="Scan or type"
+                      // Scanners finish with Enter, which shouldn't submit the form.
+                      onKeyDown={(e) => e.key === "Enter" && e.preventDefault()}
+                      {...field}
+                    />
+                  </FormControl>
+                  {!field.value && (
+                    <Button type="button" variant="outline" onClick={fillBarcode}>
+                      Generate
+                    </Button>
+                  )}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
 
         <div className="grid grid-cols-2 gap-4">
           <FormField
@@ -178,7 +303,7 @@ const AddProductForm: React.FC<AddProductFormProps> = ({ onClose, onAddProduct,
             name="price"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Selling Price</FormLabel>
+                <FormLabel>Selling Price (per {unit || "unit"})</FormLabel>
                 <FormControl>
                   <Input type="number" step="0.01" {...field} />
                 </FormControl>
@@ -191,14 +316,155 @@ const AddProductForm: React.FC<AddProductFormProps> = ({ onClose, onAddProduct,
             name="cost"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Buying Price</FormLabel>
+                <FormLabel>Buying Price (per {unit || "unit"})</FormLabel>
                 <FormControl>
                   <Input type="number" step="0.01" {...field} />
                 </FormControl>
+                {editProduct && editProduct.stockQuantity > 0 && (
+                  <FormDescription>
+                    Average cost of the stock on hand; changing it revalues that stock.
+                  </FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="unit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Base Unit</FormLabel>
+                <FormControl>
+                  <Input list="common-units" placeholder="pc, kg, bottle..." {...field} />
+                </FormControl>
+                <datalist id="common-units">
+                  {COMMON_UNITS.map((u) => (
+                    <option key={u} value={u} />
+                  ))}
+                </datalist>
+                <FormDescription>Stock is kept in this unit.</FormDescription>
                 <FormMessage />
               </FormItem>
             )}
           />
+          <FormField
+            control={control}
+            name="decimalQuantities"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center gap-2 space-y-0 pt-8">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={(checked) => field.onChange(checked === true)}
+                  />
+                </FormControl>
+                <FormLabel className="font-normal">
+                  Allow decimal quantities (0.5 kg, 1.25 L...)
+                </FormLabel>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <FormLabel>Pack Units</FormLabel>
+          {fields.map((item, index) => (
+            <div key={item.id} className="flex items-start gap-2">
+              <FormField
+                control={control}
+                name={`units.${index}.name`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="bag, crate..." aria-label="Pack name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`units.${index}.factor`}
+                render={({ field }) => (
+                  <FormItem className="w-32">
+                    <div className="flex items-center gap-1">
+                      <span className="text-sm text-muted-foreground">=</span>
+                      <FormControl>
+                        <Input type="number" min={0} aria-label="Base units per pack" {...field} />
+                      </FormControl>
+                      <span className="text-sm text-muted-foreground">{unit}</span>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`units.${index}.price`}
+                render={({ field }) => (
+                  <FormItem className="w-28">
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        aria-label="Pack selling price"
+                        placeholder={(
+                          (Number(price) || 0) * (Number(packs?.[index]?.factor) || 0)
+                        ).toFixed(2)}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {(["purchase", "sale"] as const).map((use) => (
+                <FormField
+                  key={use}
+                  control={control}
+                  name={`units.${index}.${use}`}
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center gap-1 space-y-0 pt-2.5">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">
+                        {use === "purchase" ? "Buy" : "Sell"}
+                      </FormLabel>
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove pack unit"
+                onClick={() => remove(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append({ name: "", factor: 1, price: "", purchase: true, sale: false })}
+          >
+            <Plus className="mr-2 h-4 w-4" /> Add Pack Unit
+          </Button>
+          <FormDescription>
+            Packs the product is bought or sold in, e.g. a bag of 50 kg. A blank price sells the
+            pack at the base price times its size.
+          </FormDescription>
         </div>
 
         <div className="grid grid-cols-2 gap-4">
@@ -207,10 +473,15 @@ const AddProductForm: React.FC<AddProductFormProps> = ({ onClose, onAddProduct,
             name="stockQuantity"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Stock Quantity</FormLabel>
+                <FormLabel>
+                  {editProduct ? "Stock Quantity" : "Opening Stock"} ({unit || "unit"})
+                </FormLabel>
                 <FormControl>
-                  <Input type="number" {...field} />
+                  <Input type="number" step="any" disabled={!!editProduct} {...field} />
                 </FormControl>
+                {editProduct && (
+                  <FormDescription>Use Adjust Stock to change stock levels.</FormDescription>
+                )}
                 <FormMessage />
               </FormItem>
             )}
@@ -230,6 +501,32 @@ const AddProductForm: React.FC<AddProductFormProps> = ({ onClose, onAddProduct,
           />
         </div>
 
+        <FormField
+          control={control}
+          name="supplierId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Supplier</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_SUPPLIER}>No preferred supplier</SelectItem>
+                  {suppliers.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="flex justify-end space-x-2 pt-2">
           <Button variant="outline" type="button" onClick={onClose}>
             Cancel
@@ -1,11 +1,11 @@
 // src/components/AddSaleForm.tsx
 
-import React, { useEffect, useState } from "react";
-import { useForm, useWatch } from "react-hook-form";
+import React, { useEffect, useMemo, useState } from "react";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { toast } from "sonner";
-import { supabase } from "@/lib/supabaseClient";
+import { Percent, Plus, ScanBarcode, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -16,6 +16,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import {
   Select,
   SelectTrigger,
@@ -23,11 +24,40 @@ import {
   SelectContent,
   SelectItem,
 } from "@/components/ui/select";
-import { Sale, Product } from "@/types";
+import { Discount, Sale } from "@/types";
+import { useInventory } from "@/context/InventoryContext";
+import { formatKSH } from "@/lib/formatCurrency";
+import { findStockShortfalls } from "@/lib/sales";
+import { basketTax } from "@/lib/tax";
+import { findProductByCode } from "@/lib/barcode";
+import { findUnit, formatQuantity, quantityStep, unitOptions } from "@/lib/units";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { usePromotions } from "@/hooks/use-promotions";
+import { useShopSettings } from "@/hooks/use-shop-settings";
+import { basketTotals, discountError, formatDiscount, priceLine } from "@/lib/discounts";
+import {
+  PaymentInput,
+  requestSaleStkPushes,
+  SaleInput,
+  SaleLineInput,
+} from "@/lib/repository";
+import { settlePayments, unsettledMpesa, validatePayments } from "@/lib/payments";
+import PaymentTenders from "./PaymentTenders";
+import CustomerSelect from "./CustomerSelect";
+import MpesaPaymentStatus from "./MpesaPaymentStatus";
+import CameraScanner from "./CameraScanner";
+import DiscountForm from "./DiscountForm";
+
+const lineSchema = z.object({
+  productId: z.string().min(1, { message: "Please select a product." }),
+  quantity: z.coerce.number().positive({ message: "Quantity must be positive." }),
+  unit: z.string(),
+  // Set through DiscountForm, which validates it.
+  discount: z.custom<Discount>().nullable(),
+});
 
 const formSchema = z.object({
-  productId: z.string({ required_error: "Please select a product." }),
-  quantity: z.coerce.number().int().positive({ message: "Quantity must be positive." }),
+  items: z.array(lineSchema).min(1, { message: "Add at least one item." }),
   date: z.string().min(1, { message: "Date is required." }),
 });
 
@@ -39,248 +69,353 @@ interface AddSaleFormProps {
   onAddSale: (sale: Sale) => void;
 }
 
+const toFormValues = (sale?: Sale): FormValues => ({
+  items: sale
+    ? sale.items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        unit: item.unit,
+        discount: item.discount,
+      }))
+    : [{ productId: "", quantity: 1, unit: "", discount: null }],
+  date: sale?.date.split("T")[0] ?? new Date().toISOString().split("T")[0],
+});
+
+const toPaymentInputs = (sale?: Sale): PaymentInput[] =>
+  sale?.payments.length
+    ? sale.payments.map(p => ({
+        // Lets update_sale keep M-Pesa payments already prompted for.
+        id: p.id,
+        method: p.method,
+        amount: p.amount,
+        reference: p.reference ?? undefined,
+        // Unpaid STK pushes stay pending: keep the phone, not a code.
+        phone: p.status === "paid" ? undefined : p.phone ?? undefined,
+      }))
+    : [{ method: "cash", amount: 0 }];
+
 const AddSaleForm: React.FC<AddSaleFormProps> = ({ existingSale, onClose, onAddSale }) => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [totalAmount, setTotalAmount] = useState<number>(0);
+  const { products: allProducts, recordSale, updateSale } = useInventory();
+  const products = useMemo(
+    () => [...allProducts].sort((a, b) => a.name.localeCompare(b.name)),
+    [allProducts]
+  );
+  const productById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+  const { promotions } = usePromotions();
+  const { settings } = useShopSettings();
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      productId: existingSale?.productId ?? "",
-      quantity: existingSale?.quantity ?? 1,
-      date: existingSale?.date.split("T")[0] ?? new Date().toISOString().split("T")[0],
-    },
+    defaultValues: toFormValues(existingSale),
   });
-  const { handleSubmit, control, formState, setValue } = form;
-  const productId = useWatch({ control, name: "productId" });
-  const quantity = useWatch({ control, name: "quantity" });
+  const { handleSubmit, control, formState, reset, setError, getValues, setValue } = form;
+  const { fields, append, remove } = useFieldArray({ control, name: "items" });
+  const [lines, date] = useWatch({ control, name: ["items", "date"] });
+  const [payments, setPayments] = useState<PaymentInput[]>(() => toPaymentInputs(existingSale));
+  const [customerId, setCustomerId] = useState<string | null>(existingSale?.customerId ?? null);
+  const [basketDiscount, setBasketDiscount] = useState<Discount | null>(
+    existingSale?.discount ?? null
+  );
+  // The line index (or "basket") whose discount is being edited.
+  const [discounting, setDiscounting] = useState<number | "basket" | null>(null);
+  // The manager's approval of a discount over the limit, sent with the sale.
+  const [approval, setApproval] = useState<string | null>(null);
+  // Set once a sale with STK push tenders is saved; the form then shows their status.
+  const [awaitingSaleId, setAwaitingSaleId] = useState<string | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
 
   // Whenever existingSale changes, repopulate the form fields:
   useEffect(() => {
-    if (existingSale) {
-      setValue("productId", existingSale.productId);
-      setValue("quantity", existingSale.quantity);
-      setValue("date", existingSale.date.split("T")[0]);
+    reset(toFormValues(existingSale));
+    setPayments(toPaymentInputs(existingSale));
+    setCustomerId(existingSale?.customerId ?? null);
+    setBasketDiscount(existingSale?.discount ?? null);
+  }, [existingSale, reset]);
+
+  // A scanned product goes on its existing line, else the empty last line, else a new one.
+  const onScan = (code: string) => {
+    setShowCamera(false);
+    const product = findProductByCode(products, code);
+    if (!product) {
+      toast.error(`No product has the code ${code}.`);
+      return;
     }
-  }, [existingSale, setValue]);
+    const items = getValues("items");
+    const index = items.findIndex(line => line.productId === product.id);
+    const last = items.length - 1;
+    if (index >= 0) {
+      setValue(`items.${index}.quantity`, Number(items[index].quantity) + 1);
+    } else if (!items[last]?.productId) {
+      setValue(`items.${last}.productId`, product.id, { shouldValidate: true });
+      setValue(`items.${last}.unit`, product.unit);
+    } else {
+      append({ productId: product.id, quantity: 1, unit: product.unit, discount: null });
+    }
+  };
 
-  // Fetch products
-  useEffect(() => {
-    (async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-      const { data, error } = await supabase
-        .from("inventory")
-        .select("id, name, price, cost, stock_quantity")
-        .eq("user_id", user.id)
-        .order("name");
-      if (error) {
-        toast.error("Failed to load products.");
-      } else {
-        setProducts(
-          data!.map(p => ({
-            id: String(p.id),
-            name: p.name,
-            price: p.price,
-            cost: p.cost,
-            stockQuantity: p.stock_quantity,
-            category: "",
-            reorderLevel: 0,
-          }))
-        );
-      }
-    })();
-  }, []);
+  useBarcodeScanner(onScan, { enabled: !awaitingSaleId && !showCamera, fromDialogs: true });
 
-  // Recompute selectedProduct and totalAmount on changes
-  useEffect(() => {
-    const prod = products.find(p => p.id === productId) || null;
-    setSelectedProduct(prod);
-    setTotalAmount(prod ? prod.price * (quantity || 1) : 0);
-  }, [products, productId, quantity]);
+  // Priced at the chosen unit's price: a crate can cost less than 24 bottles.
+  const linePrice = (line: Partial<SaleLineInput>) => {
+    const product = productById.get(line.productId ?? "");
+    return product ? findUnit(product, line.unit).price : 0;
+  };
+  // Promotions running on the sale's date come off first, as the database does.
+  const pricedLines = (lines ?? []).map(line => {
+    const product = productById.get(line.productId ?? "");
+    const quantity = Number(line.quantity) || 0;
+    return product
+      ? {
+          product,
+          ...priceLine(product, quantity, linePrice(line), line.discount, promotions, date),
+        }
+      : null;
+  });
+  const totals = basketTotals(pricedLines.filter(Boolean), basketDiscount);
+  const tax = basketTax(pricedLines.filter(Boolean), totals.basketAmount, settings);
+  const totalAmount = tax.total;
+  const limit = settings.maxManualDiscount;
+  // None is limited once a manager has approved a discount over the limit.
+  const saleLimit = approval ? null : limit;
+  const discountLine = typeof discounting === "number" ? pricedLines[discounting] : null;
 
   const onSubmit = handleSubmit(async data => {
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-    if (userError || !user) {
-      toast.error("You must be logged in to record a sale.");
+    const items = data.items as SaleLineInput[];
+    const fractional = items.findIndex(
+      line =>
+        !productById.get(line.productId)?.decimalQuantities && !Number.isInteger(line.quantity)
+    );
+    if (fractional >= 0) {
+      setError(`items.${fractional}.quantity`, { message: "Enter a whole number." });
       return;
     }
-    if (!selectedProduct) {
-      toast.error("Selected product not found.");
+    // Quick client-side check; record_sale/update_sale re-validate under row locks.
+    const shortfalls = findStockShortfalls(items, products, existingSale);
+    if (shortfalls.size) {
+      items.forEach((line, i) => {
+        const message = shortfalls.get(line.productId);
+        if (message) setError(`items.${i}.quantity`, { message });
+      });
+      toast.error("Not enough stock for this sale.");
       return;
     }
-    const total = selectedProduct.price * data.quantity;
-    const profit = total - selectedProduct.cost * data.quantity;
-
-    if (existingSale) {
-      const originalQuantity = existingSale.quantity;
-      const quantityDelta = data.quantity - originalQuantity;
-
-      // Get latest product info
-      const { data: productData, error: prodError } = await supabase
-        .from("inventory")
-        .select("stock_quantity")
-        .eq("id", data.productId)
-        .single();
 
-      if (prodError || !productData) {
-        toast.error("Failed to fetch current inventory.");
-        return;
-      }
-
-      const currentStock = productData.stock_quantity;
-      const newStock = currentStock - quantityDelta;
-
-      if (newStock < 0) {
-        toast.error("Not enough stock to update the sale.");
-        return;
-      }
-
-      // Proceed to update sale
-      const { data: updated, error } = await supabase
-        .from("sales")
-        .update({
-          product_id: data.productId,
-          product_name: selectedProduct.name,
-          quantity: data.quantity,
-          total_amount: total,
-          profit,
-          date: data.date,
+    const discountProblem =
+      items
+        .map((line, i) => {
+          const priced = pricedLines[i];
+          return (
+            priced && discountError(line.discount, priced.gross - priced.promotionAmount, saleLimit)
+          );
         })
-        .eq("id", existingSale.id)
-        .select()
-        .single();
-
-      if (error || !updated) {
-        toast.error(error?.message || "Failed to update sale.");
-        return;
-      }
-
-      // Update inventory stock
-      const { error: stockError } = await supabase
-        .from("inventory")
-        .update({ stock_quantity: newStock })
-        .eq("id", selectedProduct.id);
-
-      if (stockError) {
-        toast.warning("Sale updated but failed to update stock.");
-        console.error(stockError.message);
-      } else {
-        toast.success("Inventory adjusted.");
-      }
+        .find(Boolean) ?? discountError(basketDiscount, totals.subtotal, saleLimit);
+    if (discountProblem) {
+      toast.error(discountProblem);
+      return;
+    }
 
-      toast.success("Sale updated!");
-      onAddSale({
-        id: updated.id,
-        productId: updated.product_id,
-        productName: updated.product_name,
-        quantity: updated.quantity,
-        totalAmount: updated.total_amount,
-        profit: updated.profit,
-        date: updated.date,
-      });
+    const settled = settlePayments(payments, totalAmount);
+    const paymentError = validatePayments(settled, totalAmount);
+    if (paymentError) {
+      toast.error(paymentError);
+      return;
+    }
+    if (settled.some(p => p.method === "credit") && !customerId) {
+      toast.error("Choose the customer buying on credit.");
+      return;
     }
-else {
-      // Insert
-      const { data: inserted, error } = await supabase
-        .from("sales")
-        .insert([{
-          product_id: data.productId,
-          product_name: selectedProduct.name,
-          quantity: data.quantity,
-          total_amount: total,
-          cost: selectedProduct.cost,
-          profit,
-          date: data.date,
-          user_id: user.id,
-        }])
-        .select()
-        .single();
-      if (error || !inserted) {
-        toast.error(error?.message || "Failed to record sale.");
-        return;
-      }
 
-      if (data.quantity > selectedProduct.stockQuantity) {
-        toast.error("Not enough stock for this sale.");
+    try {
+      const input: SaleInput = {
+        date: data.date,
+        items,
+        payments: settled,
+        customerId,
+        discount: basketDiscount,
+        approval,
+      };
+      const saved = existingSale
+        ? await updateSale(existingSale.id, input)
+        : await recordSale(input);
+      toast.success(existingSale ? "Sale updated!" : "Sale recorded!");
+      onAddSale(saved);
+      if (unsettledMpesa(saved).some(p => p.status === "pending")) {
+        const pushError = await requestSaleStkPushes(saved, existingSale);
+        if (pushError) toast.error(pushError);
+        setAwaitingSaleId(saved.id);
         return;
       }
-       // Deduct stock
-      const updatedStock = selectedProduct.stockQuantity - data.quantity;
-      const { error: inventoryError } = await supabase
-        .from("inventory")
-        .update({ stock_quantity: updatedStock })
-        .eq("id", selectedProduct.id);
-
-      if (inventoryError) {
-        toast.warning("Sale was recorded, but inventory was not updated.");
-        console.error(inventoryError.message);
-      } else {
-        toast.success("Inventory updated.");
-      }
-
-      toast.success("Sale recorded!");
-      onAddSale({
-        id: inserted.id,
-        productId: inserted.product_id,
-        productName: inserted.product_name,
-        quantity: inserted.quantity,
-        totalAmount: inserted.total_amount,
-        profit: inserted.profit,
-        date: inserted.date,
-      });
+    } catch (err) {
+      toast.error((err as Error).message);
+      return;
     }
-
     onClose();
   });
 
+  if (awaitingSaleId) {
+    return (
+      <div className="space-y-4">
+        <MpesaPaymentStatus saleId={awaitingSaleId} />
+        <div className="flex justify-end pt-2">
+          <Button type="button" onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <Form {...form}>
       <form onSubmit={onSubmit} className="space-y-4">
-        <FormField
-          control={control}
-          name="productId"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Product</FormLabel>
-              <FormControl>
-                <Select
-                  value={field.value}
-                  onValueChange={val => {
-                    field.onChange(val);
-                    setValue("productId", val);
+        <div className="space-y-3">
+          <FormLabel>Items</FormLabel>
+          {fields.map((field, index) => (
+            <div key={field.id} className="space-y-1">
+              <div className="flex items-start gap-2">
+                <FormField
+                  control={control}
+                  name={`items.${index}.productId`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Select
+                          value={field.value}
+                          onValueChange={value => {
+                            field.onChange(value);
+                            setValue(`items.${index}.unit`, productById.get(value)?.unit ?? "");
+                          }}
+                        >
+                          <SelectTrigger className="border-gray-300">
+                            <SelectValue placeholder="Select a product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.map(p => (
+                              <SelectItem key={p.id} value={p.id}>
+                                {p.name} — {formatKSH(p.price)}/{p.unit} (Stock:{" "}
+                                {formatQuantity(p.stockQuantity, p.unit)})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={control}
+                  name={`items.${index}.quantity`}
+                  render={({ field }) => (
+                    <FormItem className="w-24">
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={quantityStep(productById.get(lines?.[index]?.productId ?? ""))}
+                          aria-label="Quantity"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={control}
+                  name={`items.${index}.unit`}
+                  render={({ field }) => {
+                    const product = productById.get(lines?.[index]?.productId ?? "");
+                    const options = product ? unitOptions(product) : [];
+                    return (
+                      <FormItem className="w-24">
+                        {options.length > 1 ? (
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger aria-label="Unit">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {options.map(u => (
+                                <SelectItem key={u.name} value={u.name}>
+                                  {u.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <div className="pt-2 text-sm text-muted-foreground">{product?.unit}</div>
+                        )}
+                      </FormItem>
+                    );
                   }}
+                />
+                <div className="w-28 pt-2 text-right text-sm font-medium">
+                  {formatKSH(pricedLines[index]?.total ?? 0)}
+                </div>
+                <Button
+                  type="button"
+                  variant={lines?.[index]?.discount ? "secondary" : "ghost"}
+                  size="icon"
+                  aria-label="Discount item"
+                  disabled={!pricedLines[index]}
+                  onClick={() => setDiscounting(index)}
                 >
-                  <SelectTrigger className="border-gray-300">
-                    <SelectValue placeholder="Select a product" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {products.map(p => (
-                      <SelectItem key={p.id} value={p.id}>
-                        {p.name} — Ksh{p.price.toFixed(2)} (Stock: {p.stockQuantity})
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-        <FormField
-          control={control}
-          name="quantity"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Quantity</FormLabel>
-              <FormControl>
-                <Input type="number" min={1} {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
+                  <Percent className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove item"
+                  disabled={fields.length === 1}
+                  onClick={() => remove(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {pricedLines[index]?.promotion && (
+                <p className="text-xs text-green-600">
+                  {pricedLines[index].promotion.name} -
+                  {formatKSH(pricedLines[index].promotionAmount)}
+                </p>
+              )}
+              {lines?.[index]?.discount && pricedLines[index] && (
+                <p className="text-xs text-green-600">
+                  {formatDiscount(lines[index].discount)} -
+                  {formatKSH(pricedLines[index].manualAmount)}
+                </p>
+              )}
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ productId: "", quantity: 1, unit: "", discount: null })}
+            >
+              <Plus className="mr-2 h-4 w-4" /> Add Item
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowCamera(true)}>
+              <ScanBarcode className="mr-2 h-4 w-4" /> Scan
+            </Button>
+            <Button
+              type="button"
+              variant={basketDiscount ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setDiscounting("basket")}
+            >
+              <Percent className="mr-2 h-4 w-4" /> Discount Sale
+            </Button>
+          </div>
+          {formState.errors.items?.root && (
+            <p className="text-sm font-medium text-destructive">
+              {formState.errors.items.root.message}
+            </p>
           )}
-        />
+        </div>
         <FormField
           control={control}
           name="date"
@@ -295,10 +430,32 @@ else {
           )}
         />
         <div className="bg-secondary p-3 rounded-md mt-4">
+          {totals.discountTotal > 0 && (
+            <div className="flex justify-between text-sm text-green-600">
+              <span>
+                Discounts{basketDiscount && ` (sale ${formatDiscount(basketDiscount)})`}:
+              </span>
+              <span>-{formatKSH(totals.discountTotal)}</span>
+            </div>
+          )}
           <div className="flex justify-between">
             <span>Total Amount:</span>
-            <span className="font-medium">Ksh {totalAmount.toFixed(2)}</span>
+            <span className="font-medium">{formatKSH(totalAmount)}</span>
           </div>
+          {tax.taxAmount > 0 && (
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>{settings.pricesIncludeTax ? "Includes VAT" : "VAT added"}:</span>
+              <span>{formatKSH(tax.taxAmount)}</span>
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          <FormLabel>Customer</FormLabel>
+          <CustomerSelect value={customerId} onChange={setCustomerId} />
+        </div>
+        <div className="space-y-2">
+          <FormLabel>Payment</FormLabel>
+          <PaymentTenders payments={payments} onChange={setPayments} total={totalAmount} />
         </div>
         <div className="flex justify-end space-x-2 pt-2">
           <Button type="button" variant="outline" onClick={onClose}>
@@ -309,6 +466,48 @@ else {
           </Button>
         </div>
       </form>
+
+      <Dialog open={showCamera} onOpenChange={setShowCamera}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Scan Product</DialogTitle>
+          </DialogHeader>
+          {showCamera && <CameraScanner onScan={onScan} onClose={() => setShowCamera(false)} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={discounting !== null} onOpenChange={open => !open && setDiscounting(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{discounting === "basket" ? "Discount Sale" : "Discount Item"}</DialogTitle>
+          </DialogHeader>
+          {discounting === "basket" ? (
+            <DiscountForm
+              base={totals.subtotal}
+              discount={basketDiscount}
+              limit={limit}
+              onApply={(discount, approved) => {
+                setBasketDiscount(discount);
+                if (approved) setApproval(approved);
+              }}
+              onClose={() => setDiscounting(null)}
+            />
+          ) : (
+            discountLine && (
+              <DiscountForm
+                base={discountLine.gross - discountLine.promotionAmount}
+                discount={lines?.[discounting]?.discount ?? null}
+                limit={limit}
+                onApply={(discount, approved) => {
+                  setValue(`items.${discounting}.discount`, discount);
+                  if (approved) setApproval(approved);
+                }}
+                onClose={() => setDiscounting(null)}
+              />
+            )
+          )}
+        </DialogContent>
+      </Dialog>
     </Form>
   );
 };
@@ -0,0 +1,123 @@
+// src/components/CameraScanner.tsx
+
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { BarcodeDetectorLike, createBarcodeDetector } from "@/lib/barcode";
+
+const SCAN_INTERVAL_MS = 250;
+
+interface CameraScannerProps {
+  onScan: (code: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Reads a barcode with the device camera (the rear one on phones and
+ * tablets). If no detector can be loaded, or the camera is refused, the code
+ * can be typed instead.
+ */
+const CameraScanner: React.FC<CameraScannerProps> = ({ onScan, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [typedCode, setTypedCode] = useState("");
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let detector: BarcodeDetectorLike | null = null;
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video || !detector) return;
+      try {
+        const [found] = video.readyState >= 2 ? await detector.detect(video) : [];
+        if (found?.rawValue && !stopped) {
+          stop();
+          onScanRef.current(found.rawValue);
+          return;
+        }
+      } catch {
+        // A frame that can't be read yet; try the next one.
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    const startCamera = () =>
+      navigator.mediaDevices
+        ?.getUserMedia({ video: { facingMode: "environment" } })
+        .then((media) => {
+          if (stopped) {
+            media.getTracks().forEach((track) => track.stop());
+            return;
+          }
+          stream = media;
+          if (videoRef.current) {
+            videoRef.current.srcObject = media;
+            void videoRef.current.play();
+          }
+          scan();
+        })
+        .catch(() => setError("The camera isn't available. Check the browser's permission."));
+
+    createBarcodeDetector().then((created) => {
+      if (stopped) return;
+      if (!created) {
+        setError("This browser can't read barcodes from the camera.");
+        return;
+      }
+      detector = created;
+      startCamera();
+    });
+
+    return stop;
+  }, []);
+
+  const submitTyped = (e: React.FormEvent) => {
+    e.preventDefault();
+    // React events bubble out of portals, so keep this off any form hosting the dialog.
+    e.stopPropagation();
+    if (typedCode.trim()) onScan(typedCode.trim());
+  };
+
+  return (
+    <div className="space-y-4">
+      {error ? (
+        <p className="rounded-md bg-secondary p-3 text-sm text-muted-foreground">{error}</p>
+      ) : (
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          className="aspect-video w-full rounded-md bg-black object-cover"
+        />
+      )}
+      <form onSubmit={submitTyped} className="flex gap-2">
+        <Input
+          placeholder="Or type the barcode or SKU"
+          value={typedCode}
+          onChange={(e) => setTypedCode(e.target.value)}
+        />
+        <Button type="submit" variant="secondary">
+          Find
+        </Button>
+      </form>
+      <div className="flex justify-end">
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraScanner;
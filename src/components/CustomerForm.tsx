@@ -0,0 +1,145 @@
+// src/components/CustomerForm.tsx
+
+import React from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Customer } from "@/types";
+import { useCustomers } from "@/hooks/use-customers";
+
+const formSchema = z.object({
+  name: z.string().trim().min(2, { message: "Name must be at least 2 characters." }),
+  phone: z.string().trim(),
+  // Blank means no limit.
+  creditLimit: z.union([
+    z.literal(""),
+    z.coerce.number().min(0, { message: "Credit limit cannot be negative." }),
+  ]),
+  creditDays: z.coerce.number().int().min(0, { message: "Credit days cannot be negative." }),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface CustomerFormProps {
+  onClose: () => void;
+  editCustomer?: Customer | null;
+  onSaved?: (customer: Customer) => void;
+}
+
+const CustomerForm: React.FC<CustomerFormProps> = ({ onClose, editCustomer, onSaved }) => {
+  const { saveCustomer } = useCustomers();
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: editCustomer?.name ?? "",
+      phone: editCustomer?.phone ?? "",
+      creditLimit: editCustomer?.creditLimit ?? "",
+      creditDays: editCustomer?.creditDays ?? 30,
+    },
+  });
+  const { handleSubmit, control, formState } = form;
+
+  const onSubmit = handleSubmit(async data => {
+    try {
+      const saved = await saveCustomer(
+        {
+          name: data.name,
+          phone: data.phone || null,
+          creditLimit: data.creditLimit === "" ? null : Number(data.creditLimit),
+          creditDays: Number(data.creditDays),
+        },
+        editCustomer?.id
+      );
+      toast.success(editCustomer ? "Customer updated!" : "Customer added!");
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <FormField
+          control={control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Customer or business name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="phone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Phone</FormLabel>
+              <FormControl>
+                <Input type="tel" placeholder="07XX XXX XXX" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="creditLimit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Credit Limit</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step="0.01" placeholder="No limit" {...field} />
+                </FormControl>
+                <FormDescription>Leave blank for no limit; 0 allows no credit.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="creditDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Credit Days</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} {...field} />
+                </FormControl>
+                <FormDescription>Days before a credit sale is overdue.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={formState.isSubmitting}>
+            {editCustomer ? "Update Customer" : "Add Customer"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default CustomerForm;
@@ -0,0 +1,45 @@
+// src/components/CustomerSelect.tsx
+
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCustomers } from "@/hooks/use-customers";
+
+/** Radix Select can't hold an empty value, so "no customer" gets a sentinel. */
+const WALK_IN = "walk-in";
+
+interface CustomerSelectProps {
+  value: string | null;
+  onChange: (customerId: string | null) => void;
+  className?: string;
+}
+
+const CustomerSelect: React.FC<CustomerSelectProps> = ({ value, onChange, className }) => {
+  const { customers } = useCustomers();
+  return (
+    <Select
+      value={value ?? WALK_IN}
+      onValueChange={v => onChange(v === WALK_IN ? null : v)}
+    >
+      <SelectTrigger className={className} aria-label="Customer">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={WALK_IN}>Walk-in customer</SelectItem>
+        {customers.map(c => (
+          <SelectItem key={c.id} value={c.id}>
+            {c.name}
+            {c.phone && ` (${c.phone})`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CustomerSelect;
@@ -1,7 +1,7 @@
 // src/components/Dashboard.tsx
 
-import React, { useMemo, useState, useEffect } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import React, { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
 import {
   Package,
   DollarSign,
@@ -11,6 +11,8 @@ import {
   LineChart,
   BarChart as BarChartIcon,
   Download,
+  Wallet,
+  HandCoins,
 } from "lucide-react";
 import {
   Card,
@@ -19,6 +21,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import ExpiringBatches from "@/components/ExpiringBatches";
 import {
   Table,
   TableBody,
@@ -40,67 +43,28 @@ import {
   Legend,
 } from "recharts";
 import { formatKSH } from "@/lib/formatCurrency";
+import { cn } from "@/lib/utils";
+import { formatQuantity } from "@/lib/units";
+import {
+  saleLines,
+  saleNetProfit,
+  saleNetQuantity,
+  saleNetTotal,
+  saleRefunds,
+} from "@/lib/sales";
+import { paymentBreakdown } from "@/lib/payments";
+import { useInventory } from "@/context/InventoryContext";
+import { useAgedDebt } from "@/hooks/use-customers";
 import { toast } from "sonner";
-import { Sale, Product } from "@/types";
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#A569BD'];
 
 export default function Dashboard() {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [sales, setSales] = useState<Sale[]>([]);
-
-  useEffect(() => {
-    (async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const [invRes, salesRes] = await Promise.all([
-        supabase
-          .from("inventory")
-          .select("id, name, category, price, cost, stock_quantity, reorder_level")
-          .eq("user_id", user.id),
-        supabase
-          .from("sales")
-          .select("id, product_id, product_name, quantity, total_amount, profit, date")
-          .eq("user_id", user.id),
-      ]);
-
-      if (invRes.error) {
-        toast.error("Failed to load inventory.");
-      } else {
-        setProducts(
-          invRes.data.map((r) => ({
-            id: r.id,
-            name: r.name,
-            category: r.category,
-            price: r.price,
-            cost: r.cost,
-            stockQuantity: r.stock_quantity,
-            reorderLevel: r.reorder_level,
-          }))
-        );
-      }
-
-      if (salesRes.error) {
-        toast.error("Failed to load sales.");
-      } else {
-        setSales(
-          salesRes.data.map((r) => ({
-            id: r.id,
-            productId: r.product_id,
-            productName: r.product_name,
-            quantity: r.quantity,
-            totalAmount: r.total_amount,
-            profit: r.profit,
-            date: r.date,
-          }))
-        );
-      }
-    })();
-  }, []);
+  const { products, sales, remoteChanges } = useInventory();
+  const navigate = useNavigate();
 
   const totalStock = products.reduce((sum, p) => sum + p.stockQuantity, 0);
-  const totalValue = products.reduce((sum, p) => sum + p.cost * p.stockQuantity, 0);
+  const totalValue = products.reduce((sum, p) => sum + p.stockValue, 0);
   const currentYear = new Date().getFullYear();
 
   const currentYearSales = useMemo(
@@ -108,21 +72,30 @@ export default function Dashboard() {
     [sales]
   );
 
+  // Sales, profit and units are all net of returns.
   const currentYearTotalSales = useMemo(
-    () => currentYearSales.reduce((sum, s) => sum + s.totalAmount, 0),
+    () => currentYearSales.reduce((sum, s) => sum + saleNetTotal(s), 0),
     [currentYearSales]
   );
 
   const currentYearTotalProfit = useMemo(
-    () => currentYearSales.reduce((sum, s) => sum + s.profit, 0),
+    () => currentYearSales.reduce((sum, s) => sum + saleNetProfit(s), 0),
     [currentYearSales]
   );
 
   const currentYearTotalUnitsSold = useMemo(
-    () => currentYearSales.reduce((sum, s) => sum + s.quantity, 0),
+    () => currentYearSales.reduce((sum, s) => sum + saleNetQuantity(s), 0),
     [currentYearSales]
   );
 
+  const currentYearPayments = useMemo(
+    () => paymentBreakdown(currentYearSales),
+    [currentYearSales]
+  );
+
+  const debtByAge = useAgedDebt();
+  const totalDebt = debtByAge.reduce((sum, b) => sum + b.amount, 0);
+
   const lowStockProducts = useMemo(
     () => products.filter((p) => p.stockQuantity <= p.reorderLevel),
     [products]
@@ -130,7 +103,12 @@ export default function Dashboard() {
 
   const categoryData = useMemo(() => {
     const counts: Record<string, number> = {};
+    // A product's variants count once, as their parent.
+    const counted = new Set<string>();
     products.forEach((p) => {
+      const key = p.parentId ?? p.id;
+      if (counted.has(key)) return;
+      counted.add(key);
       counts[p.category] = (counts[p.category] || 0) + 1;
     });
     return Object.entries(counts).map(([name, value], idx) => ({
@@ -151,7 +129,7 @@ export default function Dashboard() {
   // ✅ Group and combine profit for current month sales
   const topMonthSales = useMemo(() => {
     const grouped: Record<string, number> = {};
-    currentMonthSales.forEach((s) => {
+    saleLines(currentMonthSales).forEach((s) => {
       const name =
         s.productName.length > 10
           ? s.productName.slice(0, 10) + "…"
@@ -167,7 +145,7 @@ export default function Dashboard() {
   // ✅ Group and combine profit for current year sales
   const topYearSales = useMemo(() => {
     const grouped: Record<string, number> = {};
-    currentYearSales.forEach((s) => {
+    saleLines(currentYearSales).forEach((s) => {
       const name =
         s.productName.length > 10
           ? s.productName.slice(0, 10) + "…"
@@ -181,23 +159,26 @@ export default function Dashboard() {
   }, [currentYearSales]);
 
   const generateSalesReport = () => {
-    const totalQty = currentYearSales.reduce((sum, s) => sum + s.quantity, 0);
-    const totalAmt = currentYearSales.reduce((sum, s) => sum + s.totalAmount, 0);
-    const totalProf = currentYearSales.reduce((sum, s) => sum + s.profit, 0);
+    const totalQty = currentYearTotalUnitsSold;
+    const totalAmt = currentYearTotalSales;
+    const totalProf = currentYearTotalProfit;
+    const totalRefunds = currentYearSales.reduce((sum, s) => sum + saleRefunds(s), 0);
+    const totalDiscounts = currentYearSales.reduce((sum, s) => sum + s.discountAmount, 0);
 
-    let csv = `Date,Product Name,Quantity,Unit Price,Total Amount,Profit\n`;
-    currentYearSales.forEach((s) => {
+    let csv = `Date,Product Name,Quantity,Unit Price,Discount,Total Amount,Profit\n`;
+    saleLines(currentYearSales).forEach((s) => {
       const date = new Date(s.date).toLocaleDateString();
-      const unit = (s.totalAmount / s.quantity).toFixed(2);
-      csv += `${date},"${s.productName}",${s.quantity},${unit},${s.totalAmount.toFixed(
+      csv += `${date},"${s.productName}",${s.quantity},${s.unitPrice.toFixed(
         2
-      )},${s.profit.toFixed(2)}\n`;
+      )},${s.discountAmount.toFixed(2)},${s.lineTotal.toFixed(2)},${s.profit.toFixed(2)}\n`;
     });
-    csv += `\nTOTALS,,${totalQty},,${totalAmt.toFixed(2)},${totalProf.toFixed(2)}\n`;
+    csv += `\nTOTALS,,${totalQty},,${totalDiscounts.toFixed(2)},${totalAmt.toFixed(
+      2
+    )},${totalProf.toFixed(2)}\n`;
     csv += `\nSUMMARY INFORMATION\nReporting Period,${currentYear}\n`;
     csv += `Total Products Sold,${totalQty}\nTotal Revenue,${totalAmt.toFixed(
       2
-    )}\nTotal Profit,${totalProf.toFixed(2)}\nProfit Margin,${(
+    )}\nDiscounts Given,${totalDiscounts.toFixed(2)}\nReturns Refunded,${totalRefunds.toFixed(2)}\nTotal Profit,${totalProf.toFixed(2)}\nProfit Margin,${(
       (totalProf / totalAmt) *
       100
     ).toFixed(2)}%\n`;
@@ -230,7 +211,7 @@ export default function Dashboard() {
             <Package className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent className="flex flex-col items-start space-y-1">
-            <div className="text-2xl font-bold break-words">{totalStock}</div>
+            <div className="text-2xl font-bold break-words">{formatQuantity(totalStock)}</div>
             <p className="text-xs text-muted-foreground">items in stock</p>
           </CardContent>
         </Card>
@@ -251,7 +232,7 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent className="flex flex-col items-start space-y-1">
             <div className="text-2xl font-bold break-words">{formatKSH(currentYearTotalSales)}</div>
-            <p className="text-xs text-muted-foreground">year to date</p>
+            <p className="text-xs text-muted-foreground">year to date, net of returns</p>
           </CardContent>
         </Card>
         <Card className="w-full">
@@ -261,7 +242,7 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent className="flex flex-col items-start space-y-1">
             <div className="text-2xl font-bold break-words">{formatKSH(currentYearTotalProfit)}</div>
-            <p className="text-xs text-muted-foreground">year to date</p>
+            <p className="text-xs text-muted-foreground">year to date, net of returns</p>
           </CardContent>
         </Card>
         <Card className="w-full">
@@ -295,9 +276,16 @@ export default function Dashboard() {
               <span>Low Stock Products ({lowStockProducts.length})</span>
             </div>
           </CardTitle>
-          <Button variant="outline" size="sm" onClick={() => window.open("#/inventory", "_self")}>
-            View All Inventory
-          </Button>
+          <div className="flex gap-2">
+            {lowStockProducts.length > 0 && (
+              <Button size="sm" onClick={() => navigate("/purchasing")}>
+                Plan Reorders
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => window.open("#/inventory", "_self")}>
+              View All Inventory
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {lowStockProducts.length > 0 ? (
@@ -313,10 +301,10 @@ export default function Dashboard() {
               </TableHeader>
               <TableBody>
                 {lowStockProducts.map((p) => (
-                  <TableRow key={p.id}>
+                  <TableRow key={p.id} className={cn(remoteChanges.has(p.id) && "animate-remote-flash")}>
                     <TableCell className="font-medium">{p.name}</TableCell>
                     <TableCell>{p.category}</TableCell>
-                    <TableCell className="text-center">{p.stockQuantity}</TableCell>
+                    <TableCell className="text-center">{formatQuantity(p.stockQuantity, p.unit)}</TableCell>
                     <TableCell className="text-center">{p.reorderLevel}</TableCell>
                     <TableCell>
                       <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
@@ -341,6 +329,69 @@ export default function Dashboard() {
         </CardContent>
       </Card>
 
+      <ExpiringBatches />
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between pb-2">
+          <CardTitle className="text-lg font-semibold">Payment Methods ({currentYear})</CardTitle>
+          <Wallet className="h-4 w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {currentYearPayments.map((p) => {
+            const share = currentYearTotalSales > 0 ? (p.amount / currentYearTotalSales) * 100 : 0;
+            return (
+              <div key={p.method} className="space-y-1">
+                <div className="text-sm font-medium">{p.label}</div>
+                <div className="text-xl font-bold break-words">{formatKSH(p.amount)}</div>
+                <div className="h-2 w-full rounded-full bg-muted">
+                  <div className="h-2 rounded-full bg-primary" style={{ width: `${share}%` }} />
+                </div>
+                <p className="text-xs text-muted-foreground">{share.toFixed(0)}% of sales</p>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between pb-2">
+          <CardTitle className="text-lg font-semibold">
+            <div className="flex items-center gap-2">
+              <HandCoins className="h-5 w-5 text-muted-foreground" />
+              <span>Aged Debt ({formatKSH(totalDebt)} owed)</span>
+            </div>
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => navigate("/customers")}>
+            View Customers
+          </Button>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-4 md:grid-cols-5">
+          {debtByAge.map((bucket, i) => {
+            const share = totalDebt > 0 ? (bucket.amount / totalDebt) * 100 : 0;
+            return (
+              <div key={bucket.label} className="space-y-1">
+                <div className="text-sm font-medium">{bucket.label}</div>
+                <div
+                  className={cn(
+                    "text-xl font-bold break-words",
+                    i > 0 && bucket.amount > 0 && "text-destructive"
+                  )}
+                >
+                  {formatKSH(bucket.amount)}
+                </div>
+                <div className="h-2 w-full rounded-full bg-muted">
+                  <div
+                    className={cn("h-2 rounded-full", i > 0 ? "bg-destructive" : "bg-primary")}
+                    style={{ width: `${share}%` }}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">{share.toFixed(0)}% of debt</p>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
         <Card className="col-span-1">
           <CardHeader>
@@ -0,0 +1,142 @@
+// src/components/DiscountForm.tsx
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useShopSettings } from "@/hooks/use-shop-settings";
+import { DISCOUNT_TYPES, discountAmount, discountError } from "@/lib/discounts";
+import { formatKSH } from "@/lib/formatCurrency";
+import { Discount, DiscountType } from "@/types";
+
+interface DiscountFormProps {
+  /** What the discount comes off, after any promotion. */
+  base: number;
+  discount: Discount | null;
+  /** The shop's cap on manual discounts, in percent. */
+  limit: number | null;
+  /** `approval` is the manager's, from checkManagerPin, for a discount over the limit. */
+  onApply: (discount: Discount | null, approval?: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Enters a manual discount, as a percent or an amount off `base`. Once the
+ * shop has a manager PIN, a discount over the limit can be given with it.
+ */
+const DiscountForm: React.FC<DiscountFormProps> = ({ base, discount, limit, onApply, onClose }) => {
+  const { settings, checkManagerPin } = useShopSettings();
+  const [type, setType] = useState<DiscountType>(discount?.type ?? "percent");
+  const [value, setValue] = useState(discount ? String(discount.value) : "");
+  const [pin, setPin] = useState("");
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const entered: Discount | null = value === "" ? null : { type, value: Number(value) };
+  const overLimit = !discountError(entered, base, null) && !!discountError(entered, base, limit);
+  const needsApproval = overLimit && settings.managerPinSet;
+  const error = needsApproval ? null : discountError(entered, base, limit);
+
+  const apply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    let approval: string | null = null;
+    if (needsApproval) {
+      setChecking(true);
+      try {
+        approval = await checkManagerPin(pin);
+        if (!approval) {
+          setPinError("That manager PIN is not right.");
+          return;
+        }
+      } catch (err) {
+        setPinError((err as Error).message);
+        return;
+      } finally {
+        setChecking(false);
+      }
+    }
+    onApply(entered && entered.value > 0 ? entered : null, approval ?? undefined);
+    onClose();
+  };
+
+  return (
+    <form onSubmit={apply} className="space-y-4">
+      <div className="flex gap-2">
+        <Select value={type} onValueChange={(v) => setType(v as DiscountType)}>
+          <SelectTrigger className="w-24" aria-label="Discount type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DISCOUNT_TYPES.map((t) => (
+              <SelectItem key={t.value} value={t.value}>
+                {t.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          autoFocus
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="0.01"
+          aria-label="Discount"
+          className="h-10 flex-1"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {formatKSH(discountAmount(entered, base))} off {formatKSH(base)}
+        {limit !== null && ` · limit ${limit}%`}
+      </p>
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+      {needsApproval && (
+        <div className="space-y-1">
+          <Label htmlFor="discount-approval-pin">
+            Over the {limit}% limit: manager PIN to approve
+          </Label>
+          <Input
+            id="discount-approval-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={pin}
+            onChange={(e) => {
+              setPin(e.target.value);
+              setPinError(null);
+            }}
+          />
+          {pinError && <p className="text-sm font-medium text-destructive">{pinError}</p>}
+        </div>
+      )}
+      <div className="flex justify-end space-x-2">
+        {discount && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              onApply(null);
+              onClose();
+            }}
+          >
+            Remove
+          </Button>
+        )}
+        <Button type="submit" disabled={!!error || checking || (needsApproval && pin === "")}>
+          Apply
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default DiscountForm;
@@ -0,0 +1,176 @@
+// src/components/ExpiringBatches.tsx
+
+import React, { useMemo, useState } from "react";
+import { CalendarClock, CheckCircle2 } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useInventory } from "@/context/InventoryContext";
+import { useStockBatches } from "@/hooks/use-stock-batches";
+import { EXPIRY_WARNING_DAYS, daysUntilExpiry, expiringBatches, expiryLabel } from "@/lib/batches";
+import { formatQuantity } from "@/lib/units";
+import { cn, formatDate } from "@/lib/utils";
+import { StockBatch } from "@/types";
+
+/**
+ * Batches that expire within EXPIRY_WARNING_DAYS, soonest first. Expired
+ * batches aren't sold (sales draw on the next batch instead) and can be
+ * written off here, which takes what is left of them out of stock.
+ */
+const ExpiringBatches: React.FC = () => {
+  const { products } = useInventory();
+  const { batches, writeOffBatch } = useStockBatches();
+  const [batchToWriteOff, setBatchToWriteOff] = useState<StockBatch | null>(null);
+  const [note, setNote] = useState("");
+
+  const productById = useMemo(() => new Map(products.map((p) => [p.id, p])), [products]);
+  const expiring = useMemo(() => expiringBatches(batches), [batches]);
+
+  const describe = (batch: StockBatch) => {
+    const product = productById.get(batch.productId);
+    return `${formatQuantity(batch.quantity, product?.unit)} of ${product?.name ?? "a deleted product"}${
+      batch.lotNumber ? ` (lot ${batch.lotNumber})` : ""
+    }`;
+  };
+
+  const handleWriteOff = async (batch: StockBatch) => {
+    try {
+      await writeOffBatch(batch.id, note.trim() || undefined);
+      toast.success(`Wrote off ${describe(batch)}.`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-lg font-semibold">
+          <div className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-amber-500" />
+            <span>Expiring Soon ({expiring.length})</span>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {expiring.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product Name</TableHead>
+                <TableHead>Lot</TableHead>
+                <TableHead>Expiry Date</TableHead>
+                <TableHead>Quantity</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {expiring.map((batch) => {
+                const product = productById.get(batch.productId);
+                const days = daysUntilExpiry(batch.expiryDate);
+                return (
+                  <TableRow key={batch.id}>
+                    <TableCell className="font-medium">{product?.name ?? "—"}</TableCell>
+                    <TableCell>{batch.lotNumber ?? "—"}</TableCell>
+                    <TableCell>{formatDate(batch.expiryDate)}</TableCell>
+                    <TableCell className="text-center">
+                      {formatQuantity(batch.quantity, product?.unit)}
+                    </TableCell>
+                    <TableCell>
+                      <span
+                        className={cn(
+                          "px-2 py-1 rounded-full text-xs font-medium",
+                          days < 0
+                            ? "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+                            : "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300"
+                        )}
+                      >
+                        {expiryLabel(days)}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {days < 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setNote("");
+                            setBatchToWriteOff(batch);
+                          }}
+                        >
+                          Write Off
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <div className="rounded-full bg-green-100 p-3 dark:bg-green-900/30">
+              <CheckCircle2 className="h-6 w-6 text-green-600 dark:text-green-400" />
+            </div>
+            <h3 className="mt-4 text-lg font-medium">Nothing Expiring Soon</h3>
+            <p className="mt-1 text-sm text-muted-foreground">
+              No batches in stock expire in the next {EXPIRY_WARNING_DAYS} days.
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!batchToWriteOff} onOpenChange={() => setBatchToWriteOff(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Write Off Expired Batch?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Takes <strong>{batchToWriteOff && describe(batchToWriteOff)}</strong> out of stock
+              as expired. This shows in the product's stock history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="write-off-note">Note (optional)</Label>
+            <Input
+              id="write-off-note"
+              placeholder="e.g. Returned to supplier"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => batchToWriteOff && handleWriteOff(batchToWriteOff)}
+            >
+              Write Off
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default ExpiringBatches;
@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import ThemeToggle from "./ThemeToggle";
 import { Box, LogOut, UserRound, Trash2, Loader2 } from "lucide-react";
 import { supabase } from "@/lib/supabaseClient";
@@ -14,8 +14,20 @@ import {
 import { Button } from "./ui/button";
 import { toast } from "sonner";
 
+const NAV_LINKS = [
+  { to: "/dashboard", label: "Back Office" },
+  { to: "/pos", label: "Point of Sale" },
+  { to: "/customers", label: "Customers" },
+  { to: "/purchasing", label: "Purchasing" },
+  { to: "/stock-takes", label: "Stock-Takes" },
+  { to: "/labels", label: "Labels" },
+  { to: "/promotions", label: "Promotions" },
+  { to: "/tax", label: "VAT" },
+];
+
 const Header: React.FC = () => {
   const navigate = useNavigate();
+  const { pathname } = useLocation();
   const [deleting, setDeleting] = useState(false);
 
   const handleLogout = async () => {
@@ -93,6 +105,18 @@ const Header: React.FC = () => {
         <div className="flex items-center gap-2">
           <Box className="h-8 w-8 text-blue-500" />
           <h1 className="text-3xl font-bold">Alex Shop</h1>
+          <nav className="ml-6 hidden items-center gap-1 md:flex">
+            {NAV_LINKS.map(({ to, label }) => (
+              <Button
+                key={to}
+                asChild
+                size="sm"
+                variant={pathname.startsWith(to) ? "secondary" : "ghost"}
+              >
+                <Link to={to}>{label}</Link>
+              </Button>
+            ))}
+          </nav>
         </div>
         <div className="flex items-center gap-4">
           <ThemeToggle />
@@ -111,6 +135,11 @@ const Header: React.FC = () => {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-48">
+              {NAV_LINKS.map(({ to, label }) => (
+                <DropdownMenuItem key={to} className="md:hidden" onClick={() => navigate(to)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
               <DropdownMenuItem onClick={() => navigate("/profile")}>Profile</DropdownMenuItem>
               <DropdownMenuItem onClick={() => navigate("/settings")}>Settings</DropdownMenuItem>
               <DropdownMenuSeparator />
@@ -1,7 +1,6 @@
 // src/components/InventoryList.tsx
 
-import React, { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import React, { Fragment, useState } from "react";
 import {
   Table,
   TableBody,
@@ -19,9 +18,25 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Search, Plus, Edit, Trash2 } from "lucide-react";
-import { Product } from "@/types";
+import {
+  Search,
+  Plus,
+  Edit,
+  Trash2,
+  History,
+  PackageMinus,
+  ScanBarcode,
+  ChevronDown,
+  ChevronRight,
+  Layers,
+} from "lucide-react";
+import { Product, ProductParent } from "@/types";
 import AddProductForm from "./AddProductForm";
+import ProductParentForm from "./ProductParentForm";
+import StockAdjustmentForm from "./StockAdjustmentForm";
+import StockHistory from "./StockHistory";
+import PriceHistory from "./PriceHistory";
+import CameraScanner from "./CameraScanner";
 import {
   Dialog,
   DialogContent,
@@ -38,71 +53,58 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { formatKSH } from "@/lib/formatCurrency";
+import { cn } from "@/lib/utils";
+import { useInventory } from "@/context/InventoryContext";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { useProductVariants } from "@/hooks/use-product-variants";
+import { findProductByCode, matchesProduct } from "@/lib/barcode";
+import { InventoryEntry, groupVariants, variantLabel } from "@/lib/variants";
+import { formatQuantity } from "@/lib/units";
 import { toast } from "sonner";
 
 const InventoryList: React.FC = () => {
-  const [products, setProducts] = useState<Product[]>([]);
+  const { products, deleteProduct, remoteChanges } = useInventory();
+  const { parents, deleteProductParent } = useProductVariants();
   const [searchTerm, setSearchTerm] = useState("");
   const [showAddProduct, setShowAddProduct] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [productToDelete, setProductToDelete] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  // A scanned code no product has yet, offered as the new product's barcode.
+  const [unknownBarcode, setUnknownBarcode] = useState<string | undefined>();
+  const [showParentForm, setShowParentForm] = useState(false);
+  const [editingParent, setEditingParent] = useState<ProductParent | null>(null);
+  const [parentToDelete, setParentToDelete] = useState<ProductParent | null>(null);
+  const [expandedParents, setExpandedParents] = useState<Set<string>>(() => new Set());
 
   const [currentPage, setCurrentPage] = useState(1);
   const ITEMS_PER_PAGE = 15;
 
-  const fetchInventory = async () => {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from("inventory")
-      .select("*")
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      console.error(error);
-      toast.error("Failed to load inventory.");
-    } else {
-      setProducts(
-        data.map((row) => ({
-          id: row.id,
-          name: row.name,
-          category: row.category,
-          price: row.price,
-          cost: row.cost,
-          stockQuantity: row.stock_quantity,
-          reorderLevel: row.reorder_level,
-        }))
-      );
-    }
-  };
-
-  useEffect(() => {
-    fetchInventory();
-  }, []);
-
-  const filteredProducts = products.filter(
-    (product) =>
-      product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      product.category.toLowerCase().includes(searchTerm.toLowerCase())
+  // Variants list under their parent; a parent whose name matches shows all of them.
+  const entries = groupVariants(products, parents).flatMap((entry): InventoryEntry[] => {
+    if (entry.kind === "product") return matchesProduct(entry.product, searchTerm) ? [entry] : [];
+    const term = searchTerm.toLowerCase();
+    if (`${entry.parent.name} ${entry.parent.category}`.toLowerCase().includes(term)) return [entry];
+    const variants = entry.variants.filter((v) => matchesProduct(v, searchTerm));
+    return variants.length ? [{ ...entry, variants }] : [];
+  });
+  const filteredProducts = entries.flatMap((entry) =>
+    entry.kind === "product" ? [entry.product] : entry.variants
   );
 
-  const totalPages = Math.ceil(filteredProducts.length / ITEMS_PER_PAGE);
-  const paginatedProducts = filteredProducts.slice(
+  const totalPages = Math.ceil(entries.length / ITEMS_PER_PAGE);
+  const paginatedEntries = entries.slice(
     (currentPage - 1) * ITEMS_PER_PAGE,
     currentPage * ITEMS_PER_PAGE
   );
 
   // --- new totals calculations ---
   const totalStock = filteredProducts.reduce((sum, p) => sum + p.stockQuantity, 0);
-  const totalInventoryValue = filteredProducts.reduce(
-    (sum, p) => sum + p.cost * p.stockQuantity,
-    0
-  );
+  const totalInventoryValue = filteredProducts.reduce((sum, p) => sum + p.stockValue, 0);
 
   const handlePrevPage = () => {
     setCurrentPage((prev) => Math.max(prev - 1, 1));
@@ -112,20 +114,142 @@ const InventoryList: React.FC = () => {
     setCurrentPage((prev) => Math.min(prev + 1, totalPages));
   };
 
-  const handleDelete = async (prod: Product) => {
-    const { error } = await supabase
-      .from("inventory")
-      .delete()
-      .eq("id", prod.id);
-    if (error) {
-      toast.error("Failed to delete product.");
+  // Scanning opens the product, or the new-product form when nothing matches.
+  const handleScan = (code: string) => {
+    setShowCamera(false);
+    const product = findProductByCode(products, code);
+    if (product) {
+      editProduct(product);
+      return;
+    }
+    toast.info(`No product has the code ${code}. Add it now.`);
+    setEditingProduct(null);
+    setUnknownBarcode(code);
+    setShowAddProduct(true);
+  };
+
+  // Variants are edited together with their parent.
+  const editProduct = (product: Product) => {
+    const parent = parents.find((p) => p.id === product.parentId);
+    if (parent) {
+      setEditingParent(parent);
+      setShowParentForm(true);
     } else {
+      setEditingProduct(product);
+      setShowAddProduct(true);
+    }
+  };
+
+  const toggleParent = (id: string) =>
+    setExpandedParents((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  useBarcodeScanner(handleScan);
+
+  const closeProductForm = () => {
+    setShowAddProduct(false);
+    setEditingProduct(null);
+    setUnknownBarcode(undefined);
+  };
+
+  const closeParentForm = () => {
+    setShowParentForm(false);
+    setEditingParent(null);
+  };
+
+  const handleDeleteParent = async (parent: ProductParent) => {
+    try {
+      await deleteProductParent(parent.id);
+      toast.success(`${parent.name} deleted`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+    setParentToDelete(null);
+  };
+
+  const handleDelete = async (prod: Product) => {
+    try {
+      await deleteProduct(prod.id);
       toast.success(`${prod.name} deleted`);
-      fetchInventory();
+    } catch (err) {
+      toast.error((err as Error).message);
     }
     setProductToDelete(null);
   };
 
+  // Variant rows sit indented under their parent and show only their options.
+  const renderProductRow = (product: Product, parent?: ProductParent) => (
+    <TableRow
+      key={product.id}
+      className={cn(remoteChanges.has(product.id) && "animate-remote-flash")}
+    >
+      <TableCell className={cn("font-medium", parent && "pl-10")}>
+        {parent ? variantLabel(product.optionValues ?? {}, parent.options) : product.name}
+        {product.sku && (
+          <div className="text-xs font-normal text-muted-foreground">{product.sku}</div>
+        )}
+      </TableCell>
+      <TableCell>{product.category}</TableCell>
+      <TableCell>{formatKSH(product.price)}</TableCell>
+      <TableCell>{formatKSH(product.cost)}</TableCell>
+      <TableCell>{formatQuantity(product.stockQuantity, product.unit)}</TableCell>
+      <TableCell>{formatKSH(product.stockValue)}</TableCell>
+      <TableCell>
+        <span
+          className={`px-2 py-1 rounded-full text-xs font-medium ${
+            product.stockQuantity <= product.reorderLevel
+              ? "bg-red-100 text-red-800"
+              : "bg-green-100 text-green-800"
+          }`}
+        >
+          {product.stockQuantity <= product.reorderLevel
+            ? "Low Stock"
+            : "In Stock"}
+        </span>
+      </TableCell>
+      <TableCell className="text-right">
+        <div className="flex justify-end space-x-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Adjust stock"
+            onClick={() => setAdjustingProduct(product)}
+          >
+            <PackageMinus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Stock and price history"
+            onClick={() => setHistoryProduct(product)}
+          >
+            <History className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={parent ? `Edit ${parent.name}` : "Edit product"}
+            onClick={() => editProduct(product)}
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Delete product"
+            onClick={() => setProductToDelete(product)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+
   return (
     <>
       <Card>
@@ -137,13 +261,32 @@ const InventoryList: React.FC = () => {
               <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
                 type="search"
-                placeholder="Search products..."
+                placeholder="Search name, SKU or barcode..."
                 className="pl-8 w-full"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
               />
             </div>
 
+            <Button
+              variant="outline"
+              size="icon"
+              className="shrink-0"
+              aria-label="Scan with camera"
+              onClick={() => setShowCamera(true)}
+            >
+              <ScanBarcode className="h-4 w-4" />
+            </Button>
+
+            <Button
+              variant="outline"
+              onClick={() => setShowParentForm(true)}
+              className="w-full sm:w-auto"
+            >
+              <Layers className="mr-2 h-4 w-4" />
+              Add with Variants
+            </Button>
+
             <Button onClick={() => setShowAddProduct(true)} className="w-full sm:w-auto">
               <Plus className="mr-2 h-4 w-4" />
               Add Product
@@ -166,52 +309,90 @@ const InventoryList: React.FC = () => {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {paginatedProducts.map((product) => (
-                <TableRow key={product.id}>
-                  <TableCell className="font-medium">{product.name}</TableCell>
-                  <TableCell>{product.category}</TableCell>
-                  <TableCell>{formatKSH(product.price)}</TableCell>
-                  <TableCell>{formatKSH(product.cost)}</TableCell>
-                  <TableCell>{product.stockQuantity}</TableCell>
-                  <TableCell>
-                    {formatKSH(product.cost * product.stockQuantity)}
-                  </TableCell>
-                  <TableCell>
-                    <span
-                      className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        product.stockQuantity <= product.reorderLevel
-                          ? "bg-red-100 text-red-800"
-                          : "bg-green-100 text-green-800"
-                      }`}
+              {paginatedEntries.map((entry) => {
+                if (entry.kind === "product") return renderProductRow(entry.product);
+                const { parent, variants } = entry;
+                const expanded = expandedParents.has(parent.id) || !!searchTerm;
+                const prices = variants.map((v) => v.price);
+                const minPrice = Math.min(...prices);
+                const maxPrice = Math.max(...prices);
+                const stock = variants.reduce((sum, v) => sum + v.stockQuantity, 0);
+                const lowCount = variants.filter((v) => v.stockQuantity <= v.reorderLevel).length;
+                return (
+                  <Fragment key={parent.id}>
+                    <TableRow
+                      className={cn(
+                        "cursor-pointer",
+                        remoteChanges.has(parent.id) && "animate-remote-flash"
+                      )}
+                      onClick={() => toggleParent(parent.id)}
                     >
-                      {product.stockQuantity <= product.reorderLevel
-                        ? "Low Stock"
-                        : "In Stock"}
-                    </span>
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <div className="flex justify-end space-x-2">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => {
-                          setEditingProduct(product);
-                          setShowAddProduct(true);
-                        }}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => setProductToDelete(product)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))}
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-1">
+                          {expanded ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                          {parent.name}
+                        </div>
+                        <div className="pl-5 text-xs font-normal text-muted-foreground">
+                          {variants.length} variant{variants.length === 1 ? "" : "s"}
+                        </div>
+                      </TableCell>
+                      <TableCell>{parent.category}</TableCell>
+                      <TableCell>
+                        {!prices.length
+                          ? formatKSH(parent.price)
+                          : minPrice === maxPrice
+                            ? formatKSH(minPrice)
+                            : `${formatKSH(minPrice)} – ${formatKSH(maxPrice)}`}
+                      </TableCell>
+                      <TableCell>{formatKSH(parent.cost)}</TableCell>
+                      <TableCell>{stock}</TableCell>
+                      <TableCell>
+                        {formatKSH(variants.reduce((sum, v) => sum + v.stockValue, 0))}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            lowCount ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"
+                          }`}
+                        >
+                          {lowCount ? `${lowCount} Low` : "In Stock"}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div
+                          className="flex justify-end space-x-2"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Edit ${parent.name}`}
+                            onClick={() => {
+                              setEditingParent(parent);
+                              setShowParentForm(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Delete ${parent.name}`}
+                            onClick={() => setParentToDelete(parent)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {expanded && variants.map((variant) => renderProductRow(variant, parent))}
+                  </Fragment>
+                );
+              })}
             </TableBody>
           </Table>
 
@@ -241,7 +422,7 @@ const InventoryList: React.FC = () => {
         {/* ← new footer with totals */}
         <CardFooter className="flex justify-end border-t px-6 py-3 space-x-6">
           <div className="text-sm font-medium">
-            Total Stock: <span className="text-green-600">{totalStock}</span>
+            Total Stock: <span className="text-green-600">{formatQuantity(totalStock)}</span>
           </div>
           <div className="text-sm font-medium">
             Inventory Value: <span className="text-green-600">{formatKSH(totalInventoryValue)}</span>
@@ -249,7 +430,7 @@ const InventoryList: React.FC = () => {
         </CardFooter>
       </Card>
 
-      <Dialog open={showAddProduct} onOpenChange={setShowAddProduct}>
+      <Dialog open={showAddProduct} onOpenChange={(open) => !open && closeProductForm()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>
@@ -258,17 +439,92 @@ const InventoryList: React.FC = () => {
           </DialogHeader>
           <AddProductForm
             editProduct={editingProduct}
-            onClose={() => {
-              setShowAddProduct(false);
-              setEditingProduct(null);
-            }}
-            onAddProduct={() => {
-              fetchInventory();
-            }}
+            defaultBarcode={unknownBarcode}
+            onClose={closeProductForm}
           />
         </DialogContent>
       </Dialog>
 
+      <Dialog open={showParentForm} onOpenChange={(open) => !open && closeParentForm()}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingParent ? `Edit ${editingParent.name}` : "Add Product with Variants"}
+            </DialogTitle>
+          </DialogHeader>
+          <ProductParentForm editParent={editingParent} onClose={closeParentForm} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showCamera} onOpenChange={setShowCamera}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Scan Product</DialogTitle>
+          </DialogHeader>
+          {showCamera && (
+            <CameraScanner onScan={handleScan} onClose={() => setShowCamera(false)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!adjustingProduct} onOpenChange={() => setAdjustingProduct(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust Stock: {adjustingProduct?.name}</DialogTitle>
+          </DialogHeader>
+          {adjustingProduct && (
+            <StockAdjustmentForm
+              product={products.find((p) => p.id === adjustingProduct.id) ?? adjustingProduct}
+              onClose={() => setAdjustingProduct(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyProduct} onOpenChange={() => setHistoryProduct(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>History: {historyProduct?.name}</DialogTitle>
+          </DialogHeader>
+          {historyProduct && (
+            <Tabs defaultValue="stock">
+              <TabsList>
+                <TabsTrigger value="stock">Stock</TabsTrigger>
+                <TabsTrigger value="prices">Prices</TabsTrigger>
+              </TabsList>
+              <TabsContent value="stock">
+                <StockHistory
+                  product={products.find((p) => p.id === historyProduct.id) ?? historyProduct}
+                />
+              </TabsContent>
+              <TabsContent value="prices">
+                <PriceHistory
+                  product={products.find((p) => p.id === historyProduct.id) ?? historyProduct}
+                />
+              </TabsContent>
+            </Tabs>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!parentToDelete} onOpenChange={() => setParentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Product?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This deletes <strong>{parentToDelete?.name}</strong> and all of its variants, with
+              their stock history. Past sales keep their lines.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleDeleteParent(parentToDelete!)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog
         open={!!productToDelete}
         onOpenChange={() => setProductToDelete(null)}
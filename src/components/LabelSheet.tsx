@@ -0,0 +1,115 @@
+// src/components/LabelSheet.tsx
+
+import React from "react";
+import { formatKSH } from "@/lib/formatCurrency";
+import {
+  A4,
+  LabelBarcode,
+  LabelOptions,
+  LabelTemplate,
+  labelBarcode,
+  labelOffset,
+} from "@/lib/labels";
+import { Product } from "@/types";
+
+// Blank modules either side of the bars, so scanners can find the edges.
+const QUIET_ZONE = 10;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const Barcode: React.FC<{ barcode: LabelBarcode; textSize: number }> = ({ barcode, textSize }) => {
+  const bars: { x: number; width: number }[] = [];
+  barcode.modules.split("").forEach((module, i) => {
+    if (module !== "1") return;
+    const last = bars[bars.length - 1];
+    if (last && last.x + last.width === i + QUIET_ZONE) last.width += 1;
+    else bars.push({ x: i + QUIET_ZONE, width: 1 });
+  });
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      <svg
+        className="min-h-0 w-full flex-1"
+        viewBox={`0 0 ${barcode.modules.length + QUIET_ZONE * 2} 100`}
+        preserveAspectRatio="none"
+        shapeRendering="crispEdges"
+      >
+        {bars.map((bar) => (
+          <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={100} fill="black" />
+        ))}
+      </svg>
+      <div className="text-center font-mono leading-none" style={{ fontSize: `${textSize}mm` }}>
+        {barcode.text}
+      </div>
+    </div>
+  );
+};
+
+interface LabelSheetProps {
+  template: LabelTemplate;
+  /** One entry per position; null leaves the label blank. */
+  labels: (Product | null)[];
+  options: LabelOptions;
+}
+
+/**
+ * One A4 sheet drawn at full size, so the browser's print (or Save as PDF)
+ * lines up with the label stock when printed at 100% scale.
+ */
+const LabelSheet: React.FC<LabelSheetProps> = ({ template, labels, options }) => {
+  const nameSize = clamp(template.height * 0.09, 2.2, 3.6);
+  const priceSize = clamp(template.height * 0.15, 3, 6);
+  const smallSize = clamp(template.height * 0.07, 1.8, 2.6);
+
+  return (
+    <div
+      className="relative mx-auto bg-white text-black shadow-md break-after-page print:shadow-none"
+      style={{ width: `${A4.width}mm`, height: `${A4.height}mm` }}
+    >
+      {labels.map((product, position) => {
+        if (!product) return null;
+        const { left, top } = labelOffset(template, position);
+        const barcode = labelBarcode(product, options.symbology);
+        return (
+          <div
+            key={position}
+            className="absolute flex flex-col gap-[0.5mm] overflow-hidden outline-dashed outline-1 outline-gray-200 print:outline-none"
+            style={{
+              left: `${left}mm`,
+              top: `${top}mm`,
+              width: `${template.width}mm`,
+              height: `${template.height}mm`,
+              padding: "1.5mm 2mm",
+            }}
+          >
+            {options.showName && (
+              <div
+                className="line-clamp-2 font-medium leading-tight"
+                style={{ fontSize: `${nameSize}mm` }}
+              >
+                {product.name}
+              </div>
+            )}
+            {(options.showPrice || options.showSku) && (
+              <div className="flex items-baseline justify-between gap-1">
+                {options.showPrice && (
+                  <span className="font-bold leading-none" style={{ fontSize: `${priceSize}mm` }}>
+                    {formatKSH(product.price)}
+                  </span>
+                )}
+                {options.showSku && product.sku && (
+                  <span className="leading-none" style={{ fontSize: `${smallSize}mm` }}>
+                    {product.sku}
+                  </span>
+                )}
+              </div>
+            )}
+            {barcode && <Barcode barcode={barcode} textSize={smallSize} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LabelSheet;
@@ -0,0 +1,131 @@
+// src/components/MpesaPaymentStatus.tsx
+
+import React, { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, Loader2, RotateCw, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useInventory } from "@/context/InventoryContext";
+import { formatKSH } from "@/lib/formatCurrency";
+import { MPESA_PROMPT_TIMEOUT_MS, canResendPrompt, isMpesaPhone } from "@/lib/payments";
+import { inventoryKeys } from "@/lib/queryKeys";
+import { requestStkPush } from "@/lib/repository";
+import { Payment } from "@/types";
+
+/** Fallback refresh in case a realtime update is missed. */
+const POLL_MS = 5000;
+
+interface MpesaPaymentStatusProps {
+  saleId: string;
+}
+
+const StatusIcon: React.FC<{ payment: Payment }> = ({ payment }) => {
+  if (payment.status === "paid") return <CheckCircle2 className="h-5 w-5 text-green-600" />;
+  if (payment.status === "failed") return <XCircle className="h-5 w-5 text-destructive" />;
+  return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+};
+
+/**
+ * Live status of a sale's M-Pesa STK push tenders, with a retry (optionally to
+ * a different number) for prompts that failed or timed out unanswered.
+ */
+const MpesaPaymentStatus: React.FC<MpesaPaymentStatusProps> = ({ saleId }) => {
+  const { sales } = useInventory();
+  const queryClient = useQueryClient();
+  const sale = sales.find(s => s.id === saleId);
+  const payments = (sale?.payments ?? []).filter(p => p.method === "mpesa" && p.phone);
+  const waiting = payments.some(p => p.status === "pending");
+
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = window.setInterval(
+      () => queryClient.invalidateQueries({ queryKey: inventoryKeys.sales }),
+      POLL_MS
+    );
+    return () => window.clearInterval(timer);
+  }, [waiting, queryClient]);
+
+  if (!payments.length) return null;
+
+  return (
+    <div className="space-y-2">
+      {payments.map(payment => (
+        <PaymentRow key={payment.id} payment={payment} />
+      ))}
+    </div>
+  );
+};
+
+const PaymentRow: React.FC<{ payment: Payment }> = ({ payment }) => {
+  const [phone, setPhone] = useState(payment.phone ?? "");
+  const [sending, setSending] = useState(false);
+  // Re-rendered when the last prompt times out, to offer a resend.
+  const [now, setNow] = useState(Date.now);
+  const resendable = canResendPrompt(payment, now);
+
+  useEffect(() => {
+    if (payment.status !== "pending" || !payment.promptedAt) return;
+    const timer = window.setTimeout(
+      () => setNow(Date.now()),
+      Date.parse(payment.promptedAt) + MPESA_PROMPT_TIMEOUT_MS - Date.now()
+    );
+    return () => window.clearTimeout(timer);
+  }, [payment.status, payment.promptedAt]);
+
+  const retry = async () => {
+    setSending(true);
+    try {
+      await requestStkPush(payment.id, phone);
+      toast.success("M-Pesa prompt sent.");
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <StatusIcon payment={payment} />
+        <span className="flex-1 font-medium">
+          {formatKSH(payment.amount)} via M-Pesa to {payment.phone}
+        </span>
+        {payment.status === "paid" && (
+          <span className="font-mono text-sm">{payment.reference}</span>
+        )}
+      </div>
+      {payment.status === "pending" && (
+        <p className="text-sm text-muted-foreground">
+          {resendable
+            ? "No answer from the customer's phone."
+            : "Waiting for the customer to enter their M-Pesa PIN…"}
+        </p>
+      )}
+      {payment.status === "failed" && (
+        <p className="text-sm text-destructive">{payment.failureReason || "Payment failed."}</p>
+      )}
+      {resendable && (
+        <div className="flex items-center gap-2">
+          <Input
+            aria-label="Phone to prompt"
+            className="flex-1"
+            value={phone}
+            onChange={e => setPhone(e.target.value)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            disabled={sending || !isMpesaPhone(phone)}
+            onClick={retry}
+          >
+            <RotateCw className="mr-2 h-4 w-4" /> Resend
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MpesaPaymentStatus;
@@ -0,0 +1,123 @@
+// src/components/PaymentTenders.tsx
+
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PaymentMethod } from "@/types";
+import { PaymentInput } from "@/lib/repository";
+import { formatKSH } from "@/lib/formatCurrency";
+import { PAYMENT_METHODS, paymentsRemaining } from "@/lib/payments";
+import { cn } from "@/lib/utils";
+
+interface PaymentTendersProps {
+  payments: PaymentInput[];
+  onChange: (payments: PaymentInput[]) => void;
+  total: number;
+}
+
+/**
+ * M-Pesa codes start with a letter, so anything starting with a digit or "+"
+ * is taken as the customer's phone number for an STK push.
+ */
+const mpesaEntry = (value: string): Partial<PaymentInput> =>
+  /^[\d+]/.test(value)
+    ? { phone: value.replace(/[^\d+]/g, ""), reference: undefined }
+    : { reference: value.toUpperCase(), phone: undefined };
+
+/**
+ * Editable list of tenders for a sale. A single tender always covers the whole
+ * total; "Split payment" adds more and the cashier enters each amount.
+ */
+const PaymentTenders: React.FC<PaymentTendersProps> = ({ payments, onChange, total }) => {
+  const split = payments.length > 1;
+  const remaining = paymentsRemaining(payments, total);
+
+  const update = (index: number, changes: Partial<PaymentInput>) =>
+    onChange(payments.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+
+  return (
+    <div className="space-y-2">
+      {payments.map((payment, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={payment.method}
+            onValueChange={value => update(index, { method: value as PaymentMethod })}
+          >
+            <SelectTrigger className="w-32" aria-label="Payment method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAYMENT_METHODS.map(m => (
+                <SelectItem key={m.value} value={m.value}>
+                  {m.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            step={payment.method === "mpesa" ? 1 : 0.01}
+            aria-label="Amount"
+            className="w-32"
+            disabled={!split}
+            value={split ? payment.amount : total.toFixed(2)}
+            onChange={e => update(index, { amount: Number(e.target.value) })}
+          />
+          {payment.method === "mpesa" && (
+            <Input
+              placeholder="Code or phone"
+              aria-label="M-Pesa transaction code or customer phone"
+              title="Type the M-Pesa code, or the customer's phone to send them a payment prompt"
+              className="flex-1 uppercase"
+              maxLength={13}
+              value={payment.phone ?? payment.reference ?? ""}
+              onChange={e => update(index, mpesaEntry(e.target.value))}
+            />
+          )}
+          {split && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove payment"
+              onClick={() => onChange(payments.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            // Splitting a single tender: freeze its amount at the total so far.
+            const current = split ? payments : [{ ...payments[0], amount: total }];
+            const left = paymentsRemaining(current, total);
+            onChange([...current, { method: "cash", amount: left > 0 ? left : 0 }]);
+          }}
+        >
+          <Plus className="mr-2 h-4 w-4" /> Split Payment
+        </Button>
+        {split && (
+          <span className={cn("text-sm font-medium", remaining !== 0 && "text-destructive")}>
+            Remaining: {formatKSH(remaining)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentTenders;
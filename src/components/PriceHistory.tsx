@@ -0,0 +1,285 @@
+// src/components/PriceHistory.tsx
+
+import React, { useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePriceHistory } from "@/hooks/use-price-history";
+import { formatKSH } from "@/lib/formatCurrency";
+import { PRICE_CHANGE_LABELS, priceAt, toDateTimeLocal } from "@/lib/prices";
+import { Product } from "@/types";
+
+interface PriceHistoryProps {
+  product: Product;
+}
+
+const formSchema = z.object({
+  price: z.coerce.number().positive({ message: "Price must be positive." }),
+  effectiveAt: z
+    .string()
+    .min(1, { message: "Choose when the new price starts." })
+    .refine((v) => new Date(v).getTime() > Date.now(), {
+      message: "Choose a time in the future.",
+    }),
+  note: z.string().trim(),
+});
+type FormValues = z.infer<typeof formSchema>;
+
+/** Old value, struck through, when a change moved it. */
+const Previous: React.FC<{ value: number | null; current: number }> = ({ value, current }) =>
+  value !== null && value !== current ? (
+    <div className="text-xs text-muted-foreground line-through">{formatKSH(value)}</div>
+  ) : null;
+
+/**
+ * A product's price and cost over time, newest first, with what it sold at
+ * on any given day and the price changes scheduled for it. A scheduled
+ * change takes effect by itself at its time, even with the app closed.
+ */
+const PriceHistory: React.FC<PriceHistoryProps> = ({ product }) => {
+  const { changes, scheduled, isLoading, schedulePriceChange, cancelScheduledPriceChange } =
+    usePriceHistory(product.id);
+  const [lookupDate, setLookupDate] = useState("");
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { price: product.price, effectiveAt: "", note: "" },
+  });
+  const { handleSubmit, control, formState, reset } = form;
+
+  // The end of the chosen day, so changes made during it count.
+  const priceOnDate = useMemo(
+    () => (lookupDate ? priceAt(changes, new Date(`${lookupDate}T23:59:59`)) : null),
+    [changes, lookupDate]
+  );
+
+  const onSubmit = handleSubmit(async (data) => {
+    try {
+      const saved = await schedulePriceChange({
+        price: data.price,
+        effectiveAt: new Date(data.effectiveAt).toISOString(),
+        note: data.note || undefined,
+      });
+      toast.success(
+        `${product.name} goes to ${formatKSH(saved.price)} on ${new Date(
+          saved.effectiveAt
+        ).toLocaleString()}.`
+      );
+      reset({ price: product.price, effectiveAt: "", note: "" });
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  const handleCancel = async (id: string) => {
+    try {
+      await cancelScheduledPriceChange(id);
+      toast.success("Scheduled price change cancelled.");
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-h-[70vh] overflow-y-auto pr-1">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Sells at <strong>{formatKSH(product.price)}</strong>, costs{" "}
+          {formatKSH(product.cost)} · {changes.length} change{changes.length === 1 ? "" : "s"}{" "}
+          recorded
+        </p>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="price-lookup-date">Price on</Label>
+            <Input
+              id="price-lookup-date"
+              type="date"
+              value={lookupDate}
+              onChange={(e) => setLookupDate(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          {lookupDate && (
+            <p className="pb-2 text-sm">
+              {priceOnDate ? (
+                <>
+                  <strong>{formatKSH(priceOnDate.price)}</strong>{" "}
+                  <span className="text-muted-foreground">
+                    (cost {formatKSH(priceOnDate.cost)})
+                  </span>
+                </>
+              ) : (
+                <span className="text-muted-foreground">No price recorded yet</span>
+              )}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3 rounded-md border p-4">
+        <h3 className="font-medium">Scheduled Changes</h3>
+        {scheduled.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Takes Effect</TableHead>
+                <TableHead className="text-right">New Price</TableHead>
+                <TableHead>Scheduled By</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {scheduled.map((change) => (
+                <TableRow key={change.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(change.effectiveAt).toLocaleString()}
+                    {change.note && (
+                      <div className="mt-1 text-xs text-muted-foreground">{change.note}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatKSH(change.price)}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {change.createdBy ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" onClick={() => handleCancel(change.id)}>
+                      Cancel
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <Form {...form}>
+          <form onSubmit={onSubmit} className="space-y-3">
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+              <FormField
+                control={control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Price (KSh)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name="effectiveAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Takes Effect</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="datetime-local"
+                        min={toDateTimeLocal(new Date())}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Note</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Festive offer ends" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {product.parentId && (
+              <FormDescription>
+                The new price becomes this variant's own price rather than following its
+                parent's.
+              </FormDescription>
+            )}
+            <div className="flex justify-end">
+              <Button type="submit" disabled={formState.isSubmitting}>
+                Schedule Change
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Effective</TableHead>
+            <TableHead>Change</TableHead>
+            <TableHead className="text-right">Price</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+            <TableHead>By</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {changes.map((change) => (
+            <TableRow key={change.id}>
+              <TableCell className="whitespace-nowrap">
+                {new Date(change.effectiveAt).toLocaleString()}
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline">{PRICE_CHANGE_LABELS[change.source]}</Badge>
+              </TableCell>
+              <TableCell className="text-right font-medium">
+                {formatKSH(change.price)}
+                <Previous value={change.previousPrice} current={change.price} />
+              </TableCell>
+              <TableCell className="text-right">
+                {formatKSH(change.cost)}
+                <Previous value={change.previousCost} current={change.cost} />
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">
+                {change.changedBy ?? "System"}
+              </TableCell>
+            </TableRow>
+          ))}
+          {!isLoading && changes.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={5} className="h-24 text-center">
+                No price changes recorded yet.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default PriceHistory;
@@ -0,0 +1,524 @@
+// src/components/ProductParentForm.tsx
+
+import React, { useMemo, useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useInventory } from "@/context/InventoryContext";
+import { usePurchasing } from "@/hooks/use-purchasing";
+import { useProductVariants } from "@/hooks/use-product-variants";
+import { generateBarcode } from "@/lib/barcode";
+import { ProductParentInput, VariantInput } from "@/lib/repository";
+import { formatQuantity } from "@/lib/units";
+import { combinationKey, variantCombinations, variantLabel } from "@/lib/variants";
+import { TAX_CATEGORIES } from "@/lib/tax";
+import { ProductOption, ProductParent, TaxCategory } from "@/types";
+
+// Select items can't have an empty value.
+const NO_SUPPLIER = "none";
+
+const MAX_OPTIONS = 3;
+
+const formSchema = z.object({
+  name: z.string().min(2, { message: "Product name must be at least 2 characters." }),
+  category: z.string().min(1, { message: "Category is required." }),
+  price: z.coerce.number().min(0.01, { message: "Price must be greater than 0." }),
+  cost: z.coerce.number().min(0.01, { message: "Cost must be greater than 0." }),
+  reorderLevel: z.coerce.number().int().min(1, { message: "Reorder level must be at least 1." }),
+  taxCategory: z.enum(["standard", "zero_rated", "exempt"]),
+  supplierId: z.string(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+/** An option axis as typed: values are comma-separated. */
+interface OptionDraft {
+  name: string;
+  values: string;
+}
+
+/** The editable fields of one variant row. */
+interface VariantDraft {
+  price: string;
+  sku: string;
+  barcode: string;
+  openingStock: string;
+}
+
+const EMPTY_DRAFT: VariantDraft = { price: "", sku: "", barcode: "", openingStock: "0" };
+
+const parseOptions = (drafts: OptionDraft[]): ProductOption[] =>
+  drafts
+    .map((draft) => ({
+      name: draft.name.trim(),
+      values: Array.from(
+        new Set(
+          draft.values
+            .split(",")
+            .map((value) => value.trim())
+            .filter(Boolean)
+        )
+      ),
+    }))
+    .filter((option) => option.name && option.values.length);
+
+interface ProductParentFormProps {
+  editParent?: ProductParent | null;
+  onClose: () => void;
+}
+
+/**
+ * Creates or edits a product sold in several sizes/colours: the shared
+ * details, up to three option axes, and one row per generated variant with
+ * its own price override, SKU, barcode and (for new variants) opening stock.
+ */
+const ProductParentForm: React.FC<ProductParentFormProps> = ({ editParent, onClose }) => {
+  const { products } = useInventory();
+  const { suppliers } = usePurchasing();
+  const { saveProductParent } = useProductVariants();
+
+  const existingVariants = useMemo(
+    () => (editParent ? products.filter((p) => p.parentId === editParent.id) : []),
+    [products, editParent]
+  );
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: editParent
+      ? {
+          name: editParent.name,
+          category: editParent.category,
+          price: editParent.price,
+          cost: editParent.cost,
+          reorderLevel: editParent.reorderLevel,
+          supplierId: editParent.supplierId ?? NO_SUPPLIER,
+          taxCategory: editParent.taxCategory,
+        }
+      : {
+          name: "",
+          category: "",
+          price: 0,
+          cost: 0,
+          reorderLevel: 5,
+          supplierId: NO_SUPPLIER,
+          taxCategory: "standard",
+        },
+  });
+  const { handleSubmit, control, formState } = form;
+  const parentPrice = useWatch({ control, name: "price" });
+
+  const [optionDrafts, setOptionDrafts] = useState<OptionDraft[]>(() =>
+    editParent?.options.length
+      ? editParent.options.map((o) => ({ name: o.name, values: o.values.join(", ") }))
+      : [
+          { name: "Size", values: "" },
+          { name: "Colour", values: "" },
+        ]
+  );
+  const options = useMemo(() => parseOptions(optionDrafts), [optionDrafts]);
+
+  // Variant rows are matched to existing variants by their option values.
+  const existingByKey = useMemo(() => {
+    const savedOptions = editParent?.options ?? [];
+    return new Map(
+      existingVariants.map((v) => [combinationKey(v.optionValues ?? {}, savedOptions), v])
+    );
+  }, [existingVariants, editParent]);
+
+  const [drafts, setDrafts] = useState<Record<string, VariantDraft>>(() =>
+    Object.fromEntries(
+      Array.from(existingByKey, ([key, v]) => [
+        key,
+        {
+          price: v.priceOverride === null ? "" : String(v.priceOverride),
+          sku: v.sku ?? "",
+          barcode: v.barcode ?? "",
+          openingStock: "0",
+        },
+      ])
+    )
+  );
+
+  const rows = useMemo(
+    () =>
+      variantCombinations(options).map((values) => {
+        const key = combinationKey(values, options);
+        return { key, values, existing: existingByKey.get(key) };
+      }),
+    [options, existingByKey]
+  );
+  const removedCount = existingVariants.length - rows.filter((row) => row.existing).length;
+
+  const updateOption = (index: number, changes: Partial<OptionDraft>) =>
+    setOptionDrafts((prev) => prev.map((o, i) => (i === index ? { ...o, ...changes } : o)));
+
+  const updateDraft = (key: string, changes: Partial<VariantDraft>) =>
+    setDrafts((prev) => ({ ...prev, [key]: { ...EMPTY_DRAFT, ...prev[key], ...changes } }));
+
+  const fillBarcodes = () => {
+    const taken = new Set(products.map((p) => p.barcode).filter(Boolean) as string[]);
+    Object.values(drafts).forEach((draft) => draft.barcode && taken.add(draft.barcode));
+    setDrafts((prev) => {
+      const next = { ...prev };
+      rows.forEach(({ key }) => {
+        if (next[key]?.barcode) return;
+        const barcode = generateBarcode(taken);
+        taken.add(barcode);
+        next[key] = { ...EMPTY_DRAFT, ...next[key], barcode };
+      });
+      return next;
+    });
+  };
+
+  const onSubmit = handleSubmit(async (data) => {
+    if (!rows.length) {
+      toast.error("Add at least one option with values.");
+      return;
+    }
+    if (new Set(options.map((o) => o.name.toLowerCase())).size < options.length) {
+      toast.error("Each option needs its own name.");
+      return;
+    }
+
+    const variants: VariantInput[] = rows.map(({ key, values, existing }) => {
+      const draft = { ...EMPTY_DRAFT, ...drafts[key] };
+      return {
+        id: existing?.id,
+        optionValues: values,
+        priceOverride: draft.price.trim() ? Number(draft.price) : null,
+        sku: draft.sku.trim() || null,
+        barcode: draft.barcode.trim() || null,
+        openingStock: Math.max(0, Math.floor(Number(draft.openingStock) || 0)),
+      };
+    });
+    if (variants.some((v) => v.priceOverride !== null && !(v.priceOverride > 0))) {
+      toast.error("Variant prices must be greater than 0.");
+      return;
+    }
+
+    try {
+      await saveProductParent(
+        {
+          ...data,
+          supplierId: data.supplierId === NO_SUPPLIER ? null : data.supplierId,
+          options,
+        } as ProductParentInput,
+        variants,
+        editParent?.id
+      );
+      toast.success(editParent ? "Product updated successfully!" : "Product added successfully!");
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+          <FormField
+            control={control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Product Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Cotton T-Shirt" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter category" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="taxCategory"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>VAT</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(v) => field.onChange(v as TaxCategory)}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {TAX_CATEGORIES.map((c) => (
+                      <SelectItem key={c.value} value={c.value}>
+                        {c.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <FormField
+            control={control}
+            name="price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Selling Price</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="cost"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Buying Price</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="reorderLevel"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reorder Level</FormLabel>
+                <FormControl>
+                  <Input type="number" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="supplierId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Supplier</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_SUPPLIER}>No preferred supplier</SelectItem>
+                    {suppliers.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <FormLabel>Options</FormLabel>
+          {optionDrafts.map((option, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                className="w-36"
+                placeholder="Size"
+                aria-label="Option name"
+                value={option.name}
+                onChange={(e) => updateOption(index, { name: e.target.value })}
+              />
+              <Input
+                placeholder="S, M, L"
+                aria-label={`${option.name || "Option"} values`}
+                value={option.values}
+                onChange={(e) => updateOption(index, { values: e.target.value })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove option"
+                disabled={optionDrafts.length === 1}
+                onClick={() => setOptionDrafts((prev) => prev.filter((_o, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {optionDrafts.length < MAX_OPTIONS && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setOptionDrafts((prev) => [...prev, { name: "", values: "" }])}
+            >
+              <Plus className="mr-2 h-4 w-4" /> Add Option
+            </Button>
+          )}
+          <FormDescription>
+            Separate values with commas. Renaming a value replaces its variants.
+          </FormDescription>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <FormLabel>Variants ({rows.length})</FormLabel>
+            {rows.length > 0 && (
+              <Button type="button" variant="outline" size="sm" onClick={fillBarcodes}>
+                Generate Missing Barcodes
+              </Button>
+            )}
+          </div>
+          <div className="max-h-72 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variant</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Barcode</TableHead>
+                  <TableHead className="w-24">Stock</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ key, values, existing }) => {
+                  const draft = { ...EMPTY_DRAFT, ...drafts[key] };
+                  const label = variantLabel(values, options);
+                  return (
+                    <TableRow key={key}>
+                      <TableCell className="whitespace-nowrap font-medium">
+                        {label}
+                        {!existing && editParent && (
+                          <span className="ml-2 text-xs text-muted-foreground">new</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          aria-label={`${label} price`}
+                          placeholder={String(parentPrice ?? "")}
+                          value={draft.price}
+                          onChange={(e) => updateDraft(key, { price: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          aria-label={`${label} SKU`}
+                          value={draft.sku}
+                          onChange={(e) => updateDraft(key, { sku: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          aria-label={`${label} barcode`}
+                          value={draft.barcode}
+                          onChange={(e) => updateDraft(key, { barcode: e.target.value })}
+                          onKeyDown={(e) => e.key === "Enter" && e.preventDefault()}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {existing ? (
+                          <span className="text-sm">
+                            {formatQuantity(existing.stockQuantity, existing.unit)}
+                          </span>
+                        ) : (
+                          <Input
+                            type="number"
+                            min={0}
+                            aria-label={`${label} opening stock`}
+                            value={draft.openingStock}
+                            onChange={(e) => updateDraft(key, { openingStock: e.target.value })}
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {rows.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-16 text-center text-muted-foreground">
+                      Add option values to generate variants.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <FormDescription>
+            Leave a price empty to sell at the product's price. Stock of saved variants changes
+            through Adjust Stock.
+          </FormDescription>
+          {removedCount > 0 && (
+            <p className="text-sm font-medium text-destructive">
+              {removedCount} existing variant{removedCount === 1 ? "" : "s"} will be deleted, with
+              {removedCount === 1 ? " its" : " their"} stock history.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button variant="outline" type="button" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={formState.isSubmitting}>
+            {editParent ? "Update Product" : "Add Product"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ProductParentForm;
@@ -0,0 +1,362 @@
+// src/components/PromotionForm.tsx
+
+import React, { useMemo } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useInventory } from "@/context/InventoryContext";
+import { usePromotions } from "@/hooks/use-promotions";
+import { PROMOTION_KINDS } from "@/lib/discounts";
+import { Promotion, PromotionKind } from "@/types";
+
+const formSchema = z
+  .object({
+    name: z.string().trim().min(2, { message: "Name must be at least 2 characters." }),
+    kind: z.enum(["percent_off", "buy_x_get_y"]),
+    percent: z.coerce.number(),
+    buyQuantity: z.coerce.number(),
+    freeQuantity: z.coerce.number(),
+    scope: z.enum(["all", "category", "product"]),
+    category: z.string(),
+    productId: z.string(),
+    startsOn: z.string().min(1, { message: "Choose when it starts." }),
+    endsOn: z.string(),
+    active: z.boolean(),
+  })
+  .superRefine((data, ctx) => {
+    const issue = (path: string, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [path] });
+    if (data.kind === "percent_off" && !(data.percent > 0 && data.percent <= 100)) {
+      issue("percent", "Enter a percent between 0 and 100.");
+    }
+    if (data.kind === "buy_x_get_y") {
+      if (!(Number.isInteger(data.buyQuantity) && data.buyQuantity > 0)) {
+        issue("buyQuantity", "Enter a whole number.");
+      }
+      if (!(Number.isInteger(data.freeQuantity) && data.freeQuantity > 0)) {
+        issue("freeQuantity", "Enter a whole number.");
+      }
+    }
+    if (data.scope === "category" && !data.category) issue("category", "Choose a category.");
+    if (data.scope === "product" && !data.productId) issue("productId", "Choose a product.");
+    if (data.endsOn && data.endsOn < data.startsOn) {
+      issue("endsOn", "It can't end before it starts.");
+    }
+  });
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface PromotionFormProps {
+  onClose: () => void;
+  editPromotion?: Promotion | null;
+}
+
+const toFormValues = (promotion?: Promotion | null): FormValues => ({
+  name: promotion?.name ?? "",
+  kind: promotion?.kind ?? "percent_off",
+  percent: promotion?.percent ?? 10,
+  buyQuantity: promotion?.buyQuantity ?? 2,
+  freeQuantity: promotion?.freeQuantity ?? 1,
+  scope: promotion?.productId ? "product" : promotion?.category ? "category" : "all",
+  category: promotion?.category ?? "",
+  productId: promotion?.productId ?? "",
+  startsOn: promotion?.startsOn ?? new Date().toISOString().split("T")[0],
+  endsOn: promotion?.endsOn ?? "",
+  active: promotion?.active ?? true,
+});
+
+/**
+ * Adds or edits a promotion: a percent off, or buy X get Y free, on one
+ * product, a category or everything, for a date range.
+ */
+const PromotionForm: React.FC<PromotionFormProps> = ({ onClose, editPromotion }) => {
+  const { products } = useInventory();
+  const { savePromotion } = usePromotions();
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(editPromotion),
+  });
+  const { handleSubmit, control, formState } = form;
+  const [kind, scope] = useWatch({ control, name: ["kind", "scope"] });
+
+  const categories = useMemo(
+    () => [...new Set(products.map((p) => p.category))].sort((a, b) => a.localeCompare(b)),
+    [products]
+  );
+  const sortedProducts = useMemo(
+    () => [...products].sort((a, b) => a.name.localeCompare(b.name)),
+    [products]
+  );
+
+  const onSubmit = handleSubmit(async (data) => {
+    try {
+      await savePromotion(
+        {
+          name: data.name,
+          kind: data.kind,
+          percent: data.kind === "percent_off" ? Number(data.percent) : null,
+          buyQuantity: data.kind === "buy_x_get_y" ? Number(data.buyQuantity) : null,
+          freeQuantity: data.kind === "buy_x_get_y" ? Number(data.freeQuantity) : null,
+          productId: data.scope === "product" ? data.productId : null,
+          category: data.scope === "category" ? data.category : null,
+          startsOn: data.startsOn,
+          endsOn: data.endsOn || null,
+          active: data.active,
+        },
+        editPromotion?.id
+      );
+      toast.success(editPromotion ? "Promotion updated!" : "Promotion added!");
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <FormField
+          control={control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Back to school" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="kind"
+            render={({ field }) => (
+              <FormItem className="col-span-2 sm:col-span-1">
+                <FormLabel>Discount</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(v) => field.onChange(v as PromotionKind)}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {PROMOTION_KINDS.map((k) => (
+                      <SelectItem key={k.value} value={k.value}>
+                        {k.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {kind === "percent_off" ? (
+            <FormField
+              control={control}
+              name="percent"
+              render={({ field }) => (
+                <FormItem className="col-span-2 sm:col-span-1">
+                  <FormLabel>Percent Off</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} max={100} step="0.01" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ) : (
+            <div className="col-span-2 grid grid-cols-2 gap-2 sm:col-span-1">
+              <FormField
+                control={control}
+                name="buyQuantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Buy</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} step={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name="freeQuantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Get Free</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} step={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+        </div>
+        {kind === "buy_x_get_y" && (
+          <p className="text-sm text-muted-foreground">
+            Counted per sale line in the unit sold: buy 2 get 1 makes every third one free.
+          </p>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="scope"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Applies To</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="all">Everything</SelectItem>
+                    <SelectItem value="category">A category</SelectItem>
+                    <SelectItem value="product">A product</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {scope === "category" && (
+            <FormField
+              control={control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a category" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {categories.map((c) => (
+                        <SelectItem key={c} value={c}>
+                          {c}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          {scope === "product" && (
+            <FormField
+              control={control}
+              name="productId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Product</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a product" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {sortedProducts.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {p.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="startsOn"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Starts</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="endsOn"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ends</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormDescription>Last day it applies; blank runs until switched off.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={control}
+          name="active"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-3">
+              <div className="space-y-1">
+                <FormLabel>Active</FormLabel>
+                <FormDescription>Switch off to pause it without deleting it.</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={formState.isSubmitting}>
+            {editPromotion ? "Update Promotion" : "Add Promotion"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default PromotionForm;
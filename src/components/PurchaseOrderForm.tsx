@@ -0,0 +1,361 @@
+// src/components/PurchaseOrderForm.tsx
+
+import React, { useMemo } from "react";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PurchaseOrder } from "@/types";
+import { useInventory } from "@/context/InventoryContext";
+import { usePurchasing } from "@/hooks/use-purchasing";
+import { formatKSH } from "@/lib/formatCurrency";
+import { formatOrderNumber } from "@/lib/purchasing";
+import { PurchaseOrderLineInput } from "@/lib/repository";
+import {
+  defaultPurchaseUnit,
+  findUnit,
+  formatQuantity,
+  quantityStep,
+  unitOptions,
+} from "@/lib/units";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formSchema = z.object({
+  supplierId: z.string().min(1, { message: "Choose a supplier." }),
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1, { message: "Choose a product." }),
+        quantity: z.coerce.number().positive({ message: "Must be more than 0." }),
+        unit: z.string(),
+        unitCost: z.coerce.number().min(0, { message: "Cannot be negative." }),
+      })
+    )
+    .min(1, { message: "Add at least one item." }),
+  orderDate: z.string().min(1, { message: "Date is required." }),
+  expectedDate: z.string(),
+  note: z.string().trim(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface PurchaseOrderFormProps {
+  onClose: () => void;
+  editOrder?: PurchaseOrder | null;
+  onSaved?: (order: PurchaseOrder) => void;
+}
+
+/**
+ * Creates a purchase order, or edits an open one before anything has been
+ * received. Products are ordered in their purchase pack where they have one,
+ * and unit costs start at the product's current cost for that unit.
+ */
+const PurchaseOrderForm: React.FC<PurchaseOrderFormProps> = ({ onClose, editOrder, onSaved }) => {
+  const { products } = useInventory();
+  const { suppliers, savePurchaseOrder } = usePurchasing();
+  const productById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      supplierId: editOrder?.supplierId ?? "",
+      items: editOrder?.items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantityOrdered,
+        unit: item.unit,
+        unitCost: item.unitCost,
+      })) ?? [{ productId: "", quantity: 1, unit: "", unitCost: 0 }],
+      orderDate: editOrder?.orderDate ?? new Date().toISOString().split("T")[0],
+      expectedDate: editOrder?.expectedDate ?? "",
+      note: editOrder?.note ?? "",
+    },
+  });
+  const { handleSubmit, control, formState, setValue, getValues, setError } = form;
+  const { fields, append, remove } = useFieldArray({ control, name: "items" });
+  const items = useWatch({ control, name: "items" });
+
+  const total = (items ?? []).reduce(
+    (sum, item) => sum + (Number(item.quantity) || 0) * (Number(item.unitCost) || 0),
+    0
+  );
+
+  // Suggest a delivery date from the supplier's lead time.
+  const handleSupplierChange = (supplierId: string) => {
+    setValue("supplierId", supplierId, { shouldValidate: true });
+    const supplier = suppliers.find(s => s.id === supplierId);
+    const orderDate = getValues("orderDate");
+    if (supplier && orderDate && !getValues("expectedDate")) {
+      const expected = new Date(new Date(orderDate).getTime() + supplier.leadTimeDays * DAY_MS);
+      setValue("expectedDate", expected.toISOString().split("T")[0]);
+    }
+  };
+
+  const onSubmit = handleSubmit(async data => {
+    const fractional = data.items.findIndex(
+      item =>
+        !productById.get(item.productId)?.decimalQuantities && !Number.isInteger(item.quantity)
+    );
+    if (fractional >= 0) {
+      setError(`items.${fractional}.quantity`, { message: "Whole numbers only." });
+      return;
+    }
+    try {
+      const saved = await savePurchaseOrder(
+        {
+          supplierId: data.supplierId,
+          items: data.items as PurchaseOrderLineInput[],
+          orderDate: data.orderDate,
+          expectedDate: data.expectedDate || null,
+          note: data.note || undefined,
+        },
+        editOrder?.id
+      );
+      toast.success(
+        editOrder ? `${formatOrderNumber(saved)} updated!` : `${formatOrderNumber(saved)} created!`
+      );
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <FormField
+          control={control}
+          name="supplierId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Supplier</FormLabel>
+              <Select value={field.value} onValueChange={handleSupplierChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a supplier" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {suppliers.map(s => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="space-y-2">
+          <FormLabel>Items</FormLabel>
+          {fields.map((field, index) => (
+            <div key={field.id} className="flex items-start gap-2">
+              <FormField
+                control={control}
+                name={`items.${index}.productId`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <Select
+                      value={field.value}
+                      onValueChange={productId => {
+                        field.onChange(productId);
+                        const product = productById.get(productId);
+                        const unit = product && defaultPurchaseUnit(product);
+                        setValue(`items.${index}.unit`, unit?.name ?? "");
+                        setValue(
+                          `items.${index}.unitCost`,
+                          (product?.cost ?? 0) * (unit?.factor ?? 1)
+                        );
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a product" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {products.map(p => (
+                          <SelectItem key={p.id} value={p.id}>
+                            {p.name} (Stock: {formatQuantity(p.stockQuantity, p.unit)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`items.${index}.quantity`}
+                render={({ field }) => (
+                  <FormItem className="w-20">
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={quantityStep(productById.get(items?.[index]?.productId ?? ""))}
+                        aria-label="Quantity"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`items.${index}.unit`}
+                render={({ field }) => {
+                  const product = productById.get(items?.[index]?.productId ?? "");
+                  const options = product ? unitOptions(product, "purchase") : [];
+                  return (
+                    <FormItem className="w-24">
+                      {options.length > 1 ? (
+                        <Select
+                          value={field.value}
+                          onValueChange={name => {
+                            field.onChange(name);
+                            const factor = findUnit(product, name, "purchase").factor;
+                            setValue(`items.${index}.unitCost`, product.cost * factor);
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger aria-label="Unit">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {options.map(u => (
+                              <SelectItem key={u.name} value={u.name}>
+                                {u.factor === 1 ? u.name : `${u.name} (${u.factor} ${product.unit})`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <div className="pt-2 text-sm text-muted-foreground">{product?.unit}</div>
+                      )}
+                    </FormItem>
+                  );
+                }}
+              />
+              <FormField
+                control={control}
+                name={`items.${index}.unitCost`}
+                render={({ field }) => (
+                  <FormItem className="w-28">
+                    <FormControl>
+                      <Input type="number" min={0} step="0.01" aria-label="Unit cost" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove item"
+                disabled={fields.length === 1}
+                onClick={() => remove(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append({ productId: "", quantity: 1, unit: "", unitCost: 0 })}
+          >
+            <Plus className="mr-2 h-4 w-4" /> Add Item
+          </Button>
+          {formState.errors.items?.root && (
+            <p className="text-sm font-medium text-destructive">
+              {formState.errors.items.root.message}
+            </p>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="orderDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Order Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="expectedDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Expected Delivery</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Note</FormLabel>
+              <FormControl>
+                <Input placeholder="Optional" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="bg-secondary p-3 rounded-md">
+          <div className="flex justify-between">
+            <span>Order Total:</span>
+            <span className="font-medium">{formatKSH(total)}</span>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={formState.isSubmitting}>
+            {editOrder ? "Update Order" : "Create Order"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default PurchaseOrderForm;
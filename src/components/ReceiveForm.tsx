@@ -0,0 +1,237 @@
+// src/components/ReceiveForm.tsx
+
+import React from "react";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { PurchaseOrder } from "@/types";
+import { usePurchasing } from "@/hooks/use-purchasing";
+import { formatKSH } from "@/lib/formatCurrency";
+import { formatOrderNumber, outstandingQuantity } from "@/lib/purchasing";
+import { formatQuantity, roundQuantity } from "@/lib/units";
+
+interface ReceiveFormProps {
+  order: PurchaseOrder;
+  onClose: () => void;
+}
+
+/**
+ * Books a delivery against an open purchase order. Quantities start at what
+ * is still outstanding; lower them for a short delivery and the rest stays on
+ * order. Quantities and costs are per the unit each line was ordered in (a
+ * bag, a crate); the cost paid per base unit becomes the product's cost.
+ * Giving a line a lot number or expiry date books it as a stock batch, which
+ * sales then draw down earliest expiry first.
+ */
+const ReceiveForm: React.FC<ReceiveFormProps> = ({ order, onClose }) => {
+  const { receivePurchaseOrder } = usePurchasing();
+  const outstanding = order.items.map(item => roundQuantity(outstandingQuantity(item)));
+
+  const formSchema = z.object({
+    lines: z
+      .array(
+        z.object({
+          itemId: z.string(),
+          quantity: z.coerce.number().min(0, { message: "Cannot be negative." }),
+          unitCost: z.coerce.number().min(0, { message: "Cannot be negative." }),
+          lotNumber: z.string(),
+          expiryDate: z.string(),
+        })
+      )
+      .superRefine((lines, ctx) => {
+        lines.forEach((line, i) => {
+          if (line.quantity > outstanding[i]) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `Only ${formatQuantity(outstanding[i], order.items[i].unit)} on order.`,
+              path: [i, "quantity"],
+            });
+          }
+        });
+        if (!lines.some(line => line.quantity > 0)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter at least one quantity received." });
+        }
+      }),
+  });
+  type FormValues = z.infer<typeof formSchema>;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      lines: order.items.map((item, i) => ({
+        itemId: item.id,
+        quantity: outstanding[i],
+        unitCost: item.unitCost,
+        lotNumber: "",
+        expiryDate: "",
+      })),
+    },
+  });
+  const { handleSubmit, control, formState } = form;
+  const { fields } = useFieldArray({ control, name: "lines" });
+  const lines = useWatch({ control, name: "lines" });
+
+  const total = (lines ?? []).reduce(
+    (sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unitCost) || 0),
+    0
+  );
+
+  const onSubmit = handleSubmit(async data => {
+    try {
+      const saved = await receivePurchaseOrder(
+        order.id,
+        data.lines
+          .filter(line => Number(line.quantity) > 0)
+          .map(line => ({
+            itemId: line.itemId,
+            quantity: Number(line.quantity),
+            unitCost: Number(line.unitCost),
+            lotNumber: line.lotNumber.trim() || undefined,
+            expiryDate: line.expiryDate || undefined,
+          }))
+      );
+      toast.success(
+        saved.status === "received"
+          ? `${formatOrderNumber(order)} fully received.`
+          : `Delivery booked; the rest of ${formatOrderNumber(order)} stays on order.`
+      );
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex gap-3 text-sm font-medium">
+            <span className="flex-1">Item</span>
+            <span className="w-20">Received</span>
+            <span className="w-28">Unit Cost</span>
+          </div>
+          {fields.map((field, index) => {
+            const item = order.items[index];
+            return (
+              <div key={field.id} className="space-y-2">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 pt-2 text-sm">
+                    <div className="font-medium">{item.productName}</div>
+                    <div className="text-muted-foreground">
+                      {formatQuantity(item.quantityReceived)} of{" "}
+                      {formatQuantity(item.quantityOrdered, item.unit)} received
+                    </div>
+                  </div>
+                  <FormField
+                    control={control}
+                    name={`lines.${index}.quantity`}
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="any"
+                            max={outstanding[index]}
+                            disabled={outstanding[index] === 0}
+                            aria-label={`Quantity of ${item.productName} received`}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={control}
+                    name={`lines.${index}.unitCost`}
+                    render={({ field }) => (
+                      <FormItem className="w-28">
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            disabled={outstanding[index] === 0}
+                            aria-label={`Unit cost of ${item.productName}`}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                {outstanding[index] > 0 && (
+                  <div className="flex gap-3">
+                    <FormField
+                      control={control}
+                      name={`lines.${index}.lotNumber`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input
+                              placeholder="Lot number (optional)"
+                              aria-label={`Lot number of ${item.productName}`}
+                              {...field}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={control}
+                      name={`lines.${index}.expiryDate`}
+                      render={({ field }) => (
+                        <FormItem className="w-[9.5rem]">
+                          <FormControl>
+                            <Input
+                              type="date"
+                              aria-label={`Expiry date of ${item.productName}`}
+                              {...field}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {formState.errors.lines?.root && (
+            <p className="text-sm font-medium text-destructive">
+              {formState.errors.lines.root.message}
+            </p>
+          )}
+        </div>
+        <div className="bg-secondary p-3 rounded-md">
+          <div className="flex justify-between">
+            <span>Delivery Value:</span>
+            <span className="font-medium">{formatKSH(total)}</span>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={formState.isSubmitting}>
+            Receive Stock
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ReceiveForm;
@@ -0,0 +1,283 @@
+// src/components/ReorderPlanner.tsx
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Download, FilePlus2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useInventory } from "@/context/InventoryContext";
+import { usePurchasing } from "@/hooks/use-purchasing";
+import { downloadCSV } from "@/lib/csvUtils";
+import { formatKSH } from "@/lib/formatCurrency";
+import { formatOrderNumber } from "@/lib/purchasing";
+import { formatQuantity } from "@/lib/units";
+import {
+  DEFAULT_REORDER_SETTINGS,
+  ReorderSettings,
+  ReorderSuggestion,
+  groupBySupplier,
+  suggestReorders,
+} from "@/lib/reorder";
+import { cn } from "@/lib/utils";
+
+const SETTINGS_KEY = "reorder-settings";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SETTING_FIELDS: { key: keyof ReorderSettings; label: string }[] = [
+  { key: "lookbackDays", label: "Sales history (days)" },
+  { key: "daysOfCover", label: "Days of cover" },
+  { key: "defaultLeadTimeDays", label: "Default lead time (days)" },
+];
+
+const loadSettings = (): ReorderSettings => {
+  try {
+    return { ...DEFAULT_REORDER_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}") };
+  } catch {
+    return DEFAULT_REORDER_SETTINGS;
+  }
+};
+
+const formatDaysLeft = (days: number) =>
+  days === Infinity ? "Not selling" : days < 1 ? "Under a day" : `${Math.floor(days)} days`;
+
+/**
+ * Suggests what to reorder from recent sales velocity, supplier lead times and
+ * the target days of cover, grouped per supplier. Each group becomes a
+ * purchase order or a downloadable order sheet in one click; quantities can be
+ * adjusted first.
+ */
+const ReorderPlanner: React.FC = () => {
+  const { products, sales, remoteChanges } = useInventory();
+  const { suppliers, purchaseOrders, savePurchaseOrder } = usePurchasing();
+  const [settings, setSettings] = useState<ReorderSettings>(loadSettings);
+  // Quantities the user has changed, by product id.
+  const [overrides, setOverrides] = useState<Record<string, number>>({});
+  const [creating, setCreating] = useState<string | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const groups = useMemo(
+    () =>
+      groupBySupplier(suggestReorders(products, sales, suppliers, purchaseOrders, settings)),
+    [products, sales, suppliers, purchaseOrders, settings]
+  );
+  const supplierById = useMemo(() => new Map(suppliers.map(s => [s.id, s])), [suppliers]);
+
+  const quantityOf = (s: ReorderSuggestion) => overrides[s.product.id] ?? s.quantity;
+  const unitCostOf = (s: ReorderSuggestion) => s.product.cost * s.unit.factor;
+  const supplierName = (supplierId: string | null) =>
+    supplierId ? supplierById.get(supplierId)?.name ?? "" : "No preferred supplier";
+
+  const downloadSheet = (supplierId: string | null, suggestions: ReorderSuggestion[]) => {
+    const today = new Date().toISOString().split("T")[0];
+    downloadCSV(
+      suggestions
+        .filter(s => quantityOf(s) > 0)
+        .map(s => ({
+          Supplier: supplierName(supplierId),
+          Product: s.product.name,
+          Category: s.product.category,
+          "In Stock": formatQuantity(s.product.stockQuantity, s.product.unit),
+          "On Order": formatQuantity(s.onOrder, s.product.unit),
+          "Sold per Day": s.dailySales.toFixed(2),
+          "Order Quantity": quantityOf(s),
+          Unit: s.unit.name,
+          "Unit Cost": unitCostOf(s).toFixed(2),
+          "Line Total": (unitCostOf(s) * quantityOf(s)).toFixed(2),
+        })),
+      `order_sheet_${supplierName(supplierId).replace(/\W+/g, "_").toLowerCase()}_${today}.csv`
+    );
+  };
+
+  const createOrder = async (supplierId: string, suggestions: ReorderSuggestion[]) => {
+    const items = suggestions
+      .filter(s => quantityOf(s) > 0)
+      .map(s => ({
+        productId: s.product.id,
+        quantity: quantityOf(s),
+        unit: s.unit.name,
+        unitCost: unitCostOf(s),
+      }));
+    if (items.length === 0) return;
+    const leadTimeDays = supplierById.get(supplierId)?.leadTimeDays ?? settings.defaultLeadTimeDays;
+    const today = new Date();
+    setCreating(supplierId);
+    try {
+      const order = await savePurchaseOrder({
+        supplierId,
+        items,
+        orderDate: today.toISOString().split("T")[0],
+        expectedDate: new Date(today.getTime() + leadTimeDays * DAY_MS).toISOString().split("T")[0],
+        note: "Raised from the reorder planner",
+      });
+      setOverrides(prev => {
+        const next = { ...prev };
+        suggestions.forEach(s => delete next[s.product.id]);
+        return next;
+      });
+      toast.success(`${formatOrderNumber(order)} created for ${supplierName(supplierId)}`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+    setCreating(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+        <div>
+          <CardTitle>Reorder Planner</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Suggested from the last {settings.lookbackDays} days of sales, each supplier's lead
+            time and {settings.daysOfCover} days of cover.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          {SETTING_FIELDS.map(({ key, label }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`reorder-${key}`} className="text-xs">
+                {label}
+              </Label>
+              <Input
+                id={`reorder-${key}`}
+                type="number"
+                min={key === "lookbackDays" ? 1 : 0}
+                className="w-28"
+                value={settings[key]}
+                onChange={e =>
+                  setSettings(prev => ({ ...prev, [key]: Math.max(0, Number(e.target.value) || 0) }))
+                }
+              />
+            </div>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {groups.map(({ supplierId, suggestions }) => {
+          const total = suggestions.reduce((sum, s) => sum + unitCostOf(s) * quantityOf(s), 0);
+          return (
+            <div key={supplierId ?? "none"} className="space-y-2">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <h3 className="font-semibold">{supplierName(supplierId)}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {suggestions.length} product{suggestions.length === 1 ? "" : "s"} ·{" "}
+                    {formatKSH(total)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => downloadSheet(supplierId, suggestions)}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Order Sheet
+                  </Button>
+                  {supplierId && (
+                    <Button
+                      size="sm"
+                      disabled={creating !== null || total <= 0}
+                      onClick={() => createOrder(supplierId, suggestions)}
+                    >
+                      <FilePlus2 className="mr-2 h-4 w-4" />
+                      Create Purchase Order
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {!supplierId && (
+                <p className="text-xs text-muted-foreground">
+                  Set a supplier on these products to order them with a purchase order.
+                </p>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">In Stock</TableHead>
+                    <TableHead className="text-right">On Order</TableHead>
+                    <TableHead className="text-right">Sold / Day</TableHead>
+                    <TableHead className="text-right">Lasts</TableHead>
+                    <TableHead className="text-right">Order Qty</TableHead>
+                    <TableHead className="text-right">Line Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suggestions.map(s => (
+                    <TableRow
+                      key={s.product.id}
+                      className={cn(remoteChanges.has(s.product.id) && "animate-remote-flash")}
+                    >
+                      <TableCell className="font-medium">{s.product.name}</TableCell>
+                      <TableCell className="text-right">
+                        {formatQuantity(s.product.stockQuantity, s.product.unit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {s.onOrder ? formatQuantity(s.onOrder, s.product.unit) : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">{s.dailySales.toFixed(1)}</TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right whitespace-nowrap",
+                          s.daysLeft < s.leadTimeDays && "text-destructive"
+                        )}
+                      >
+                        {formatDaysLeft(s.daysLeft)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-20 text-right"
+                            aria-label={`Quantity of ${s.product.name} to order`}
+                            value={quantityOf(s)}
+                            onChange={e =>
+                              setOverrides(prev => ({
+                                ...prev,
+                                [s.product.id]: Math.max(
+                                  0,
+                                  Math.floor(Number(e.target.value) || 0)
+                                ),
+                              }))
+                            }
+                          />
+                          <span className="w-12 text-left text-sm text-muted-foreground">
+                            {s.unit.name}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatKSH(unitCostOf(s) * quantityOf(s))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          );
+        })}
+        {groups.length === 0 && (
+          <p className="py-8 text-center text-muted-foreground">
+            Nothing needs reordering; stock and open orders cover expected sales.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReorderPlanner;
@@ -0,0 +1,193 @@
+// src/components/RepaymentForm.tsx
+
+import React from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Customer, PaymentMethod } from "@/types";
+import { useCustomers } from "@/hooks/use-customers";
+import { formatKSH } from "@/lib/formatCurrency";
+import { PAYMENT_METHODS } from "@/lib/payments";
+
+const REPAYMENT_METHODS = PAYMENT_METHODS.filter(m => m.value !== "credit");
+
+interface RepaymentFormProps {
+  customer: Customer;
+  /** What the customer currently owes; repayments cannot exceed it. */
+  outstanding: number;
+  onClose: () => void;
+}
+
+/**
+ * Takes a repayment from a customer; the record_repayment RPC allocates it to
+ * their oldest unpaid credit sales.
+ */
+const RepaymentForm: React.FC<RepaymentFormProps> = ({ customer, outstanding, onClose }) => {
+  const { recordRepayment } = useCustomers();
+
+  const formSchema = z
+    .object({
+      amount: z.coerce
+        .number()
+        .positive({ message: "Amount must be positive." })
+        .max(outstanding, { message: `${customer.name} owes ${formatKSH(outstanding)}.` }),
+      method: z.enum(["cash", "mpesa", "card"]),
+      reference: z.string().trim(),
+      date: z.string().min(1, { message: "Date is required." }),
+      note: z.string().trim(),
+    })
+    .refine(v => v.method !== "mpesa" || /^[A-Z0-9]{10}$/i.test(v.reference), {
+      message: "Enter the 10-character M-Pesa transaction code.",
+      path: ["reference"],
+    });
+  type FormValues = z.infer<typeof formSchema>;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      amount: outstanding,
+      method: "cash",
+      reference: "",
+      date: new Date().toISOString().split("T")[0],
+      note: "",
+    },
+  });
+  const { handleSubmit, control, formState } = form;
+  const method = useWatch({ control, name: "method" });
+
+  const onSubmit = handleSubmit(async data => {
+    try {
+      await recordRepayment({
+        customerId: customer.id,
+        amount: Number(data.amount),
+        method: data.method as PaymentMethod,
+        reference: data.reference || undefined,
+        date: data.date,
+        note: data.note || undefined,
+      });
+      toast.success(`Repayment of ${formatKSH(Number(data.amount))} recorded.`);
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {customer.name} owes {formatKSH(outstanding)}. The repayment settles their oldest
+          sales first.
+        </p>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step="0.01" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="method"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Paid By</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {REPAYMENT_METHODS.map(m => (
+                      <SelectItem key={m.value} value={m.value}>
+                        {m.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {method === "mpesa" && (
+          <FormField
+            control={control}
+            name="reference"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>M-Pesa Code</FormLabel>
+                <FormControl>
+                  <Input className="uppercase" maxLength={10} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        <FormField
+          control={control}
+          name="date"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Date</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Note</FormLabel>
+              <FormControl>
+                <Input placeholder="Optional" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={formState.isSubmitting}>
+            Record Repayment
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default RepaymentForm;
@@ -0,0 +1,286 @@
+// src/components/ReturnForm.tsx
+
+import React from "react";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PaymentMethod, Sale } from "@/types";
+import { useInventory } from "@/context/InventoryContext";
+import { formatKSH } from "@/lib/formatCurrency";
+import { PAYMENT_METHODS } from "@/lib/payments";
+import { saleBalance } from "@/lib/credit";
+import { paidPrice, returnedQuantity } from "@/lib/sales";
+import { formatQuantity, roundQuantity } from "@/lib/units";
+import { ReturnLineInput } from "@/lib/repository";
+
+const RETURN_REASONS = [
+  "Damaged or faulty",
+  "Expired",
+  "Wrong item",
+  "Customer changed mind",
+  "Other",
+];
+
+interface ReturnFormProps {
+  sale: Sale;
+  onClose: () => void;
+}
+
+/**
+ * Takes back part or all of a sale: the cashier picks how many of each line
+ * came back, whether they can be resold, and how the refund is paid.
+ */
+const ReturnForm: React.FC<ReturnFormProps> = ({ sale, onClose }) => {
+  const { recordReturn } = useInventory();
+  const returnable = sale.items.map(item =>
+    roundQuantity(item.quantity - returnedQuantity(sale, item.id))
+  );
+  const owed = saleBalance(sale);
+  const refundMethods = PAYMENT_METHODS.filter(m => m.value !== "credit" || owed > 0);
+
+  const formSchema = z.object({
+    lines: z
+      .array(
+        z.object({
+          saleItemId: z.string(),
+          quantity: z.coerce.number().min(0, { message: "Cannot be negative." }),
+          restock: z.boolean(),
+        })
+      )
+      .superRefine((lines, ctx) => {
+        lines.forEach((line, i) => {
+          if (line.quantity > returnable[i]) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `Only ${formatQuantity(returnable[i], sale.items[i].unit)} left to return.`,
+              path: [i, "quantity"],
+            });
+          }
+        });
+        if (!lines.some(line => line.quantity > 0)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Choose at least one item to return." });
+        }
+      }),
+    reason: z.string().min(1, { message: "Choose a reason." }),
+    refundMethod: z.string().min(1),
+    date: z.string().min(1, { message: "Date is required." }),
+    note: z.string().trim(),
+  });
+  type FormValues = z.infer<typeof formSchema>;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      lines: sale.items.map(item => ({ saleItemId: item.id, quantity: 0, restock: true })),
+      reason: "",
+      refundMethod: sale.amountDue > 0 && owed > 0 ? "credit" : "cash",
+      date: new Date().toISOString().split("T")[0],
+      note: "",
+    },
+  });
+  const { handleSubmit, control, formState } = form;
+  const { fields } = useFieldArray({ control, name: "lines" });
+  const lines = useWatch({ control, name: "lines" });
+
+  const refund = sale.items.reduce(
+    (sum, item, i) =>
+      sum + Math.round(paidPrice(item) * (Number(lines?.[i]?.quantity) || 0) * 100) / 100,
+    0
+  );
+
+  const onSubmit = handleSubmit(async data => {
+    const items = (data.lines as ReturnLineInput[]).filter(line => Number(line.quantity) > 0);
+    try {
+      await recordReturn({
+        saleId: sale.id,
+        items: items.map(line => ({ ...line, quantity: Number(line.quantity) })),
+        reason: data.reason,
+        refundMethod: data.refundMethod as PaymentMethod,
+        date: data.date,
+        note: data.note || undefined,
+      });
+      toast.success(`Return recorded. Refund: ${formatKSH(refund)}`);
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <FormLabel>Items Returned</FormLabel>
+          {fields.map((field, index) => {
+            const item = sale.items[index];
+            return (
+              <div key={field.id} className="flex items-start gap-3">
+                <div className="flex-1 pt-2 text-sm">
+                  <div className="font-medium">{item.productName}</div>
+                  <div className="text-muted-foreground">
+                    {formatKSH(paidPrice(item))}/{item.unit} ·{" "}
+                    {formatQuantity(returnable[index])} of {formatQuantity(item.quantity, item.unit)}{" "}
+                    returnable
+                  </div>
+                </div>
+                <FormField
+                  control={control}
+                  name={`lines.${index}.quantity`}
+                  render={({ field }) => (
+                    <FormItem className="w-20">
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          max={returnable[index]}
+                          disabled={returnable[index] === 0}
+                          aria-label={`Quantity of ${item.productName} returned`}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={control}
+                  name={`lines.${index}.restock`}
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0 pt-2">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={v => field.onChange(v === true)} />
+                      </FormControl>
+                      <FormLabel className="font-normal">Restock</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            );
+          })}
+          {formState.errors.lines?.root && (
+            <p className="text-sm font-medium text-destructive">
+              {formState.errors.lines.root.message}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Untick Restock for damaged or expired goods; they are written off instead.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="reason"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reason</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a reason" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {RETURN_REASONS.map(reason => (
+                      <SelectItem key={reason} value={reason}>
+                        {reason}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="refundMethod"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Refund By</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {refundMethods.map(m => (
+                      <SelectItem key={m.value} value={m.value}>
+                        {m.value === "credit" ? "Reduce customer's balance" : m.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="note"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Note</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="bg-secondary p-3 rounded-md">
+          <div className="flex justify-between">
+            <span>Refund:</span>
+            <span className="font-medium">{formatKSH(refund)}</span>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={formState.isSubmitting}>
+            Record Return
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ReturnForm;
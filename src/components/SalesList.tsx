@@ -1,5 +1,4 @@
-import React, { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import React, { Fragment, useState } from "react";
 import {
   Table,
   TableBody,
@@ -16,9 +15,11 @@ import {
   CardFooter,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Plus, Search, Edit, Trash2 } from "lucide-react";
+import { Plus, Search, Edit, Trash2, ChevronDown, ChevronRight, Undo2 } from "lucide-react";
 import AddSaleForm from "./AddSaleForm";
+import ReturnForm from "./ReturnForm";
 import {
   Dialog,
   DialogContent,
@@ -36,6 +37,26 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { formatKSH } from "@/lib/formatCurrency";
+import { formatDiscount } from "@/lib/discounts";
+import { formatQuantity } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import {
+  returnedQuantity,
+  saleNetProfit,
+  saleNetQuantity,
+  saleNetTotal,
+  saleQuantity,
+  saleRefunds,
+  saleSummary,
+} from "@/lib/sales";
+import {
+  paymentBreakdown,
+  paymentMethodLabel,
+  salePaymentSummary,
+  unsettledMpesa,
+} from "@/lib/payments";
+import { CREDIT_STATUS_LABELS, saleBalance, saleCreditStatus } from "@/lib/credit";
+import { useInventory } from "@/context/InventoryContext";
 import { Sale } from "@/types";
 import { toast } from "sonner";
 
@@ -43,44 +64,15 @@ const SalesList: React.FC = () => {
   const [showForm, setShowForm] = useState(false);
   const [editingSale, setEditingSale] = useState<Sale | null>(null);
   const [saleToDelete, setSaleToDelete] = useState<Sale | null>(null);
+  const [saleToReturn, setSaleToReturn] = useState<Sale | null>(null);
+  const [expandedSaleId, setExpandedSaleId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
-  const [sales, setSales] = useState<Sale[]>([]);
+  const { sales, deleteSale, remoteChanges } = useInventory();
   const [currentPage, setCurrentPage] = useState(1);
   const ITEMS_PER_PAGE = 15;
 
-  const fetchSales = async () => {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) return;
-    const { data, error } = await supabase
-      .from("sales")
-      .select("*")
-      .eq("user_id", user.id)
-      .order("date", { ascending: false });
-    if (error) {
-      toast.error("Failed to load sales.");
-    } else {
-      setSales(
-        data.map(row => ({
-          id: row.id,
-          productId: row.product_id,
-          productName: row.product_name,
-          quantity: row.quantity,
-          totalAmount: row.total_amount,
-          profit: row.profit,
-          date: row.date,
-        }))
-      );
-    }
-  };
-
-  useEffect(() => {
-    fetchSales();
-  }, []);
-
   const formatDate = (dateString: string) => {
     const d = new Date(dateString);
     return isNaN(d.getTime())
@@ -93,7 +85,11 @@ const SalesList: React.FC = () => {
   };
 
   const filteredSales = sales
-    .filter(s => s.productName.toLowerCase().includes(searchTerm.toLowerCase()))
+    .filter(
+      s =>
+        s.items.some(item => item.productName.toLowerCase().includes(searchTerm.toLowerCase())) ||
+        (s.customerName ?? "").toLowerCase().includes(searchTerm.toLowerCase())
+    )
     .filter(s => {
       if (startDate && s.date < startDate) return false;
       if (endDate && s.date > endDate) return false;
@@ -107,55 +103,27 @@ const SalesList: React.FC = () => {
     currentPage * ITEMS_PER_PAGE
   );
 
-  const totalProfit = filteredSales.reduce((sum, s) => sum + s.profit, 0);
-  const totalQuantity = filteredSales.reduce((sum, s) => sum + s.quantity, 0);
-  const totalSales = filteredSales.reduce((sum, s) => sum + s.totalAmount, 0);
+  // Footer totals are net of returns.
+  const totalProfit = filteredSales.reduce((sum, s) => sum + saleNetProfit(s), 0);
+  const totalQuantity = filteredSales.reduce((sum, s) => sum + saleNetQuantity(s), 0);
+  const totalSales = filteredSales.reduce((sum, s) => sum + saleNetTotal(s), 0);
+  const totalRefunds = filteredSales.reduce((sum, s) => sum + saleRefunds(s), 0);
+  const paymentTotals = paymentBreakdown(filteredSales).filter(p => p.amount > 0);
 
-  const handleAddOrUpdate = async (sale: Sale) => {
-    await fetchSales();
+  const handleAddOrUpdate = (sale: Sale) => {
     setCurrentPage(1);
   };
   const handleDelete = async (sale: Sale) => {
-  // Step 1: Fetch the product
-  const { data: product, error: fetchError } = await supabase
-    .from("inventory")
-    .select("stock_quantity")
-    .eq("id", sale.productId)
-    .maybeSingle();
-
-
-  if (fetchError || !product) {
-    toast.error("Failed to fetch product for restocking.");
-    return;
-  }
-
-  const updatedQuantity = product.stock_quantity + sale.quantity;
-
-  // Step 2: Update product quantity
-  const { error: updateError } = await supabase
-    .from("inventory")
-    .update({ stock_quantity: updatedQuantity })
-    .eq("id", sale.productId);
-
-  if (updateError) {
-    toast.error("Failed to restock product.");
-    return;
-  }
-
-    //Delete the sale
-    const { error: deleteError } = await supabase.from("sales").delete().eq("id", sale.id);
-
-    if (deleteError) {
-      toast.error("Failed to delete sale.");
-    } else {
+    try {
+      await deleteSale(sale.id);
       toast.success("Sale deleted and stock restored.");
-      fetchSales();
+    } catch (err) {
+      toast.error((err as Error).message);
     }
 
     setSaleToDelete(null);
   };
 
-
   return (
     <>
       <Card>
@@ -173,7 +141,7 @@ const SalesList: React.FC = () => {
                 <Input
                   id="search"
                   type="search"
-                  placeholder="Search products..."
+                  placeholder="Search products or customers..."
                   className="pl-8 w-full"
                   value={searchTerm}
                   onChange={e => {
@@ -226,45 +194,192 @@ const SalesList: React.FC = () => {
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-8" />
                 <TableHead>Date</TableHead>
-                <TableHead>Product</TableHead>
+                <TableHead>Items</TableHead>
                 <TableHead>Quantity</TableHead>
-                <TableHead className="text-right">Unit Price</TableHead>
+                <TableHead>Payment</TableHead>
                 <TableHead className="text-right">Total</TableHead>
                 <TableHead className="text-right">Profit</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {paginatedSales.map(sale => (
-                <TableRow key={sale.id}>
-                  <TableCell>{formatDate(sale.date)}</TableCell>
-                  <TableCell className="font-medium">{sale.productName}</TableCell>
-                  <TableCell>{sale.quantity}</TableCell>
-                  <TableCell className="text-right">
-                    {sale.quantity > 0 ? formatKSH(sale.totalAmount / sale.quantity) : "-"}
-                  </TableCell>
-                  <TableCell className="text-right">{formatKSH(sale.totalAmount)}</TableCell>
-                  <TableCell className="text-right">{formatKSH(sale.profit)}</TableCell>
-                  <TableCell className="text-right">
-                    <div className="flex justify-end space-x-2">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => {
-                          setEditingSale(sale);
-                          setShowForm(true);
-                        }}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button variant="ghost" size="icon" onClick={() => setSaleToDelete(sale)}>
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))}
+              {paginatedSales.map(sale => {
+                const expanded = expandedSaleId === sale.id;
+                return (
+                  <Fragment key={sale.id}>
+                    <TableRow
+                      className={cn(
+                        "cursor-pointer",
+                        remoteChanges.has(sale.id) && "animate-remote-flash"
+                      )}
+                      onClick={() => setExpandedSaleId(expanded ? null : sale.id)}
+                    >
+                      <TableCell>
+                        {expanded ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDate(sale.date)}</TableCell>
+                      <TableCell className="font-medium">
+                        {saleSummary(sale)}
+                        {sale.customerName && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {sale.customerName}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatQuantity(saleQuantity(sale))}</TableCell>
+                      <TableCell>
+                        {salePaymentSummary(sale)}
+                        {unsettledMpesa(sale).length > 0 && (
+                          <Badge variant="outline" className="ml-2">
+                            Unpaid
+                          </Badge>
+                        )}
+                        {saleCreditStatus(sale) && (
+                          <Badge
+                            variant={saleCreditStatus(sale) === "paid" ? "secondary" : "outline"}
+                            className="ml-2"
+                            title={`${formatKSH(saleBalance(sale))} still owed`}
+                          >
+                            {CREDIT_STATUS_LABELS[saleCreditStatus(sale)]}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatKSH(sale.totalAmount)}</TableCell>
+                      <TableCell className="text-right">{formatKSH(sale.profit)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2" onClick={e => e.stopPropagation()}>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Return items"
+                            title="Return items"
+                            disabled={sale.items.every(
+                              item => returnedQuantity(sale, item.id) >= item.quantity
+                            )}
+                            onClick={() => setSaleToReturn(sale)}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setEditingSale(sale);
+                              setShowForm(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => setSaleToDelete(sale)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {expanded &&
+                      sale.items.map(item => (
+                        <TableRow key={item.id} className="bg-muted/30 text-sm">
+                          <TableCell />
+                          <TableCell />
+                          <TableCell>{item.productName}</TableCell>
+                          <TableCell>
+                            {formatQuantity(item.quantity, item.unit)} ×{" "}
+                            {formatKSH(item.unitPrice)}/{item.unit}
+                            {item.discountAmount > 0 && (
+                              <div className="text-xs text-green-600">
+                                -{formatKSH(item.discountAmount)}
+                                {[item.promotionName, item.discount && formatDiscount(item.discount)]
+                                  .filter(Boolean)
+                                  .map(label => ` · ${label}`)}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell />
+                          <TableCell className="text-right">{formatKSH(item.lineTotal)}</TableCell>
+                          <TableCell className="text-right">{formatKSH(item.profit)}</TableCell>
+                          <TableCell />
+                        </TableRow>
+                      ))}
+                    {expanded && sale.discountAmount > 0 && (
+                      <TableRow className="bg-muted/30 text-sm text-green-600">
+                        <TableCell />
+                        <TableCell />
+                        <TableCell colSpan={2}>
+                          Discounts
+                          {sale.discount && `, including ${formatDiscount(sale.discount)} the sale`}
+                        </TableCell>
+                        <TableCell />
+                        <TableCell className="text-right">-{formatKSH(sale.discountAmount)}</TableCell>
+                        <TableCell colSpan={2} />
+                      </TableRow>
+                    )}
+                    {expanded && sale.taxAmount > 0 && (
+                      <TableRow className="bg-muted/30 text-sm text-muted-foreground">
+                        <TableCell />
+                        <TableCell />
+                        <TableCell colSpan={2}>VAT included in the total</TableCell>
+                        <TableCell />
+                        <TableCell className="text-right">{formatKSH(sale.taxAmount)}</TableCell>
+                        <TableCell colSpan={2} />
+                      </TableRow>
+                    )}
+                    {expanded &&
+                      sale.payments.map(payment => (
+                        <TableRow key={payment.id} className="bg-muted/30 text-sm text-muted-foreground">
+                          <TableCell />
+                          <TableCell />
+                          <TableCell colSpan={2}>
+                            Paid by {paymentMethodLabel(payment.method)}
+                            {payment.reference && ` (${payment.reference})`}
+                            {payment.status !== "paid" && (
+                              <Badge
+                                variant={payment.status === "failed" ? "destructive" : "secondary"}
+                                className="ml-2"
+                                title={payment.failureReason ?? `Prompt sent to ${payment.phone}`}
+                              >
+                                {payment.status === "failed" ? "Failed" : "Awaiting PIN"}
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell />
+                          <TableCell className="text-right">{formatKSH(payment.amount)}</TableCell>
+                          <TableCell colSpan={2} />
+                        </TableRow>
+                      ))}
+                    {expanded &&
+                      sale.returns.map(ret => (
+                        <TableRow key={ret.id} className="bg-muted/30 text-sm text-destructive">
+                          <TableCell />
+                          <TableCell>{formatDate(ret.date)}</TableCell>
+                          <TableCell colSpan={2}>
+                            Returned{" "}
+                            {ret.items
+                              .map(item => {
+                                const line = sale.items.find(i => i.id === item.saleItemId);
+                                const quantity = formatQuantity(item.quantity, line?.unit);
+                                return `${quantity} × ${line?.productName ?? "item"}${
+                                  item.restock ? "" : " (written off)"
+                                }`;
+                              })
+                              .join(", ")}{" "}
+                            · {ret.reason}
+                            {ret.note && ` · ${ret.note}`}
+                          </TableCell>
+                          <TableCell>Refunded by {paymentMethodLabel(ret.refundMethod)}</TableCell>
+                          <TableCell className="text-right">-{formatKSH(ret.refundAmount)}</TableCell>
+                          <TableCell className="text-right">-{formatKSH(ret.profitReversed)}</TableCell>
+                          <TableCell />
+                        </TableRow>
+                      ))}
+                  </Fragment>
+                );
+              })}
             </TableBody>
           </Table>
 
@@ -293,9 +408,19 @@ const SalesList: React.FC = () => {
         </CardContent>
 
 
-        <CardFooter className="flex justify-end border-t px-6 py-3 space-x-6">
+        <CardFooter className="flex flex-wrap justify-end gap-x-6 gap-y-2 border-t px-6 py-3">
+          {paymentTotals.map(p => (
+            <div key={p.method} className="text-sm text-muted-foreground">
+              {p.label}: <span className="font-medium text-foreground">{formatKSH(p.amount)}</span>
+            </div>
+          ))}
+          {totalRefunds > 0 && (
+            <div className="text-sm text-muted-foreground">
+              Refunds: <span className="font-medium text-destructive">{formatKSH(totalRefunds)}</span>
+            </div>
+          )}
           <div className="text-sm font-medium">
-            Total Quantity: <span className="text-green-600">{totalQuantity}</span>
+            Total Quantity: <span className="text-green-600">{formatQuantity(totalQuantity)}</span>
           </div>
           <div className="text-sm font-medium">
             Total Sales: <span className="text-green-600">{formatKSH(totalSales)}</span>
@@ -308,7 +433,7 @@ const SalesList: React.FC = () => {
 
       {/* Add / Edit Sale Dialog */}
       <Dialog open={showForm} onOpenChange={setShowForm}>
-        <DialogContent>
+        <DialogContent className="sm:max-w-2xl">
           <DialogHeader>
             <DialogTitle>{editingSale ? "Edit Sale" : "Record New Sale"}</DialogTitle>
           </DialogHeader>
@@ -320,13 +445,26 @@ const SalesList: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Return Dialog */}
+      <Dialog open={!!saleToReturn} onOpenChange={open => !open && setSaleToReturn(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Return Items</DialogTitle>
+          </DialogHeader>
+          {saleToReturn && (
+            <ReturnForm sale={saleToReturn} onClose={() => setSaleToReturn(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!saleToDelete} onOpenChange={() => setSaleToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Sale?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. Delete sale of <strong>{saleToDelete?.productName}</strong> on{" "}
+              This action cannot be undone and removes the sale from your history; use Return
+              for goods brought back. Delete sale of <strong>{saleToDelete && saleSummary(saleToDelete)}</strong> on{" "}
               {saleToDelete && formatDate(saleToDelete.date)}?
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -0,0 +1,166 @@
+// src/components/StockAdjustmentForm.tsx
+
+import React from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Product, StockAdjustmentReason } from "@/types";
+import { useInventory } from "@/context/InventoryContext";
+import { ADJUSTMENT_REASONS, formatStockDelta } from "@/lib/stock";
+import { formatQuantity, quantityStep, roundQuantity } from "@/lib/units";
+
+interface StockAdjustmentFormProps {
+  product: Product;
+  onClose: () => void;
+}
+
+/**
+ * Adds found stock or writes stock off for a reason; the adjustment goes in
+ * the product's stock ledger with who made it.
+ */
+const StockAdjustmentForm: React.FC<StockAdjustmentFormProps> = ({ product, onClose }) => {
+  const { adjustStock } = useInventory();
+
+  const formSchema = z
+    .object({
+      reason: z.string().min(1, { message: "Choose a reason." }),
+      quantity: z.coerce
+        .number()
+        .positive({ message: "Enter a quantity." })
+        .refine(q => product.decimalQuantities || Number.isInteger(q), {
+          message: "Enter a whole number.",
+        }),
+      note: z.string().trim(),
+    })
+    .superRefine((data, ctx) => {
+      const direction = ADJUSTMENT_REASONS.find(r => r.value === data.reason)?.direction;
+      if (direction === -1 && data.quantity > product.stockQuantity) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Only ${formatQuantity(product.stockQuantity, product.unit)} in stock.`,
+          path: ["quantity"],
+        });
+      }
+    });
+  type FormValues = z.infer<typeof formSchema>;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { reason: "", quantity: 1, note: "" },
+  });
+  const { handleSubmit, control, formState } = form;
+  const [reason, quantity] = useWatch({ control, name: ["reason", "quantity"] });
+  const direction = ADJUSTMENT_REASONS.find(r => r.value === reason)?.direction;
+  const delta = direction ? direction * (Number(quantity) || 0) : 0;
+
+  const onSubmit = handleSubmit(async data => {
+    const change = (direction ?? -1) * Number(data.quantity);
+    try {
+      await adjustStock({
+        productId: product.id,
+        quantity: change,
+        reason: data.reason as StockAdjustmentReason,
+        note: data.note || undefined,
+      });
+      toast.success(`${product.name}: ${formatStockDelta(change, product.unit)} adjusted`);
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="reason"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reason</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a reason" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {ADJUSTMENT_REASONS.map(r => (
+                      <SelectItem key={r.value} value={r.value}>
+                        {r.label} ({r.direction > 0 ? "adds stock" : "removes stock"})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="quantity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Quantity ({product.unit})</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={quantityStep(product)} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Note</FormLabel>
+              <FormControl>
+                <Input placeholder="What happened? (optional)" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="bg-secondary p-3 rounded-md">
+          <div className="flex justify-between">
+            <span>Stock after adjustment:</span>
+            <span className="font-medium">
+              {formatQuantity(roundQuantity(product.stockQuantity + delta), product.unit)}
+            </span>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={formState.isSubmitting}>
+            Adjust Stock
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default StockAdjustmentForm;
@@ -0,0 +1,119 @@
+// src/components/StockHistory.tsx
+
+import React, { useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePurchasing } from "@/hooks/use-purchasing";
+import * as repo from "@/lib/repository";
+import { inventoryKeys } from "@/lib/queryKeys";
+import { formatOrderNumber } from "@/lib/purchasing";
+import { formatKSH } from "@/lib/formatCurrency";
+import { STOCK_MOVEMENT_LABELS, adjustmentReasonLabel, formatStockDelta } from "@/lib/stock";
+import { formatQuantity } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import { Product } from "@/types";
+
+interface StockHistoryProps {
+  product: Product;
+}
+
+/**
+ * A product's stock ledger: every movement in or out, newest first, with
+ * what it was worth at cost and the balance after each one.
+ */
+const StockHistory: React.FC<StockHistoryProps> = ({ product }) => {
+  const { purchaseOrders } = usePurchasing();
+  const { data: movements = [], isLoading, error } = useQuery({
+    queryKey: inventoryKeys.productMovements(product.id),
+    queryFn: () => repo.listStockMovements(product.id),
+  });
+
+  useEffect(() => {
+    if (error) toast.error(error.message);
+  }, [error]);
+
+  const orderById = useMemo(() => new Map(purchaseOrders.map(o => [o.id, o])), [purchaseOrders]);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {formatQuantity(product.stockQuantity, product.unit)} in stock worth{" "}
+        {formatKSH(product.stockValue)} · {movements.length} movement
+        {movements.length === 1 ? "" : "s"} recorded
+      </p>
+      <div className="max-h-[60vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Movement</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+              <TableHead className="text-right">At Cost</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+              <TableHead>By</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {movements.map(m => {
+              const order = m.type === "purchase_receipt" ? orderById.get(m.referenceId ?? "") : null;
+              return (
+                <TableRow key={m.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(m.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{STOCK_MOVEMENT_LABELS[m.type]}</Badge>
+                    {(order || m.reason || m.note) && (
+                      <div className="mt-1 text-xs text-muted-foreground">
+                        {[
+                          order && formatOrderNumber(order),
+                          m.reason && adjustmentReasonLabel(m.reason),
+                          m.note,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell
+                    className={cn(
+                      "text-right font-medium",
+                      m.quantity > 0 ? "text-green-600" : "text-destructive"
+                    )}
+                  >
+                    {formatStockDelta(m.quantity, product.unit)}
+                  </TableCell>
+                  <TableCell className="text-right text-sm text-muted-foreground">
+                    {m.cost !== 0 && formatKSH(Math.abs(m.cost))}
+                  </TableCell>
+                  <TableCell className="text-right">{formatQuantity(m.balance)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {m.performedBy ?? "System"}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {!isLoading && movements.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  No stock movements recorded yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default StockHistory;
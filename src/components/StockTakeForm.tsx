@@ -0,0 +1,131 @@
+// src/components/StockTakeForm.tsx
+
+import React, { useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StockTake } from "@/types";
+import { useInventory } from "@/context/InventoryContext";
+import { useStockTakes } from "@/hooks/use-stock-takes";
+import { formatStockTakeNumber } from "@/lib/stocktake";
+
+// Select items can't have an empty value.
+const ALL_CATEGORIES = "all";
+
+const formSchema = z.object({
+  category: z.string(),
+  note: z.string().trim(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface StockTakeFormProps {
+  onClose: () => void;
+  onStarted?: (take: StockTake) => void;
+}
+
+const StockTakeForm: React.FC<StockTakeFormProps> = ({ onClose, onStarted }) => {
+  const { products } = useInventory();
+  const { startStockTake } = useStockTakes();
+  const categories = useMemo(
+    () => Array.from(new Set(products.map(p => p.category))).sort(),
+    [products]
+  );
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { category: ALL_CATEGORIES, note: "" },
+  });
+  const { handleSubmit, control, formState } = form;
+
+  const onSubmit = handleSubmit(async data => {
+    try {
+      const take = await startStockTake(
+        data.category === ALL_CATEGORIES ? null : data.category,
+        data.note || undefined
+      );
+      toast.success(`${formatStockTakeNumber(take)} started with ${take.lines.length} products`);
+      onStarted?.(take);
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <FormField
+          control={control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Count</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>All products</SelectItem>
+                  {categories.map(category => (
+                    <SelectItem key={category} value={category}>
+                      {category} only
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Expected quantities are taken from current stock when you start.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Note</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. October month-end count" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={formState.isSubmitting}>
+            Start Stock-Take
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default StockTakeForm;
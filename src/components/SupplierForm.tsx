@@ -0,0 +1,156 @@
+// src/components/SupplierForm.tsx
+
+import React from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Supplier } from "@/types";
+import { usePurchasing } from "@/hooks/use-purchasing";
+
+const formSchema = z.object({
+  name: z.string().trim().min(2, { message: "Name must be at least 2 characters." }),
+  phone: z.string().trim(),
+  email: z.union([z.literal(""), z.string().trim().email({ message: "Enter a valid email." })]),
+  leadTimeDays: z.coerce.number().int().min(0, { message: "Lead time cannot be negative." }),
+  notes: z.string().trim(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface SupplierFormProps {
+  onClose: () => void;
+  editSupplier?: Supplier | null;
+  onSaved?: (supplier: Supplier) => void;
+}
+
+const SupplierForm: React.FC<SupplierFormProps> = ({ onClose, editSupplier, onSaved }) => {
+  const { saveSupplier } = usePurchasing();
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: editSupplier?.name ?? "",
+      phone: editSupplier?.phone ?? "",
+      email: editSupplier?.email ?? "",
+      leadTimeDays: editSupplier?.leadTimeDays ?? 7,
+      notes: editSupplier?.notes ?? "",
+    },
+  });
+  const { handleSubmit, control, formState } = form;
+
+  const onSubmit = handleSubmit(async data => {
+    try {
+      const saved = await saveSupplier(
+        {
+          name: data.name,
+          phone: data.phone || null,
+          email: data.email || null,
+          leadTimeDays: Number(data.leadTimeDays),
+          notes: data.notes || null,
+        },
+        editSupplier?.id
+      );
+      toast.success(editSupplier ? "Supplier updated!" : "Supplier added!");
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <FormField
+          control={control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Supplier or distributor name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone</FormLabel>
+                <FormControl>
+                  <Input type="tel" placeholder="07XX XXX XXX" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="Optional" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={control}
+          name="leadTimeDays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Lead Time (days)</FormLabel>
+              <FormControl>
+                <Input type="number" min={0} {...field} />
+              </FormControl>
+              <FormDescription>Typical days from ordering to delivery.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Input placeholder="Delivery days, account number..." {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={formState.isSubmitting}>
+            {editSupplier ? "Update Supplier" : "Add Supplier"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default SupplierForm;
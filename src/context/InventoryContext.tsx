@@ -1,15 +1,28 @@
 // src/context/InventoryContext.tsx
 
-import React, { createContext, useContext, useState } from "react";
+import React, { createContext, useCallback, useContext, useEffect, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { Product, Sale } from "@/types";
+import * as repo from "@/lib/repository";
+import { ProductInput, ReturnInput, SaleInput, StockAdjustmentInput } from "@/lib/repository";
+import { inventoryKeys } from "@/lib/queryKeys";
+import { findUnit } from "@/lib/units";
+import { REMOTE_HIGHLIGHT_MS, useRealtimeSync } from "@/hooks/use-realtime-sync";
 
 interface InventoryContextProps {
   products: Product[];
-  addProduct: (product: Product) => void;
-  updateProduct: (product: Product) => void;
-  updateProductStock: (productId: string, quantitySold: number) => void;
   sales: Sale[];
-  addSale: (sale: Sale) => void;
+  isLoading: boolean;
+  /** Ids of products and sales another session changed in the last few seconds. */
+  remoteChanges: Set<string>;
+  saveProduct: (input: ProductInput, id?: string) => Promise<Product>;
+  deleteProduct: (id: string) => Promise<void>;
+  recordSale: (input: SaleInput) => Promise<Sale>;
+  updateSale: (id: string, input: SaleInput) => Promise<Sale>;
+  deleteSale: (id: string) => Promise<void>;
+  recordReturn: (input: ReturnInput) => Promise<Sale>;
+  adjustStock: (input: StockAdjustmentInput) => Promise<Product>;
 }
 
 const InventoryContext = createContext<InventoryContextProps | undefined>(undefined);
@@ -20,38 +33,239 @@ export const useInventory = () => {
   return context;
 };
 
+/**
+ * Moves every line's quantity in (`sign` = 1) or out of (`sign` = -1) the
+ * cached stock levels, which are in base units. Lines are in `unitFactor`
+ * base units each where given (recorded sale lines), else in the product's
+ * `unit` of that name, else in base units.
+ */
+const adjustStock = (
+  products: Product[] | undefined,
+  lines: { productId: string; quantity: number; unit?: string; unitFactor?: number }[],
+  sign: 1 | -1
+) =>
+  products?.map((p) => {
+    const quantity = lines
+      .filter((line) => line.productId === p.id)
+      .reduce(
+        (sum, line) =>
+          sum + Number(line.quantity) * (line.unitFactor ?? findUnit(p, line.unit).factor),
+        0
+      );
+    return quantity ? { ...p, stockQuantity: p.stockQuantity + sign * quantity } : p;
+  });
+
+const productIds = (lines: { productId: string }[]) => lines.map((line) => line.productId);
+
+/**
+ * Shared products/sales cache for every tab, built on the app's QueryClient.
+ * Sale mutations update both caches optimistically, then invalidate them so the
+ * server's numbers (prices, profit, stock) win once the RPC returns. Changes
+ * made in other sessions arrive through useRealtimeSync.
+ */
 export const InventoryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [sales, setSales] = useState<Sale[]>([]);
+  const queryClient = useQueryClient();
 
-  const addProduct = (product: Product) => {
-    setProducts((prev) => [...prev, product]);
+  // Ids this tab changed itself, so their realtime echoes aren't highlighted.
+  const localIds = useRef(new Set<string>());
+  const markLocal = (...ids: string[]) => {
+    ids.forEach((id) => {
+      localIds.current.add(id);
+      window.setTimeout(() => localIds.current.delete(id), REMOTE_HIGHLIGHT_MS);
+    });
   };
+  const isLocal = useCallback((id: string) => localIds.current.has(id), []);
+  const remoteChanges = useRealtimeSync(isLocal);
+
+  const productsQuery = useQuery({
+    queryKey: inventoryKeys.products,
+    queryFn: repo.listProducts,
+  });
+  const salesQuery = useQuery({
+    queryKey: inventoryKeys.sales,
+    queryFn: repo.listSales,
+  });
 
-  const updateProduct = (updated: Product) => {
-    setProducts((prev) =>
-      prev.map((p) => (p.id === updated.id ? updated : p))
-    );
+  useEffect(() => {
+    if (productsQuery.error) toast.error(productsQuery.error.message);
+  }, [productsQuery.error]);
+
+  useEffect(() => {
+    if (salesQuery.error) toast.error(salesQuery.error.message);
+  }, [salesQuery.error]);
+
+  // Snapshot both caches before an optimistic update so errors can roll back.
+  const snapshot = async () => {
+    await queryClient.cancelQueries({ queryKey: inventoryKeys.products });
+    await queryClient.cancelQueries({ queryKey: inventoryKeys.sales });
+    return {
+      products: queryClient.getQueryData<Product[]>(inventoryKeys.products),
+      sales: queryClient.getQueryData<Sale[]>(inventoryKeys.sales),
+    };
   };
 
-  const updateProductStock = (productId: string, quantitySold: number) => {
-    setProducts((prev) =>
-      prev.map((product) =>
-        product.id === productId
-          ? { ...product, stockQuantity: product.stockQuantity - quantitySold }
-          : product
-      )
-    );
+  const rollback = (_err: Error, _vars: unknown, context?: Awaited<ReturnType<typeof snapshot>>) => {
+    if (!context) return;
+    queryClient.setQueryData(inventoryKeys.products, context.products);
+    queryClient.setQueryData(inventoryKeys.sales, context.sales);
   };
 
-  const addSale = (sale: Sale) => {
-    setSales((prev) => [...prev, sale]);
-    updateProductStock(sale.productId, sale.quantity);
+  const invalidateAll = () => {
+    queryClient.invalidateQueries({ queryKey: inventoryKeys.products });
+    queryClient.invalidateQueries({ queryKey: inventoryKeys.sales });
+    queryClient.invalidateQueries({ queryKey: inventoryKeys.stockMovements });
   };
 
+  const saveProductMutation = useMutation({
+    mutationFn: ({ input, id }: { input: ProductInput; id?: string }) => repo.saveProduct(input, id),
+    onSuccess: (saved, { id }) => {
+      markLocal(saved.id);
+      queryClient.setQueryData<Product[]>(inventoryKeys.products, (prev = []) =>
+        id ? prev.map((p) => (p.id === id ? saved : p)) : [saved, ...prev]
+      );
+    },
+  });
+
+  const deleteProductMutation = useMutation({
+    mutationFn: repo.deleteProduct,
+    onMutate: async (id: string) => {
+      const context = await snapshot();
+      markLocal(id);
+      queryClient.setQueryData<Product[]>(inventoryKeys.products, (prev) =>
+        prev?.filter((p) => p.id !== id)
+      );
+      return context;
+    },
+    onError: rollback,
+    onSettled: invalidateAll,
+  });
+
+  const recordSaleMutation = useMutation({
+    mutationFn: repo.recordSale,
+    onMutate: async (input: SaleInput) => {
+      const context = await snapshot();
+      markLocal(...productIds(input.items));
+      queryClient.setQueryData<Product[]>(inventoryKeys.products, (prev) =>
+        adjustStock(prev, input.items, -1)
+      );
+      return context;
+    },
+    onSuccess: (sale) => {
+      markLocal(sale.id);
+      queryClient.setQueryData<Sale[]>(inventoryKeys.sales, (prev = []) =>
+        prev.some((s) => s.id === sale.id) ? prev : [sale, ...prev]
+      );
+    },
+    onError: rollback,
+    onSettled: invalidateAll,
+  });
+
+  const updateSaleMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: SaleInput }) => repo.updateSale(id, input),
+    onMutate: async ({ id, input }) => {
+      const context = await snapshot();
+      const previous = context.sales?.find((s) => s.id === id);
+      markLocal(id, ...productIds(input.items));
+      if (previous) {
+        markLocal(...productIds(previous.items));
+        queryClient.setQueryData<Product[]>(inventoryKeys.products, (prev) =>
+          adjustStock(adjustStock(prev, previous.items, 1), input.items, -1)
+        );
+      }
+      return context;
+    },
+    onSuccess: (sale) => {
+      queryClient.setQueryData<Sale[]>(inventoryKeys.sales, (prev = []) =>
+        prev.map((s) => (s.id === sale.id ? sale : s))
+      );
+    },
+    onError: rollback,
+    onSettled: invalidateAll,
+  });
+
+  const deleteSaleMutation = useMutation({
+    mutationFn: repo.deleteSale,
+    onMutate: async (id: string) => {
+      const context = await snapshot();
+      const sale = context.sales?.find((s) => s.id === id);
+      markLocal(id);
+      if (sale) {
+        markLocal(...productIds(sale.items));
+        queryClient.setQueryData<Product[]>(inventoryKeys.products, (prev) =>
+          adjustStock(prev, sale.items, 1)
+        );
+        queryClient.setQueryData<Sale[]>(inventoryKeys.sales, (prev) =>
+          prev?.filter((s) => s.id !== id)
+        );
+      }
+      return context;
+    },
+    onError: rollback,
+    onSettled: invalidateAll,
+  });
+
+  const recordReturnMutation = useMutation({
+    mutationFn: repo.recordReturn,
+    onMutate: async (input: ReturnInput) => {
+      const context = await snapshot();
+      const sale = context.sales?.find((s) => s.id === input.saleId);
+      markLocal(input.saleId);
+      if (sale) {
+        const restocked = input.items
+          .filter((line) => line.restock)
+          .map((line) => {
+            const item = sale.items.find((i) => i.id === line.saleItemId);
+            return {
+              productId: item?.productId ?? "",
+              quantity: line.quantity,
+              unitFactor: item?.unitFactor,
+            };
+          });
+        markLocal(...productIds(restocked));
+        queryClient.setQueryData<Product[]>(inventoryKeys.products, (prev) =>
+          adjustStock(prev, restocked, 1)
+        );
+      }
+      return context;
+    },
+    onSuccess: (sale) => {
+      queryClient.setQueryData<Sale[]>(inventoryKeys.sales, (prev = []) =>
+        prev.map((s) => (s.id === sale.id ? sale : s))
+      );
+    },
+    onError: rollback,
+    onSettled: invalidateAll,
+  });
+
+  const adjustStockMutation = useMutation({
+    mutationFn: repo.adjustStock,
+    onMutate: async (input: StockAdjustmentInput) => {
+      const context = await snapshot();
+      markLocal(input.productId);
+      queryClient.setQueryData<Product[]>(inventoryKeys.products, (prev) =>
+        adjustStock(prev, [input], 1)
+      );
+      return context;
+    },
+    onError: rollback,
+    onSettled: invalidateAll,
+  });
+
   return (
     <InventoryContext.Provider
-      value={{ products, addProduct, updateProduct, updateProductStock, sales, addSale }}
+      value={{
+        products: productsQuery.data ?? [],
+        sales: salesQuery.data ?? [],
+        isLoading: productsQuery.isLoading || salesQuery.isLoading,
+        remoteChanges,
+        saveProduct: (input, id) => saveProductMutation.mutateAsync({ input, id }),
+        deleteProduct: deleteProductMutation.mutateAsync,
+        recordSale: recordSaleMutation.mutateAsync,
+        updateSale: (id, input) => updateSaleMutation.mutateAsync({ id, input }),
+        deleteSale: deleteSaleMutation.mutateAsync,
+        recordReturn: recordReturnMutation.mutateAsync,
+        adjustStock: adjustStockMutation.mutateAsync,
+      }}
     >
       {children}
     </InventoryContext.Provider>
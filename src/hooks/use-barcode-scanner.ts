@@ -0,0 +1,62 @@
+import { useEffect, useRef } from "react";
+
+// USB scanners type a whole code in a few milliseconds; people don't.
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+interface BarcodeScannerOptions {
+  enabled?: boolean;
+  /** Also take scans while focus is inside a dialog, for forms that live in one. */
+  fromDialogs?: boolean;
+}
+
+/** Whether keys typed at `target` go into a field. */
+export const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Listens for keyboard-wedge (USB or Bluetooth) barcode scanners: a fast
+ * burst of keys ending in Enter is reported as one scan and the Enter is
+ * swallowed. Typing into inputs is left alone, so search boxes should match
+ * codes themselves.
+ */
+export function useBarcodeScanner(
+  onScan: (code: string) => void,
+  { enabled = true, fromDialogs = false }: BarcodeScannerOptions = {}
+) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditable(e.target)) return;
+      const inDialog =
+        e.target instanceof Element && !!e.target.closest('[role="dialog"], [role="alertdialog"]');
+      if (inDialog !== fromDialogs) return;
+
+      const now = e.timeStamp;
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (e.key === "Enter") {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          e.stopPropagation();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    // Capture, so the Enter never reaches page shortcuts or form submits.
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [enabled, fromDialogs]);
+}
@@ -0,0 +1,59 @@
+import { useMemo, useState } from "react";
+import { Discount, Product } from "@/types";
+
+export interface BasketLine {
+  product: Product;
+  quantity: number;
+  /** Manual discount on the line, on top of any promotion. */
+  discount: Discount | null;
+}
+
+interface BasketEntry {
+  quantity: number;
+  discount: Discount | null;
+}
+
+/**
+ * Checkout basket state: one line per product, quantities capped at the
+ * product's current stock. Removing a line drops its discount too.
+ */
+export function useBasket(products: Product[]) {
+  const [entries, setEntries] = useState<Record<string, BasketEntry>>({});
+
+  const lines = useMemo<BasketLine[]>(
+    () =>
+      Object.entries(entries)
+        .map(([id, entry]) => ({ product: products.find((p) => p.id === id), ...entry }))
+        .filter((line): line is BasketLine => !!line.product && line.quantity > 0),
+    [entries, products]
+  );
+
+  const itemCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const update = (product: Product, next: (current: number) => number) =>
+    setEntries((prev) => {
+      const current = prev[product.id];
+      const quantity = Math.max(0, Math.min(next(current?.quantity ?? 0), product.stockQuantity));
+      const updated = { ...prev };
+      if (quantity > 0) updated[product.id] = { quantity, discount: current?.discount ?? null };
+      else delete updated[product.id];
+      return updated;
+    });
+
+  /** Sets a product's quantity, clamped to 0..stock; 0 removes the line. */
+  const setQuantity = (product: Product, quantity: number) => update(product, () => quantity);
+
+  const add = (product: Product, by = 1) => update(product, (current) => current + by);
+
+  const remove = (product: Product) => update(product, () => 0);
+
+  /** Sets or (with null) clears the discount on a product already in the basket. */
+  const setDiscount = (product: Product, discount: Discount | null) =>
+    setEntries((prev) =>
+      prev[product.id] ? { ...prev, [product.id]: { ...prev[product.id], discount } } : prev
+    );
+
+  const clear = () => setEntries({});
+
+  return { lines, itemCount, add, setQuantity, remove, setDiscount, clear };
+}
@@ -0,0 +1,121 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Customer, CustomerBalance } from "@/types";
+import { localDate } from "@/lib/utils";
+import * as repo from "@/lib/repository";
+import { CustomerInput, RepaymentInput } from "@/lib/repository";
+import { inventoryKeys } from "@/lib/queryKeys";
+import { customerLedger } from "@/lib/credit";
+
+/**
+ * Customers, cached alongside InventoryContext's products and sales (realtime
+ * updates arrive through useRealtimeSync).
+ */
+export function useCustomers() {
+  const queryClient = useQueryClient();
+
+  const customersQuery = useQuery({
+    queryKey: inventoryKeys.customers,
+    queryFn: repo.listCustomers,
+  });
+
+  useEffect(() => {
+    if (customersQuery.error) toast.error(customersQuery.error.message);
+  }, [customersQuery.error]);
+
+  const saveCustomerMutation = useMutation({
+    mutationFn: ({ input, id }: { input: CustomerInput; id?: string }) =>
+      repo.saveCustomer(input, id),
+    onSuccess: (saved, { id }) => {
+      queryClient.setQueryData<Customer[]>(inventoryKeys.customers, (prev = []) =>
+        (id ? prev.map((c) => (c.id === id ? saved : c)) : [...prev, saved]).sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      // Sales embed the customer's name.
+      if (id) queryClient.invalidateQueries({ queryKey: inventoryKeys.sales });
+    },
+  });
+
+  const deleteCustomerMutation = useMutation({
+    mutationFn: repo.deleteCustomer,
+    onSuccess: (_void, id) => {
+      queryClient.setQueryData<Customer[]>(inventoryKeys.customers, (prev) =>
+        prev?.filter((c) => c.id !== id)
+      );
+    },
+  });
+
+  const recordRepaymentMutation = useMutation({
+    mutationFn: repo.recordRepayment,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: inventoryKeys.sales }),
+  });
+
+  const voidRepaymentMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => repo.voidRepayment(id, reason),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: inventoryKeys.sales }),
+  });
+
+  return {
+    customers: customersQuery.data ?? [],
+    isLoading: customersQuery.isLoading,
+    saveCustomer: (input: CustomerInput, id?: string) =>
+      saveCustomerMutation.mutateAsync({ input, id }),
+    deleteCustomer: deleteCustomerMutation.mutateAsync,
+    recordRepayment: (input: RepaymentInput) => recordRepaymentMutation.mutateAsync(input),
+    voidRepayment: (id: string, reason: string) => voidRepaymentMutation.mutateAsync({ id, reason }),
+  };
+}
+
+/**
+ * What each customer owes today, by customer id. Customers who owe nothing
+ * are missing from the map.
+ */
+export function useCustomerBalances() {
+  const balancesQuery = useQuery({
+    queryKey: inventoryKeys.customerBalances,
+    queryFn: () => repo.listCustomerBalances(localDate()),
+    select: (balances: CustomerBalance[]) => new Map(balances.map((b) => [b.customerId, b])),
+  });
+
+  useEffect(() => {
+    if (balancesQuery.error) toast.error(balancesQuery.error.message);
+  }, [balancesQuery.error]);
+
+  return balancesQuery.data ?? new Map<string, CustomerBalance>();
+}
+
+/**
+ * Every unpaid credit balance, totalled into AGE_BUCKETS.
+ */
+export function useAgedDebt() {
+  const agedDebtQuery = useQuery({
+    queryKey: inventoryKeys.agedDebt,
+    queryFn: () => repo.getAgedDebt(localDate()),
+  });
+
+  useEffect(() => {
+    if (agedDebtQuery.error) toast.error(agedDebtQuery.error.message);
+  }, [agedDebtQuery.error]);
+
+  return agedDebtQuery.data ?? [];
+}
+
+/**
+ * A customer's credit ledger, in date order with a running balance.
+ */
+export function useCustomerLedger(customerId: string | null) {
+  const ledgerQuery = useQuery({
+    queryKey: inventoryKeys.customerLedger(customerId ?? ""),
+    queryFn: () => repo.listCustomerLedger(customerId),
+    enabled: customerId !== null,
+    select: customerLedger,
+  });
+
+  useEffect(() => {
+    if (ledgerQuery.error) toast.error(ledgerQuery.error.message);
+  }, [ledgerQuery.error]);
+
+  return { ledger: ledgerQuery.data ?? [], isLoading: ledgerQuery.isLoading };
+}
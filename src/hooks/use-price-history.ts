@@ -0,0 +1,64 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ScheduledPriceChange } from "@/types";
+import * as repo from "@/lib/repository";
+import { inventoryKeys } from "@/lib/queryKeys";
+
+interface ScheduleInput {
+  price: number;
+  effectiveAt: string;
+  note?: string;
+}
+
+/**
+ * A product's price history and the changes scheduled for it. The database
+ * records changes and applies scheduled ones when they fall due;
+ * useRealtimeSync refetches both as that happens.
+ */
+export function usePriceHistory(productId: string) {
+  const queryClient = useQueryClient();
+  const scheduledKey = inventoryKeys.productScheduledPriceChanges(productId);
+
+  const changesQuery = useQuery({
+    queryKey: inventoryKeys.productPriceChanges(productId),
+    queryFn: () => repo.listPriceChanges(productId),
+  });
+
+  const scheduledQuery = useQuery({
+    queryKey: scheduledKey,
+    queryFn: () => repo.listScheduledPriceChanges(productId),
+  });
+
+  const error = changesQuery.error ?? scheduledQuery.error;
+  useEffect(() => {
+    if (error) toast.error(error.message);
+  }, [error]);
+
+  const scheduleMutation = useMutation({
+    mutationFn: ({ price, effectiveAt, note }: ScheduleInput) =>
+      repo.schedulePriceChange(productId, price, effectiveAt, note),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<ScheduledPriceChange[]>(scheduledKey, (prev = []) =>
+        [...prev, saved].sort((a, b) => a.effectiveAt.localeCompare(b.effectiveAt))
+      );
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: repo.cancelScheduledPriceChange,
+    onSuccess: (_void, id) => {
+      queryClient.setQueryData<ScheduledPriceChange[]>(scheduledKey, (prev) =>
+        prev?.filter((c) => c.id !== id)
+      );
+    },
+  });
+
+  return {
+    changes: changesQuery.data ?? [],
+    scheduled: scheduledQuery.data ?? [],
+    isLoading: changesQuery.isLoading || scheduledQuery.isLoading,
+    schedulePriceChange: scheduleMutation.mutateAsync,
+    cancelScheduledPriceChange: cancelMutation.mutateAsync,
+  };
+}
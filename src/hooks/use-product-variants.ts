@@ -0,0 +1,66 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ProductParent } from "@/types";
+import * as repo from "@/lib/repository";
+import { ProductParentInput, VariantInput } from "@/lib/repository";
+import { inventoryKeys } from "@/lib/queryKeys";
+
+/**
+ * Parent products with their option axes. The variants themselves are
+ * ordinary products in InventoryContext, so saving or deleting a parent
+ * refetches the products as well.
+ */
+export function useProductVariants() {
+  const queryClient = useQueryClient();
+
+  const parentsQuery = useQuery({
+    queryKey: inventoryKeys.productParents,
+    queryFn: repo.listProductParents,
+  });
+
+  useEffect(() => {
+    if (parentsQuery.error) toast.error(parentsQuery.error.message);
+  }, [parentsQuery.error]);
+
+  const refetchProducts = () =>
+    queryClient.invalidateQueries({ queryKey: inventoryKeys.products });
+
+  const saveMutation = useMutation({
+    mutationFn: ({
+      input,
+      variants,
+      id,
+    }: {
+      input: ProductParentInput;
+      variants: VariantInput[];
+      id?: string;
+    }) => repo.saveProductParent(input, variants, id),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<ProductParent[]>(inventoryKeys.productParents, (prev = []) =>
+        [...prev.filter((p) => p.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+    },
+    onSettled: refetchProducts,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: repo.deleteProductParent,
+    onSuccess: (_void, id) => {
+      queryClient.setQueryData<ProductParent[]>(inventoryKeys.productParents, (prev) =>
+        prev?.filter((p) => p.id !== id)
+      );
+    },
+    onSettled: refetchProducts,
+  });
+
+  return {
+    parents: parentsQuery.data ?? [],
+    isLoading: parentsQuery.isLoading,
+    saveProductParent: (input: ProductParentInput, variants: VariantInput[], id?: string) =>
+      saveMutation.mutateAsync({ input, variants, id }),
+    deleteProductParent: deleteMutation.mutateAsync,
+  };
+}
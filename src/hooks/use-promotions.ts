@@ -0,0 +1,53 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Promotion } from "@/types";
+import * as repo from "@/lib/repository";
+import { PromotionInput } from "@/lib/repository";
+import { inventoryKeys } from "@/lib/queryKeys";
+
+const byStartDesc = (a: Promotion, b: Promotion) => b.startsOn.localeCompare(a.startsOn);
+
+/**
+ * The shop's promotions, newest first. The checkout uses them to show the
+ * discounts the database will apply (realtime updates arrive through
+ * useRealtimeSync).
+ */
+export function usePromotions() {
+  const queryClient = useQueryClient();
+
+  const promotionsQuery = useQuery({
+    queryKey: inventoryKeys.promotions,
+    queryFn: repo.listPromotions,
+  });
+
+  useEffect(() => {
+    if (promotionsQuery.error) toast.error(promotionsQuery.error.message);
+  }, [promotionsQuery.error]);
+
+  const saveMutation = useMutation({
+    mutationFn: ({ input, id }: { input: PromotionInput; id?: string }) =>
+      repo.savePromotion(input, id),
+    onSuccess: (saved, { id }) => {
+      queryClient.setQueryData<Promotion[]>(inventoryKeys.promotions, (prev = []) =>
+        (id ? prev.map((p) => (p.id === id ? saved : p)) : [...prev, saved]).sort(byStartDesc)
+      );
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: repo.deletePromotion,
+    onSuccess: (_void, id) => {
+      queryClient.setQueryData<Promotion[]>(inventoryKeys.promotions, (prev) =>
+        prev?.filter((p) => p.id !== id)
+      );
+    },
+  });
+
+  return {
+    promotions: promotionsQuery.data ?? [],
+    isLoading: promotionsQuery.isLoading,
+    savePromotion: (input: PromotionInput, id?: string) => saveMutation.mutateAsync({ input, id }),
+    deletePromotion: deleteMutation.mutateAsync,
+  };
+}
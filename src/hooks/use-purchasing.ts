@@ -0,0 +1,96 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { PurchaseOrder, Supplier } from "@/types";
+import * as repo from "@/lib/repository";
+import { PurchaseOrderInput, ReceiveLineInput, SupplierInput } from "@/lib/repository";
+import { inventoryKeys } from "@/lib/queryKeys";
+
+/**
+ * Suppliers and purchase orders, cached alongside InventoryContext's products
+ * (realtime updates arrive through useRealtimeSync). Receiving an order moves
+ * stock and cost, so it refetches products too.
+ */
+export function usePurchasing() {
+  const queryClient = useQueryClient();
+
+  const suppliersQuery = useQuery({
+    queryKey: inventoryKeys.suppliers,
+    queryFn: repo.listSuppliers,
+  });
+  const ordersQuery = useQuery({
+    queryKey: inventoryKeys.purchaseOrders,
+    queryFn: repo.listPurchaseOrders,
+  });
+
+  useEffect(() => {
+    const error = suppliersQuery.error ?? ordersQuery.error;
+    if (error) toast.error(error.message);
+  }, [suppliersQuery.error, ordersQuery.error]);
+
+  const putOrder = (saved: PurchaseOrder) =>
+    queryClient.setQueryData<PurchaseOrder[]>(inventoryKeys.purchaseOrders, (prev = []) =>
+      prev.some((o) => o.id === saved.id)
+        ? prev.map((o) => (o.id === saved.id ? saved : o))
+        : [saved, ...prev]
+    );
+
+  const saveSupplierMutation = useMutation({
+    mutationFn: ({ input, id }: { input: SupplierInput; id?: string }) =>
+      repo.saveSupplier(input, id),
+    onSuccess: (saved, { id }) => {
+      queryClient.setQueryData<Supplier[]>(inventoryKeys.suppliers, (prev = []) =>
+        (id ? prev.map((s) => (s.id === id ? saved : s)) : [...prev, saved]).sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      // Orders embed the supplier's name.
+      if (id) queryClient.invalidateQueries({ queryKey: inventoryKeys.purchaseOrders });
+    },
+  });
+
+  const deleteSupplierMutation = useMutation({
+    mutationFn: repo.deleteSupplier,
+    onSuccess: (_void, id) => {
+      queryClient.setQueryData<Supplier[]>(inventoryKeys.suppliers, (prev) =>
+        prev?.filter((s) => s.id !== id)
+      );
+    },
+  });
+
+  const saveOrderMutation = useMutation({
+    mutationFn: ({ input, id }: { input: PurchaseOrderInput; id?: string }) =>
+      repo.savePurchaseOrder(input, id),
+    onSuccess: putOrder,
+  });
+
+  const cancelOrderMutation = useMutation({
+    mutationFn: repo.cancelPurchaseOrder,
+    onSuccess: putOrder,
+  });
+
+  const receiveOrderMutation = useMutation({
+    mutationFn: ({ id, items }: { id: string; items: ReceiveLineInput[] }) =>
+      repo.receivePurchaseOrder(id, items),
+    onSuccess: putOrder,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.products });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.stockMovements });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.stockBatches });
+    },
+  });
+
+  return {
+    suppliers: suppliersQuery.data ?? [],
+    purchaseOrders: ordersQuery.data ?? [],
+    isLoading: suppliersQuery.isLoading || ordersQuery.isLoading,
+    saveSupplier: (input: SupplierInput, id?: string) =>
+      saveSupplierMutation.mutateAsync({ input, id }),
+    deleteSupplier: deleteSupplierMutation.mutateAsync,
+    savePurchaseOrder: (input: PurchaseOrderInput, id?: string) =>
+      saveOrderMutation.mutateAsync({ input, id }),
+    cancelPurchaseOrder: cancelOrderMutation.mutateAsync,
+    receivePurchaseOrder: (id: string, items: ReceiveLineInput[]) =>
+      receiveOrderMutation.mutateAsync({ id, items }),
+  };
+}
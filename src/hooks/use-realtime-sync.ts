@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { QueryKey, useQueryClient } from "@tanstack/react-query";
+import { RealtimeChannel, RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+import { inventoryKeys } from "@/lib/queryKeys";
+import {
+  CustomerRow,
+  PriceChangeRow,
+  ProductParentRow,
+  ProductRow,
+  PromotionRow,
+  PurchaseOrderItemRow,
+  PurchaseOrderRow,
+  RepaymentRow,
+  SaleItemRow,
+  SalePaymentRow,
+  SaleReturnRow,
+  SaleRow,
+  ScheduledPriceChangeRow,
+  StockBatchRow,
+  StockMovementRow,
+  StockTakeLineRow,
+  StockTakeRow,
+  SupplierRow,
+  requireUserId,
+  toCustomer,
+  toProduct,
+  toProductParent,
+  toPromotion,
+  toSupplier,
+} from "@/lib/repository";
+
+/** How long a remotely changed row stays highlighted. */
+export const REMOTE_HIGHLIGHT_MS = 4000;
+
+/**
+ * Subscribes to Supabase Realtime changes on the current user's rows and
+ * merges them into the react-query cache, so every open session sees stock
+ * move without a refresh. Single rows are merged straight in; records made of
+ * a header and lines (sales, purchase orders, stock-takes) are refetched.
+ *
+ * `isLocal(id)` tells the hook which ids this tab just changed itself; changes
+ * to any other id are reported back in the returned set for
+ * REMOTE_HIGHLIGHT_MS so the UI can highlight them.
+ */
+export function useRealtimeSync(isLocal: (id: string) => boolean): Set<string> {
+  const queryClient = useQueryClient();
+  const [remoteChanges, setRemoteChanges] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    let channel: RealtimeChannel | undefined;
+    let cancelled = false;
+    const timers = new Set<number>();
+
+    const flag = (id: string) => {
+      // A local mutation in flight will see its own echo; don't highlight it.
+      if (isLocal(id) || queryClient.isMutating() > 0) return;
+      setRemoteChanges((prev) => new Set(prev).add(id));
+      const timer = window.setTimeout(() => {
+        timers.delete(timer);
+        setRemoteChanges((prev) => {
+          const next = new Set(prev);
+          next.delete(id);
+          return next;
+        });
+      }, REMOTE_HIGHLIGHT_MS);
+      timers.add(timer);
+    };
+
+    function merge<Row extends { id: string }, T extends { id: string }>(
+      key: QueryKey,
+      payload: RealtimePostgresChangesPayload<Row>,
+      map: (row: Row) => T
+    ) {
+      if (payload.eventType === "DELETE") {
+        const id = payload.old.id;
+        if (!id) return;
+        queryClient.setQueryData<T[]>(key, (prev) => prev?.filter((item) => item.id !== id));
+        return;
+      }
+      const item = map(payload.new);
+      queryClient.setQueryData<T[]>(key, (prev = []) =>
+        prev.some((p) => p.id === item.id)
+          ? prev.map((p) => (p.id === item.id ? item : p))
+          : [item, ...prev]
+      );
+      flag(item.id);
+    }
+
+    // Realtime events for the same receipt (or purchase order, or stock-take)
+    // arrive in a burst as a header plus its lines; refetch once.
+    const refetchTimers = new Map<string, number>();
+    const refetchLater = (key: QueryKey, id: string | undefined) => {
+      if (id) flag(id);
+      const name = String(key[0]);
+      window.clearTimeout(refetchTimers.get(name));
+      refetchTimers.set(
+        name,
+        window.setTimeout(() => queryClient.invalidateQueries({ queryKey: key }), 250)
+      );
+    };
+    const refetchSales = (saleId: string | undefined) => refetchLater(inventoryKeys.sales, saleId);
+    const refetchOrders = (orderId: string | undefined) =>
+      refetchLater(inventoryKeys.purchaseOrders, orderId);
+
+    requireUserId()
+      .then((userId) => {
+        if (cancelled) return;
+        channel = supabase
+          .channel(`inventory-sync:${userId}`)
+          .on<ProductRow>(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "inventory", filter: `user_id=eq.${userId}` },
+            (payload) => merge(inventoryKeys.products, payload, toProduct)
+          )
+          .on<SaleRow>(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "sales", filter: `user_id=eq.${userId}` },
+            (payload) =>
+              refetchSales(payload.eventType === "DELETE" ? undefined : payload.new.id)
+          )
+          .on<SaleItemRow>(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "sale_items", filter: `user_id=eq.${userId}` },
+            (payload) =>
+              refetchSales(payload.eventType === "DELETE" ? undefined : payload.new.sale_id)
+          )
+          .on<SalePaymentRow>(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "sale_payments", filter: `user_id=eq.${userId}` },
+            (payload) =>
+              refetchSales(payload.eventType === "DELETE" ? undefined : payload.new.sale_id)
+          )
+          .on<SaleReturnRow>(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "sale_returns", filter: `user_id=eq.${userId}` },
+            (payload) =>
+              refetchSales(payload.eventType === "DELETE" ? undefined : payload.new.sale_id)
+          )
+          .on<CustomerRow>(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "customers", filter: `user_id=eq.${userId}` },
+            (payload) => {
+              merge(inventoryKeys.customers, payload, toCustomer);
+              // A customer's credit days decide when their sales are overdue.
+              queryClient.invalidateQueries({ queryKey: inventoryKeys.customerBalances });
+              queryClient.invalidateQueries({ queryKey: inventoryKeys.agedDebt });
+            }
+          )
+          .on<RepaymentRow>(
+            "postgres_changes",
+            {
+              event: "*",
+              schema: "public",
+              table: "credit_repayments",
+              filter: `user_id=eq.${userId}`,
+            },
+            // Repayments also move amount_repaid on sales, which refetches those
+            // and the balances worked out from them.
+            () => queryClient.invalidateQueries({ queryKey: inventoryKeys.customerLedgers })
+          )
+          .on<StockMovementRow>(
+            "postgres_changes",
+            {
+              event: "INSERT",
+              schema: "public",
+              table: "stock_movements",
+              filter: `user_id=eq.${userId}`,
+            },
+            (payload) =>
+              queryClient.invalidateQueries({
+                queryKey: inventoryKeys.productMovements(payload.new.product_id),
+              })
+          )
+          .on<PriceChangeRow>(
+            "postgres_changes",
+            {
+              event: "INSERT",
+              schema: "public",
+              table: "price_changes",
+              filter: `user_id=eq.${userId}`,
+            },
+            (payload) =>
+              queryClient.invalidateQueries({
+                queryKey: inventoryKeys.productPriceChanges(payload.new.product_id),
+              })
+          )
+          .on<ScheduledPriceChangeRow>(
+            "postgres_changes",
+            {
+              event: "*",
+              schema: "public",
+              table: "scheduled_price_changes",
+              filter: `user_id=eq.${userId}`,
+            },
+            () => queryClient.invalidateQueries({ queryKey: inventoryKeys.scheduledPriceChanges })
+          )
+          .on<StockBatchRow>(
+            "postgres_changes",
+            {
+              event: "*",
+              schema: "public",
+              table: "stock_batches",
+              filter: `user_id=eq.${userId}`,
+            },
+            // A sale touches a batch per product it draws from.
+            () => refetchLater(inventoryKeys.stockBatches, undefined)
+          )
+          .on<StockTakeRow>(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "stock_takes", filter: `user_id=eq.${userId}` },
+            (payload) =>
+              refetchLater(
+                inventoryKeys.stockTakes,
+                payload.eventType === "DELETE" ? undefined : payload.new.id
+              )
+          )
+          .on<StockTakeLineRow>(
+            "postgres_changes",
+            {
+              event: "*",
+              schema: "public",
+              table: "stock_take_lines",
+              filter: `user_id=eq.${userId}`,
+            },
+            // Counts come in from other devices one line at a time.
+            (payload) =>
+              refetchLater(
+                inventoryKeys.stockTakes,
+                payload.eventType === "DELETE" ? undefined : payload.new.stock_take_id
+              )
+          )
+          .on<ProductParentRow>(
+            "postgres_changes",
+            {
+              event: "*",
+              schema: "public",
+              table: "product_parents",
+              filter: `user_id=eq.${userId}`,
+            },
+            (payload) => merge(inventoryKeys.productParents, payload, toProductParent)
+          )
+          .on<PromotionRow>(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "promotions", filter: `user_id=eq.${userId}` },
+            (payload) => merge(inventoryKeys.promotions, payload, toPromotion)
+          )
+          .on<SupplierRow>(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "suppliers", filter: `user_id=eq.${userId}` },
+            (payload) => merge(inventoryKeys.suppliers, payload, toSupplier)
+          )
+          .on<PurchaseOrderRow>(
+            "postgres_changes",
+            {
+              event: "*",
+              schema: "public",
+              table: "purchase_orders",
+              filter: `user_id=eq.${userId}`,
+            },
+            (payload) => refetchOrders(payload.eventType === "DELETE" ? undefined : payload.new.id)
+          )
+          .on<PurchaseOrderItemRow>(
+            "postgres_changes",
+            {
+              event: "*",
+              schema: "public",
+              table: "purchase_order_items",
+              filter: `user_id=eq.${userId}`,
+            },
+            (payload) =>
+              refetchOrders(payload.eventType === "DELETE" ? undefined : payload.new.order_id)
+          )
+          .subscribe();
+      })
+      .catch(() => {
+        // Not signed in: nothing to sync.
+      });
+
+    return () => {
+      cancelled = true;
+      timers.forEach((timer) => window.clearTimeout(timer));
+      refetchTimers.forEach((timer) => window.clearTimeout(timer));
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [queryClient, isLocal]);
+
+  return remoteChanges;
+}
@@ -0,0 +1,64 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import * as repo from "@/lib/repository";
+import { DEFAULT_SHOP_SETTINGS } from "@/lib/costing";
+import { inventoryKeys } from "@/lib/queryKeys";
+
+/**
+ * The shop's settings. Changing the costing method reprices the stock on
+ * hand, so it refetches products too.
+ */
+export function useShopSettings() {
+  const queryClient = useQueryClient();
+
+  const settingsQuery = useQuery({
+    queryKey: inventoryKeys.shopSettings,
+    queryFn: repo.getShopSettings,
+  });
+
+  useEffect(() => {
+    if (settingsQuery.error) toast.error(settingsQuery.error.message);
+  }, [settingsQuery.error]);
+
+  const costingMutation = useMutation({
+    mutationFn: repo.setCostingMethod,
+    onSuccess: (saved) => queryClient.setQueryData(inventoryKeys.shopSettings, saved),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: inventoryKeys.products }),
+  });
+
+  const discountLimitMutation = useMutation({
+    mutationFn: ({ percent, pin }: { percent: number | null; pin?: string }) =>
+      repo.setDiscountLimit(percent, pin),
+    onSuccess: (saved) => queryClient.setQueryData(inventoryKeys.shopSettings, saved),
+  });
+
+  const managerPinMutation = useMutation({
+    mutationFn: ({ pin, currentPin }: { pin: string | null; currentPin?: string }) =>
+      repo.setManagerPin(pin, currentPin),
+    onSuccess: (saved) => queryClient.setQueryData(inventoryKeys.shopSettings, saved),
+  });
+
+  const taxMutation = useMutation({
+    mutationFn: ({
+      vatRegistered,
+      pricesIncludeTax,
+      vatRate,
+    }: {
+      vatRegistered: boolean;
+      pricesIncludeTax: boolean;
+      vatRate: number;
+    }) => repo.setTaxSettings(vatRegistered, pricesIncludeTax, vatRate),
+    onSuccess: (saved) => queryClient.setQueryData(inventoryKeys.shopSettings, saved),
+  });
+
+  return {
+    settings: settingsQuery.data ?? DEFAULT_SHOP_SETTINGS,
+    isLoading: settingsQuery.isLoading,
+    setCostingMethod: costingMutation.mutateAsync,
+    setDiscountLimit: discountLimitMutation.mutateAsync,
+    setManagerPin: managerPinMutation.mutateAsync,
+    checkManagerPin: repo.checkManagerPin,
+    setTaxSettings: taxMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,43 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { StockBatch } from "@/types";
+import * as repo from "@/lib/repository";
+import { inventoryKeys } from "@/lib/queryKeys";
+
+/**
+ * Stock batches with stock left. The database draws them down as stock moves
+ * and useRealtimeSync refetches them; writing one off moves stock, so it
+ * refetches products too.
+ */
+export function useStockBatches() {
+  const queryClient = useQueryClient();
+
+  const batchesQuery = useQuery({
+    queryKey: inventoryKeys.stockBatches,
+    queryFn: repo.listStockBatches,
+  });
+
+  useEffect(() => {
+    if (batchesQuery.error) toast.error(batchesQuery.error.message);
+  }, [batchesQuery.error]);
+
+  const writeOffMutation = useMutation({
+    mutationFn: ({ id, note }: { id: string; note?: string }) => repo.writeOffBatch(id, note),
+    onSuccess: (_saved, { id }) => {
+      queryClient.setQueryData<StockBatch[]>(inventoryKeys.stockBatches, (prev) =>
+        prev?.filter((b) => b.id !== id)
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.products });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.stockMovements });
+    },
+  });
+
+  return {
+    batches: batchesQuery.data ?? [],
+    isLoading: batchesQuery.isLoading,
+    writeOffBatch: (id: string, note?: string) => writeOffMutation.mutateAsync({ id, note }),
+  };
+}
@@ -0,0 +1,90 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { StockTake } from "@/types";
+import * as repo from "@/lib/repository";
+import { StockCountInput } from "@/lib/repository";
+import { inventoryKeys } from "@/lib/queryKeys";
+
+/**
+ * Stock-takes and their counts. Counts are applied to the cache straight away
+ * so counting stays quick; counts from other devices arrive through
+ * useRealtimeSync. Approving moves stock, so it refetches products too.
+ */
+export function useStockTakes() {
+  const queryClient = useQueryClient();
+
+  const stockTakesQuery = useQuery({
+    queryKey: inventoryKeys.stockTakes,
+    queryFn: repo.listStockTakes,
+  });
+
+  useEffect(() => {
+    if (stockTakesQuery.error) toast.error(stockTakesQuery.error.message);
+  }, [stockTakesQuery.error]);
+
+  const putStockTake = (saved: StockTake) =>
+    queryClient.setQueryData<StockTake[]>(inventoryKeys.stockTakes, (prev = []) =>
+      prev.some((t) => t.id === saved.id)
+        ? prev.map((t) => (t.id === saved.id ? saved : t))
+        : [saved, ...prev]
+    );
+
+  const startMutation = useMutation({
+    mutationFn: ({ category, note }: { category?: string | null; note?: string }) =>
+      repo.startStockTake(category, note),
+    onSuccess: putStockTake,
+  });
+
+  const recordCountsMutation = useMutation({
+    mutationFn: ({ id, counts }: { id: string; counts: StockCountInput[] }) =>
+      repo.recordStockCounts(id, counts),
+    onMutate: async ({ id, counts }) => {
+      await queryClient.cancelQueries({ queryKey: inventoryKeys.stockTakes });
+      const previous = queryClient.getQueryData<StockTake[]>(inventoryKeys.stockTakes);
+      const byLine = new Map(counts.map((c) => [c.lineId, c.countedQuantity]));
+      queryClient.setQueryData<StockTake[]>(inventoryKeys.stockTakes, (prev) =>
+        prev?.map((t) =>
+          t.id === id
+            ? {
+                ...t,
+                lines: t.lines.map((line) =>
+                  byLine.has(line.id) ? { ...line, countedQuantity: byLine.get(line.id) } : line
+                ),
+              }
+            : t
+        )
+      );
+      return { previous };
+    },
+    onError: (_err, _vars, context) => {
+      if (context) queryClient.setQueryData(inventoryKeys.stockTakes, context.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: inventoryKeys.stockTakes }),
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: repo.approveStockTake,
+    onSuccess: putStockTake,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.products });
+      queryClient.invalidateQueries({ queryKey: inventoryKeys.stockMovements });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: repo.cancelStockTake,
+    onSuccess: putStockTake,
+  });
+
+  return {
+    stockTakes: stockTakesQuery.data ?? [],
+    isLoading: stockTakesQuery.isLoading,
+    startStockTake: (category?: string | null, note?: string) =>
+      startMutation.mutateAsync({ category, note }),
+    recordCounts: (id: string, counts: StockCountInput[]) =>
+      recordCountsMutation.mutateAsync({ id, counts }),
+    approveStockTake: approveMutation.mutateAsync,
+    cancelStockTake: cancelMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ean13CheckDigit,
+  encodeCode128,
+  encodeEan13,
+  findProductByCode,
+  generateBarcode,
+  isValidEan13,
+  matchesProduct,
+} from "@/lib/barcode";
+import { product } from "@/test/fixtures";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("ean13CheckDigit", () => {
+  it("weights alternate digits by 3", () => {
+    expect(ean13CheckDigit("400638133393")).toBe(1);
+    expect(ean13CheckDigit("590123412345")).toBe(7);
+  });
+
+  it("gives 0 when the sum is already a multiple of 10", () => {
+    expect(ean13CheckDigit("000000000000")).toBe(0);
+  });
+});
+
+describe("isValidEan13", () => {
+  it("accepts 13 digits with the right check digit", () => {
+    expect(isValidEan13("4006381333931")).toBe(true);
+  });
+
+  it("rejects a wrong check digit, the wrong length or letters", () => {
+    expect(isValidEan13("4006381333932")).toBe(false);
+    expect(isValidEan13("400638133393")).toBe(false);
+    expect(isValidEan13("40063813339A1")).toBe(false);
+  });
+});
+
+describe("generateBarcode", () => {
+  it("makes an in-store EAN-13 with prefix 20", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(generateBarcode(new Set())).toBe("2000000000008");
+  });
+
+  it("skips codes already taken", () => {
+    vi.spyOn(Math, "random").mockReturnValueOnce(0).mockReturnValueOnce(0.5);
+    const code = generateBarcode(new Set(["2000000000008"]));
+    expect(code).toBe("2050000000003");
+    expect(isValidEan13(code)).toBe(true);
+  });
+});
+
+describe("findProductByCode", () => {
+  const products = [
+    product({ id: "ean", barcode: "4006381333931" }),
+    product({ id: "upc", barcode: "0036000291452" }),
+    product({ id: "sku", sku: "SUG-2KG" }),
+  ];
+
+  it("matches a barcode exactly", () => {
+    expect(findProductByCode(products, "4006381333931")?.id).toBe("ean");
+  });
+
+  it("matches a 12-digit UPC-A stored as EAN-13", () => {
+    expect(findProductByCode(products, "036000291452")?.id).toBe("upc");
+  });
+
+  it("matches a SKU in any case, ignoring surrounding spaces", () => {
+    expect(findProductByCode(products, " sug-2kg ")?.id).toBe("sku");
+  });
+
+  it("finds nothing for a blank or unknown code", () => {
+    expect(findProductByCode(products, "  ")).toBeUndefined();
+    expect(findProductByCode(products, "123")).toBeUndefined();
+  });
+});
+
+describe("matchesProduct", () => {
+  const sugar = product({ sku: "SUG-2KG", barcode: "4006381333931" });
+
+  it("searches the name, category, SKU and barcode", () => {
+    expect(matchesProduct(sugar, "sugar")).toBe(true);
+    expect(matchesProduct(sugar, "grocer")).toBe(true);
+    expect(matchesProduct(sugar, "sug-")).toBe(true);
+    expect(matchesProduct(sugar, "33393")).toBe(true);
+    expect(matchesProduct(sugar, "flour")).toBe(false);
+  });
+});
+
+describe("encodeEan13", () => {
+  const modules = encodeEan13("4006381333931");
+
+  it("has 95 modules with start, centre and end guards", () => {
+    expect(modules).toHaveLength(95);
+    expect(modules.slice(0, 3)).toBe("101");
+    expect(modules.slice(45, 50)).toBe("01010");
+    expect(modules.slice(92)).toBe("101");
+  });
+
+  it("carries the first digit in the parity of the left half", () => {
+    // First digit 4 is LGLLGG: the first 0 is in set L, the second in set G.
+    expect(modules.slice(3, 10)).toBe("0001101");
+    expect(modules.slice(10, 17)).toBe("0100111");
+  });
+
+  it("uses set R on the right half", () => {
+    // The check digit, 1.
+    expect(modules.slice(85, 92)).toBe("1100110");
+  });
+
+  it("refuses codes that aren't valid EAN-13s", () => {
+    expect(encodeEan13("4006381333932")).toBeNull();
+    expect(encodeEan13("SUG-2KG")).toBeNull();
+  });
+});
+
+describe("encodeCode128", () => {
+  it("encodes Start B, the text, the checksum and Stop", () => {
+    expect(encodeCode128("A")).toBe(
+      "11010010000" + // Start B
+        "10100011000" + // A
+        "10001011000" + // checksum (104 + 33) % 103 = 34
+        "1100011101011" // Stop
+    );
+  });
+
+  it("gives each character 11 modules", () => {
+    expect(encodeCode128("SUG-2KG")).toHaveLength(11 * (1 + 7 + 1) + 13);
+  });
+
+  it("refuses empty text and characters outside printable ASCII", () => {
+    expect(encodeCode128("")).toBeNull();
+    expect(encodeCode128("Café")).toBeNull();
+    expect(encodeCode128("A\tB")).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+// src/lib/barcode.ts
+
+import { Product } from "@/types";
+
+/** EAN-13 check digit for the first 12 digits. */
+export function ean13CheckDigit(digits: string): number {
+  const sum = digits
+    .slice(0, 12)
+    .split("")
+    .reduce((total, digit, i) => total + Number(digit) * (i % 2 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export const isValidEan13 = (code: string): boolean =>
+  /^\d{13}$/.test(code) && ean13CheckDigit(code) === Number(code[12]);
+
+/**
+ * A new EAN-13 for a product that came without a barcode. Prefix 20 is
+ * reserved for in-store numbering, so it can't clash with a manufacturer's
+ * code; `taken` holds the barcodes already in use.
+ */
+export function generateBarcode(taken: Set<string>): string {
+  for (;;) {
+    const body = "20" + String(Math.floor(Math.random() * 1e10)).padStart(10, "0");
+    const code = body + ean13CheckDigit(body);
+    if (!taken.has(code)) return code;
+  }
+}
+
+/**
+ * The product a typed or scanned code belongs to: an exact barcode, a SKU in
+ * any case, or a 12-digit UPC-A stored as its EAN-13 equivalent.
+ */
+export function findProductByCode(products: Product[], code: string): Product | undefined {
+  const trimmed = code.trim();
+  if (!trimmed) return undefined;
+  const sku = trimmed.toLowerCase();
+  return products.find(
+    (p) =>
+      p.barcode === trimmed ||
+      p.barcode === `0${trimmed}` ||
+      p.sku?.toLowerCase() === sku
+  );
+}
+
+/** Whether a product's name, category, SKU or barcode contains `term`. */
+export const matchesProduct = (product: Product, term: string): boolean => {
+  const needle = term.toLowerCase();
+  return [product.name, product.category, product.sku, product.barcode].some((value) =>
+    value?.toLowerCase().includes(needle)
+  );
+};
+
+// Symbols -----------------------------------------------------------------------
+
+export type BarcodeSymbology = "ean13" | "code128";
+
+const EAN_L = [
+  "0001101", "0011001", "0010011", "0111101", "0100011",
+  "0110001", "0101111", "0111011", "0110111", "0001011",
+];
+const EAN_R = EAN_L.map((bits) => bits.replace(/./g, (bit) => (bit === "0" ? "1" : "0")));
+const EAN_G = EAN_R.map((bits) => bits.split("").reverse().join(""));
+// Which left-hand digits use the G set; the first digit is carried this way.
+const EAN_PARITY = [
+  "LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG",
+  "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL",
+];
+
+/** The 95 modules (1 = bar) of an EAN-13, or null if the code isn't one. */
+export function encodeEan13(code: string): string | null {
+  if (!isValidEan13(code)) return null;
+  const digits = code.split("").map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits
+    .slice(1, 7)
+    .map((digit, i) => (parity[i] === "L" ? EAN_L : EAN_G)[digit])
+    .join("");
+  const right = digits
+    .slice(7)
+    .map((digit) => EAN_R[digit])
+    .join("");
+  return `101${left}01010${right}101`;
+}
+
+// Bar/space widths of Code 128 symbols 0–105; 104 is Start B.
+const CODE128_WIDTHS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312",
+  "132212", "221213", "221312", "231212", "112232", "122132", "122231", "113222",
+  "123122", "123221", "223211", "221132", "221231", "213212", "223112", "312131",
+  "311222", "321122", "321221", "312212", "322112", "322211", "212123", "212321",
+  "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121",
+  "313121", "211331", "231131", "213113", "213311", "213131", "311123", "311321",
+  "331121", "312113", "312311", "332111", "314111", "221411", "431111", "111224",
+  "111422", "121124", "121421", "141122", "141221", "112214", "112412", "122114",
+  "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112",
+  "421211", "212141", "214121", "412121", "111143", "111341", "131141", "114113",
+  "114311", "411113", "411311", "113141", "114131", "311141", "411131", "211412",
+  "211214", "211232",
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = "2331112";
+
+const widthsToModules = (widths: string) =>
+  widths
+    .split("")
+    .map((width, i) => (i % 2 ? "0" : "1").repeat(Number(width)))
+    .join("");
+
+/**
+ * The modules of a Code 128 (set B) barcode, which can carry any SKU or
+ * barcode made of printable ASCII; null for anything else.
+ */
+export function encodeCode128(text: string): string | null {
+  if (!text || !/^[\x20-\x7e]+$/.test(text)) return null;
+  const values = text.split("").map((char) => char.charCodeAt(0) - 32);
+  const checksum =
+    values.reduce((sum, value, i) => sum + value * (i + 1), CODE128_START_B) % 103;
+  return [CODE128_START_B, ...values, checksum]
+    .map((value) => widthsToModules(CODE128_WIDTHS[value]))
+    .concat(widthsToModules(CODE128_STOP))
+    .join("");
+}
+
+// Camera scanning ---------------------------------------------------------------
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+export interface BarcodeDetectorLike {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorLike;
+
+const SCAN_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e", "code_128", "code_39", "qr_code"];
+
+/** The browser's built-in barcode detector (Chrome, Edge and Android), if any. */
+function createNativeDetector(): BarcodeDetectorLike | null {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    return new Detector({ formats: SCAN_FORMATS });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decodes video frames in JavaScript with ZXing, for browsers without a
+ * built-in detector: Safari on iPads and iPhones, Firefox, and Chrome on
+ * Windows and Linux. Loaded only when it is needed. Like the built-in one,
+ * detect() throws on frames it can't make sense of.
+ */
+async function createZxingDetector(): Promise<BarcodeDetectorLike> {
+  const [{ BrowserMultiFormatReader }, { BarcodeFormat, DecodeHintType, NotFoundException }] =
+    await Promise.all([import("@zxing/browser"), import("@zxing/library")]);
+  const reader = new BrowserMultiFormatReader(
+    new Map([
+      [
+        DecodeHintType.POSSIBLE_FORMATS,
+        [
+          BarcodeFormat.EAN_13,
+          BarcodeFormat.EAN_8,
+          BarcodeFormat.UPC_A,
+          BarcodeFormat.UPC_E,
+          BarcodeFormat.CODE_128,
+          BarcodeFormat.CODE_39,
+          BarcodeFormat.QR_CODE,
+        ],
+      ],
+    ])
+  );
+  const canvas = document.createElement("canvas");
+  return {
+    async detect(source) {
+      const video = source as HTMLVideoElement;
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext("2d")?.drawImage(video, 0, 0);
+      try {
+        return [{ rawValue: reader.decodeFromCanvas(canvas).getText() }];
+      } catch (err) {
+        if (err instanceof NotFoundException) return [];
+        throw err;
+      }
+    },
+  };
+}
+
+/**
+ * A detector for reading barcodes off the camera: the browser's own where it
+ * has one, else ZXing. Null only if ZXing can't be loaded either, when codes
+ * have to be typed or scanned with a USB scanner instead.
+ */
+export async function createBarcodeDetector(): Promise<BarcodeDetectorLike | null> {
+  try {
+    return createNativeDetector() ?? (await createZxingDetector());
+  } catch {
+    return null;
+  }
+}
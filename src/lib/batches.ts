@@ -0,0 +1,33 @@
+// src/lib/batches.ts
+
+import { StockBatch } from "@/types";
+
+/** Batches expiring within this many days show on the Dashboard. */
+export const EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whole days from `today` to the batch's expiry date: 0 today, negative once past. */
+export const daysUntilExpiry = (expiryDate: string, today = new Date()): number =>
+  Math.round(
+    (Date.parse(expiryDate) - Date.parse(today.toISOString().split("T")[0])) / DAY_MS
+  );
+
+/** Batches with stock left that expire within `days` (or already have), soonest first. */
+export const expiringBatches = (
+  batches: StockBatch[],
+  days = EXPIRY_WARNING_DAYS,
+  today = new Date()
+): StockBatch[] =>
+  batches
+    .filter(
+      (b) => b.quantity > 0 && b.expiryDate && daysUntilExpiry(b.expiryDate, today) <= days
+    )
+    .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate));
+
+/** "Expired 3 days ago", "Expires today", "Expires in 12 days". */
+export function expiryLabel(days: number): string {
+  if (days < 0) return `Expired ${-days} day${days === -1 ? "" : "s"} ago`;
+  if (days === 0) return "Expires today";
+  return `Expires in ${days} day${days === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,33 @@
+// src/lib/costing.ts
+
+import { CostingMethod, ShopSettings } from "@/types";
+
+/** What a shop gets until it chooses otherwise; matches the database default. */
+export const DEFAULT_SHOP_SETTINGS: ShopSettings = {
+  costingMethod: "weighted_average",
+  maxManualDiscount: null,
+  managerPinSet: false,
+  vatRegistered: false,
+  pricesIncludeTax: true,
+  vatRate: 16,
+};
+
+export const COSTING_METHODS: { value: CostingMethod; label: string; description: string }[] = [
+  {
+    value: "weighted_average",
+    label: "Weighted average",
+    description:
+      "Every sale costs the average of what the stock on hand was bought for. Prices paid " +
+      "are blended as deliveries come in.",
+  },
+  {
+    value: "fifo",
+    label: "FIFO (first in, first out)",
+    description:
+      "Sales cost what the oldest stock on hand was bought for; newer deliveries are " +
+      "costed once the older ones are sold.",
+  },
+];
+
+export const costingMethodLabel = (method: CostingMethod): string =>
+  COSTING_METHODS.find((m) => m.value === method)?.label ?? method;
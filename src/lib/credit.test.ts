@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { customerLedger, daysOverdue, saleBalance, saleCreditStatus } from "@/lib/credit";
+import { repayment, sale } from "@/test/fixtures";
+
+const TODAY = new Date("2026-10-19");
+
+const creditSale = (id: string, date: string, amountDue: number, amountRepaid = 0) =>
+  sale({ id, date, customerId: "c1", customerName: "Mama Njeri", amountDue, amountRepaid });
+
+describe("saleBalance and saleCreditStatus", () => {
+  it("is nothing on sales without credit", () => {
+    expect(saleBalance(sale())).toBe(0);
+    expect(saleCreditStatus(sale())).toBeNull();
+  });
+
+  it("follows repayments down to zero", () => {
+    expect(saleCreditStatus(creditSale("s1", "2026-10-01", 500))).toBe("unpaid");
+    expect(saleBalance(creditSale("s1", "2026-10-01", 500, 199.99))).toBe(300.01);
+    expect(saleCreditStatus(creditSale("s1", "2026-10-01", 500, 200))).toBe("partial");
+    expect(saleCreditStatus(creditSale("s1", "2026-10-01", 500, 500))).toBe("paid");
+  });
+});
+
+describe("daysOverdue", () => {
+  it("counts whole days past the customer's credit terms", () => {
+    expect(daysOverdue(creditSale("s1", "2026-09-01", 500), 30, TODAY)).toBe(18);
+    expect(daysOverdue(creditSale("s1", "2026-10-01", 500), 30, TODAY)).toBe(-12);
+  });
+});
+
+describe("customerLedger", () => {
+  const creditSale = {
+    id: "s1",
+    date: "2026-10-01",
+    items: "Sugar 2kg × 2",
+    amountDue: 660,
+    amountRepaid: 200,
+  };
+  // Newest first, as the customer_ledger RPC returns them.
+  const lines = [
+    {
+      id: "rp1",
+      date: "2026-10-10",
+      sale: null,
+      repayment: repayment({ amount: 200, reference: "SGR7XK2P1Q" }),
+      balance: 460,
+    },
+    { id: "s1", date: "2026-10-01", sale: creditSale, repayment: null, balance: 660 },
+  ];
+
+  it("lists credit sales and repayments in date order with their balances", () => {
+    const ledger = customerLedger(lines);
+    expect(ledger.map(({ id, charge, payment, balance }) => ({ id, charge, payment, balance }))).toEqual([
+      { id: "s1", charge: 660, payment: 0, balance: 660 },
+      { id: "rp1", charge: 0, payment: 200, balance: 460 },
+    ]);
+    expect(ledger[0].description).toBe("Sale: Sugar 2kg × 2");
+    expect(ledger[0].sale).toBe(creditSale);
+    expect(ledger[1].description).toBe("Repayment by Cash · SGR7XK2P1Q");
+    expect(ledger[1].repayment).toBe(lines[0].repayment);
+  });
+
+  it("keeps voided repayments listed without counting them", () => {
+    const [, voided] = customerLedger([
+      {
+        ...lines[0],
+        repayment: repayment({ voidedAt: "2026-10-11T08:00:00Z", voidReason: "Bounced" }),
+        balance: 660,
+      },
+      lines[1],
+    ]);
+    expect(voided.payment).toBe(0);
+    expect(voided.balance).toBe(660);
+    expect(voided.repayment).toBeUndefined();
+    expect(voided.description).toMatch(/voided \(.*100.*\): Bounced$/);
+  });
+});
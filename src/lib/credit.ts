@@ -0,0 +1,100 @@
+// src/lib/credit.ts
+
+import { CreditLedgerLine, CreditSale, Repayment, Sale } from "@/types";
+import { formatKSH } from "@/lib/formatCurrency";
+import { paymentMethodLabel } from "@/lib/payments";
+
+export type CreditStatus = "paid" | "partial" | "unpaid";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The parts of a sale that say what is owed on it and when. */
+type CreditTerms = Pick<Sale, "date" | "amountDue" | "amountRepaid">;
+
+/** What is still owed on a sale's credit tenders. */
+export const saleBalance = (sale: CreditTerms): number =>
+  Math.round((sale.amountDue - sale.amountRepaid) * 100) / 100;
+
+/** Null for sales with nothing on credit. */
+export function saleCreditStatus(sale: CreditTerms): CreditStatus | null {
+  if (sale.amountDue <= 0) return null;
+  if (saleBalance(sale) <= 0) return "paid";
+  return sale.amountRepaid > 0 ? "partial" : "unpaid";
+}
+
+export const CREDIT_STATUS_LABELS: Record<CreditStatus, string> = {
+  paid: "Paid",
+  partial: "Part paid",
+  unpaid: "Unpaid",
+};
+
+/** The date a credit sale falls due, `creditDays` after the sale. */
+export const dueDate = (sale: CreditTerms, creditDays: number): Date =>
+  new Date(new Date(sale.date.split("T")[0]).getTime() + creditDays * DAY_MS);
+
+/** Whole days past the due date (0 or less when not yet due). */
+export const daysOverdue = (sale: CreditTerms, creditDays: number, today = new Date()): number =>
+  Math.floor((today.getTime() - dueDate(sale, creditDays).getTime()) / DAY_MS);
+
+/**
+ * Aged-debt buckets, by days past the due date. The aged_debt RPC numbers
+ * its totals by position in this list.
+ */
+export const AGE_BUCKETS = [
+  { label: "Not yet due", maxDays: 0 },
+  { label: "1–30 days overdue", maxDays: 30 },
+  { label: "31–60 days overdue", maxDays: 60 },
+  { label: "61–90 days overdue", maxDays: 90 },
+  { label: "Over 90 days overdue", maxDays: Infinity },
+];
+
+export interface LedgerEntry {
+  id: string;
+  date: string;
+  description: string;
+  /** Credit extended (a credit sale). */
+  charge: number;
+  /** Money received (a repayment). */
+  payment: number;
+  /** Running balance owed after this entry. */
+  balance: number;
+  sale?: CreditSale;
+  /** Set on repayments that can still be voided. */
+  repayment?: Repayment;
+}
+
+/**
+ * Turns a customer's ledger lines (newest first, as listCustomerLedger
+ * returns them) into entries in date order. Voided repayments stay listed but
+ * pay nothing.
+ */
+export function customerLedger(lines: CreditLedgerLine[]): LedgerEntry[] {
+  return [...lines].reverse().map(({ id, date, sale, repayment, balance }) =>
+    sale
+      ? {
+          id,
+          date,
+          description: `Sale: ${sale.items}`,
+          charge: sale.amountDue,
+          payment: 0,
+          balance,
+          sale,
+        }
+      : {
+          id,
+          date,
+          description: [
+            `Repayment by ${paymentMethodLabel(repayment.method)}`,
+            repayment.reference,
+            repayment.note,
+            repayment.voidedAt && `voided (${formatKSH(repayment.amount)}): ${repayment.voidReason}`,
+          ]
+            .filter(Boolean)
+            .join(" · "),
+          charge: 0,
+          payment: repayment.voidedAt ? 0 : repayment.amount,
+          balance,
+          repayment: repayment.voidedAt ? undefined : repayment,
+        }
+  );
+}
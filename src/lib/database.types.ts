@@ -0,0 +1,1492 @@
+// Generated by `pnpm gen:types` (supabase gen types typescript --local).
+// Do not edit by hand: change the migrations under supabase/migrations and regenerate.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      cost_layer_draws: {
+        Row: {
+          id: string
+          layer_id: string
+          movement_id: string
+          quantity: number
+          restored: number
+          restored_txid: number | null
+          unit_cost: number
+        }
+        Insert: {
+          id?: string
+          layer_id: string
+          movement_id: string
+          quantity: number
+          restored?: number
+          restored_txid?: number | null
+          unit_cost: number
+        }
+        Update: {
+          id?: string
+          layer_id?: string
+          movement_id?: string
+          quantity?: number
+          restored?: number
+          restored_txid?: number | null
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_layer_draws_layer_id_fkey"
+            columns: ["layer_id"]
+            isOneToOne: false
+            referencedRelation: "cost_layers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_layer_draws_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cost_layers: {
+        Row: {
+          created_at: string
+          id: string
+          movement_id: string | null
+          product_id: string
+          quantity: number
+          unit_cost: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          movement_id?: string | null
+          product_id: string
+          quantity: number
+          unit_cost: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          movement_id?: string | null
+          product_id?: string
+          quantity?: number
+          unit_cost?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_layers_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_layers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_allocations: {
+        Row: {
+          amount: number
+          id: string
+          repayment_id: string
+          sale_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          id?: string
+          repayment_id: string
+          sale_id: string
+          user_id?: string
+        }
+        Update: {
+          amount?: number
+          id?: string
+          repayment_id?: string
+          sale_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_allocations_repayment_id_fkey"
+            columns: ["repayment_id"]
+            isOneToOne: false
+            referencedRelation: "credit_repayments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_allocations_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_repayments: {
+        Row: {
+          amount: number
+          created_at: string
+          customer_id: string
+          date: string
+          id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          note: string | null
+          reference: string | null
+          user_id: string
+          void_reason: string | null
+          voided_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          customer_id: string
+          date?: string
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          note?: string | null
+          reference?: string | null
+          user_id?: string
+          void_reason?: string | null
+          voided_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          customer_id?: string
+          date?: string
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          note?: string | null
+          reference?: string | null
+          user_id?: string
+          void_reason?: string | null
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_repayments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          created_at: string
+          credit_days: number
+          credit_limit: number | null
+          id: string
+          name: string
+          phone: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          credit_days?: number
+          credit_limit?: number | null
+          id?: string
+          name: string
+          phone?: string | null
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          credit_days?: number
+          credit_limit?: number | null
+          id?: string
+          name?: string
+          phone?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      inventory: {
+        Row: {
+          barcode: string | null
+          category: string
+          cost: number
+          created_at: string
+          decimal_quantities: boolean
+          id: string
+          name: string
+          option_values: Json | null
+          parent_id: string | null
+          price: number
+          price_override: number | null
+          reorder_level: number
+          sku: string | null
+          stock_quantity: number
+          stock_value: number
+          supplier_id: string | null
+          tax_category: Database["public"]["Enums"]["tax_category"]
+          unit: string
+          units: Json
+          user_id: string
+        }
+        Insert: {
+          barcode?: string | null
+          category?: string
+          cost?: number
+          created_at?: string
+          decimal_quantities?: boolean
+          id?: string
+          name: string
+          option_values?: Json | null
+          parent_id?: string | null
+          price?: number
+          price_override?: number | null
+          reorder_level?: number
+          sku?: string | null
+          stock_quantity?: number
+          stock_value?: number
+          supplier_id?: string | null
+          tax_category?: Database["public"]["Enums"]["tax_category"]
+          unit?: string
+          units?: Json
+          user_id?: string
+        }
+        Update: {
+          barcode?: string | null
+          category?: string
+          cost?: number
+          created_at?: string
+          decimal_quantities?: boolean
+          id?: string
+          name?: string
+          option_values?: Json | null
+          parent_id?: string | null
+          price?: number
+          price_override?: number | null
+          reorder_level?: number
+          sku?: string | null
+          stock_quantity?: number
+          stock_value?: number
+          supplier_id?: string | null
+          tax_category?: Database["public"]["Enums"]["tax_category"]
+          unit?: string
+          units?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "product_parents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_changes: {
+        Row: {
+          changed_by: string | null
+          changed_by_email: string | null
+          cost: number
+          effective_at: string
+          id: string
+          previous_cost: number | null
+          previous_price: number | null
+          price: number
+          product_id: string
+          scheduled_change_id: string | null
+          source: Database["public"]["Enums"]["price_change_source"]
+          user_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          changed_by_email?: string | null
+          cost: number
+          effective_at?: string
+          id?: string
+          previous_cost?: number | null
+          previous_price?: number | null
+          price: number
+          product_id: string
+          scheduled_change_id?: string | null
+          source: Database["public"]["Enums"]["price_change_source"]
+          user_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          changed_by_email?: string | null
+          cost?: number
+          effective_at?: string
+          id?: string
+          previous_cost?: number | null
+          previous_price?: number | null
+          price?: number
+          product_id?: string
+          scheduled_change_id?: string | null
+          source?: Database["public"]["Enums"]["price_change_source"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_changes_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_changes_scheduled_change_id_fkey"
+            columns: ["scheduled_change_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_price_changes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_parents: {
+        Row: {
+          category: string
+          cost: number
+          created_at: string
+          id: string
+          name: string
+          options: Json
+          price: number
+          reorder_level: number
+          supplier_id: string | null
+          tax_category: Database["public"]["Enums"]["tax_category"]
+          user_id: string
+        }
+        Insert: {
+          category?: string
+          cost: number
+          created_at?: string
+          id?: string
+          name: string
+          options?: Json
+          price: number
+          reorder_level?: number
+          supplier_id?: string | null
+          tax_category?: Database["public"]["Enums"]["tax_category"]
+          user_id?: string
+        }
+        Update: {
+          category?: string
+          cost?: number
+          created_at?: string
+          id?: string
+          name?: string
+          options?: Json
+          price?: number
+          reorder_level?: number
+          supplier_id?: string | null
+          tax_category?: Database["public"]["Enums"]["tax_category"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_parents_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotions: {
+        Row: {
+          active: boolean
+          buy_quantity: number | null
+          category: string | null
+          created_at: string
+          ends_on: string | null
+          free_quantity: number | null
+          id: string
+          kind: Database["public"]["Enums"]["promotion_kind"]
+          name: string
+          percent: number | null
+          product_id: string | null
+          starts_on: string
+          user_id: string
+        }
+        Insert: {
+          active?: boolean
+          buy_quantity?: number | null
+          category?: string | null
+          created_at?: string
+          ends_on?: string | null
+          free_quantity?: number | null
+          id?: string
+          kind: Database["public"]["Enums"]["promotion_kind"]
+          name: string
+          percent?: number | null
+          product_id?: string | null
+          starts_on?: string
+          user_id?: string
+        }
+        Update: {
+          active?: boolean
+          buy_quantity?: number | null
+          category?: string | null
+          created_at?: string
+          ends_on?: string | null
+          free_quantity?: number | null
+          id?: string
+          kind?: Database["public"]["Enums"]["promotion_kind"]
+          name?: string
+          percent?: number | null
+          product_id?: string | null
+          starts_on?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_items: {
+        Row: {
+          id: string
+          order_id: string
+          product_id: string | null
+          product_name: string
+          quantity_ordered: number
+          quantity_received: number
+          unit: string
+          unit_cost: number
+          unit_factor: number
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          product_id?: string | null
+          product_name: string
+          quantity_ordered: number
+          quantity_received?: number
+          unit?: string
+          unit_cost: number
+          unit_factor?: number
+          user_id?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          product_id?: string | null
+          product_name?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          unit?: string
+          unit_cost?: number
+          unit_factor?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string
+          expected_date: string | null
+          id: string
+          note: string | null
+          number: number
+          order_date: string
+          received_at: string | null
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          note?: string | null
+          number?: number
+          order_date?: string
+          received_at?: string | null
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          note?: string | null
+          number?: number
+          order_date?: string
+          received_at?: string | null
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_items: {
+        Row: {
+          created_at: string
+          discount_amount: number
+          discount_type: Database["public"]["Enums"]["discount_type"] | null
+          discount_value: number | null
+          id: string
+          line_total: number
+          product_id: string | null
+          product_name: string
+          profit: number
+          promotion_id: string | null
+          promotion_name: string | null
+          quantity: number
+          sale_id: string
+          tax_amount: number
+          tax_category: Database["public"]["Enums"]["tax_category"] | null
+          tax_rate: number
+          unit: string
+          unit_cost: number
+          unit_factor: number
+          unit_price: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          discount_amount?: number
+          discount_type?: Database["public"]["Enums"]["discount_type"] | null
+          discount_value?: number | null
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          product_name: string
+          profit?: number
+          promotion_id?: string | null
+          promotion_name?: string | null
+          quantity: number
+          sale_id: string
+          tax_amount?: number
+          tax_category?: Database["public"]["Enums"]["tax_category"] | null
+          tax_rate?: number
+          unit?: string
+          unit_cost?: number
+          unit_factor?: number
+          unit_price?: number
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          discount_amount?: number
+          discount_type?: Database["public"]["Enums"]["discount_type"] | null
+          discount_value?: number | null
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          product_name?: string
+          profit?: number
+          promotion_id?: string | null
+          promotion_name?: string | null
+          quantity?: number
+          sale_id?: string
+          tax_amount?: number
+          tax_category?: Database["public"]["Enums"]["tax_category"] | null
+          tax_rate?: number
+          unit?: string
+          unit_cost?: number
+          unit_factor?: number
+          unit_price?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_payments: {
+        Row: {
+          amount: number
+          checkout_request_id: string | null
+          created_at: string
+          failure_reason: string | null
+          id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          phone: string | null
+          prompted_at: string | null
+          reference: string | null
+          sale_id: string
+          status: Database["public"]["Enums"]["payment_status"]
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          checkout_request_id?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          method: Database["public"]["Enums"]["payment_method"]
+          phone?: string | null
+          prompted_at?: string | null
+          reference?: string | null
+          sale_id: string
+          status?: Database["public"]["Enums"]["payment_status"]
+          user_id?: string
+        }
+        Update: {
+          amount?: number
+          checkout_request_id?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          phone?: string | null
+          prompted_at?: string | null
+          reference?: string | null
+          sale_id?: string
+          status?: Database["public"]["Enums"]["payment_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_payments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_return_items: {
+        Row: {
+          id: string
+          profit_reversed: number
+          quantity: number
+          refund_amount: number
+          restock: boolean
+          return_id: string
+          sale_item_id: string
+          tax_amount: number
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          profit_reversed: number
+          quantity: number
+          refund_amount: number
+          restock: boolean
+          return_id: string
+          sale_item_id: string
+          tax_amount?: number
+          user_id?: string
+        }
+        Update: {
+          id?: string
+          profit_reversed?: number
+          quantity?: number
+          refund_amount?: number
+          restock?: boolean
+          return_id?: string
+          sale_item_id?: string
+          tax_amount?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_return_items_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "sale_returns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_return_items_sale_item_id_fkey"
+            columns: ["sale_item_id"]
+            isOneToOne: false
+            referencedRelation: "sale_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_returns: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          note: string | null
+          profit_reversed: number
+          reason: string
+          refund_amount: number
+          refund_method: Database["public"]["Enums"]["payment_method"]
+          sale_id: string
+          tax_amount: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date?: string
+          id?: string
+          note?: string | null
+          profit_reversed?: number
+          reason: string
+          refund_amount?: number
+          refund_method: Database["public"]["Enums"]["payment_method"]
+          sale_id: string
+          tax_amount?: number
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          note?: string | null
+          profit_reversed?: number
+          reason?: string
+          refund_amount?: number
+          refund_method?: Database["public"]["Enums"]["payment_method"]
+          sale_id?: string
+          tax_amount?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_returns_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales: {
+        Row: {
+          amount_due: number
+          amount_repaid: number
+          created_at: string
+          customer_id: string | null
+          date: string
+          discount_amount: number
+          discount_type: Database["public"]["Enums"]["discount_type"] | null
+          discount_value: number | null
+          id: string
+          profit: number
+          tax_amount: number
+          total_amount: number
+          user_id: string
+        }
+        Insert: {
+          amount_due?: number
+          amount_repaid?: number
+          created_at?: string
+          customer_id?: string | null
+          date?: string
+          discount_amount?: number
+          discount_type?: Database["public"]["Enums"]["discount_type"] | null
+          discount_value?: number | null
+          id?: string
+          profit?: number
+          tax_amount?: number
+          total_amount?: number
+          user_id?: string
+        }
+        Update: {
+          amount_due?: number
+          amount_repaid?: number
+          created_at?: string
+          customer_id?: string | null
+          date?: string
+          discount_amount?: number
+          discount_type?: Database["public"]["Enums"]["discount_type"] | null
+          discount_value?: number | null
+          id?: string
+          profit?: number
+          tax_amount?: number
+          total_amount?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_price_changes: {
+        Row: {
+          applied_at: string | null
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          effective_at: string
+          id: string
+          note: string | null
+          price: number
+          product_id: string
+          user_id: string
+        }
+        Insert: {
+          applied_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          effective_at: string
+          id?: string
+          note?: string | null
+          price: number
+          product_id: string
+          user_id: string
+        }
+        Update: {
+          applied_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          effective_at?: string
+          id?: string
+          note?: string | null
+          price?: number
+          product_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_price_changes_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shop_settings: {
+        Row: {
+          costing_method: Database["public"]["Enums"]["costing_method"]
+          manager_pin_set: boolean
+          max_manual_discount: number | null
+          prices_include_tax: boolean
+          updated_at: string
+          user_id: string
+          vat_rate: number
+          vat_registered: boolean
+        }
+        Insert: {
+          costing_method?: Database["public"]["Enums"]["costing_method"]
+          manager_pin_set?: boolean
+          max_manual_discount?: number | null
+          prices_include_tax?: boolean
+          updated_at?: string
+          user_id?: string
+          vat_rate?: number
+          vat_registered?: boolean
+        }
+        Update: {
+          costing_method?: Database["public"]["Enums"]["costing_method"]
+          manager_pin_set?: boolean
+          max_manual_discount?: number | null
+          prices_include_tax?: boolean
+          updated_at?: string
+          user_id?: string
+          vat_rate?: number
+          vat_registered?: boolean
+        }
+        Relationships: []
+      }
+      stock_batch_draws: {
+        Row: {
+          batch_id: string
+          id: string
+          movement_id: string
+          quantity: number
+        }
+        Insert: {
+          batch_id: string
+          id?: string
+          movement_id: string
+          quantity: number
+        }
+        Update: {
+          batch_id?: string
+          id?: string
+          movement_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_batch_draws_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "stock_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_batch_draws_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_batches: {
+        Row: {
+          expiry_date: string | null
+          id: string
+          lot_number: string | null
+          product_id: string
+          purchase_order_id: string | null
+          quantity: number
+          received_at: string
+          received_quantity: number
+          user_id: string
+        }
+        Insert: {
+          expiry_date?: string | null
+          id?: string
+          lot_number?: string | null
+          product_id: string
+          purchase_order_id?: string | null
+          quantity: number
+          received_at?: string
+          received_quantity: number
+          user_id: string
+        }
+        Update: {
+          expiry_date?: string | null
+          id?: string
+          lot_number?: string | null
+          product_id?: string
+          purchase_order_id?: string | null
+          quantity?: number
+          received_at?: string
+          received_quantity?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_batches_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_batches_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          balance: number
+          cost: number
+          created_at: string
+          id: string
+          movement_type: Database["public"]["Enums"]["stock_movement_type"]
+          note: string | null
+          performed_by: string | null
+          performed_by_email: string | null
+          product_id: string | null
+          product_name: string
+          quantity: number
+          reason: Database["public"]["Enums"]["stock_adjustment_reason"] | null
+          reference_id: string | null
+          user_id: string
+        }
+        Insert: {
+          balance: number
+          cost?: number
+          created_at?: string
+          id?: string
+          movement_type: Database["public"]["Enums"]["stock_movement_type"]
+          note?: string | null
+          performed_by?: string | null
+          performed_by_email?: string | null
+          product_id?: string | null
+          product_name?: string
+          quantity: number
+          reason?: Database["public"]["Enums"]["stock_adjustment_reason"] | null
+          reference_id?: string | null
+          user_id: string
+        }
+        Update: {
+          balance?: number
+          cost?: number
+          created_at?: string
+          id?: string
+          movement_type?: Database["public"]["Enums"]["stock_movement_type"]
+          note?: string | null
+          performed_by?: string | null
+          performed_by_email?: string | null
+          product_id?: string | null
+          product_name?: string
+          quantity?: number
+          reason?: Database["public"]["Enums"]["stock_adjustment_reason"] | null
+          reference_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_take_lines: {
+        Row: {
+          category: string
+          counted_at: string | null
+          counted_by_email: string | null
+          counted_quantity: number | null
+          expected_quantity: number
+          id: string
+          product_id: string | null
+          product_name: string
+          stock_take_id: string
+          unit_cost: number
+          user_id: string
+        }
+        Insert: {
+          category: string
+          counted_at?: string | null
+          counted_by_email?: string | null
+          counted_quantity?: number | null
+          expected_quantity: number
+          id?: string
+          product_id?: string | null
+          product_name: string
+          stock_take_id: string
+          unit_cost: number
+          user_id?: string
+        }
+        Update: {
+          category?: string
+          counted_at?: string | null
+          counted_by_email?: string | null
+          counted_quantity?: number | null
+          expected_quantity?: number
+          id?: string
+          product_id?: string | null
+          product_name?: string
+          stock_take_id?: string
+          unit_cost?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_take_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_take_lines_stock_take_id_fkey"
+            columns: ["stock_take_id"]
+            isOneToOne: false
+            referencedRelation: "stock_takes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_takes: {
+        Row: {
+          approved_at: string | null
+          approved_by_email: string | null
+          category: string | null
+          id: string
+          note: string | null
+          number: number
+          started_at: string
+          status: Database["public"]["Enums"]["stock_take_status"]
+          user_id: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by_email?: string | null
+          category?: string | null
+          id?: string
+          note?: string | null
+          number?: number
+          started_at?: string
+          status?: Database["public"]["Enums"]["stock_take_status"]
+          user_id?: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by_email?: string | null
+          category?: string | null
+          id?: string
+          note?: string | null
+          number?: number
+          started_at?: string
+          status?: Database["public"]["Enums"]["stock_take_status"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      suppliers: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          lead_time_days: number
+          name: string
+          notes: string | null
+          phone: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          lead_time_days?: number
+          name: string
+          notes?: string | null
+          phone?: string | null
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          lead_time_days?: number
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      adjust_stock: {
+        Args: {
+          p_product_id: string
+          p_quantity: number
+          p_reason: Database["public"]["Enums"]["stock_adjustment_reason"]
+          p_note?: string
+        }
+        Returns: Database["public"]["Tables"]["inventory"]["Row"]
+      }
+      aged_debt: {
+        Args: { p_today?: string }
+        Returns: {
+          amount: number
+          bucket: number
+        }[]
+      }
+      approve_stock_take: {
+        Args: { p_stock_take_id: string }
+        Returns: Database["public"]["Tables"]["stock_takes"]["Row"]
+      }
+      cancel_purchase_order: {
+        Args: { p_order_id: string }
+        Returns: Database["public"]["Tables"]["purchase_orders"]["Row"]
+      }
+      cancel_scheduled_price_change: {
+        Args: { p_change_id: string }
+        Returns: undefined
+      }
+      cancel_stock_take: {
+        Args: { p_stock_take_id: string }
+        Returns: Database["public"]["Tables"]["stock_takes"]["Row"]
+      }
+      check_manager_pin: {
+        Args: { p_pin: string }
+        Returns: string | null
+      }
+      create_purchase_order: {
+        Args: {
+          p_supplier_id: string
+          p_items: Json
+          p_order_date?: string
+          p_expected_date?: string
+          p_note?: string
+        }
+        Returns: Database["public"]["Tables"]["purchase_orders"]["Row"]
+      }
+      customer_balances: {
+        Args: { p_today?: string }
+        Returns: {
+          customer_id: string
+          oldest_overdue_days: number
+          outstanding: number
+          overdue: number
+        }[]
+      }
+      customer_ledger: {
+        Args: { p_customer_id: string }
+        Returns: {
+          amount: number | null
+          amount_due: number
+          amount_repaid: number | null
+          balance: number
+          date: string
+          id: string
+          method: Database["public"]["Enums"]["payment_method"] | null
+          note: string | null
+          reference: string | null
+          repayment_id: string | null
+          sale_id: string | null
+          sale_items: string | null
+          void_reason: string | null
+          voided_at: string | null
+        }[]
+      }
+      delete_sale: {
+        Args: { p_sale_id: string }
+        Returns: undefined
+      }
+      receive_purchase_order: {
+        Args: { p_order_id: string; p_items: Json }
+        Returns: Database["public"]["Tables"]["purchase_orders"]["Row"]
+      }
+      record_repayment: {
+        Args: {
+          p_customer_id: string
+          p_amount: number
+          p_method?: Database["public"]["Enums"]["payment_method"]
+          p_reference?: string
+          p_date?: string
+          p_note?: string
+        }
+        Returns: Database["public"]["Tables"]["credit_repayments"]["Row"]
+      }
+      record_return: {
+        Args: {
+          p_sale_id: string
+          p_items: Json
+          p_reason: string
+          p_refund_method?: Database["public"]["Enums"]["payment_method"]
+          p_date?: string
+          p_note?: string
+        }
+        Returns: Database["public"]["Tables"]["sale_returns"]["Row"]
+      }
+      record_stock_counts: {
+        Args: { p_stock_take_id: string; p_counts: Json }
+        Returns: undefined
+      }
+      record_sale: {
+        Args: {
+          p_items: Json
+          p_date?: string
+          p_payments?: Json
+          p_customer_id?: string
+          p_discount?: Json
+          p_approval?: string
+        }
+        Returns: Database["public"]["Tables"]["sales"]["Row"]
+      }
+      save_product_parent: {
+        Args: { p_parent_id: string | null; p_parent: Json; p_variants: Json }
+        Returns: Database["public"]["Tables"]["product_parents"]["Row"]
+      }
+      schedule_price_change: {
+        Args: { p_product_id: string; p_price: number; p_effective_at: string; p_note?: string }
+        Returns: Database["public"]["Tables"]["scheduled_price_changes"]["Row"]
+      }
+      set_costing_method: {
+        Args: { p_method: Database["public"]["Enums"]["costing_method"] }
+        Returns: Database["public"]["Tables"]["shop_settings"]["Row"]
+      }
+      set_discount_limit: {
+        Args: { p_percent: number | null; p_approval?: string }
+        Returns: Database["public"]["Tables"]["shop_settings"]["Row"]
+      }
+      set_manager_pin: {
+        Args: { p_pin: string | null; p_approval?: string }
+        Returns: Database["public"]["Tables"]["shop_settings"]["Row"]
+      }
+      set_tax_settings: {
+        Args: {
+          p_prices_include_tax: boolean
+          p_vat_rate: number
+          p_vat_registered: boolean
+        }
+        Returns: Database["public"]["Tables"]["shop_settings"]["Row"]
+      }
+      start_stock_take: {
+        Args: { p_category?: string; p_note?: string }
+        Returns: Database["public"]["Tables"]["stock_takes"]["Row"]
+      }
+      update_purchase_order: {
+        Args: {
+          p_order_id: string
+          p_supplier_id: string
+          p_items: Json
+          p_order_date: string
+          p_expected_date?: string
+          p_note?: string
+        }
+        Returns: Database["public"]["Tables"]["purchase_orders"]["Row"]
+      }
+      update_sale: {
+        Args: {
+          p_sale_id: string
+          p_items: Json
+          p_date: string
+          p_payments?: Json
+          p_customer_id?: string
+          p_discount?: Json
+          p_approval?: string
+        }
+        Returns: Database["public"]["Tables"]["sales"]["Row"]
+      }
+      vat_lines: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          customer_name: string | null
+          date: string
+          id: string
+          is_return: boolean
+          product_name: string
+          quantity: number
+          sale_id: string
+          tax_category: Database["public"]["Enums"]["tax_category"] | null
+          tax_rate: number
+          taxable_value: number
+          total: number
+          unit: string
+          vat: number
+        }[]
+      }
+      vat_summary: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          returns: number
+          sales: number
+          tax_category: Database["public"]["Enums"]["tax_category"] | null
+          taxable_value: number
+          vat: number
+        }[]
+      }
+      void_repayment: {
+        Args: { p_repayment_id: string; p_reason: string }
+        Returns: Database["public"]["Tables"]["credit_repayments"]["Row"]
+      }
+      write_off_batch: {
+        Args: { p_batch_id: string; p_note?: string }
+        Returns: Database["public"]["Tables"]["stock_batches"]["Row"]
+      }
+    }
+    Enums: {
+      costing_method: "fifo" | "weighted_average"
+      discount_type: "percent" | "fixed"
+      payment_method: "cash" | "mpesa" | "card" | "credit"
+      payment_status: "pending" | "paid" | "failed"
+      price_change_source: "opening" | "manual" | "scheduled" | "stock_movement"
+      promotion_kind: "percent_off" | "buy_x_get_y"
+      purchase_order_status: "open" | "received" | "cancelled"
+      stock_adjustment_reason:
+        | "damaged"
+        | "expired"
+        | "theft"
+        | "found"
+        | "gift"
+        | "internal_use"
+      stock_movement_type:
+        | "opening"
+        | "sale"
+        | "sale_reversal"
+        | "return"
+        | "purchase_receipt"
+        | "adjustment"
+        | "stock_take"
+        | "transfer"
+      stock_take_status: "counting" | "approved" | "cancelled"
+      tax_category: "standard" | "zero_rated" | "exempt"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"]
+
+export type Enums<T extends keyof PublicSchema["Enums"]> =
+  PublicSchema["Enums"][T]
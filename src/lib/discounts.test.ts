@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  basketShares,
+  basketTotals,
+  discountAmount,
+  discountError,
+  isRunning,
+  priceLine,
+  promotionCovers,
+  promotionDiscount,
+} from "@/lib/discounts";
+import { product, promotion } from "@/test/fixtures";
+
+const soap = product({ name: "Soap", category: "Toiletries", price: 100, cost: 60 });
+
+const buy2Get1 = promotion({
+  id: "b2g1",
+  kind: "buy_x_get_y",
+  percent: null,
+  buyQuantity: 2,
+  freeQuantity: 1,
+});
+
+describe("discountAmount", () => {
+  it("takes a percent or a fixed amount off", () => {
+    expect(discountAmount({ type: "percent", value: 10 }, 200)).toBe(20);
+    expect(discountAmount({ type: "fixed", value: 50 }, 200)).toBe(50);
+  });
+
+  it("never takes off more than the base", () => {
+    expect(discountAmount({ type: "fixed", value: 300 }, 200)).toBe(200);
+  });
+
+  it("is nothing without a positive discount", () => {
+    expect(discountAmount(null, 200)).toBe(0);
+    expect(discountAmount({ type: "fixed", value: -5 }, 200)).toBe(0);
+  });
+});
+
+describe("discountError", () => {
+  it("accepts no discount, or one within the limit", () => {
+    expect(discountError(null, 200, 10)).toBeNull();
+    expect(discountError({ type: "percent", value: 10 }, 200, 10)).toBeNull();
+    expect(discountError({ type: "fixed", value: 20 }, 200, 10)).toBeNull();
+    expect(discountError({ type: "percent", value: 90 }, 200, null)).toBeNull();
+  });
+
+  it("refuses negative discounts and more than 100%", () => {
+    expect(discountError({ type: "fixed", value: -1 }, 200, null)).toBe(
+      "Discounts cannot be negative."
+    );
+    expect(discountError({ type: "percent", value: 101 }, 200, null)).toBe(
+      "A discount cannot be more than 100%."
+    );
+  });
+
+  it("refuses a fixed discount larger than what it comes off", () => {
+    expect(discountError({ type: "fixed", value: 250 }, 200, null)).toMatch(/is more than the/);
+  });
+
+  it("refuses discounts over the limit", () => {
+    expect(discountError({ type: "percent", value: 15 }, 200, 10)).toBe(
+      "Manual discounts are limited to 10% off; the limit is set in Settings."
+    );
+    expect(discountError({ type: "fixed", value: 21 }, 200, 10)).not.toBeNull();
+  });
+});
+
+describe("promotionDiscount", () => {
+  it("takes a percent off the line", () => {
+    expect(promotionDiscount(promotion({ percent: 20 }), 3, 50)).toBe(30);
+  });
+
+  it("gives the free items of each complete group", () => {
+    expect(promotionDiscount(buy2Get1, 7, 10)).toBe(20);
+    expect(promotionDiscount(buy2Get1, 2, 10)).toBe(0);
+  });
+
+  it("gives nothing for an empty buy-x-get-y", () => {
+    expect(
+      promotionDiscount(promotion({ kind: "buy_x_get_y", buyQuantity: 0, freeQuantity: 0 }), 5, 10)
+    ).toBe(0);
+  });
+});
+
+describe("isRunning", () => {
+  it("runs from its first to its last day while active", () => {
+    const october = promotion({ startsOn: "2026-10-01", endsOn: "2026-10-31" });
+    expect(isRunning(october, "2026-09-30")).toBe(false);
+    expect(isRunning(october, "2026-10-01")).toBe(true);
+    expect(isRunning(october, "2026-10-31")).toBe(true);
+    expect(isRunning(october, "2026-11-01")).toBe(false);
+    expect(isRunning({ ...october, active: false }, "2026-10-15")).toBe(false);
+  });
+});
+
+describe("promotionCovers", () => {
+  it("covers its product, its category, or everything", () => {
+    expect(promotionCovers(promotion({ productId: "p1" }), soap)).toBe(true);
+    expect(promotionCovers(promotion({ productId: "p2", category: "Toiletries" }), soap)).toBe(
+      false
+    );
+    expect(promotionCovers(promotion({ category: "Toiletries" }), soap)).toBe(true);
+    expect(promotionCovers(promotion({ category: "Drinks" }), soap)).toBe(false);
+    expect(promotionCovers(promotion(), soap)).toBe(true);
+  });
+});
+
+describe("priceLine", () => {
+  it("takes the best running promotion, then the manual discount", () => {
+    const line = priceLine(
+      soap,
+      3,
+      100,
+      { type: "percent", value: 10 },
+      [promotion(), buy2Get1],
+      "2026-10-19"
+    );
+    expect(line).toEqual({
+      gross: 300,
+      promotion: buy2Get1,
+      promotionAmount: 100,
+      manualAmount: 20,
+      total: 180,
+    });
+  });
+
+  it("ignores promotions that aren't running", () => {
+    const line = priceLine(
+      soap,
+      3,
+      100,
+      null,
+      [promotion({ endsOn: "2026-10-18" })],
+      "2026-10-19"
+    );
+    expect(line.promotion).toBeNull();
+    expect(line.total).toBe(300);
+  });
+});
+
+describe("basketTotals", () => {
+  it("takes the basket discount off the lines' subtotal", () => {
+    const lines = [
+      { gross: 300, promotion: null, promotionAmount: 100, manualAmount: 20, total: 180 },
+      { gross: 20, promotion: null, promotionAmount: 0, manualAmount: 0, total: 20 },
+    ];
+    expect(basketTotals(lines, { type: "fixed", value: 50 })).toEqual({
+      subtotal: 200,
+      basketAmount: 50,
+      discountTotal: 170,
+      total: 150,
+    });
+  });
+});
+
+describe("basketShares", () => {
+  it("shares the discount in proportion to the lines", () => {
+    expect(basketShares([100, 50, 0], 30)).toEqual([20, 10, 0]);
+  });
+
+  it("puts the rounding leftover on the largest line", () => {
+    expect(basketShares([1, 2, 1], 1)).toEqual([0.25, 0.5, 0.25]);
+    expect(basketShares([1, 1, 1], 1)).toEqual([0.34, 0.33, 0.33]);
+  });
+
+  it("shares nothing without a discount or lines", () => {
+    expect(basketShares([100, 50], 0)).toEqual([0, 0]);
+    expect(basketShares([], 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+// src/lib/discounts.ts
+
+import { Discount, DiscountType, Product, Promotion, PromotionKind } from "@/types";
+import { formatKSH } from "@/lib/formatCurrency";
+
+/*
+ * Mirrors how apply_sale_items prices a sale, for showing totals before it is
+ * saved: on each line the best running promotion comes off first, then the
+ * line's manual discount; the basket discount comes off what is left. The
+ * database re-prices every sale and has the last word.
+ */
+
+export const DISCOUNT_TYPES: { value: DiscountType; label: string }[] = [
+  { value: "percent", label: "%" },
+  { value: "fixed", label: "KSh" },
+];
+
+export const PROMOTION_KINDS: { value: PromotionKind; label: string }[] = [
+  { value: "percent_off", label: "Percent off" },
+  { value: "buy_x_get_y", label: "Buy X, get Y free" },
+];
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const amountOff = (discount: Discount, base: number) =>
+  discount.type === "percent" ? round((base * discount.value) / 100) : discount.value;
+
+/** e.g. "10% off" or "KSh 50.00 off". */
+export const formatDiscount = (discount: Discount): string =>
+  discount.type === "percent" ? `${discount.value}% off` : `${formatKSH(discount.value)} off`;
+
+/** e.g. "20% off" or "Buy 2, get 1 free". */
+export const promotionTerms = (promotion: Promotion): string =>
+  promotion.kind === "percent_off"
+    ? `${promotion.percent}% off`
+    : `Buy ${promotion.buyQuantity}, get ${promotion.freeQuantity} free`;
+
+/** What a manual discount takes off `base`, never more than `base`. */
+export function discountAmount(discount: Discount | null | undefined, base: number): number {
+  if (!discount || !(discount.value > 0)) return 0;
+  return Math.min(amountOff(discount, base), Math.max(base, 0));
+}
+
+/**
+ * Why a manual discount on `base` would be refused, in the database's words;
+ * null when it is fine. `limit` is the shop's cap in percent.
+ */
+export function discountError(
+  discount: Discount | null | undefined,
+  base: number,
+  limit: number | null
+): string | null {
+  if (!discount || !discount.value) return null;
+  if (discount.value < 0) return "Discounts cannot be negative.";
+  if (discount.type === "percent" && discount.value > 100) {
+    return "A discount cannot be more than 100%.";
+  }
+  const amount = amountOff(discount, base);
+  if (amount > base) {
+    return `A discount of ${formatKSH(amount)} is more than the ${formatKSH(base)} it comes off.`;
+  }
+  if (limit !== null && amount > round((base * limit) / 100)) {
+    return `Manual discounts are limited to ${limit}% off; the limit is set in Settings.`;
+  }
+  return null;
+}
+
+/** Whether the promotion runs on `date` (yyyy-mm-dd). */
+export const isRunning = (promotion: Promotion, date: string): boolean =>
+  promotion.active &&
+  promotion.startsOn <= date &&
+  (promotion.endsOn === null || date <= promotion.endsOn);
+
+export const promotionCovers = (promotion: Promotion, product: Product): boolean =>
+  promotion.productId
+    ? promotion.productId === product.id
+    : promotion.category === null || promotion.category === product.category;
+
+/** What a promotion takes off `quantity` at `price` each. */
+export function promotionDiscount(promotion: Promotion, quantity: number, price: number): number {
+  if (promotion.kind === "percent_off") {
+    return round((price * quantity * (promotion.percent ?? 0)) / 100);
+  }
+  const buy = promotion.buyQuantity ?? 0;
+  const free = promotion.freeQuantity ?? 0;
+  if (buy + free <= 0) return 0;
+  return round(Math.floor(quantity / (buy + free)) * free * price);
+}
+
+/** One priced basket line, before its share of the basket discount. */
+export interface PricedLine {
+  gross: number;
+  promotion: Promotion | null;
+  promotionAmount: number;
+  manualAmount: number;
+  total: number;
+}
+
+/**
+ * Prices `quantity` of `product` at `price` each (the chosen unit's price) on
+ * a sale dated `date`.
+ */
+export function priceLine(
+  product: Product,
+  quantity: number,
+  price: number,
+  discount: Discount | null | undefined,
+  promotions: Promotion[],
+  date: string
+): PricedLine {
+  const gross = round(price * quantity);
+  const { promotion, promotionAmount } = promotions
+    .filter((p) => isRunning(p, date) && promotionCovers(p, product))
+    .reduce<{ promotion: Promotion | null; promotionAmount: number }>(
+      (best, p) => {
+        const amount = Math.min(promotionDiscount(p, quantity, price), gross);
+        return amount > best.promotionAmount ? { promotion: p, promotionAmount: amount } : best;
+      },
+      { promotion: null, promotionAmount: 0 }
+    );
+  const manualAmount = discountAmount(discount, gross - promotionAmount);
+  return {
+    gross,
+    promotion,
+    promotionAmount,
+    manualAmount,
+    total: round(gross - promotionAmount - manualAmount),
+  };
+}
+
+/** A basket's totals once the basket discount comes off its lines. */
+export function basketTotals(lines: PricedLine[], discount: Discount | null | undefined) {
+  const subtotal = round(lines.reduce((sum, line) => sum + line.total, 0));
+  const basketAmount = discountAmount(discount, subtotal);
+  const lineDiscounts = lines.reduce(
+    (sum, line) => sum + line.promotionAmount + line.manualAmount,
+    0
+  );
+  return {
+    subtotal,
+    basketAmount,
+    discountTotal: round(lineDiscounts + basketAmount),
+    total: round(subtotal - basketAmount),
+  };
+}
+
+/**
+ * How the basket discount is shared across the lines' totals: in proportion,
+ * rounding leftovers on the largest line.
+ */
+export function basketShares(totals: number[], amount: number): number[] {
+  const shares = totals.map(() => 0);
+  const subtotal = totals.reduce((sum, total) => sum + total, 0);
+  const order = totals
+    .map((_total, i) => i)
+    .filter((i) => totals[i] > 0)
+    .sort((a, b) => totals[b] - totals[a]);
+  if (!(amount > 0) || !order.length) return shares;
+  let left = amount;
+  order.forEach((i) => {
+    shares[i] = Math.min(left, round((amount * totals[i]) / subtotal));
+    left = round(left - shares[i]);
+  });
+  shares[order[0]] = round(shares[order[0]] + left);
+  return shares;
+}
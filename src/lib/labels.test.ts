@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { encodeCode128 } from "@/lib/barcode";
+import {
+  LABEL_TEMPLATES,
+  LabelTemplate,
+  findTemplate,
+  labelBarcode,
+  labelOffset,
+  labelsForReceipt,
+  labelsPerSheet,
+  paginateLabels,
+} from "@/lib/labels";
+import { Product } from "@/types";
+import { product, purchaseOrder, purchaseOrderItem } from "@/test/fixtures";
+
+const twoByTwo: LabelTemplate = {
+  id: "test",
+  name: "4 per sheet",
+  columns: 2,
+  rows: 2,
+  width: 100,
+  height: 50,
+  marginTop: 10,
+  marginLeft: 5,
+  gapX: 2,
+  gapY: 3,
+};
+
+describe("findTemplate", () => {
+  it("finds a template by id, else the first", () => {
+    expect(findTemplate("L7163").columns).toBe(2);
+    expect(findTemplate("nope")).toBe(LABEL_TEMPLATES[0]);
+  });
+});
+
+describe("labelsPerSheet", () => {
+  it("is columns × rows", () => {
+    expect(labelsPerSheet(findTemplate("L7160"))).toBe(21);
+    expect(labelsPerSheet(twoByTwo)).toBe(4);
+  });
+});
+
+describe("labelOffset", () => {
+  it("starts at the sheet margins", () => {
+    expect(labelOffset(twoByTwo, 0)).toEqual({ left: 5, top: 10 });
+  });
+
+  it("moves across a row, then down", () => {
+    expect(labelOffset(twoByTwo, 1)).toEqual({ left: 107, top: 10 });
+    expect(labelOffset(twoByTwo, 2)).toEqual({ left: 5, top: 63 });
+    expect(labelOffset(twoByTwo, 3)).toEqual({ left: 107, top: 63 });
+  });
+});
+
+describe("labelBarcode", () => {
+  it("draws a valid EAN-13 as EAN-13", () => {
+    const barcode = labelBarcode(product({ barcode: "4006381333931" }), "ean13");
+    expect(barcode?.text).toBe("4006381333931");
+    expect(barcode?.modules).toHaveLength(95);
+  });
+
+  it("falls back to Code 128 for codes that aren't EAN-13s", () => {
+    expect(labelBarcode(product({ barcode: "12345" }), "ean13")).toEqual({
+      text: "12345",
+      modules: encodeCode128("12345"),
+    });
+  });
+
+  it("draws any code as Code 128 when asked", () => {
+    expect(labelBarcode(product({ barcode: "4006381333931" }), "code128")?.modules).toBe(
+      encodeCode128("4006381333931")
+    );
+  });
+
+  it("uses the SKU without a barcode, and gives nothing without either", () => {
+    expect(labelBarcode(product({ sku: "SUG-2KG" }), "ean13")?.text).toBe("SUG-2KG");
+    expect(labelBarcode(product(), "ean13")).toBeNull();
+  });
+});
+
+describe("paginateLabels", () => {
+  const products = [1, 2, 3, 4, 5].map((n) => product({ id: `p${n}` }));
+  const ids = (sheets: (Product | null)[][]) =>
+    sheets.map((sheet) => sheet.map((p) => p?.id ?? null));
+
+  it("fills whole sheets in order", () => {
+    expect(ids(paginateLabels(products, twoByTwo, 1))).toEqual([
+      ["p1", "p2", "p3", "p4"],
+      ["p5"],
+    ]);
+  });
+
+  it("skips the used positions on the first sheet", () => {
+    expect(ids(paginateLabels(products, twoByTwo, 3))).toEqual([
+      [null, null, "p1", "p2"],
+      ["p3", "p4", "p5"],
+    ]);
+  });
+
+  it("keeps the start position on the sheet", () => {
+    expect(ids(paginateLabels(products.slice(0, 1), twoByTwo, 0))).toEqual([["p1"]]);
+    expect(ids(paginateLabels(products.slice(0, 1), twoByTwo, 9))).toEqual([
+      [null, null, null, "p1"],
+    ]);
+  });
+
+  it("gives no sheets without products", () => {
+    expect(paginateLabels([], twoByTwo, 3)).toEqual([]);
+  });
+});
+
+describe("labelsForReceipt", () => {
+  it("gives one label per base unit received, by product", () => {
+    const received = (productId: string, quantityReceived: number, unitFactor = 1) =>
+      purchaseOrderItem({ productId, quantityReceived, unitFactor });
+    expect(
+      labelsForReceipt(
+        purchaseOrder({
+          status: "received",
+          items: [
+            received("soda", 2, 24),
+            received("soda", 5),
+            received("rice", 0.5),
+            received("salt", 0),
+          ],
+        })
+      )
+    ).toEqual({ soda: 53, rice: 1 });
+  });
+});
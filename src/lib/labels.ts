@@ -0,0 +1,161 @@
+// src/lib/labels.ts
+
+import { BarcodeSymbology, encodeCode128, encodeEan13 } from "@/lib/barcode";
+import { Product, PurchaseOrder } from "@/types";
+
+/** An A4 sheet of labels; all sizes in millimetres. */
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+export const A4 = { width: 210, height: 297 };
+
+/** Common A4 label stock (Avery and compatible codes). */
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: "L7651",
+    name: "65 per sheet, 38.1 × 21.2 mm (L7651)",
+    columns: 5,
+    rows: 13,
+    width: 38.1,
+    height: 21.2,
+    marginTop: 10.7,
+    marginLeft: 4.7,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: "L7159",
+    name: "24 per sheet, 63.5 × 33.9 mm (L7159)",
+    columns: 3,
+    rows: 8,
+    width: 63.5,
+    height: 33.9,
+    marginTop: 12.9,
+    marginLeft: 6.5,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: "L7160",
+    name: "21 per sheet, 63.5 × 38.1 mm (L7160)",
+    columns: 3,
+    rows: 7,
+    width: 63.5,
+    height: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.2,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: "L7163",
+    name: "14 per sheet, 99.1 × 38.1 mm (L7163)",
+    columns: 2,
+    rows: 7,
+    width: 99.1,
+    height: 38.1,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    gapX: 2.5,
+    gapY: 0,
+  },
+];
+
+export const SYMBOLOGY_LABELS: Record<BarcodeSymbology, string> = {
+  ean13: "EAN-13",
+  code128: "Code 128",
+};
+
+export interface LabelOptions {
+  templateId: string;
+  symbology: BarcodeSymbology;
+  showName: boolean;
+  showPrice: boolean;
+  showSku: boolean;
+  /** First free position on a part-used sheet, counting from 1. */
+  startPosition: number;
+}
+
+export const DEFAULT_LABEL_OPTIONS: LabelOptions = {
+  templateId: "L7160",
+  symbology: "ean13",
+  showName: true,
+  showPrice: true,
+  showSku: false,
+  startPosition: 1,
+};
+
+export const findTemplate = (id: string): LabelTemplate =>
+  LABEL_TEMPLATES.find((t) => t.id === id) ?? LABEL_TEMPLATES[0];
+
+export const labelsPerSheet = (template: LabelTemplate): number =>
+  template.columns * template.rows;
+
+/** Top-left corner of the label at `position` (0-based) on its sheet. */
+export const labelOffset = (template: LabelTemplate, position: number) => ({
+  left: template.marginLeft + (position % template.columns) * (template.width + template.gapX),
+  top:
+    template.marginTop +
+    Math.floor(position / template.columns) * (template.height + template.gapY),
+});
+
+/** What gets drawn for one product's barcode. */
+export interface LabelBarcode {
+  modules: string;
+  text: string;
+}
+
+/**
+ * The product's barcode in the chosen symbology. Codes that aren't valid
+ * EAN-13s fall back to Code 128, as does the SKU of a product without a
+ * barcode; null when the product has neither.
+ */
+export function labelBarcode(product: Product, symbology: BarcodeSymbology): LabelBarcode | null {
+  const code = product.barcode ?? product.sku;
+  if (!code) return null;
+  const modules = (symbology === "ean13" && encodeEan13(code)) || encodeCode128(code);
+  return modules ? { modules, text: code } : null;
+}
+
+/**
+ * Lays labels out sheet by sheet: `null` marks a position skipped on the
+ * first, part-used sheet.
+ */
+export function paginateLabels(
+  products: Product[],
+  template: LabelTemplate,
+  startPosition: number
+): (Product | null)[][] {
+  if (!products.length) return [];
+  const perSheet = labelsPerSheet(template);
+  const skipped = Math.min(Math.max(startPosition, 1), perSheet) - 1;
+  const slots: (Product | null)[] = [...Array<null>(skipped).fill(null), ...products];
+  const sheets: (Product | null)[][] = [];
+  for (let i = 0; i < slots.length; i += perSheet) sheets.push(slots.slice(i, i + perSheet));
+  return sheets;
+}
+
+/**
+ * One label per base unit received on a purchase order (a crate of 24 gets 24
+ * labels), by product id.
+ */
+export function labelsForReceipt(order: PurchaseOrder): Record<string, number> {
+  const copies: Record<string, number> = {};
+  order.items.forEach((item) => {
+    if (item.productId && item.quantityReceived > 0) {
+      copies[item.productId] =
+        (copies[item.productId] ?? 0) + Math.ceil(item.quantityReceived * item.unitFactor);
+    }
+  });
+  return copies;
+}
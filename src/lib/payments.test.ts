@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+import {
+  MPESA_PROMPT_TIMEOUT_MS,
+  canResendPrompt,
+  isMpesaPhone,
+  paymentBreakdown,
+  paymentsRemaining,
+  salePaymentSummary,
+  settlePayments,
+  unsettledMpesa,
+  validatePayments,
+} from "@/lib/payments";
+import { payment, sale, saleReturn } from "@/test/fixtures";
+
+describe("settlePayments", () => {
+  it("makes a single tender pay the whole total", () => {
+    expect(settlePayments([{ method: "cash", amount: 0 }], 660)).toEqual([
+      { method: "cash", amount: 660 },
+    ]);
+  });
+
+  it("leaves split tenders as typed", () => {
+    const split = [
+      { method: "cash" as const, amount: 400 },
+      { method: "card" as const, amount: 200 },
+    ];
+    expect(settlePayments(split, 660)).toBe(split);
+  });
+});
+
+describe("paymentsRemaining", () => {
+  it("is what is left of the total, to the cent", () => {
+    const split = [
+      { method: "cash" as const, amount: 0.1 },
+      { method: "card" as const, amount: 0.2 },
+    ];
+    expect(paymentsRemaining(split, 0.3)).toBe(0);
+    expect(paymentsRemaining(split, 1)).toBe(0.7);
+  });
+
+  it("goes negative when the tenders come to more than the total", () => {
+    expect(paymentsRemaining([{ method: "cash", amount: 700 }], 660)).toBe(-40);
+  });
+});
+
+describe("validatePayments", () => {
+  it("accepts tenders that add up to the total", () => {
+    expect(
+      validatePayments(
+        [
+          { method: "cash", amount: 460 },
+          { method: "mpesa", amount: 200, reference: "sgr7xk2p1q" },
+        ],
+        660
+      )
+    ).toBeNull();
+  });
+
+  it("needs at least one positive tender", () => {
+    expect(validatePayments([], 660)).toBe("Add at least one payment.");
+    expect(
+      validatePayments(
+        [
+          { method: "cash", amount: 660 },
+          { method: "card", amount: 0 },
+        ],
+        660
+      )
+    ).toBe("Payment amounts must be positive.");
+  });
+
+  it("needs an M-Pesa code or a phone to prompt", () => {
+    expect(validatePayments([{ method: "mpesa", amount: 660, reference: "SGR7XK" }], 660)).toBe(
+      "Enter the 10-character M-Pesa code, or the customer's phone to send a prompt."
+    );
+    expect(validatePayments([{ method: "mpesa", amount: 660, phone: "0712 345 678" }], 660)).toBeNull();
+  });
+
+  it("takes only whole shillings by M-Pesa", () => {
+    expect(
+      validatePayments(
+        [
+          { method: "mpesa", amount: 659.5, reference: "SGR7XK2P1Q" },
+          { method: "cash", amount: 0.5 },
+        ],
+        660
+      )
+    ).toBe("M-Pesa only takes whole shillings: split the cents onto another payment.");
+    expect(
+      validatePayments(
+        [
+          { method: "mpesa", amount: 659, reference: "SGR7XK2P1Q" },
+          { method: "cash", amount: 0.5 },
+        ],
+        659.5
+      )
+    ).toBeNull();
+  });
+
+  it("says how far short or over the tenders are", () => {
+    expect(validatePayments([{ method: "cash", amount: 600 }], 660)).toBe(
+      "Payments are 60.00 short of the total."
+    );
+    expect(
+      validatePayments(
+        [
+          { method: "cash", amount: 600 },
+          { method: "card", amount: 100 },
+        ],
+        660
+      )
+    ).toBe("Payments exceed the total by 40.00.");
+  });
+});
+
+describe("isMpesaPhone", () => {
+  it("accepts Safaricom numbers as typed at the till", () => {
+    expect(isMpesaPhone("0712345678")).toBe(true);
+    expect(isMpesaPhone("0112 345 678")).toBe(true);
+    expect(isMpesaPhone("254712345678")).toBe(true);
+    expect(isMpesaPhone("+254712345678")).toBe(true);
+  });
+
+  it("rejects other numbers", () => {
+    expect(isMpesaPhone("0812345678")).toBe(false);
+    expect(isMpesaPhone("071234567")).toBe(false);
+  });
+});
+
+describe("paymentBreakdown", () => {
+  it("totals each method across split sales, in method order", () => {
+    const sales = [
+      sale({
+        payments: [
+          payment({ method: "mpesa", amount: 400 }),
+          payment({ method: "cash", amount: 260 }),
+        ],
+      }),
+      sale({ payments: [payment({ method: "cash", amount: 100 })] }),
+    ];
+    expect(paymentBreakdown(sales)).toEqual([
+      { method: "cash", label: "Cash", amount: 360 },
+      { method: "mpesa", label: "M-Pesa", amount: 400 },
+      { method: "card", label: "Card", amount: 0 },
+      { method: "credit", label: "Credit", amount: 0 },
+    ]);
+  });
+
+  it("takes refunds off the method they were paid out by", () => {
+    const sales = [
+      sale({
+        payments: [payment({ method: "mpesa", amount: 660 })],
+        returns: [saleReturn({ refundMethod: "cash", refundAmount: 330 })],
+      }),
+    ];
+    expect(paymentBreakdown(sales).map((row) => row.amount)).toEqual([-330, 660, 0, 0]);
+  });
+});
+
+describe("unsettledMpesa", () => {
+  it("lists M-Pesa tenders that haven't been paid", () => {
+    const pending = payment({ id: "pending", method: "mpesa", status: "pending" });
+    const failed = payment({ id: "failed", method: "mpesa", status: "failed" });
+    const paid = payment({ id: "paid", method: "mpesa" });
+    expect(unsettledMpesa(sale({ payments: [payment(), pending, failed, paid] }))).toEqual([
+      pending,
+      failed,
+    ]);
+    expect(unsettledMpesa(undefined)).toEqual([]);
+  });
+});
+
+describe("canResendPrompt", () => {
+  const promptedAt = "2026-10-19T09:00:00Z";
+  const sent = Date.parse(promptedAt);
+  const prompt = payment({ method: "mpesa", status: "pending", promptedAt });
+
+  it("waits while the customer can still pay the last prompt", () => {
+    expect(canResendPrompt(prompt, sent + MPESA_PROMPT_TIMEOUT_MS - 1)).toBe(false);
+  });
+
+  it("resends once the prompt has failed or timed out, or was never sent", () => {
+    expect(canResendPrompt({ ...prompt, status: "failed" }, sent)).toBe(true);
+    expect(canResendPrompt(prompt, sent + MPESA_PROMPT_TIMEOUT_MS)).toBe(true);
+    expect(canResendPrompt({ ...prompt, promptedAt: null }, sent)).toBe(true);
+  });
+
+  it("never resends a paid prompt", () => {
+    expect(canResendPrompt({ ...prompt, status: "paid" }, sent + MPESA_PROMPT_TIMEOUT_MS)).toBe(
+      false
+    );
+  });
+});
+
+describe("salePaymentSummary", () => {
+  it("names each method once", () => {
+    const split = sale({
+      payments: [
+        payment({ method: "cash" }),
+        payment({ method: "mpesa" }),
+        payment({ method: "cash" }),
+      ],
+    });
+    expect(salePaymentSummary(split)).toBe("Cash + M-Pesa");
+    expect(salePaymentSummary(sale())).toBe("-");
+  });
+});
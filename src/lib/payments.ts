@@ -0,0 +1,108 @@
+// src/lib/payments.ts
+
+import { Payment, PaymentMethod, Sale } from "@/types";
+import { PaymentInput } from "@/lib/repository";
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "mpesa", label: "M-Pesa" },
+  { value: "card", label: "Card" },
+  { value: "credit", label: "Credit" },
+];
+
+export const paymentMethodLabel = (method: PaymentMethod): string =>
+  PAYMENT_METHODS.find((m) => m.value === method)?.label ?? method;
+
+/** M-Pesa transaction codes are ten letters and digits, e.g. SGR7XK2P1Q. */
+const MPESA_CODE = /^[A-Z0-9]{10}$/;
+
+/** Safaricom numbers as typed at the till: 07.., 01.., 2547.., +2547... */
+const MPESA_PHONE = /^(?:\+?254|0)[17]\d{8}$/;
+
+export const isMpesaPhone = (phone: string): boolean => MPESA_PHONE.test(phone.replace(/\s/g, ""));
+
+/** Rounds to whole cents so tender sums compare cleanly. */
+const cents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * With a single tender the amount always follows the sale total; with several
+ * the cashier types each amount in.
+ */
+export function settlePayments(payments: PaymentInput[], total: number): PaymentInput[] {
+  return payments.length === 1 ? [{ ...payments[0], amount: total }] : payments;
+}
+
+/** What is left to allocate to a tender (negative when over-allocated). */
+export const paymentsRemaining = (payments: PaymentInput[], total: number): number =>
+  (cents(total) - payments.reduce((sum, p) => sum + cents(Number(p.amount) || 0), 0)) / 100;
+
+/**
+ * Returns the first problem with a set of tenders for a sale of `total`, or
+ * null when they are valid. The record_sale RPC enforces the same rules.
+ */
+export function validatePayments(payments: PaymentInput[], total: number): string | null {
+  if (!payments.length) return "Add at least one payment.";
+  if (payments.some((p) => !(Number(p.amount) > 0))) return "Payment amounts must be positive.";
+  const mpesa = payments.find(
+    (p) =>
+      p.method === "mpesa" &&
+      !MPESA_CODE.test((p.reference ?? "").trim().toUpperCase()) &&
+      !isMpesaPhone(p.phone ?? "")
+  );
+  if (mpesa) return "Enter the 10-character M-Pesa code, or the customer's phone to send a prompt.";
+  if (payments.some((p) => p.method === "mpesa" && !Number.isInteger(Number(p.amount)))) {
+    return "M-Pesa only takes whole shillings: split the cents onto another payment.";
+  }
+  const remaining = paymentsRemaining(payments, total);
+  if (remaining !== 0) {
+    return remaining > 0
+      ? `Payments are ${remaining.toFixed(2)} short of the total.`
+      : `Payments exceed the total by ${(-remaining).toFixed(2)}.`;
+  }
+  return null;
+}
+
+/**
+ * Totals every tender on the given sales by method, in PAYMENT_METHODS order,
+ * less any refunds paid out by that method.
+ */
+export function paymentBreakdown(sales: Sale[]): { method: PaymentMethod; label: string; amount: number }[] {
+  const totals = new Map<PaymentMethod, number>();
+  sales.forEach((sale) =>
+    sale.payments.forEach((p) => totals.set(p.method, (totals.get(p.method) ?? 0) + p.amount))
+  );
+  sales.forEach((sale) =>
+    sale.returns.forEach((r) =>
+      totals.set(r.refundMethod, (totals.get(r.refundMethod) ?? 0) - r.refundAmount)
+    )
+  );
+  return PAYMENT_METHODS.map(({ value, label }) => ({
+    method: value,
+    label,
+    amount: totals.get(value) ?? 0,
+  }));
+}
+
+/** M-Pesa tenders on a sale still waiting for, or that failed, an STK push. */
+export const unsettledMpesa = (sale?: Sale) =>
+  (sale?.payments ?? []).filter((p) => p.method === "mpesa" && p.status !== "paid");
+
+/**
+ * How long an STK push prompt can still be paid on the customer's phone, with
+ * some slack. mpesa-stk-push won't send another one before then.
+ */
+export const MPESA_PROMPT_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Whether another STK push can go out for an M-Pesa tender: once the last
+ * prompt failed or timed out. A new prompt replaces the one the callback is
+ * matched on, so resending sooner could lose a payment.
+ */
+export const canResendPrompt = (payment: Payment, now = Date.now()): boolean =>
+  payment.status === "failed" ||
+  (payment.status === "pending" &&
+    (!payment.promptedAt || now - Date.parse(payment.promptedAt) >= MPESA_PROMPT_TIMEOUT_MS));
+
+/** "Cash", "Cash + M-Pesa", … for a sale's tenders. */
+export const salePaymentSummary = (sale: Sale): string =>
+  Array.from(new Set(sale.payments.map((p) => paymentMethodLabel(p.method)))).join(" + ") || "-";
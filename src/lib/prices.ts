@@ -0,0 +1,31 @@
+// src/lib/prices.ts
+
+import { PriceChange, PriceChangeSource } from "@/types";
+
+export const PRICE_CHANGE_LABELS: Record<PriceChangeSource, string> = {
+  opening: "Opening price",
+  manual: "Edited",
+  scheduled: "Scheduled change",
+  stock_movement: "Stock cost",
+};
+
+/**
+ * The change in effect at `at`: the latest one effective by then. Null before
+ * the product's history begins.
+ */
+export function priceAt(changes: PriceChange[], at: Date): PriceChange | null {
+  const time = at.getTime();
+  return changes.reduce<PriceChange | null>((found, change) => {
+    const effective = new Date(change.effectiveAt).getTime();
+    if (effective > time) return found;
+    return !found || effective > new Date(found.effectiveAt).getTime() ? change : found;
+  }, null);
+}
+
+/** yyyy-mm-ddThh:mm in local time, as datetime-local inputs expect. */
+export const toDateTimeLocal = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+};
@@ -0,0 +1,37 @@
+// src/lib/purchasing.ts
+
+import { PurchaseOrder, PurchaseOrderItem } from "@/types";
+
+/** Open orders are "partial" once anything has been received against them. */
+export type OrderProgress = "open" | "partial" | "received" | "cancelled";
+
+export const ORDER_PROGRESS_LABELS: Record<OrderProgress, string> = {
+  open: "Open",
+  partial: "Part received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+/** PO-00042. */
+export const formatOrderNumber = (order: Pick<PurchaseOrder, "number">): string =>
+  `PO-${String(order.number).padStart(5, "0")}`;
+
+export const outstandingQuantity = (item: PurchaseOrderItem): number =>
+  item.quantityOrdered - item.quantityReceived;
+
+export const orderTotal = (order: PurchaseOrder): number =>
+  order.items.reduce((sum, item) => sum + item.unitCost * item.quantityOrdered, 0);
+
+export const receivedTotal = (order: PurchaseOrder): number =>
+  order.items.reduce((sum, item) => sum + item.unitCost * item.quantityReceived, 0);
+
+export function orderProgress(order: PurchaseOrder): OrderProgress {
+  if (order.status !== "open") return order.status;
+  return order.items.some((item) => item.quantityReceived > 0) ? "partial" : "open";
+}
+
+/** Open orders whose expected delivery date has passed. */
+export const isOrderLate = (order: PurchaseOrder, today = new Date()): boolean =>
+  order.status === "open" &&
+  !!order.expectedDate &&
+  order.expectedDate < today.toISOString().split("T")[0];
@@ -0,0 +1,31 @@
+// src/lib/queryKeys.ts
+
+/**
+ * react-query cache keys shared by InventoryContext and the realtime sync.
+ * Credit balances, ledgers and the VAT return are worked out from sales, so
+ * their keys sit under sales: whatever refetches sales refetches them too.
+ */
+export const inventoryKeys = {
+  products: ["products"] as const,
+  productParents: ["productParents"] as const,
+  sales: ["sales"] as const,
+  customers: ["customers"] as const,
+  customerBalances: ["sales", "customerBalances"] as const,
+  agedDebt: ["sales", "agedDebt"] as const,
+  customerLedgers: ["sales", "customerLedger"] as const,
+  suppliers: ["suppliers"] as const,
+  purchaseOrders: ["purchaseOrders"] as const,
+  stockMovements: ["stockMovements"] as const,
+  stockTakes: ["stockTakes"] as const,
+  stockBatches: ["stockBatches"] as const,
+  shopSettings: ["shopSettings"] as const,
+  promotions: ["promotions"] as const,
+  priceChanges: ["priceChanges"] as const,
+  scheduledPriceChanges: ["scheduledPriceChanges"] as const,
+  customerLedger: (customerId: string) => ["sales", "customerLedger", customerId] as const,
+  vatReturn: (from: string, to: string) => ["sales", "vatReturn", from, to] as const,
+  productMovements: (productId: string) => ["stockMovements", productId] as const,
+  productPriceChanges: (productId: string) => ["priceChanges", productId] as const,
+  productScheduledPriceChanges: (productId: string) =>
+    ["scheduledPriceChanges", productId] as const,
+};
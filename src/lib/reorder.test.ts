@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  ReorderSettings,
+  dailySalesByProduct,
+  groupBySupplier,
+  onOrderByProduct,
+  suggestReorders,
+} from "@/lib/reorder";
+import {
+  product,
+  purchaseOrder,
+  purchaseOrderItem,
+  sale,
+  saleItem,
+  saleReturn,
+  saleReturnItem,
+  supplier,
+} from "@/test/fixtures";
+
+const TODAY = new Date("2026-10-19");
+
+const SETTINGS: ReorderSettings = { lookbackDays: 10, daysOfCover: 14, defaultLeadTimeDays: 7 };
+
+// 20 sugar sold in the last ten days; the older sale is outside the window.
+const sales = [
+  sale({ id: "s1", date: "2026-10-15", items: [saleItem({ quantity: 20 })] }),
+  sale({ id: "s2", date: "2026-10-01", items: [saleItem({ quantity: 100 })] }),
+];
+
+describe("dailySalesByProduct", () => {
+  it("averages the units sold over the lookback window", () => {
+    expect(dailySalesByProduct(sales, 10, TODAY)).toEqual(new Map([["p1", 2]]));
+  });
+
+  it("counts base units, net of returns", () => {
+    const packs = [
+      sale({
+        date: "2026-10-15",
+        items: [saleItem({ quantity: 3, unit: "6-pack", unitFactor: 6 })],
+        returns: [saleReturn({ items: [saleReturnItem({ quantity: 1 })] })],
+      }),
+    ];
+    expect(dailySalesByProduct(packs, 10, TODAY).get("p1")).toBe(1.2);
+  });
+});
+
+describe("onOrderByProduct", () => {
+  it("totals what is still to come on open orders, in base units", () => {
+    const orders = [
+      purchaseOrder({
+        items: [
+          purchaseOrderItem({ quantityOrdered: 2, quantityReceived: 1, unit: "crate", unitFactor: 24 }),
+          purchaseOrderItem({ id: "i2", productId: "p2", quantityOrdered: 5 }),
+        ],
+      }),
+      purchaseOrder({ id: "o2", status: "received" }),
+    ];
+    expect(onOrderByProduct(orders)).toEqual(
+      new Map([
+        ["p1", 24],
+        ["p2", 5],
+      ])
+    );
+  });
+});
+
+describe("suggestReorders", () => {
+  const sugar = product({ supplierId: "sup1" });
+  const suppliers = [supplier({ leadTimeDays: 5 })];
+
+  it("orders enough for the lead time and days of cover, most urgent first", () => {
+    const slow = product({ id: "p2", name: "Salt", stockQuantity: 10 });
+    const low = product({ id: "p3", name: "Rice", stockQuantity: 2 });
+    const suggestions = suggestReorders([low, slow, sugar], sales, suppliers, [], SETTINGS, TODAY);
+    // Sugar sells 2 a day: 10 over the 5-day lead time and 28 for 14 days of
+    // cover, less the 10 in stock.
+    expect(
+      suggestions.map((s) => ({
+        id: s.product.id,
+        supplierId: s.supplierId,
+        leadTimeDays: s.leadTimeDays,
+        daysLeft: s.daysLeft,
+        quantity: s.quantity,
+      }))
+    ).toEqual([
+      { id: "p1", supplierId: "sup1", leadTimeDays: 5, daysLeft: 5, quantity: 28 },
+      { id: "p3", supplierId: null, leadTimeDays: 7, daysLeft: Infinity, quantity: 4 },
+    ]);
+  });
+
+  it("counts stock already on order", () => {
+    const orders = [purchaseOrder({ items: [purchaseOrderItem({ quantityOrdered: 1 })] })];
+    expect(suggestReorders([sugar], sales, suppliers, orders, SETTINGS, TODAY)).toEqual([]);
+  });
+
+  it("rounds up to whole purchase packs", () => {
+    const inCrates = product({
+      supplierId: "sup1",
+      units: [{ name: "crate", factor: 12, price: null, purchase: true, sale: false }],
+    });
+    const [suggestion] = suggestReorders([inCrates], sales, suppliers, [], SETTINGS, TODAY);
+    expect(suggestion.unit.name).toBe("crate");
+    expect(suggestion.quantity).toBe(3);
+  });
+});
+
+describe("groupBySupplier", () => {
+  it("groups by supplier, with no supplier last", () => {
+    const suggestions = suggestReorders(
+      [product({ id: "p3", stockQuantity: 0 }), product({ supplierId: "sup1", stockQuantity: 0 })],
+      [],
+      [supplier()],
+      [],
+      SETTINGS,
+      TODAY
+    );
+    expect(
+      groupBySupplier(suggestions).map((group) => [
+        group.supplierId,
+        group.suggestions.map((s) => s.product.id),
+      ])
+    ).toEqual([
+      ["sup1", ["p1"]],
+      [null, ["p3"]],
+    ]);
+  });
+});
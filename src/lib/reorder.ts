@@ -0,0 +1,133 @@
+// src/lib/reorder.ts
+
+import { Product, PurchaseOrder, Sale, Supplier } from "@/types";
+import { saleLines } from "@/lib/sales";
+import { outstandingQuantity } from "@/lib/purchasing";
+import { UnitOption, defaultPurchaseUnit } from "@/lib/units";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReorderSettings {
+  /** Days of sales history used to work out how fast each product sells. */
+  lookbackDays: number;
+  /** How many days of sales each order should cover once it arrives. */
+  daysOfCover: number;
+  /** Lead time for products with no preferred supplier. */
+  defaultLeadTimeDays: number;
+}
+
+export const DEFAULT_REORDER_SETTINGS: ReorderSettings = {
+  lookbackDays: 30,
+  daysOfCover: 14,
+  defaultLeadTimeDays: 7,
+};
+
+export interface ReorderSuggestion {
+  product: Product;
+  supplierId: string | null;
+  /** Base units sold per day over the lookback window, net of returns. */
+  dailySales: number;
+  leadTimeDays: number;
+  /** Still outstanding on open purchase orders. */
+  onOrder: number;
+  /** Days the stock on hand lasts at the current rate; Infinity when it isn't selling. */
+  daysLeft: number;
+  /** What to order in: the product's first purchase pack, else its base unit. */
+  unit: UnitOption;
+  /** How many of `unit` to order. */
+  quantity: number;
+}
+
+/**
+ * Average base units sold per day for each product over the last `lookbackDays`.
+ */
+export function dailySalesByProduct(
+  sales: Sale[],
+  lookbackDays: number,
+  today = new Date()
+): Map<string, number> {
+  const since = new Date(today.getTime() - lookbackDays * DAY_MS).toISOString().split("T")[0];
+  const totals = new Map<string, number>();
+  saleLines(sales.filter((s) => s.date.split("T")[0] > since)).forEach((line) => {
+    totals.set(line.productId, (totals.get(line.productId) ?? 0) + line.quantity * line.unitFactor);
+  });
+  return new Map(
+    Array.from(totals, ([productId, quantity]) => [productId, quantity / Math.max(lookbackDays, 1)])
+  );
+}
+
+/** Base units still outstanding on open purchase orders, by product. */
+export function onOrderByProduct(orders: PurchaseOrder[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  orders
+    .filter((o) => o.status === "open")
+    .flatMap((o) => o.items)
+    .forEach((item) => {
+      totals.set(
+        item.productId,
+        (totals.get(item.productId) ?? 0) + outstandingQuantity(item) * item.unitFactor
+      );
+    });
+  return totals;
+}
+
+/**
+ * Products that will run down to their reorder point before a new order could
+ * arrive, with how many to order. The reorder point is what sells during the
+ * supplier's lead time, and never less than the product's reorder level; the
+ * order brings stock (including anything already on order) back up to that
+ * plus `daysOfCover` days of sales, rounded up to whole purchase packs. Most
+ * urgent first.
+ */
+export function suggestReorders(
+  products: Product[],
+  sales: Sale[],
+  suppliers: Supplier[],
+  orders: PurchaseOrder[],
+  settings: ReorderSettings,
+  today = new Date()
+): ReorderSuggestion[] {
+  const rates = dailySalesByProduct(sales, settings.lookbackDays, today);
+  const onOrder = onOrderByProduct(orders);
+  const leadTimes = new Map(suppliers.map((s) => [s.id, s.leadTimeDays]));
+
+  return products
+    .map((product) => {
+      const dailySales = rates.get(product.id) ?? 0;
+      const leadTimeDays = leadTimes.get(product.supplierId ?? "") ?? settings.defaultLeadTimeDays;
+      const pending = onOrder.get(product.id) ?? 0;
+      const available = product.stockQuantity + pending;
+      const reorderPoint = Math.max(product.reorderLevel, Math.ceil(dailySales * leadTimeDays));
+      const target = Math.max(
+        reorderPoint + Math.ceil(dailySales * settings.daysOfCover),
+        reorderPoint + 1
+      );
+      const unit = defaultPurchaseUnit(product);
+      return {
+        product,
+        supplierId: leadTimes.has(product.supplierId ?? "") ? product.supplierId : null,
+        dailySales,
+        leadTimeDays,
+        onOrder: pending,
+        daysLeft: dailySales > 0 ? product.stockQuantity / dailySales : Infinity,
+        unit,
+        quantity: available <= reorderPoint ? Math.ceil((target - available) / unit.factor) : 0,
+      };
+    })
+    .filter((s) => s.quantity > 0)
+    .sort((a, b) => a.daysLeft - b.daysLeft || a.product.name.localeCompare(b.product.name));
+}
+
+/**
+ * Splits suggestions into one group per supplier (null for products with no
+ * preferred supplier, listed last).
+ */
+export function groupBySupplier(
+  suggestions: ReorderSuggestion[]
+): { supplierId: string | null; suggestions: ReorderSuggestion[] }[] {
+  const groups = new Map<string | null, ReorderSuggestion[]>();
+  suggestions.forEach((s) => groups.set(s.supplierId, [...(groups.get(s.supplierId) ?? []), s]));
+  return Array.from(groups, ([supplierId, items]) => ({ supplierId, suggestions: items })).sort(
+    (a, b) => Number(a.supplierId === null) - Number(b.supplierId === null)
+  );
+}
@@ -0,0 +1,1482 @@
+// src/lib/repository.ts
+//
+// Typed data access for the inventory, sales, customer and purchasing tables. Components go through
+// these functions instead of calling supabase.from(...) themselves, so column
+// lists and the snake_case → camelCase mapping live in one place.
+//
+// Every function throws an Error with a user-presentable message on failure.
+
+import { supabase } from "@/lib/supabaseClient";
+import { Database, Tables } from "@/lib/database.types";
+import { DEFAULT_SHOP_SETTINGS } from "@/lib/costing";
+import { AGE_BUCKETS } from "@/lib/credit";
+import {
+  CostingMethod,
+  CreditLedgerLine,
+  Customer,
+  CustomerBalance,
+  Discount,
+  DiscountType,
+  Payment,
+  PaymentMethod,
+  PriceChange,
+  Product,
+  ProductOption,
+  ProductParent,
+  ProductUnit,
+  Promotion,
+  PurchaseOrder,
+  Repayment,
+  Sale,
+  SaleItem,
+  SaleReturn,
+  ScheduledPriceChange,
+  ShopSettings,
+  StockAdjustmentReason,
+  StockBatch,
+  StockMovement,
+  StockTake,
+  Supplier,
+  TaxLine,
+  TaxSummaryRow,
+} from "@/types";
+
+export type ProductRow = Tables<"inventory">;
+export type ProductParentRow = Tables<"product_parents">;
+export type SaleRow = Tables<"sales">;
+export type SaleItemRow = Tables<"sale_items">;
+export type SalePaymentRow = Tables<"sale_payments">;
+export type SaleReturnRow = Tables<"sale_returns">;
+export type SaleReturnItemRow = Tables<"sale_return_items">;
+export type SaleReturnWithItemsRow = SaleReturnRow & {
+  sale_return_items: SaleReturnItemRow[];
+};
+export type CustomerRow = Tables<"customers">;
+export type RepaymentRow = Tables<"credit_repayments">;
+export type CustomerLedgerRow =
+  Database["public"]["Functions"]["customer_ledger"]["Returns"][number];
+export type VatLineRow = Database["public"]["Functions"]["vat_lines"]["Returns"][number];
+export type SupplierRow = Tables<"suppliers">;
+export type StockMovementRow = Tables<"stock_movements">;
+export type StockBatchRow = Tables<"stock_batches">;
+export type ShopSettingsRow = Tables<"shop_settings">;
+export type PriceChangeRow = Tables<"price_changes">;
+export type ScheduledPriceChangeRow = Tables<"scheduled_price_changes">;
+export type PromotionRow = Tables<"promotions">;
+export type StockTakeRow = Tables<"stock_takes">;
+export type StockTakeLineRow = Tables<"stock_take_lines">;
+export type StockTakeWithLinesRow = StockTakeRow & { stock_take_lines: StockTakeLineRow[] };
+export type PurchaseOrderRow = Tables<"purchase_orders">;
+export type PurchaseOrderItemRow = Tables<"purchase_order_items">;
+export type PurchaseOrderWithItemsRow = PurchaseOrderRow & {
+  purchase_order_items: PurchaseOrderItemRow[];
+  suppliers: Pick<SupplierRow, "name"> | null;
+};
+export type SaleWithItemsRow = SaleRow & {
+  sale_items: SaleItemRow[];
+  sale_payments: SalePaymentRow[];
+  customers: Pick<CustomerRow, "name"> | null;
+  sale_returns: SaleReturnWithItemsRow[];
+};
+
+export type ProductInput = Omit<
+  Product,
+  "id" | "parentId" | "optionValues" | "priceOverride" | "stockValue"
+>;
+
+export type ProductParentInput = Omit<ProductParent, "id">;
+
+export interface VariantInput {
+  /** Omitted for a variant being added. */
+  id?: string;
+  optionValues: Record<string, string>;
+  priceOverride: number | null;
+  sku: string | null;
+  barcode: string | null;
+  /** Only used when the variant is added. */
+  openingStock: number;
+}
+
+export interface StockAdjustmentInput {
+  productId: string;
+  /** Negative to take stock out. */
+  quantity: number;
+  reason: StockAdjustmentReason;
+  note?: string;
+}
+
+export interface StockCountInput {
+  lineId: string;
+  /** Null clears the count. */
+  countedQuantity: number | null;
+}
+
+export interface SaleLineInput {
+  productId: string;
+  quantity: number;
+  /** One of the product's sale units; defaults to its base unit. */
+  unit?: string;
+  /** Manual discount on this line, on top of any promotion. */
+  discount?: Discount | null;
+}
+
+export interface PaymentInput {
+  /** Set when editing a sale, for a payment it already has. */
+  id?: string;
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  /** M-Pesa only: prompt this phone by STK push instead of taking a code. */
+  phone?: string;
+}
+
+export interface SaleInput {
+  date: string;
+  items: SaleLineInput[];
+  /** Tenders adding up to the sale total; omitted means all cash. */
+  payments?: PaymentInput[];
+  /** Required when any tender is "credit". */
+  customerId?: string | null;
+  /** Manual discount on the whole basket. */
+  discount?: Discount | null;
+  /**
+   * The manager's approval (see checkManagerPin), when a manual discount goes
+   * over the shop's limit.
+   */
+  approval?: string | null;
+}
+
+export type PromotionInput = Omit<Promotion, "id">;
+
+export type CustomerInput = Omit<Customer, "id">;
+
+export interface ReturnLineInput {
+  saleItemId: string;
+  quantity: number;
+  restock: boolean;
+}
+
+export interface ReturnInput {
+  saleId: string;
+  items: ReturnLineInput[];
+  reason: string;
+  refundMethod: PaymentMethod;
+  date: string;
+  note?: string;
+}
+
+export type SupplierInput = Omit<Supplier, "id">;
+
+export interface PurchaseOrderLineInput {
+  productId: string;
+  quantity: number;
+  /** One of the product's purchase units; defaults to its base unit. */
+  unit?: string;
+  /** Per `unit`. */
+  unitCost: number;
+}
+
+export interface PurchaseOrderInput {
+  supplierId: string;
+  items: PurchaseOrderLineInput[];
+  orderDate: string;
+  expectedDate?: string | null;
+  note?: string;
+}
+
+export interface ReceiveLineInput {
+  itemId: string;
+  quantity: number;
+  /** What this delivery actually cost per order unit; defaults to the ordered cost. */
+  unitCost?: number;
+  /** A lot number or expiry date books the quantity as a stock batch. */
+  lotNumber?: string;
+  /** yyyy-mm-dd. */
+  expiryDate?: string;
+}
+
+export interface RepaymentInput {
+  customerId: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  date: string;
+  note?: string;
+}
+
+const PURCHASE_ORDER_COLUMNS = "*, purchase_order_items(*), suppliers(name)";
+
+const SALE_COLUMNS =
+  "*, sale_items(*), sale_payments(*), customers(name), sale_returns(*, sale_return_items(*))";
+
+/**
+ * Maps an inventory row to the Product domain type.
+ */
+export function toProduct(row: ProductRow): Product {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    price: Number(row.price),
+    cost: Number(row.cost),
+    stockQuantity: Number(row.stock_quantity),
+    stockValue: Number(row.stock_value),
+    reorderLevel: row.reorder_level,
+    unit: row.unit,
+    decimalQuantities: row.decimal_quantities,
+    units: (row.units as unknown as ProductUnit[]) ?? [],
+    supplierId: row.supplier_id,
+    sku: row.sku,
+    barcode: row.barcode,
+    parentId: row.parent_id,
+    optionValues: row.option_values as Record<string, string> | null,
+    priceOverride: row.price_override === null ? null : Number(row.price_override),
+    taxCategory: row.tax_category,
+  };
+}
+
+/**
+ * Maps a product_parents row to the ProductParent domain type.
+ */
+export function toProductParent(row: ProductParentRow): ProductParent {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    price: Number(row.price),
+    cost: Number(row.cost),
+    reorderLevel: row.reorder_level,
+    supplierId: row.supplier_id,
+    taxCategory: row.tax_category,
+    options: (row.options as unknown as ProductOption[]) ?? [],
+  };
+}
+
+const toDiscount = (type: DiscountType | null, value: number | null): Discount | null =>
+  type && value !== null ? { type, value: Number(value) } : null;
+
+/**
+ * Maps a sale_items row to the SaleItem domain type.
+ */
+export function toSaleItem(row: SaleItemRow): SaleItem {
+  return {
+    id: row.id,
+    productId: row.product_id ?? "",
+    productName: row.product_name,
+    quantity: Number(row.quantity),
+    unit: row.unit,
+    unitFactor: Number(row.unit_factor),
+    unitPrice: Number(row.unit_price),
+    unitCost: Number(row.unit_cost),
+    lineTotal: Number(row.line_total),
+    profit: Number(row.profit),
+    discount: toDiscount(row.discount_type, row.discount_value),
+    promotionId: row.promotion_id,
+    promotionName: row.promotion_name,
+    discountAmount: Number(row.discount_amount),
+    taxCategory: row.tax_category,
+    taxRate: Number(row.tax_rate),
+    taxAmount: Number(row.tax_amount),
+  };
+}
+
+/**
+ * Maps a sale_payments row to the Payment domain type.
+ */
+export function toPayment(row: SalePaymentRow): Payment {
+  return {
+    id: row.id,
+    method: row.method,
+    amount: Number(row.amount),
+    reference: row.reference,
+    status: row.status,
+    phone: row.phone,
+    promptedAt: row.prompted_at,
+    failureReason: row.failure_reason,
+  };
+}
+
+/**
+ * Maps a sale_returns row (with its sale_return_items embedded) to the
+ * SaleReturn domain type.
+ */
+export function toSaleReturn(row: SaleReturnWithItemsRow): SaleReturn {
+  return {
+    id: row.id,
+    saleId: row.sale_id,
+    date: row.date,
+    reason: row.reason,
+    refundMethod: row.refund_method,
+    refundAmount: Number(row.refund_amount),
+    taxAmount: Number(row.tax_amount),
+    profitReversed: Number(row.profit_reversed),
+    note: row.note,
+    items: (row.sale_return_items ?? []).map((item) => ({
+      id: item.id,
+      saleItemId: item.sale_item_id,
+      quantity: Number(item.quantity),
+      restock: item.restock,
+      refundAmount: Number(item.refund_amount),
+      taxAmount: Number(item.tax_amount),
+      profitReversed: Number(item.profit_reversed),
+    })),
+  };
+}
+
+/**
+ * Maps a sales row (with its sale_items, sale_payments and sale_returns
+ * embedded) to the Sale domain type.
+ */
+export function toSale(row: SaleWithItemsRow): Sale {
+  return {
+    id: row.id,
+    date: row.date,
+    totalAmount: Number(row.total_amount),
+    profit: Number(row.profit),
+    items: (row.sale_items ?? []).map(toSaleItem),
+    payments: (row.sale_payments ?? []).map(toPayment),
+    customerId: row.customer_id,
+    customerName: row.customers?.name ?? null,
+    amountDue: Number(row.amount_due),
+    amountRepaid: Number(row.amount_repaid),
+    returns: (row.sale_returns ?? []).map(toSaleReturn),
+    discount: toDiscount(row.discount_type, row.discount_value),
+    discountAmount: Number(row.discount_amount),
+    taxAmount: Number(row.tax_amount),
+  };
+}
+
+/**
+ * Maps a customers row to the Customer domain type.
+ */
+export function toCustomer(row: CustomerRow): Customer {
+  return {
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    creditLimit: row.credit_limit === null ? null : Number(row.credit_limit),
+    creditDays: row.credit_days,
+  };
+}
+
+/**
+ * Maps a credit_repayments row to the Repayment domain type.
+ */
+export function toRepayment(row: RepaymentRow): Repayment {
+  return {
+    id: row.id,
+    customerId: row.customer_id,
+    date: row.date,
+    amount: Number(row.amount),
+    method: row.method,
+    reference: row.reference,
+    note: row.note,
+    voidedAt: row.voided_at,
+    voidReason: row.void_reason,
+  };
+}
+
+/**
+ * Maps a customer_ledger row (a credit sale or a repayment) to the
+ * CreditLedgerLine domain type.
+ */
+export function toCreditLedgerLine(row: CustomerLedgerRow, customerId: string): CreditLedgerLine {
+  return {
+    id: row.id,
+    date: row.date,
+    sale: row.sale_id
+      ? {
+          id: row.sale_id,
+          date: row.date,
+          items: row.sale_items ?? "",
+          amountDue: Number(row.amount_due),
+          amountRepaid: Number(row.amount_repaid),
+        }
+      : null,
+    repayment: row.repayment_id
+      ? {
+          id: row.repayment_id,
+          customerId,
+          date: row.date,
+          amount: Number(row.amount),
+          method: row.method,
+          reference: row.reference,
+          note: row.note,
+          voidedAt: row.voided_at,
+          voidReason: row.void_reason,
+        }
+      : null,
+    balance: Number(row.balance),
+  };
+}
+
+/**
+ * Maps a vat_lines row to the TaxLine domain type.
+ */
+export function toTaxLine(row: VatLineRow): TaxLine {
+  return {
+    id: row.id,
+    date: row.date,
+    saleId: row.sale_id,
+    customerName: row.customer_name,
+    productName: row.product_name,
+    quantity: Number(row.quantity),
+    unit: row.unit,
+    taxCategory: row.tax_category,
+    taxRate: Number(row.tax_rate),
+    taxableValue: Number(row.taxable_value),
+    vat: Number(row.vat),
+    total: Number(row.total),
+    isReturn: row.is_return,
+  };
+}
+
+/**
+ * Maps a suppliers row to the Supplier domain type.
+ */
+export function toSupplier(row: SupplierRow): Supplier {
+  return {
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    email: row.email,
+    leadTimeDays: row.lead_time_days,
+    notes: row.notes,
+  };
+}
+
+/**
+ * Maps a purchase_orders row (with its items and supplier name embedded) to
+ * the PurchaseOrder domain type.
+ */
+export function toPurchaseOrder(row: PurchaseOrderWithItemsRow): PurchaseOrder {
+  return {
+    id: row.id,
+    number: row.number,
+    supplierId: row.supplier_id,
+    supplierName: row.suppliers?.name ?? "",
+    status: row.status,
+    orderDate: row.order_date,
+    expectedDate: row.expected_date,
+    note: row.note,
+    receivedAt: row.received_at,
+    items: (row.purchase_order_items ?? []).map((item) => ({
+      id: item.id,
+      productId: item.product_id ?? "",
+      productName: item.product_name,
+      quantityOrdered: Number(item.quantity_ordered),
+      quantityReceived: Number(item.quantity_received),
+      unit: item.unit,
+      unitFactor: Number(item.unit_factor),
+      unitCost: Number(item.unit_cost),
+    })),
+  };
+}
+
+/**
+ * Maps a stock_movements row to the StockMovement domain type.
+ */
+export function toStockMovement(row: StockMovementRow): StockMovement {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    productName: row.product_name,
+    type: row.movement_type,
+    quantity: Number(row.quantity),
+    balance: Number(row.balance),
+    cost: Number(row.cost),
+    referenceId: row.reference_id,
+    note: row.note,
+    reason: row.reason,
+    performedBy: row.performed_by_email,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Maps a stock_batches row to the StockBatch domain type.
+ */
+export function toStockBatch(row: StockBatchRow): StockBatch {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    lotNumber: row.lot_number,
+    expiryDate: row.expiry_date,
+    quantity: Number(row.quantity),
+    receivedQuantity: Number(row.received_quantity),
+    purchaseOrderId: row.purchase_order_id,
+    receivedAt: row.received_at,
+  };
+}
+
+/**
+ * Maps a price_changes row to the PriceChange domain type.
+ */
+export function toPriceChange(row: PriceChangeRow): PriceChange {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    source: row.source,
+    price: Number(row.price),
+    cost: Number(row.cost),
+    previousPrice: row.previous_price === null ? null : Number(row.previous_price),
+    previousCost: row.previous_cost === null ? null : Number(row.previous_cost),
+    changedBy: row.changed_by_email,
+    effectiveAt: row.effective_at,
+  };
+}
+
+/**
+ * Maps a scheduled_price_changes row to the ScheduledPriceChange domain type.
+ */
+export function toScheduledPriceChange(row: ScheduledPriceChangeRow): ScheduledPriceChange {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    price: Number(row.price),
+    effectiveAt: row.effective_at,
+    note: row.note,
+    createdBy: row.created_by_email,
+    createdAt: row.created_at,
+    appliedAt: row.applied_at,
+  };
+}
+
+/**
+ * Maps a promotions row to the Promotion domain type.
+ */
+export function toPromotion(row: PromotionRow): Promotion {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    percent: row.percent === null ? null : Number(row.percent),
+    buyQuantity: row.buy_quantity,
+    freeQuantity: row.free_quantity,
+    productId: row.product_id,
+    category: row.category,
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    active: row.active,
+  };
+}
+
+/**
+ * Maps a shop_settings row to the ShopSettings domain type.
+ */
+export function toShopSettings(row: ShopSettingsRow): ShopSettings {
+  return {
+    costingMethod: row.costing_method,
+    maxManualDiscount:
+      row.max_manual_discount === null ? null : Number(row.max_manual_discount),
+    managerPinSet: row.manager_pin_set,
+    vatRegistered: row.vat_registered,
+    pricesIncludeTax: row.prices_include_tax,
+    vatRate: Number(row.vat_rate),
+  };
+}
+
+/**
+ * Maps a stock_takes row (with its lines embedded) to the StockTake domain
+ * type. Lines are sorted by category, then name, for counting sheets.
+ */
+export function toStockTake(row: StockTakeWithLinesRow): StockTake {
+  return {
+    id: row.id,
+    number: row.number,
+    category: row.category,
+    status: row.status,
+    note: row.note,
+    startedAt: row.started_at,
+    approvedAt: row.approved_at,
+    approvedBy: row.approved_by_email,
+    lines: (row.stock_take_lines ?? [])
+      .map((line) => ({
+        id: line.id,
+        productId: line.product_id,
+        productName: line.product_name,
+        category: line.category,
+        expectedQuantity: Number(line.expected_quantity),
+        unitCost: Number(line.unit_cost),
+        countedQuantity: line.counted_quantity === null ? null : Number(line.counted_quantity),
+        countedAt: line.counted_at,
+        countedBy: line.counted_by_email,
+      }))
+      .sort(
+        (a, b) => a.category.localeCompare(b.category) || a.productName.localeCompare(b.productName)
+      ),
+  };
+}
+
+const toDiscountArg = (discount?: Discount | null) =>
+  discount ? { type: discount.type, value: discount.value } : null;
+
+const toItemsArg = (items: SaleLineInput[]) =>
+  items.map((item) => ({
+    product_id: item.productId,
+    quantity: item.quantity,
+    unit: item.unit ?? null,
+    discount: toDiscountArg(item.discount),
+  }));
+
+const toPaymentsArg = (payments?: PaymentInput[]) =>
+  payments?.map((p) => ({
+    id: p.id ?? null,
+    method: p.method,
+    amount: p.amount,
+    reference: p.reference ?? null,
+    phone: p.phone ?? null,
+  }));
+
+/**
+ * Returns the signed-in user's id, or throws if there is no session.
+ */
+export async function requireUserId(): Promise<string> {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+  if (error || !user) throw new Error("You must be logged in.");
+  return user.id;
+}
+
+// Products --------------------------------------------------------------------
+
+// 23505 on inventory: the SKU or barcode is already on another product.
+const duplicateCodeMessage = (message: string) =>
+  message.includes("barcode")
+    ? "Another product already has this barcode."
+    : "Another product already has this SKU.";
+
+export async function listProducts(): Promise<Product[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("inventory")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw new Error("Failed to load inventory.");
+  return data.map(toProduct);
+}
+
+export async function getProduct(id: string): Promise<Product> {
+  const { data, error } = await supabase
+    .from("inventory")
+    .select("*")
+    .eq("id", id)
+    .single();
+  if (error || !data) throw new Error("Product not found.");
+  return toProduct(data);
+}
+
+/**
+ * Inserts a new product, or updates the existing one when `id` is given.
+ * `stockQuantity` is only used as the opening stock of a new product; after
+ * that stock moves through sales, receipts and adjustStock. `cost` is the
+ * opening stock's cost; on an update, leave it undefined to keep the cost
+ * the purchase layers give, since a new one revalues the stock on hand.
+ */
+export async function saveProduct(input: ProductInput, id?: string): Promise<Product> {
+  const userId = await requireUserId();
+  const payload = {
+    name: input.name,
+    category: input.category,
+    price: input.price,
+    cost: input.cost,
+    reorder_level: input.reorderLevel,
+    unit: input.unit.trim(),
+    decimal_quantities: input.decimalQuantities,
+    units: input.units.map((u) => ({
+      name: u.name.trim(),
+      factor: u.factor,
+      price: u.price,
+      purchase: u.purchase,
+      sale: u.sale,
+    })),
+    supplier_id: input.supplierId || null,
+    sku: input.sku?.trim() || null,
+    barcode: input.barcode?.trim() || null,
+    tax_category: input.taxCategory,
+    user_id: userId,
+  };
+
+  const { data, error } = id
+    ? await supabase.from("inventory").update(payload).eq("id", id).select().single()
+    : await supabase
+        .from("inventory")
+        .insert([{ ...payload, stock_quantity: input.stockQuantity }])
+        .select()
+        .single();
+
+  if (error?.code === "23505") throw new Error(duplicateCodeMessage(error.message));
+  if (error || !data) {
+    throw new Error(error?.message || (id ? "Failed to update product." : "Failed to add product."));
+  }
+  return toProduct(data);
+}
+
+/**
+ * Adds found stock or writes stock off, recording the reason in the ledger.
+ */
+export async function adjustStock(input: StockAdjustmentInput): Promise<Product> {
+  const { data, error } = await supabase.rpc("adjust_stock", {
+    p_product_id: input.productId,
+    p_quantity: input.quantity,
+    p_reason: input.reason,
+    p_note: input.note ?? null,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to adjust stock.");
+  return toProduct(data);
+}
+
+/**
+ * A product's stock ledger, newest first. Movements are written by the
+ * database whenever stock changes; there is no way to add or edit them here.
+ */
+export async function listStockMovements(productId: string): Promise<StockMovement[]> {
+  const { data, error } = await supabase
+    .from("stock_movements")
+    .select("*")
+    .eq("product_id", productId)
+    .order("created_at", { ascending: false });
+  if (error) throw new Error("Failed to load stock history.");
+  return data.map(toStockMovement);
+}
+
+/**
+ * Batches with stock left, soonest expiry first. Like the ledger they are
+ * written by the database as stock moves.
+ */
+export async function listStockBatches(): Promise<StockBatch[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("stock_batches")
+    .select("*")
+    .eq("user_id", userId)
+    .gt("quantity", 0)
+    .order("expiry_date", { ascending: true, nullsFirst: false })
+    .order("received_at");
+  if (error) throw new Error("Failed to load stock batches.");
+  return data.map(toStockBatch);
+}
+
+/**
+ * Takes what is left of a batch out of stock as an expired write-off.
+ */
+export async function writeOffBatch(id: string, note?: string): Promise<StockBatch> {
+  const { data, error } = await supabase.rpc("write_off_batch", {
+    p_batch_id: id,
+    p_note: note ?? null,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to write off batch.");
+  return toStockBatch(data);
+}
+
+export async function deleteProduct(id: string): Promise<void> {
+  const { error } = await supabase.from("inventory").delete().eq("id", id);
+  if (error) throw new Error("Failed to delete product.");
+}
+
+// Prices ----------------------------------------------------------------------
+
+/**
+ * A product's price and cost changes, newest first.
+ */
+export async function listPriceChanges(productId: string): Promise<PriceChange[]> {
+  const { data, error } = await supabase
+    .from("price_changes")
+    .select("*")
+    .eq("product_id", productId)
+    .order("effective_at", { ascending: false });
+  if (error) throw new Error("Failed to load price history.");
+  return data.map(toPriceChange);
+}
+
+/**
+ * A product's price changes still waiting to take effect, soonest first.
+ */
+export async function listScheduledPriceChanges(
+  productId: string
+): Promise<ScheduledPriceChange[]> {
+  const { data, error } = await supabase
+    .from("scheduled_price_changes")
+    .select("*")
+    .eq("product_id", productId)
+    .is("applied_at", null)
+    .order("effective_at");
+  if (error) throw new Error("Failed to load scheduled price changes.");
+  return data.map(toScheduledPriceChange);
+}
+
+export async function schedulePriceChange(
+  productId: string,
+  price: number,
+  effectiveAt: string,
+  note?: string
+): Promise<ScheduledPriceChange> {
+  const { data, error } = await supabase.rpc("schedule_price_change", {
+    p_product_id: productId,
+    p_price: price,
+    p_effective_at: effectiveAt,
+    p_note: note ?? null,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to schedule price change.");
+  return toScheduledPriceChange(data);
+}
+
+export async function cancelScheduledPriceChange(id: string): Promise<void> {
+  const { error } = await supabase.rpc("cancel_scheduled_price_change", { p_change_id: id });
+  if (error) throw new Error(error.message || "Failed to cancel price change.");
+}
+
+// Variants --------------------------------------------------------------------
+
+export async function listProductParents(): Promise<ProductParent[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("product_parents")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name");
+  if (error) throw new Error("Failed to load products with variants.");
+  return data.map(toProductParent);
+}
+
+/**
+ * Creates or updates a parent product together with all of its variants.
+ * Existing variants left out of `variants` are deleted; callers reload the
+ * products afterwards to pick up the variant rows.
+ */
+export async function saveProductParent(
+  input: ProductParentInput,
+  variants: VariantInput[],
+  id?: string
+): Promise<ProductParent> {
+  const { data, error } = await supabase.rpc("save_product_parent", {
+    p_parent_id: id ?? null,
+    p_parent: {
+      name: input.name,
+      category: input.category,
+      price: input.price,
+      cost: input.cost,
+      reorder_level: input.reorderLevel,
+      supplier_id: input.supplierId || null,
+      tax_category: input.taxCategory,
+      options: input.options.map((o) => ({ name: o.name, values: o.values })),
+    },
+    p_variants: variants.map((v) => ({
+      id: v.id ?? null,
+      option_values: v.optionValues,
+      price_override: v.priceOverride,
+      sku: v.sku,
+      barcode: v.barcode,
+      opening_stock: v.openingStock,
+    })),
+  });
+  if (error?.code === "23505") throw new Error(duplicateCodeMessage(error.message));
+  if (error || !data) throw new Error(error?.message || "Failed to save product.");
+  return toProductParent(data);
+}
+
+/** Deletes a parent product and every one of its variants. */
+export async function deleteProductParent(id: string): Promise<void> {
+  const { error } = await supabase.from("product_parents").delete().eq("id", id);
+  if (error) throw new Error("Failed to delete product.");
+}
+
+// Sales -----------------------------------------------------------------------
+
+export async function listSales(): Promise<Sale[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("sales")
+    .select(SALE_COLUMNS)
+    .eq("user_id", userId)
+    .order("date", { ascending: false });
+  if (error) throw new Error("Failed to load sales.");
+  return data.map(toSale);
+}
+
+export async function getSale(id: string): Promise<Sale> {
+  const { data, error } = await supabase.from("sales").select(SALE_COLUMNS).eq("id", id).single();
+  if (error || !data) throw new Error("Sale not found.");
+  return toSale(data);
+}
+
+/**
+ * Records a sale with all its lines and decrements stock atomically (see the
+ * record_sale RPC), then reads it back with its lines.
+ */
+export async function recordSale(input: SaleInput): Promise<Sale> {
+  const { data, error } = await supabase.rpc("record_sale", {
+    p_items: toItemsArg(input.items),
+    p_date: input.date,
+    p_payments: toPaymentsArg(input.payments),
+    p_customer_id: input.customerId ?? null,
+    p_discount: toDiscountArg(input.discount),
+    p_approval: input.approval ?? null,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to record sale.");
+  return getSale(data.id);
+}
+
+/**
+ * Changes an existing sale, moving the stock difference in the same transaction.
+ */
+export async function updateSale(id: string, input: SaleInput): Promise<Sale> {
+  const { data, error } = await supabase.rpc("update_sale", {
+    p_sale_id: id,
+    p_items: toItemsArg(input.items),
+    p_date: input.date,
+    p_payments: toPaymentsArg(input.payments),
+    p_customer_id: input.customerId ?? null,
+    p_discount: toDiscountArg(input.discount),
+    p_approval: input.approval ?? null,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to update sale.");
+  return getSale(data.id);
+}
+
+/**
+ * Deletes a sale and restores every line's quantity to stock.
+ */
+export async function deleteSale(id: string): Promise<void> {
+  const { error } = await supabase.rpc("delete_sale", { p_sale_id: id });
+  if (error) throw new Error(error.message || "Failed to delete sale.");
+}
+
+/**
+ * Takes back some quantity of a sale's lines, refunds it and restocks or
+ * writes off the goods (see the record_return RPC), then reads the sale back.
+ */
+export async function recordReturn(input: ReturnInput): Promise<Sale> {
+  const { error } = await supabase.rpc("record_return", {
+    p_sale_id: input.saleId,
+    p_items: input.items.map((item) => ({
+      sale_item_id: item.saleItemId,
+      quantity: item.quantity,
+      restock: item.restock,
+    })),
+    p_reason: input.reason,
+    p_refund_method: input.refundMethod,
+    p_date: input.date,
+    p_note: input.note ?? null,
+  });
+  if (error) throw new Error(error.message || "Failed to record return.");
+  return getSale(input.saleId);
+}
+
+/**
+ * Sends the M-Pesa STK push prompt for a pending payment (see the
+ * mpesa-stk-push edge function). The payment stays pending until Daraja calls
+ * back; `phone` overrides the number stored on the payment.
+ */
+export async function requestStkPush(paymentId: string, phone?: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke("mpesa-stk-push", {
+    body: { payment_id: paymentId, phone },
+  });
+  if (error) {
+    // Non-2xx responses carry the function's { error } body in the context.
+    const body = await (error.context as Response | undefined)?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message || "Failed to send the M-Pesa prompt.");
+  }
+  if (data?.error) throw new Error(data.error);
+}
+
+/**
+ * Sends STK push prompts for every pending M-Pesa tender on a freshly saved
+ * sale. Tenders carried over from `previous` (the sale before an edit) have
+ * been prompted already and are left alone. Resolves with the first error
+ * message, if any, so the sale itself is never rolled back because a prompt
+ * could not be sent.
+ */
+export async function requestSaleStkPushes(sale: Sale, previous?: Sale): Promise<string | null> {
+  const pending = sale.payments.filter(
+    (p) =>
+      p.method === "mpesa" &&
+      p.status === "pending" &&
+      !previous?.payments.some((old) => old.id === p.id)
+  );
+  const results = await Promise.allSettled(pending.map((p) => requestStkPush(p.id)));
+  const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+  return failed ? (failed.reason as Error).message : null;
+}
+
+// VAT return ------------------------------------------------------------------
+
+/** Rows fetched per request; PostgREST caps each response at max_rows. */
+const PAGE_SIZE = 1000;
+
+/**
+ * Totals per tax category for sales and returns dated from `from` to `to`
+ * (see the vat_summary RPC).
+ */
+export async function getVatSummary(from: string, to: string): Promise<TaxSummaryRow[]> {
+  const { data, error } = await supabase.rpc("vat_summary", { p_from: from, p_to: to });
+  if (error) throw new Error("Failed to load the VAT summary.");
+  return data.map((row) => ({
+    taxCategory: row.tax_category,
+    sales: Number(row.sales),
+    returns: Number(row.returns),
+    taxableValue: Number(row.taxable_value),
+    vat: Number(row.vat),
+  }));
+}
+
+/**
+ * Every sale line and returned line behind the VAT summary, oldest first
+ * (see the vat_lines RPC). Fetched a page at a time in a fixed order, so
+ * none are cut off or repeated.
+ */
+export async function listVatLines(from: string, to: string): Promise<TaxLine[]> {
+  const lines: TaxLine[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .rpc("vat_lines", { p_from: from, p_to: to })
+      .order("date")
+      .order("is_return")
+      .order("sale_id")
+      .order("id")
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw new Error("Failed to load the VAT lines.");
+    lines.push(...data.map(toTaxLine));
+    if (data.length < PAGE_SIZE) return lines;
+  }
+}
+
+// Promotions ------------------------------------------------------------------
+
+export async function listPromotions(): Promise<Promotion[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("promotions")
+    .select("*")
+    .eq("user_id", userId)
+    .order("starts_on", { ascending: false });
+  if (error) throw new Error("Failed to load promotions.");
+  return data.map(toPromotion);
+}
+
+/**
+ * Inserts a new promotion, or updates the existing one when `id` is given.
+ */
+export async function savePromotion(input: PromotionInput, id?: string): Promise<Promotion> {
+  const userId = await requireUserId();
+  const payload = {
+    name: input.name,
+    kind: input.kind,
+    percent: input.kind === "percent_off" ? input.percent : null,
+    buy_quantity: input.kind === "buy_x_get_y" ? input.buyQuantity : null,
+    free_quantity: input.kind === "buy_x_get_y" ? input.freeQuantity : null,
+    product_id: input.productId,
+    category: input.productId ? null : input.category,
+    starts_on: input.startsOn,
+    ends_on: input.endsOn,
+    active: input.active,
+    user_id: userId,
+  };
+
+  const { data, error } = id
+    ? await supabase.from("promotions").update(payload).eq("id", id).select().single()
+    : await supabase.from("promotions").insert([payload]).select().single();
+
+  if (error || !data) {
+    throw new Error(
+      error?.message || (id ? "Failed to update promotion." : "Failed to add promotion.")
+    );
+  }
+  return toPromotion(data);
+}
+
+export async function deletePromotion(id: string): Promise<void> {
+  const { error } = await supabase.from("promotions").delete().eq("id", id);
+  if (error) throw new Error("Failed to delete promotion.");
+}
+
+// Customers -------------------------------------------------------------------
+
+export async function listCustomers(): Promise<Customer[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("customers")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name");
+  if (error) throw new Error("Failed to load customers.");
+  return data.map(toCustomer);
+}
+
+/**
+ * Inserts a new customer, or updates the existing one when `id` is given.
+ */
+export async function saveCustomer(input: CustomerInput, id?: string): Promise<Customer> {
+  const userId = await requireUserId();
+  const payload = {
+    name: input.name,
+    phone: input.phone || null,
+    credit_limit: input.creditLimit,
+    credit_days: input.creditDays,
+    user_id: userId,
+  };
+
+  const { data, error } = id
+    ? await supabase.from("customers").update(payload).eq("id", id).select().single()
+    : await supabase.from("customers").insert([payload]).select().single();
+
+  if (error || !data) {
+    throw new Error(error?.message || (id ? "Failed to update customer." : "Failed to add customer."));
+  }
+  return toCustomer(data);
+}
+
+export async function deleteCustomer(id: string): Promise<void> {
+  const { error } = await supabase.from("customers").delete().eq("id", id);
+  // 23503: still referenced by sales or repayments.
+  if (error?.code === "23503") throw new Error("Customers with sales on record can't be deleted.");
+  if (error) throw new Error("Failed to delete customer.");
+}
+
+/**
+ * What each customer owes on `today` (see the customer_balances RPC);
+ * customers who owe nothing are left out.
+ */
+export async function listCustomerBalances(today: string): Promise<CustomerBalance[]> {
+  const { data, error } = await supabase.rpc("customer_balances", { p_today: today });
+  if (error) throw new Error("Failed to load customer balances.");
+  return data.map((row) => ({
+    customerId: row.customer_id,
+    outstanding: Number(row.outstanding),
+    overdue: Number(row.overdue),
+    oldestOverdueDays: row.oldest_overdue_days,
+  }));
+}
+
+/**
+ * Every unpaid credit balance on `today`, totalled into AGE_BUCKETS (see the
+ * aged_debt RPC).
+ */
+export async function getAgedDebt(today: string): Promise<{ label: string; amount: number }[]> {
+  const { data, error } = await supabase.rpc("aged_debt", { p_today: today });
+  if (error) throw new Error("Failed to load aged debt.");
+  return AGE_BUCKETS.map((bucket, i) => ({
+    label: bucket.label,
+    amount: Number(data.find((row) => row.bucket === i)?.amount ?? 0),
+  }));
+}
+
+/**
+ * A customer's credit sales and repayments, newest first, each with the
+ * balance owed after it (see the customer_ledger RPC).
+ */
+export async function listCustomerLedger(customerId: string): Promise<CreditLedgerLine[]> {
+  const { data, error } = await supabase.rpc("customer_ledger", { p_customer_id: customerId });
+  if (error) throw new Error("Failed to load the customer's ledger.");
+  return data.map((row) => toCreditLedgerLine(row, customerId));
+}
+
+/**
+ * Records a repayment and allocates it to the customer's oldest unpaid credit
+ * sales (see the record_repayment RPC).
+ */
+export async function recordRepayment(input: RepaymentInput): Promise<Repayment> {
+  const { data, error } = await supabase.rpc("record_repayment", {
+    p_customer_id: input.customerId,
+    p_amount: input.amount,
+    p_method: input.method,
+    p_reference: input.reference ?? null,
+    p_date: input.date,
+    p_note: input.note ?? null,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to record repayment.");
+  return toRepayment(data);
+}
+
+/**
+ * Voids a repayment taken in error: what it settled is owed again (see the
+ * void_repayment RPC).
+ */
+export async function voidRepayment(id: string, reason: string): Promise<Repayment> {
+  const { data, error } = await supabase.rpc("void_repayment", {
+    p_repayment_id: id,
+    p_reason: reason,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to void repayment.");
+  return toRepayment(data);
+}
+
+// Purchasing ------------------------------------------------------------------
+
+export async function listSuppliers(): Promise<Supplier[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("suppliers")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name");
+  if (error) throw new Error("Failed to load suppliers.");
+  return data.map(toSupplier);
+}
+
+/**
+ * Inserts a new supplier, or updates the existing one when `id` is given.
+ */
+export async function saveSupplier(input: SupplierInput, id?: string): Promise<Supplier> {
+  const userId = await requireUserId();
+  const payload = {
+    name: input.name,
+    phone: input.phone || null,
+    email: input.email || null,
+    lead_time_days: input.leadTimeDays,
+    notes: input.notes || null,
+    user_id: userId,
+  };
+
+  const { data, error } = id
+    ? await supabase.from("suppliers").update(payload).eq("id", id).select().single()
+    : await supabase.from("suppliers").insert([payload]).select().single();
+
+  if (error || !data) {
+    throw new Error(error?.message || (id ? "Failed to update supplier." : "Failed to add supplier."));
+  }
+  return toSupplier(data);
+}
+
+export async function deleteSupplier(id: string): Promise<void> {
+  const { error } = await supabase.from("suppliers").delete().eq("id", id);
+  // 23503: still referenced by purchase orders.
+  if (error?.code === "23503") throw new Error("Suppliers with purchase orders can't be deleted.");
+  if (error) throw new Error("Failed to delete supplier.");
+}
+
+export async function listPurchaseOrders(): Promise<PurchaseOrder[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("purchase_orders")
+    .select(PURCHASE_ORDER_COLUMNS)
+    .eq("user_id", userId)
+    .order("number", { ascending: false });
+  if (error) throw new Error("Failed to load purchase orders.");
+  return data.map(toPurchaseOrder);
+}
+
+export async function getPurchaseOrder(id: string): Promise<PurchaseOrder> {
+  const { data, error } = await supabase
+    .from("purchase_orders")
+    .select(PURCHASE_ORDER_COLUMNS)
+    .eq("id", id)
+    .single();
+  if (error || !data) throw new Error("Purchase order not found.");
+  return toPurchaseOrder(data);
+}
+
+const toOrderItemsArg = (items: PurchaseOrderLineInput[]) =>
+  items.map((item) => ({
+    product_id: item.productId,
+    quantity: item.quantity,
+    unit: item.unit ?? null,
+    unit_cost: item.unitCost,
+  }));
+
+/**
+ * Creates a purchase order, or replaces an open one's lines when `id` is given
+ * (only before anything has been received).
+ */
+export async function savePurchaseOrder(input: PurchaseOrderInput, id?: string): Promise<PurchaseOrder> {
+  const { data, error } = id
+    ? await supabase.rpc("update_purchase_order", {
+        p_order_id: id,
+        p_supplier_id: input.supplierId,
+        p_items: toOrderItemsArg(input.items),
+        p_order_date: input.orderDate,
+        p_expected_date: input.expectedDate || null,
+        p_note: input.note ?? null,
+      })
+    : await supabase.rpc("create_purchase_order", {
+        p_supplier_id: input.supplierId,
+        p_items: toOrderItemsArg(input.items),
+        p_order_date: input.orderDate,
+        p_expected_date: input.expectedDate || null,
+        p_note: input.note ?? null,
+      });
+  if (error || !data) {
+    throw new Error(
+      error?.message || (id ? "Failed to update purchase order." : "Failed to create purchase order.")
+    );
+  }
+  return getPurchaseOrder(data.id);
+}
+
+export async function cancelPurchaseOrder(id: string): Promise<PurchaseOrder> {
+  const { error } = await supabase.rpc("cancel_purchase_order", { p_order_id: id });
+  if (error) throw new Error(error.message || "Failed to cancel purchase order.");
+  return getPurchaseOrder(id);
+}
+
+/**
+ * Receives a (possibly partial) delivery: adds the quantities to stock and
+ * updates product costs (see the receive_purchase_order RPC).
+ */
+export async function receivePurchaseOrder(id: string, items: ReceiveLineInput[]): Promise<PurchaseOrder> {
+  const { error } = await supabase.rpc("receive_purchase_order", {
+    p_order_id: id,
+    p_items: items.map((item) => ({
+      item_id: item.itemId,
+      quantity: item.quantity,
+      unit_cost: item.unitCost ?? null,
+      lot_number: item.lotNumber || null,
+      expiry_date: item.expiryDate || null,
+    })),
+  });
+  if (error) throw new Error(error.message || "Failed to receive stock.");
+  return getPurchaseOrder(id);
+}
+
+// Stock-takes -----------------------------------------------------------------
+
+export async function listStockTakes(): Promise<StockTake[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("stock_takes")
+    .select("*, stock_take_lines(*)")
+    .eq("user_id", userId)
+    .order("number", { ascending: false });
+  if (error) throw new Error("Failed to load stock-takes.");
+  return data.map(toStockTake);
+}
+
+export async function getStockTake(id: string): Promise<StockTake> {
+  const { data, error } = await supabase
+    .from("stock_takes")
+    .select("*, stock_take_lines(*)")
+    .eq("id", id)
+    .single();
+  if (error || !data) throw new Error("Stock-take not found.");
+  return toStockTake(data);
+}
+
+/**
+ * Snapshots expected stock for every product, or only those in `category`.
+ */
+export async function startStockTake(category?: string | null, note?: string): Promise<StockTake> {
+  const { data, error } = await supabase.rpc("start_stock_take", {
+    p_category: category || null,
+    p_note: note ?? null,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to start stock-take.");
+  return getStockTake(data.id);
+}
+
+export async function recordStockCounts(stockTakeId: string, counts: StockCountInput[]): Promise<void> {
+  const { error } = await supabase.rpc("record_stock_counts", {
+    p_stock_take_id: stockTakeId,
+    p_counts: counts.map((c) => ({ line_id: c.lineId, counted_quantity: c.countedQuantity })),
+  });
+  if (error) throw new Error(error.message || "Failed to save counts.");
+}
+
+/**
+ * Posts a stock_take movement for every counted line that differs from the
+ * snapshot (see the approve_stock_take RPC).
+ */
+export async function approveStockTake(id: string): Promise<StockTake> {
+  const { error } = await supabase.rpc("approve_stock_take", { p_stock_take_id: id });
+  if (error) throw new Error(error.message || "Failed to approve stock-take.");
+  return getStockTake(id);
+}
+
+export async function cancelStockTake(id: string): Promise<StockTake> {
+  const { error } = await supabase.rpc("cancel_stock_take", { p_stock_take_id: id });
+  if (error) throw new Error(error.message || "Failed to cancel stock-take.");
+  return getStockTake(id);
+}
+
+// Settings --------------------------------------------------------------------
+
+export async function getShopSettings(): Promise<ShopSettings> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("shop_settings")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new Error("Failed to load settings.");
+  return data ? toShopSettings(data) : DEFAULT_SHOP_SETTINGS;
+}
+
+/**
+ * Changes how sales are costed from now on; sales already made keep their
+ * cost (see the set_costing_method RPC).
+ */
+export async function setCostingMethod(method: CostingMethod): Promise<ShopSettings> {
+  const { data, error } = await supabase.rpc("set_costing_method", { p_method: method });
+  if (error || !data) throw new Error(error?.message || "Failed to change the costing method.");
+  return toShopSettings(data);
+}
+
+/**
+ * Caps manual discounts at `percent` off what they come off; null lifts the
+ * limit. Needs the manager PIN once one is set.
+ */
+export async function setDiscountLimit(
+  percent: number | null,
+  pin?: string
+): Promise<ShopSettings> {
+  const { data, error } = await supabase.rpc("set_discount_limit", {
+    p_percent: percent,
+    p_approval: pin ? await managerApproval(pin) : null,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to change the discount limit.");
+  return toShopSettings(data);
+}
+
+/**
+ * Sets the manager PIN, or with null removes it. Needs the current PIN once
+ * one is set.
+ */
+export async function setManagerPin(
+  pin: string | null,
+  currentPin?: string
+): Promise<ShopSettings> {
+  const { data, error } = await supabase.rpc("set_manager_pin", {
+    p_pin: pin,
+    p_approval: currentPin ? await managerApproval(currentPin) : null,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to change the manager PIN.");
+  return toShopSettings(data);
+}
+
+/**
+ * An approval for one sale or settings change when `pin` is the manager PIN,
+ * or null when it is not. It lasts 10 minutes. Too many wrong PINs in a row
+ * lock the PIN for a while, and this then throws.
+ */
+export async function checkManagerPin(pin: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("check_manager_pin", { p_pin: pin });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// The settings RPCs take an approval rather than the PIN itself.
+const managerApproval = async (pin: string) => {
+  const approval = await checkManagerPin(pin);
+  if (!approval) throw new Error("That manager PIN is not right.");
+  return approval;
+};
+
+/**
+ * Sets whether the shop is VAT registered, the standard VAT rate and whether
+ * prices include VAT. Sales already made keep the VAT they were given.
+ */
+export async function setTaxSettings(
+  vatRegistered: boolean,
+  pricesIncludeTax: boolean,
+  vatRate: number
+): Promise<ShopSettings> {
+  const { data, error } = await supabase.rpc("set_tax_settings", {
+    p_vat_registered: vatRegistered,
+    p_prices_include_tax: pricesIncludeTax,
+    p_vat_rate: vatRate,
+  });
+  if (error || !data) throw new Error(error?.message || "Failed to change the VAT settings.");
+  return toShopSettings(data);
+}
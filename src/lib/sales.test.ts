@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  returnedQuantity,
+  saleLines,
+  saleNetProfit,
+  saleNetQuantity,
+  saleNetTotal,
+  saleRefunds,
+} from "@/lib/sales";
+import { sale, saleItem, saleReturn, saleReturnItem } from "@/test/fixtures";
+
+// Two lines; one of the two bags of sugar comes back, then the soap.
+const returned = sale({
+  totalAmount: 760,
+  profit: 100,
+  items: [
+    saleItem(),
+    saleItem({
+      id: "si2",
+      productId: "p2",
+      productName: "Soap",
+      quantity: 1,
+      unitPrice: 100,
+      unitCost: 80,
+      lineTotal: 100,
+      profit: 20,
+    }),
+  ],
+  returns: [
+    saleReturn(),
+    saleReturn({
+      id: "r2",
+      date: "2026-10-03",
+      refundAmount: 100,
+      profitReversed: 20,
+      items: [
+        saleReturnItem({
+          id: "ri2",
+          saleItemId: "si2",
+          restock: false,
+          refundAmount: 100,
+          profitReversed: 20,
+        }),
+      ],
+    }),
+  ],
+});
+
+describe("returnedQuantity", () => {
+  it("adds up a line's returns across every return on the sale", () => {
+    expect(returnedQuantity(returned, "si1")).toBe(1);
+    expect(returnedQuantity(returned, "si2")).toBe(1);
+    expect(returnedQuantity(sale({ items: [saleItem()] }), "si1")).toBe(0);
+  });
+});
+
+describe("sale totals net of returns", () => {
+  it("takes refunds off the total, profit and quantity", () => {
+    expect(saleRefunds(returned)).toBe(430);
+    expect(saleNetTotal(returned)).toBe(330);
+    expect(saleNetProfit(returned)).toBe(40);
+    expect(saleNetQuantity(returned)).toBe(1);
+  });
+});
+
+describe("saleLines", () => {
+  it("nets returns out of each line and drops lines returned in full", () => {
+    expect(saleLines([returned])).toEqual([
+      { ...saleItem(), quantity: 1, lineTotal: 330, profit: 40, saleId: "s1", date: "2026-10-01" },
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+// src/lib/sales.ts
+
+import { Product, Sale, SaleItem } from "@/types";
+import { SaleLineInput } from "@/lib/repository";
+import { findUnit, formatQuantity, roundQuantity } from "@/lib/units";
+
+/** A sale line together with the receipt it belongs to. */
+export interface SaleLine extends SaleItem {
+  saleId: string;
+  date: string;
+}
+
+/**
+ * Total units across every line of a sale.
+ */
+export const saleQuantity = (sale: Sale): number =>
+  sale.items.reduce((sum, item) => sum + item.quantity, 0);
+
+/**
+ * One-line description of a receipt, e.g. "Sugar 2kg" or "Sugar 2kg +2 more".
+ */
+export const saleSummary = (sale: Sale): string => {
+  if (!sale.items.length) return "-";
+  const [first, ...rest] = sale.items;
+  return rest.length ? `${first.productName} +${rest.length} more` : first.productName;
+};
+
+/**
+ * Units of one sale line already returned.
+ */
+export const returnedQuantity = (sale: Sale, saleItemId: string): number =>
+  sale.returns
+    .flatMap((r) => r.items)
+    .filter((item) => item.saleItemId === saleItemId)
+    .reduce((sum, item) => sum + item.quantity, 0);
+
+/** What the customer paid per unit of a line, after its discounts; refunds use it. */
+export const paidPrice = (item: SaleItem): number =>
+  item.quantity ? item.lineTotal / item.quantity : 0;
+
+/** Total refunded on a sale's returns. */
+export const saleRefunds = (sale: Sale): number =>
+  sale.returns.reduce((sum, r) => sum + r.refundAmount, 0);
+
+/** Revenue the sale still brings in after returns. */
+export const saleNetTotal = (sale: Sale): number => sale.totalAmount - saleRefunds(sale);
+
+/** Profit the sale still makes after returns. */
+export const saleNetProfit = (sale: Sale): number =>
+  sale.profit - sale.returns.reduce((sum, r) => sum + r.profitReversed, 0);
+
+/** Units sold less units returned. */
+export const saleNetQuantity = (sale: Sale): number =>
+  saleQuantity(sale) - sale.returns.flatMap((r) => r.items).reduce((sum, i) => sum + i.quantity, 0);
+
+/**
+ * Flattens sales into their lines, each tagged with the sale's id and date
+ * and net of any returns against it. Fully returned lines are dropped.
+ */
+export const saleLines = (sales: Sale[]): SaleLine[] =>
+  sales.flatMap((sale) =>
+    sale.items
+      .map((item) => {
+        const returned = sale.returns
+          .flatMap((r) => r.items)
+          .filter((r) => r.saleItemId === item.id);
+        return {
+          ...item,
+          quantity: item.quantity - returned.reduce((sum, r) => sum + r.quantity, 0),
+          lineTotal: item.lineTotal - returned.reduce((sum, r) => sum + r.refundAmount, 0),
+          profit: item.profit - returned.reduce((sum, r) => sum + r.profitReversed, 0),
+          saleId: sale.id,
+          date: sale.date,
+        };
+      })
+      .filter((line) => line.quantity > 0 || line.profit !== 0)
+  );
+
+/**
+ * Sums basket quantities per product in base units (the same product may be
+ * on several lines, in different units).
+ */
+export function quantitiesByProduct(
+  lines: SaleLineInput[],
+  products: Product[]
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  lines.forEach((line) => {
+    const product = products.find((p) => p.id === line.productId);
+    const factor = product ? findUnit(product, line.unit).factor : 1;
+    totals.set(
+      line.productId,
+      roundQuantity((totals.get(line.productId) ?? 0) + Number(line.quantity || 0) * factor)
+    );
+  });
+  return totals;
+}
+
+/**
+ * Checks a basket against current stock and returns an error message for each
+ * product that is short, comparing in base units. When editing, pass the original sale: its quantities
+ * have already left stock, so they count as available again.
+ */
+export function findStockShortfalls(
+  lines: SaleLineInput[],
+  products: Product[],
+  previous?: Sale
+): Map<string, string> {
+  const shortfalls = new Map<string, string>();
+  const alreadyTaken = new Map<string, number>();
+  previous?.items.forEach((item) => {
+    alreadyTaken.set(
+      item.productId,
+      roundQuantity((alreadyTaken.get(item.productId) ?? 0) + item.quantity * item.unitFactor)
+    );
+  });
+
+  quantitiesByProduct(lines, products).forEach((quantity, productId) => {
+    const product = products.find((p) => p.id === productId);
+    if (!product) {
+      shortfalls.set(productId, "Product not found.");
+      return;
+    }
+    const available = roundQuantity(product.stockQuantity + (alreadyTaken.get(productId) ?? 0));
+    if (quantity > available) {
+      shortfalls.set(productId, `Only ${formatQuantity(available, product.unit)} in stock.`);
+    }
+  });
+
+  return shortfalls;
+}
@@ -0,0 +1,36 @@
+// src/lib/stock.ts
+
+import { StockAdjustmentReason, StockMovementType } from "@/types";
+import { formatQuantity } from "@/lib/units";
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  opening: "Opening balance",
+  sale: "Sale",
+  sale_reversal: "Sale edited or deleted",
+  return: "Customer return",
+  purchase_receipt: "Purchase receipt",
+  adjustment: "Manual adjustment",
+  stock_take: "Stock-take correction",
+  transfer: "Transfer",
+};
+
+/** +5 / −3 / +0.25 kg, for ledger quantities. */
+export const formatStockDelta = (quantity: number, unit?: string): string =>
+  `${quantity > 0 ? "+" : "−"}${formatQuantity(Math.abs(quantity), unit)}`;
+
+/** Reason codes for manual adjustments; only found stock is added. */
+export const ADJUSTMENT_REASONS: {
+  value: StockAdjustmentReason;
+  label: string;
+  direction: 1 | -1;
+}[] = [
+  { value: "damaged", label: "Damaged", direction: -1 },
+  { value: "expired", label: "Expired", direction: -1 },
+  { value: "theft", label: "Theft or loss", direction: -1 },
+  { value: "gift", label: "Given away", direction: -1 },
+  { value: "internal_use", label: "Internal use", direction: -1 },
+  { value: "found", label: "Found stock", direction: 1 },
+];
+
+export const adjustmentReasonLabel = (reason: StockAdjustmentReason): string =>
+  ADJUSTMENT_REASONS.find((r) => r.value === reason)?.label ?? reason;
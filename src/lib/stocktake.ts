@@ -0,0 +1,70 @@
+// src/lib/stocktake.ts
+
+import { StockTake, StockTakeLine, StockTakeStatus } from "@/types";
+import { roundQuantity } from "@/lib/units";
+
+export const STOCK_TAKE_STATUS_LABELS: Record<StockTakeStatus, string> = {
+  counting: "Counting",
+  approved: "Approved",
+  cancelled: "Cancelled",
+};
+
+/** ST-0007. */
+export const formatStockTakeNumber = (take: Pick<StockTake, "number">): string =>
+  `ST-${String(take.number).padStart(4, "0")}`;
+
+/** Counted minus expected; null until the line is counted. */
+export const lineVariance = (line: StockTakeLine): number | null =>
+  line.countedQuantity === null
+    ? null
+    : roundQuantity(line.countedQuantity - line.expectedQuantity);
+
+/** The variance valued at the snapshot cost. */
+export const lineVarianceValue = (line: StockTakeLine): number =>
+  (lineVariance(line) ?? 0) * line.unitCost;
+
+export interface StockTakeSummary {
+  lines: number;
+  counted: number;
+  /** Counted lines whose count differs from the snapshot. */
+  withVariance: number;
+  /** Net units over (positive) or short (negative). */
+  units: number;
+  /** Net variance at cost. */
+  value: number;
+  shortageValue: number;
+  surplusValue: number;
+}
+
+export function stockTakeSummary(take: StockTake): StockTakeSummary {
+  return take.lines.reduce(
+    (acc, line) => {
+      const variance = lineVariance(line);
+      const value = lineVarianceValue(line);
+      return {
+        lines: acc.lines + 1,
+        counted: acc.counted + (variance === null ? 0 : 1),
+        withVariance: acc.withVariance + (variance ? 1 : 0),
+        units: roundQuantity(acc.units + (variance ?? 0)),
+        value: acc.value + value,
+        shortageValue: acc.shortageValue + Math.min(value, 0),
+        surplusValue: acc.surplusValue + Math.max(value, 0),
+      };
+    },
+    { lines: 0, counted: 0, withVariance: 0, units: 0, value: 0, shortageValue: 0, surplusValue: 0 }
+  );
+}
+
+/** One row per line, for the exported variance report. */
+export const varianceReportRows = (take: StockTake) =>
+  take.lines.map((line) => ({
+    "Stock-Take": formatStockTakeNumber(take),
+    Category: line.category,
+    Product: line.productName,
+    Expected: line.expectedQuantity,
+    Counted: line.countedQuantity ?? "",
+    Variance: lineVariance(line) ?? "",
+    "Unit Cost": line.unitCost.toFixed(2),
+    "Variance Value": lineVarianceValue(line).toFixed(2),
+    "Counted By": line.countedBy ?? "",
+  }));
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SHOP_SETTINGS } from "@/lib/costing";
+import {
+  basketTax,
+  lineTax,
+  monthRange,
+  saleTax,
+  taxCategoryLabel,
+  taxDetailReportRows,
+  taxLineDescription,
+  taxRate,
+  taxSummaryReportRows,
+} from "@/lib/tax";
+import { ShopSettings, TaxCategory, TaxLine } from "@/types";
+import { product } from "@/test/fixtures";
+
+const inclusive: ShopSettings = {
+  ...DEFAULT_SHOP_SETTINGS,
+  vatRegistered: true,
+  pricesIncludeTax: true,
+  vatRate: 16,
+};
+const exclusive: ShopSettings = { ...inclusive, pricesIncludeTax: false };
+
+const rated = (taxCategory: TaxCategory) => product({ id: taxCategory, taxCategory });
+
+const taxLine = (overrides: Partial<TaxLine>): TaxLine => ({
+  id: "si1",
+  date: "2026-10-01",
+  saleId: "s1",
+  customerName: null,
+  productName: "Soap",
+  quantity: 1,
+  unit: "pc",
+  taxCategory: "standard",
+  taxRate: 16,
+  taxableValue: 100,
+  vat: 16,
+  total: 116,
+  isReturn: false,
+  ...overrides,
+});
+
+describe("taxRate", () => {
+  it("charges the shop's rate on standard-rated products only", () => {
+    expect(taxRate("standard", inclusive)).toBe(16);
+    expect(taxRate("zero_rated", inclusive)).toBe(0);
+    expect(taxRate("exempt", inclusive)).toBe(0);
+  });
+
+  it("charges nothing until the shop is VAT registered", () => {
+    expect(taxRate("standard", DEFAULT_SHOP_SETTINGS)).toBe(0);
+  });
+});
+
+describe("lineTax", () => {
+  it("takes the VAT out of inclusive prices", () => {
+    expect(lineTax(116, 16, true)).toBe(16);
+    expect(lineTax(660, 16, true)).toBe(91.03);
+  });
+
+  it("adds VAT to exclusive prices", () => {
+    expect(lineTax(100, 16, false)).toBe(16);
+  });
+});
+
+describe("saleTax", () => {
+  const lines = [
+    { taxCategory: "standard" as const, amount: 116 },
+    { taxCategory: "exempt" as const, amount: 50 },
+  ];
+
+  it("leaves inclusive totals as they are", () => {
+    expect(saleTax(lines, inclusive)).toEqual({ taxAmount: 16, total: 166 });
+  });
+
+  it("adds VAT on top of exclusive totals", () => {
+    expect(saleTax(lines, exclusive)).toEqual({ taxAmount: 18.56, total: 184.56 });
+  });
+
+  it("charges no VAT for a shop that isn't registered", () => {
+    expect(saleTax(lines, { ...exclusive, vatRegistered: false })).toEqual({
+      taxAmount: 0,
+      total: 166,
+    });
+  });
+});
+
+describe("basketTax", () => {
+  it("works out VAT after the basket discount is shared across the lines", () => {
+    const lines = [
+      { product: rated("standard"), total: 116 },
+      { product: rated("exempt"), total: 58 },
+    ];
+    // 17.40 off: 11.60 on the standard-rated line, leaving 104.40.
+    expect(basketTax(lines, 17.4, inclusive)).toEqual({ taxAmount: 14.4, total: 156.6 });
+  });
+});
+
+describe("monthRange", () => {
+  it("runs from the first to the last day of the month", () => {
+    expect(monthRange("2028-02")).toEqual({ from: "2028-02-01", to: "2028-02-29" });
+    expect(monthRange("2026-12")).toEqual({ from: "2026-12-01", to: "2026-12-31" });
+  });
+});
+
+describe("taxCategoryLabel", () => {
+  it("names each category, and lines without one", () => {
+    expect(taxCategoryLabel("zero_rated")).toBe("Zero rated");
+    expect(taxCategoryLabel(null)).toBe("Not tracked");
+  });
+});
+
+describe("taxLineDescription", () => {
+  it("names the product, quantity and unit, and marks returns", () => {
+    expect(taxLineDescription(taxLine({ quantity: 2 }))).toBe("Soap × 2 pc");
+    expect(taxLineDescription(taxLine({ isReturn: true }))).toBe("Return: Soap × 1 pc");
+  });
+});
+
+describe("taxSummaryReportRows", () => {
+  it("adds a totals row", () => {
+    const rows = taxSummaryReportRows(
+      [
+        { taxCategory: "standard", sales: 100, returns: -50, taxableValue: 50, vat: 8 },
+        { taxCategory: null, sales: 10, returns: 0, taxableValue: 10, vat: 0 },
+      ],
+      "2026-10-01",
+      "2026-10-31"
+    );
+    const totals = rows.map((row) => [
+      row["Tax Category"],
+      row["Taxable Value (KSh)"],
+      row["Output VAT (KSh)"],
+    ]);
+    expect(totals).toEqual([
+      ["Standard rated", "50.00", "8.00"],
+      ["Not tracked", "10.00", "0.00"],
+      ["Total", "60.00", "8.00"],
+    ]);
+  });
+});
+
+describe("taxDetailReportRows", () => {
+  it("lists returns as credit notes", () => {
+    const [row] = taxDetailReportRows([
+      taxLine({ taxableValue: -50, vat: -8, total: -58, isReturn: true }),
+    ]);
+    expect(row).toMatchObject({
+      Type: "Credit note",
+      Description: "Return: Soap × 1 pc",
+      "Taxable Value (KSh)": "-50.00",
+      "VAT (KSh)": "-8.00",
+    });
+  });
+});
@@ -0,0 +1,135 @@
+// src/lib/tax.ts
+
+import { Product, ShopSettings, TaxCategory, TaxLine, TaxSummaryRow } from "@/types";
+import { basketShares } from "@/lib/discounts";
+
+/*
+ * VAT as the database works it out (see apply_sale_tax): once the shop is
+ * VAT registered, each line's VAT comes from its product's tax category at
+ * the shop's rate after discounts, and is added on top when prices exclude
+ * VAT. Also how the VAT return is shown and exported; the return itself is
+ * worked out by the vat_summary and vat_lines RPCs.
+ */
+
+export const TAX_CATEGORIES: { value: TaxCategory; label: string; description: string }[] = [
+  {
+    value: "standard",
+    label: "Standard rated",
+    description: "VAT at the shop's rate. Most goods.",
+  },
+  {
+    value: "zero_rated",
+    label: "Zero rated",
+    description: "Taxable at 0%, e.g. exports and some farm inputs.",
+  },
+  {
+    value: "exempt",
+    label: "Exempt",
+    description: "Outside VAT, e.g. unprocessed food and educational books.",
+  },
+];
+
+/** e.g. "Zero rated"; lines sold before VAT was tracked have no category. */
+export const taxCategoryLabel = (category: TaxCategory | null): string =>
+  TAX_CATEGORIES.find((c) => c.value === category)?.label ?? "Not tracked";
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * The VAT rate, in percent, for a product in `category`; nothing is charged
+ * until the shop is VAT registered.
+ */
+export const taxRate = (category: TaxCategory, settings: ShopSettings): number =>
+  settings.vatRegistered && category === "standard" ? settings.vatRate : 0;
+
+/**
+ * VAT on a line worth `amount` after discounts, which already includes it
+ * when prices are tax-inclusive.
+ */
+export const lineTax = (amount: number, rate: number, inclusive: boolean): number =>
+  inclusive ? round((amount * rate) / (100 + rate)) : round((amount * rate) / 100);
+
+/** A basket's VAT and what the customer pays, VAT included. */
+export function saleTax(
+  lines: { taxCategory: TaxCategory; amount: number }[],
+  settings: ShopSettings
+) {
+  const taxes = lines.map((line) =>
+    lineTax(line.amount, taxRate(line.taxCategory, settings), settings.pricesIncludeTax)
+  );
+  const taxAmount = round(taxes.reduce((sum, tax) => sum + tax, 0));
+  const amount = lines.reduce((sum, line) => sum + line.amount, 0);
+  return {
+    taxAmount,
+    total: round(settings.pricesIncludeTax ? amount : amount + taxAmount),
+  };
+}
+
+/**
+ * VAT on priced basket lines (see priceLine) once the basket discount is
+ * shared across them, and what the customer pays.
+ */
+export function basketTax(
+  lines: { product: Product; total: number }[],
+  basketAmount: number,
+  settings: ShopSettings
+) {
+  const shares = basketShares(
+    lines.map((line) => line.total),
+    basketAmount
+  );
+  return saleTax(
+    lines.map((line, i) => ({
+      taxCategory: line.product.taxCategory,
+      amount: line.total - shares[i],
+    })),
+    settings
+  );
+}
+
+/** First and last day (yyyy-mm-dd) of a month given as yyyy-mm. */
+export function monthRange(month: string): { from: string; to: string } {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, "0")}` };
+}
+
+/** e.g. "Sugar 2kg × 2 pc", or "Return: Sugar 2kg × 1 pc". */
+export const taxLineDescription = (line: TaxLine): string =>
+  `${line.isReturn ? "Return: " : ""}${line.productName} × ${line.quantity} ${line.unit}`;
+
+/** The VAT summary as CSV rows, with a totals row, for the accountant. */
+export const taxSummaryReportRows = (rows: TaxSummaryRow[], from: string, to: string) =>
+  [
+    ...rows.map((row) => ({ label: taxCategoryLabel(row.taxCategory), ...row })),
+    {
+      label: "Total",
+      sales: rows.reduce((sum, row) => sum + row.sales, 0),
+      returns: rows.reduce((sum, row) => sum + row.returns, 0),
+      taxableValue: rows.reduce((sum, row) => sum + row.taxableValue, 0),
+      vat: rows.reduce((sum, row) => sum + row.vat, 0),
+    },
+  ].map((row) => ({
+    "Period From": from,
+    "Period To": to,
+    "Tax Category": row.label,
+    "Sales (KSh)": row.sales.toFixed(2),
+    "Returns (KSh)": row.returns.toFixed(2),
+    "Taxable Value (KSh)": row.taxableValue.toFixed(2),
+    "Output VAT (KSh)": row.vat.toFixed(2),
+  }));
+
+/** Every line behind the VAT summary as CSV rows; returns are credit notes. */
+export const taxDetailReportRows = (lines: TaxLine[]) =>
+  lines.map((line) => ({
+    Date: line.date,
+    Invoice: line.saleId,
+    Type: line.isReturn ? "Credit note" : "Sale",
+    Customer: line.customerName ?? "",
+    Description: taxLineDescription(line),
+    "Tax Category": taxCategoryLabel(line.taxCategory),
+    "Rate (%)": line.taxRate,
+    "Taxable Value (KSh)": line.taxableValue.toFixed(2),
+    "VAT (KSh)": line.vat.toFixed(2),
+    "Total (KSh)": line.total.toFixed(2),
+  }));
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  defaultPurchaseUnit,
+  findUnit,
+  formatQuantity,
+  quantityStep,
+  roundQuantity,
+  unitOptions,
+} from "@/lib/units";
+import { product } from "@/test/fixtures";
+
+const soda = product({
+  name: "Soda 500ml",
+  category: "Drinks",
+  price: 50,
+  unit: "bottle",
+  units: [
+    { name: "crate", factor: 24, price: 1100, purchase: true, sale: true },
+    { name: "6-pack", factor: 6, price: null, purchase: false, sale: true },
+    { name: "pallet", factor: 480, price: null, purchase: true, sale: false },
+  ],
+});
+
+describe("unitOptions", () => {
+  it("lists the base unit first, then the packs sold", () => {
+    expect(unitOptions(soda)).toEqual([
+      { name: "bottle", factor: 1, price: 50 },
+      { name: "crate", factor: 24, price: 1100 },
+      { name: "6-pack", factor: 6, price: 300 },
+    ]);
+  });
+
+  it("lists the packs bought for purchases", () => {
+    expect(unitOptions(soda, "purchase").map((u) => u.name)).toEqual([
+      "bottle",
+      "crate",
+      "pallet",
+    ]);
+  });
+});
+
+describe("findUnit", () => {
+  it("finds a pack by name", () => {
+    expect(findUnit(soda, "crate").factor).toBe(24);
+  });
+
+  it("falls back to the base unit for unknown or unsold units", () => {
+    expect(findUnit(soda, undefined).name).toBe("bottle");
+    expect(findUnit(soda, "pallet").name).toBe("bottle");
+    expect(findUnit(soda, "pallet", "purchase").factor).toBe(480);
+  });
+});
+
+describe("defaultPurchaseUnit", () => {
+  it("is the first pack bought", () => {
+    expect(defaultPurchaseUnit(soda).name).toBe("crate");
+  });
+
+  it("is the base unit when nothing else is bought", () => {
+    expect(defaultPurchaseUnit({ ...soda, units: [] }).name).toBe("bottle");
+  });
+});
+
+describe("roundQuantity", () => {
+  it("keeps three decimals and drops float noise", () => {
+    expect(roundQuantity(0.1 + 0.2)).toBe(0.3);
+    expect(roundQuantity(1.23456)).toBe(1.235);
+  });
+});
+
+describe("formatQuantity", () => {
+  it("shows up to three decimals without trailing zeros", () => {
+    expect(formatQuantity(2)).toBe("2");
+    expect(formatQuantity(1.25, "kg")).toBe("1.25 kg");
+    expect(formatQuantity(1 / 3, "kg")).toBe("0.333 kg");
+  });
+});
+
+describe("quantityStep", () => {
+  it("allows fractions only for loose goods", () => {
+    expect(quantityStep(soda)).toBe(1);
+    expect(quantityStep({ ...soda, decimalQuantities: true })).toBe(0.001);
+    expect(quantityStep()).toBe(1);
+  });
+});
@@ -0,0 +1,61 @@
+// src/lib/units.ts
+
+import { Product } from "@/types";
+
+/** Suggestions for a product's base unit; any other name can be typed. */
+export const COMMON_UNITS = ["pc", "kg", "g", "L", "ml", "m", "bottle", "pack"];
+
+/** A unit a product can be bought or sold in, resolved against its base unit. */
+export interface UnitOption {
+  name: string;
+  /** Base units in one of this unit; 1 for the base unit itself. */
+  factor: number;
+  /** Selling price of one of this unit. */
+  price: number;
+}
+
+/** Rounds to the three decimals quantities are stored with, dropping float noise. */
+export const roundQuantity = (quantity: number): number => Math.round(quantity * 1000) / 1000;
+
+/** 2, 0.5 or 1.25: up to three decimals, without trailing zeros. */
+export const formatQuantity = (quantity: number, unit?: string): string => {
+  const value = new Intl.NumberFormat("en-KE", { maximumFractionDigits: 3 }).format(quantity);
+  return unit ? `${value} ${unit}` : value;
+};
+
+/**
+ * The units `product` can be sold in (or bought in, for "purchase"): its base
+ * unit first, then its packs. Packs without a price of their own sell at the
+ * base price times their factor.
+ */
+export function unitOptions(product: Product, use: "sale" | "purchase" = "sale"): UnitOption[] {
+  return [
+    { name: product.unit, factor: 1, price: product.price },
+    ...product.units
+      .filter((u) => u[use])
+      .map((u) => ({ name: u.name, factor: u.factor, price: u.price ?? product.price * u.factor })),
+  ];
+}
+
+/** One of `product`'s units by name, falling back to its base unit. */
+export const findUnit = (
+  product: Product,
+  name: string | undefined,
+  use: "sale" | "purchase" = "sale"
+): UnitOption => {
+  const options = unitOptions(product, use);
+  return options.find((u) => u.name === name) ?? options[0];
+};
+
+/**
+ * The unit purchase orders default to: the product's first purchase pack,
+ * else its base unit.
+ */
+export const defaultPurchaseUnit = (product: Product): UnitOption => {
+  const options = unitOptions(product, "purchase");
+  return options[1] ?? options[0];
+};
+
+/** The input step for quantities of `product`. */
+export const quantityStep = (product?: Product): number =>
+  product?.decimalQuantities ? 0.001 : 1;
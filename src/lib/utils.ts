@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { format } from "date-fns"
 
 
 export function cn(...inputs: ClassValue[]) {
@@ -14,6 +15,11 @@ export function formatDate(dateString: string): string {
   });
 }
 
+/** Today (or `date`) as yyyy-mm-dd in the shop's time zone, not UTC's. */
+export function localDate(date: Date = new Date()): string {
+  return format(date, "yyyy-MM-dd");
+}
+
 export function formatKSH(amount: number): string {
   return `Ksh ${amount.toFixed(2)}`;
 }
@@ -0,0 +1,78 @@
+// src/lib/variants.ts
+
+import { Product, ProductOption, ProductParent } from "@/types";
+
+/** Every combination of the option axes' values, in axis order. */
+export function variantCombinations(options: ProductOption[]): Record<string, string>[] {
+  return options
+    .filter((option) => option.values.length > 0)
+    .reduce<Record<string, string>[]>(
+      (combinations, option) =>
+        combinations.flatMap((values) =>
+          option.values.map((value) => ({ ...values, [option.name]: value }))
+        ),
+      [{}]
+    );
+}
+
+/** "Red / M". */
+export const variantLabel = (values: Record<string, string>, options: ProductOption[]): string =>
+  options
+    .map((option) => values[option.name])
+    .filter(Boolean)
+    .join(" / ");
+
+/** A stable key for a combination, for matching variants across edits. */
+export const combinationKey = (values: Record<string, string>, options: ProductOption[]): string =>
+  JSON.stringify(options.map((option) => values[option.name] ?? null));
+
+/** A row of the inventory list: a plain product, or a parent with its variants. */
+export type InventoryEntry =
+  | { kind: "product"; product: Product }
+  | { kind: "parent"; parent: ProductParent; variants: Product[] };
+
+/**
+ * Groups variants under their parents, keeping the products' order; a parent
+ * sits where its first variant would. Parents without variants go last.
+ */
+export function groupVariants(products: Product[], parents: ProductParent[]): InventoryEntry[] {
+  const parentById = new Map(parents.map((parent) => [parent.id, parent]));
+  const entries: InventoryEntry[] = [];
+  const groups = new Map<string, Product[]>();
+
+  products.forEach((product) => {
+    const parent = product.parentId ? parentById.get(product.parentId) : undefined;
+    if (!parent) {
+      entries.push({ kind: "product", product });
+      return;
+    }
+    const group = groups.get(parent.id);
+    if (group) {
+      group.push(product);
+    } else {
+      const variants = [product];
+      groups.set(parent.id, variants);
+      entries.push({ kind: "parent", parent, variants });
+    }
+  });
+
+  parents
+    .filter((parent) => !groups.has(parent.id))
+    .forEach((parent) => entries.push({ kind: "parent", parent, variants: [] }));
+
+  entries.forEach((entry) => {
+    if (entry.kind === "parent") entry.variants.sort(byOptionOrder(entry.parent.options));
+  });
+  return entries;
+}
+
+/** Sorts variants the way their values are listed on the axes (S, M, L). */
+const byOptionOrder = (options: ProductOption[]) => (a: Product, b: Product) => {
+  for (const option of options) {
+    const diff =
+      option.values.indexOf(a.optionValues?.[option.name] ?? "") -
+      option.values.indexOf(b.optionValues?.[option.name] ?? "");
+    if (diff) return diff;
+  }
+  return 0;
+};
@@ -0,0 +1,426 @@
+// src/pages/Customers.tsx
+
+import React, { useMemo, useState } from "react";
+import { Ban, Edit, HandCoins, Plus, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import Header from "@/components/Header";
+import CustomerForm from "@/components/CustomerForm";
+import RepaymentForm from "@/components/RepaymentForm";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useInventory } from "@/context/InventoryContext";
+import { useCustomerBalances, useCustomerLedger, useCustomers } from "@/hooks/use-customers";
+import { formatKSH } from "@/lib/formatCurrency";
+import {
+  CREDIT_STATUS_LABELS,
+  daysOverdue,
+  dueDate,
+  saleCreditStatus,
+} from "@/lib/credit";
+import { cn } from "@/lib/utils";
+import { Customer, CustomerBalance, Repayment } from "@/types";
+
+const formatDate = (date: Date | string) => new Date(date).toLocaleDateString();
+
+const NO_BALANCE: Omit<CustomerBalance, "customerId"> = {
+  outstanding: 0,
+  overdue: 0,
+  oldestOverdueDays: 0,
+};
+
+/**
+ * Customer list with what each owes, and the selected customer's credit
+ * ledger: credit sales, repayments and the running balance. A repayment taken
+ * in error is voided rather than deleted, so it stays on the ledger.
+ */
+const Customers = () => {
+  const { remoteChanges } = useInventory();
+  const { customers, deleteCustomer, voidRepayment } = useCustomers();
+  const balances = useCustomerBalances();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
+  const [showRepayment, setShowRepayment] = useState(false);
+  const [repaymentToVoid, setRepaymentToVoid] = useState<Repayment | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+
+  const visibleCustomers = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return customers.filter(
+      c => c.name.toLowerCase().includes(term) || (c.phone ?? "").includes(term)
+    );
+  }, [customers, searchTerm]);
+
+  const selected = customers.find(c => c.id === selectedId) ?? null;
+  const selectedBalance = selected ? balances.get(selected.id) : null;
+  const { ledger } = useCustomerLedger(selected?.id ?? null);
+
+  const totalOutstanding = Array.from(balances.values()).reduce((sum, b) => sum + b.outstanding, 0);
+  const totalOverdue = Array.from(balances.values()).reduce((sum, b) => sum + b.overdue, 0);
+
+  const handleDelete = async (customer: Customer) => {
+    try {
+      await deleteCustomer(customer.id);
+      toast.success(`${customer.name} deleted`);
+      if (selectedId === customer.id) setSelectedId(null);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+    setCustomerToDelete(null);
+  };
+
+  const handleVoid = async (repayment: Repayment) => {
+    try {
+      await voidRepayment(repayment.id, voidReason.trim());
+      toast.success(`Repayment of ${formatKSH(repayment.amount)} voided`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+    setRepaymentToVoid(null);
+    setVoidReason("");
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header />
+      <main className="flex-1">
+        <div className="container mx-auto px-4 pt-[108px] pb-6 grid gap-6 xl:grid-cols-2">
+          <Card>
+            <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <CardTitle>Customers</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Owed {formatKSH(totalOutstanding)}, of which {formatKSH(totalOverdue)} overdue
+                </p>
+              </div>
+              <div className="flex flex-row gap-2 w-full sm:w-auto">
+                <div className="relative w-full sm:w-[200px]">
+                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    type="search"
+                    placeholder="Search customers..."
+                    className="pl-8 w-full"
+                    value={searchTerm}
+                    onChange={e => setSearchTerm(e.target.value)}
+                  />
+                </div>
+                <Button
+                  onClick={() => {
+                    setEditingCustomer(null);
+                    setShowForm(true);
+                  }}
+                  className="w-full sm:w-auto"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Customer
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead className="text-right">Owes</TableHead>
+                    <TableHead className="text-right">Overdue</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleCustomers.map(customer => {
+                    const balance = balances.get(customer.id) ?? NO_BALANCE;
+                    const overLimit =
+                      customer.creditLimit !== null && balance.outstanding > customer.creditLimit;
+                    return (
+                      <TableRow
+                        key={customer.id}
+                        className={cn(
+                          "cursor-pointer",
+                          customer.id === selectedId && "bg-muted",
+                          remoteChanges.has(customer.id) && "animate-remote-flash"
+                        )}
+                        onClick={() => setSelectedId(customer.id)}
+                      >
+                        <TableCell className="font-medium">{customer.name}</TableCell>
+                        <TableCell>{customer.phone ?? "-"}</TableCell>
+                        <TableCell className={cn("text-right", overLimit && "text-destructive")}>
+                          {formatKSH(balance.outstanding)}
+                        </TableCell>
+                        <TableCell
+                          className={cn("text-right", balance.overdue > 0 && "text-destructive")}
+                        >
+                          {balance.overdue > 0 ? formatKSH(balance.overdue) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div
+                            className="flex justify-end space-x-2"
+                            onClick={e => e.stopPropagation()}
+                          >
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => {
+                                setEditingCustomer(customer);
+                                setShowForm(true);
+                              }}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setCustomerToDelete(customer)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {visibleCustomers.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">
+                        No customers found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="xl:self-start">
+            {selected ? (
+              <>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle>{selected.name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {selected.creditLimit === null
+                        ? "No credit limit"
+                        : `Credit limit ${formatKSH(selected.creditLimit)}`}
+                      {` · ${selected.creditDays} days to pay`}
+                    </p>
+                  </div>
+                  <Button
+                    disabled={!selectedBalance?.outstanding}
+                    onClick={() => setShowRepayment(true)}
+                  >
+                    <HandCoins className="mr-2 h-4 w-4" />
+                    Record Repayment
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="rounded-md bg-secondary p-3">
+                      <div className="text-sm text-muted-foreground">Owes</div>
+                      <div className="text-2xl font-bold">
+                        {formatKSH(selectedBalance?.outstanding ?? 0)}
+                      </div>
+                    </div>
+                    <div className="rounded-md bg-secondary p-3">
+                      <div className="text-sm text-muted-foreground">Overdue</div>
+                      <div
+                        className={cn(
+                          "text-2xl font-bold",
+                          selectedBalance?.overdue > 0 && "text-destructive"
+                        )}
+                      >
+                        {formatKSH(selectedBalance?.overdue ?? 0)}
+                      </div>
+                      {selectedBalance?.oldestOverdueDays > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          Oldest {selectedBalance.oldestOverdueDays} days late
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Details</TableHead>
+                        <TableHead className="text-right">Charge</TableHead>
+                        <TableHead className="text-right">Paid</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ledger.map(entry => {
+                        const sale = entry.sale;
+                        const status = sale ? saleCreditStatus(sale) : null;
+                        const late =
+                          sale && status !== "paid" && daysOverdue(sale, selected.creditDays) > 0;
+                        return (
+                          <TableRow key={entry.id}>
+                            <TableCell className="whitespace-nowrap">{formatDate(entry.date)}</TableCell>
+                            <TableCell>
+                              <div className="flex items-start justify-between gap-2">
+                                <span>{entry.description}</span>
+                                {entry.repayment && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6 shrink-0"
+                                    aria-label="Void repayment"
+                                    title="Void repayment"
+                                    onClick={() => setRepaymentToVoid(entry.repayment)}
+                                  >
+                                    <Ban className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                              {sale && status && (
+                                <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                                  <Badge
+                                    variant={
+                                      status === "paid" ? "secondary" : late ? "destructive" : "outline"
+                                    }
+                                  >
+                                    {late ? "Overdue" : CREDIT_STATUS_LABELS[status]}
+                                  </Badge>
+                                  {status !== "paid" &&
+                                    `Due ${formatDate(dueDate(sale, selected.creditDays))}`}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {entry.charge ? formatKSH(entry.charge) : ""}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {entry.payment ? formatKSH(entry.payment) : ""}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">
+                              {formatKSH(entry.balance)}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                      {ledger.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={5} className="h-24 text-center">
+                            No credit sales for this customer yet.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </>
+            ) : (
+              <CardContent className="py-16 text-center text-muted-foreground">
+                Select a customer to see their ledger.
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingCustomer ? "Edit Customer" : "Add Customer"}</DialogTitle>
+          </DialogHeader>
+          <CustomerForm
+            editCustomer={editingCustomer}
+            onClose={() => setShowForm(false)}
+            onSaved={customer => setSelectedId(customer.id)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showRepayment} onOpenChange={setShowRepayment}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Record Repayment</DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <RepaymentForm
+              customer={selected}
+              outstanding={selectedBalance?.outstanding ?? 0}
+              onClose={() => setShowRepayment(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={!!repaymentToVoid}
+        onOpenChange={() => {
+          setRepaymentToVoid(null);
+          setVoidReason("");
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Void Repayment</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {repaymentToVoid && formatKSH(repaymentToVoid.amount)} repayment stays on the
+              ledger marked void, and the sales it settled are owed again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            aria-label="Reason"
+            placeholder="Reason, e.g. recorded against the wrong customer"
+            value={voidReason}
+            onChange={e => setVoidReason(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!voidReason.trim()}
+              onClick={() => repaymentToVoid && handleVoid(repaymentToVoid)}
+            >
+              Void
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!customerToDelete} onOpenChange={() => setCustomerToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Customer</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {customerToDelete?.name}? Customers with sales on
+              record can't be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => customerToDelete && handleDelete(customerToDelete)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Customers;
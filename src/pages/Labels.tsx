@@ -0,0 +1,314 @@
+// src/pages/Labels.tsx
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Printer, Search } from "lucide-react";
+import Header from "@/components/Header";
+import LabelSheet from "@/components/LabelSheet";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useInventory } from "@/context/InventoryContext";
+import { usePurchasing } from "@/hooks/use-purchasing";
+import { BarcodeSymbology, matchesProduct } from "@/lib/barcode";
+import { formatKSH } from "@/lib/formatCurrency";
+import {
+  DEFAULT_LABEL_OPTIONS,
+  LABEL_TEMPLATES,
+  LabelOptions,
+  SYMBOLOGY_LABELS,
+  findTemplate,
+  labelBarcode,
+  labelsForReceipt,
+  labelsPerSheet,
+  paginateLabels,
+} from "@/lib/labels";
+import { formatOrderNumber } from "@/lib/purchasing";
+import { Product } from "@/types";
+
+const SETTINGS_KEY = "label-settings";
+
+// Select items can't have an empty value.
+const NO_ORDER = "none";
+
+const loadOptions = (): LabelOptions => {
+  try {
+    return { ...DEFAULT_LABEL_OPTIONS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}") };
+  } catch {
+    return DEFAULT_LABEL_OPTIONS;
+  }
+};
+
+const TOGGLES: { key: "showName" | "showPrice" | "showSku"; label: string }[] = [
+  { key: "showName", label: "Name" },
+  { key: "showPrice", label: "Price" },
+  { key: "showSku", label: "SKU" },
+];
+
+/**
+ * Barcode and shelf-price labels: pick products (or everything received on a
+ * purchase order), choose the label stock and what goes on each label, then
+ * print the A4 sheets or save them as a PDF from the print dialog.
+ */
+const Labels = () => {
+  const { products } = useInventory();
+  const { purchaseOrders } = usePurchasing();
+  const [searchParams] = useSearchParams();
+  const [options, setOptions] = useState<LabelOptions>(loadOptions);
+  // Labels to print, by product id.
+  const [copies, setCopies] = useState<Record<string, number>>({});
+  const [orderId, setOrderId] = useState(NO_ORDER);
+  const [searchTerm, setSearchTerm] = useState("");
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(options));
+  }, [options]);
+
+  const receivedOrders = useMemo(
+    () => purchaseOrders.filter(o => o.items.some(item => item.quantityReceived > 0)),
+    [purchaseOrders]
+  );
+
+  const selectOrder = (id: string) => {
+    setOrderId(id);
+    const order = purchaseOrders.find(o => o.id === id);
+    if (order) setCopies(labelsForReceipt(order));
+  };
+
+  // Opened from a purchase order: applied once, when the order has loaded.
+  const linkedOrderId = searchParams.get("order");
+  const appliedOrderId = useRef<string | null>(null);
+  useEffect(() => {
+    const order = purchaseOrders.find(o => o.id === linkedOrderId);
+    if (!order || appliedOrderId.current === order.id) return;
+    appliedOrderId.current = order.id;
+    setOrderId(order.id);
+    setCopies(labelsForReceipt(order));
+  }, [linkedOrderId, purchaseOrders]);
+
+  const visibleProducts = useMemo(
+    () =>
+      products
+        .filter(p => matchesProduct(p, searchTerm))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [products, searchTerm]
+  );
+
+  const template = findTemplate(options.templateId);
+  const labels = useMemo(
+    () =>
+      products
+        .filter(p => copies[p.id] > 0)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .flatMap(p => Array<Product>(copies[p.id]).fill(p)),
+    [products, copies]
+  );
+  const sheets = paginateLabels(labels, template, options.startPosition);
+  const withoutCode = products.filter(
+    p => copies[p.id] > 0 && !labelBarcode(p, options.symbology)
+  );
+
+  const setCopiesFor = (product: Product, count: number) =>
+    setCopies(prev => {
+      const next = { ...prev };
+      if (count > 0) next[product.id] = count;
+      else delete next[product.id];
+      return next;
+    });
+
+  const update = (changes: Partial<LabelOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <style>{"@page { size: A4; margin: 0; }"}</style>
+      <div className="print:hidden">
+        <Header />
+      </div>
+      <main className="flex-1">
+        <div className="container mx-auto px-4 pt-[108px] pb-6 grid gap-6 xl:grid-cols-[380px_1fr] print:block print:p-0">
+          <div className="space-y-6 print:hidden">
+            <Card>
+              <CardHeader>
+                <CardTitle>Label Sheet</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Label stock</Label>
+                  <Select
+                    value={template.id}
+                    onValueChange={templateId => update({ templateId, startPosition: 1 })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LABEL_TEMPLATES.map(t => (
+                        <SelectItem key={t.id} value={t.id}>
+                          {t.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Barcode</Label>
+                    <Select
+                      value={options.symbology}
+                      onValueChange={v => update({ symbology: v as BarcodeSymbology })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(SYMBOLOGY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="start-position">Start at label</Label>
+                    <Input
+                      id="start-position"
+                      type="number"
+                      min={1}
+                      max={labelsPerSheet(template)}
+                      value={options.startPosition}
+                      onChange={e =>
+                        update({ startPosition: Math.max(1, Number(e.target.value) || 1) })
+                      }
+                    />
+                  </div>
+                </div>
+                <div className="flex gap-6">
+                  {TOGGLES.map(({ key, label }) => (
+                    <label key={key} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={options[key]}
+                        onCheckedChange={checked => update({ [key]: checked === true })}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Codes that aren't valid EAN-13s print as Code 128. Print at 100% scale with no
+                  margins; choose Save as PDF in the print dialog for a PDF.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="space-y-4">
+                <CardTitle>Products</CardTitle>
+                <Select value={orderId} onValueChange={selectOrder}>
+                  <SelectTrigger aria-label="Purchase receipt">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ORDER}>Choose products below</SelectItem>
+                    {receivedOrders.map(o => (
+                      <SelectItem key={o.id} value={o.id}>
+                        Everything received on {formatOrderNumber(o)} ({o.supplierName})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="relative">
+                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    type="search"
+                    placeholder="Search name, SKU or barcode..."
+                    className="pl-8"
+                    value={searchTerm}
+                    onChange={e => setSearchTerm(e.target.value)}
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="max-h-[480px] space-y-1 overflow-y-auto">
+                {visibleProducts.map(product => (
+                  <div key={product.id} className="flex items-center gap-2 py-1">
+                    <Checkbox
+                      aria-label={`Print labels for ${product.name}`}
+                      checked={copies[product.id] > 0}
+                      onCheckedChange={checked => setCopiesFor(product, checked === true ? 1 : 0)}
+                    />
+                    <div className="flex-1 text-sm">
+                      <div className="font-medium leading-tight">{product.name}</div>
+                      <div className="text-muted-foreground">
+                        {formatKSH(product.price)}
+                        {(product.barcode ?? product.sku) && ` · ${product.barcode ?? product.sku}`}
+                      </div>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-20"
+                      aria-label={`Labels for ${product.name}`}
+                      value={copies[product.id] ?? 0}
+                      onChange={e =>
+                        setCopiesFor(product, Math.max(0, Math.floor(Number(e.target.value) || 0)))
+                      }
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="print:border-0 print:shadow-none">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 print:hidden">
+              <div>
+                <CardTitle>Preview</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {labels.length} label{labels.length === 1 ? "" : "s"} on {sheets.length} sheet
+                  {sheets.length === 1 ? "" : "s"}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" disabled={!labels.length} onClick={() => setCopies({})}>
+                  Clear
+                </Button>
+                <Button disabled={!labels.length} onClick={() => window.print()}>
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6 overflow-x-auto print:space-y-0 print:overflow-visible print:p-0">
+              {withoutCode.length > 0 && (
+                <p className="text-sm text-destructive print:hidden">
+                  {withoutCode.map(p => p.name).join(", ")}{" "}
+                  {withoutCode.length === 1 ? "has" : "have"} no barcode or SKU yet; generate one
+                  from the product's edit form.
+                </p>
+              )}
+              {sheets.map((sheet, i) => (
+                <LabelSheet key={i} template={template} labels={sheet} options={options} />
+              ))}
+              {labels.length === 0 && (
+                <p className="py-16 text-center text-muted-foreground print:hidden">
+                  Choose products or a purchase receipt to print labels for.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Labels;
@@ -0,0 +1,527 @@
+// src/pages/PointOfSale.tsx
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Minus, Percent, Plus, ScanBarcode, Search, ShoppingCart, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useInventory } from "@/context/InventoryContext";
+import { useBasket } from "@/hooks/use-basket";
+import { isEditable, useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { usePromotions } from "@/hooks/use-promotions";
+import { useShopSettings } from "@/hooks/use-shop-settings";
+import { findProductByCode, matchesProduct } from "@/lib/barcode";
+import { basketTotals, discountError, formatDiscount, priceLine } from "@/lib/discounts";
+import { formatKSH } from "@/lib/formatCurrency";
+import { findStockShortfalls } from "@/lib/sales";
+import { basketTax } from "@/lib/tax";
+import { formatQuantity } from "@/lib/units";
+import { PaymentInput, requestSaleStkPushes } from "@/lib/repository";
+import { settlePayments, unsettledMpesa, validatePayments } from "@/lib/payments";
+import PaymentTenders from "@/components/PaymentTenders";
+import MpesaPaymentStatus from "@/components/MpesaPaymentStatus";
+import CustomerSelect from "@/components/CustomerSelect";
+import CameraScanner from "@/components/CameraScanner";
+import DiscountForm from "@/components/DiscountForm";
+import { cn, localDate } from "@/lib/utils";
+import { Discount, Product } from "@/types";
+
+const CASH_ONLY: PaymentInput[] = [{ method: "cash", amount: 0 }];
+
+/**
+ * Counter checkout: tap or scan products into the basket, take payment,
+ * press Enter. Running promotions come off automatically; the cashier can
+ * add a discount to a line or to the whole basket, within the shop's limit
+ * unless a manager approves more with their PIN.
+ */
+const PointOfSale = () => {
+  const { products, recordSale } = useInventory();
+  const { promotions } = usePromotions();
+  const { settings } = useShopSettings();
+  const basket = useBasket(products);
+  const [basketDiscount, setBasketDiscount] = useState<Discount | null>(null);
+  // The line (or "basket") whose discount is being edited.
+  const [discounting, setDiscounting] = useState<Product | "basket" | null>(null);
+  // The manager's approval of a discount over the limit, sent with the sale.
+  const [approval, setApproval] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [payments, setPayments] = useState<PaymentInput[]>(CASH_ONLY);
+  const [tendered, setTendered] = useState("");
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [completing, setCompleting] = useState(false);
+  // The last sale while any of its M-Pesa prompts are still being followed up.
+  const [promptSaleId, setPromptSaleId] = useState<string | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  const visibleProducts = useMemo(() => {
+    return [...products]
+      .filter((p) => matchesProduct(p, searchTerm))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [products, searchTerm]);
+
+  const today = localDate();
+  const pricedLines = useMemo(
+    () =>
+      basket.lines.map((line) => ({
+        ...line,
+        ...priceLine(
+          line.product,
+          line.quantity,
+          line.product.price,
+          line.discount,
+          promotions,
+          today
+        ),
+      })),
+    [basket.lines, promotions, today]
+  );
+  const totals = basketTotals(pricedLines, basketDiscount);
+  const grossTotal = pricedLines.reduce((sum, line) => sum + line.gross, 0);
+  const tax = basketTax(pricedLines, totals.basketAmount, settings);
+
+  // A discount entered earlier can go over the limit once a promotion kicks in
+  // or the quantity drops. None is limited once a manager has approved one.
+  const limit = settings.maxManualDiscount;
+  const saleLimit = approval ? null : limit;
+  const discountProblem =
+    pricedLines
+      .map((line) => discountError(line.discount, line.gross - line.promotionAmount, saleLimit))
+      .find(Boolean) ?? discountError(basketDiscount, totals.subtotal, saleLimit);
+
+  const discountLine =
+    discounting && discounting !== "basket"
+      ? pricedLines.find((line) => line.product.id === discounting.id)
+      : undefined;
+
+  const settled = settlePayments(payments, tax.total);
+  const onCredit = settled.some((p) => p.method === "credit");
+  const paymentError = !basket.lines.length
+    ? null
+    : discountProblem ??
+      validatePayments(settled, tax.total) ??
+      (onCredit && !customerId ? "Choose the customer buying on credit." : null);
+  // Change is only ever given on the cash part of the payment.
+  const cashDue = settled
+    .filter((p) => p.method === "cash")
+    .reduce((sum, p) => sum + Number(p.amount || 0), 0);
+  const tenderedAmount = tendered === "" || cashDue === 0 ? null : Number(tendered);
+  const changeDue = tenderedAmount === null ? 0 : tenderedAmount - cashDue;
+  const canComplete =
+    basket.lines.length > 0 &&
+    !completing &&
+    !paymentError &&
+    (tenderedAmount === null || changeDue >= 0);
+
+  const completeSale = async () => {
+    if (!canComplete) return;
+    const items = basket.lines.map((line) => ({
+      productId: line.product.id,
+      quantity: line.quantity,
+      discount: line.discount,
+    }));
+    const shortfalls = findStockShortfalls(items, products);
+    if (shortfalls.size) {
+      toast.error("Not enough stock for this sale.");
+      return;
+    }
+
+    setCompleting(true);
+    try {
+      const sale = await recordSale({
+        date: localDate(),
+        items,
+        payments: settled,
+        customerId,
+        discount: basketDiscount,
+        approval,
+      });
+      if (unsettledMpesa(sale).length) {
+        const pushError = await requestSaleStkPushes(sale);
+        if (pushError) toast.error(pushError);
+        setPromptSaleId(sale.id);
+      }
+      toast.success(
+        tenderedAmount === null
+          ? `Sale complete: ${formatKSH(sale.totalAmount)}`
+          : `Sale complete. Change due: ${formatKSH(changeDue)}`
+      );
+      basket.clear();
+      setBasketDiscount(null);
+      setApproval(null);
+      setPayments(CASH_ONLY);
+      setTendered("");
+      setCustomerId(null);
+      setSearchTerm("");
+      searchRef.current?.focus();
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setCompleting(false);
+    }
+  };
+
+  // Enter completes the sale only while nothing in particular has focus (as
+  // when a USB scanner is adding to the basket) or focus is on the basket
+  // itself. Text and number fields keep their Enter: a code scanned into
+  // Cash tendered, or a customer's name, must not complete the sale.
+  const basketRef = useRef<HTMLDivElement>(null);
+  const completeRef = useRef(completeSale);
+  completeRef.current = completeSale;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Enter" || !(e.target instanceof HTMLElement)) return;
+      const onBasket = e.target === document.body || basketRef.current?.contains(e.target);
+      if (!onBasket || isEditable(e.target) || e.target instanceof HTMLButtonElement) return;
+      e.preventDefault();
+      completeRef.current();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  /** Adds one of the product with this barcode or SKU; false if there's none. */
+  const addByCode = (code: string) => {
+    const product = findProductByCode(products, code);
+    if (!product) return false;
+    const inBasket = basket.lines.find((line) => line.product.id === product.id)?.quantity ?? 0;
+    if (inBasket >= product.stockQuantity) {
+      toast.error(
+        product.stockQuantity > 0
+          ? `Only ${formatQuantity(product.stockQuantity, product.unit)} of ${product.name} in stock.`
+          : `${product.name} is out of stock.`
+      );
+    } else {
+      basket.add(product);
+    }
+    return true;
+  };
+
+  const onScan = (code: string) => {
+    setShowCamera(false);
+    if (!addByCode(code)) toast.error(`No product has the code ${code}.`);
+  };
+
+  useBarcodeScanner(onScan, { enabled: !showCamera });
+
+  const onSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    if (!searchTerm) return;
+    // A scanner typing into the search box sends the code and Enter.
+    if (addByCode(searchTerm)) {
+      setSearchTerm("");
+      return;
+    }
+    const first = visibleProducts.find((p) => p.stockQuantity > 0);
+    if (first) {
+      basket.add(first);
+      setSearchTerm("");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header />
+      <main className="flex-1">
+        <div className="container mx-auto px-4 pt-[108px] pb-6 grid gap-6 lg:grid-cols-[1fr_380px]">
+          <Card>
+            <CardHeader>
+              <CardTitle>Products</CardTitle>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-3.5 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    ref={searchRef}
+                    autoFocus
+                    type="search"
+                    placeholder="Search or scan products, Enter to add the first match..."
+                    className="pl-10 h-12 text-lg"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onKeyDown={onSearchKeyDown}
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  className="h-12 w-12"
+                  aria-label="Scan with camera"
+                  onClick={() => setShowCamera(true)}
+                >
+                  <ScanBarcode className="h-5 w-5" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 gap-3 sm:grid-cols-3 xl:grid-cols-4">
+              {visibleProducts.map((product) => (
+                <button
+                  key={product.id}
+                  type="button"
+                  disabled={product.stockQuantity <= 0}
+                  onClick={() => basket.add(product)}
+                  className={cn(
+                    "flex min-h-[96px] flex-col justify-between rounded-lg border p-3 text-left transition-colors",
+                    "hover:bg-accent active:scale-[0.98] disabled:cursor-not-allowed disabled:opacity-50"
+                  )}
+                >
+                  <span className="font-medium leading-tight">{product.name}</span>
+                  <span className="mt-2 flex items-end justify-between">
+                    <span className="text-lg font-bold">
+                      {formatKSH(product.price)}
+                      <span className="text-xs font-normal text-muted-foreground">
+                        /{product.unit}
+                      </span>
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatQuantity(product.stockQuantity, product.unit)} left
+                    </span>
+                  </span>
+                </button>
+              ))}
+              {visibleProducts.length === 0 && (
+                <p className="col-span-full py-8 text-center text-muted-foreground">
+                  No products match "{searchTerm}".
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card ref={basketRef} className="flex flex-col lg:sticky lg:top-[108px] lg:self-start">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center gap-2">
+                <ShoppingCart className="h-5 w-5" /> Basket ({basket.itemCount})
+              </CardTitle>
+              {basket.lines.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    basket.clear();
+                    setBasketDiscount(null);
+                    setApproval(null);
+                  }}
+                >
+                  Clear
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="flex-1 space-y-3">
+              {promptSaleId && (
+                <div className="space-y-2 border-b pb-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Last sale: M-Pesa prompt</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Dismiss"
+                      onClick={() => setPromptSaleId(null)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <MpesaPaymentStatus saleId={promptSaleId} />
+                </div>
+              )}
+              {basket.lines.length === 0 && (
+                <p className="py-8 text-center text-muted-foreground">
+                  Tap a product to add it to the basket.
+                </p>
+              )}
+              {pricedLines.map((line) => {
+                const { product, quantity } = line;
+                return (
+                  <div key={product.id} className="flex items-center gap-2">
+                    <div className="flex-1">
+                      <div className="font-medium leading-tight">{product.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {formatKSH(product.price)}/{product.unit} × {quantity} ={" "}
+                        {formatKSH(line.gross)}
+                      </div>
+                      {line.promotion && (
+                        <div className="text-sm text-green-600">
+                          {line.promotion.name} -{formatKSH(line.promotionAmount)}
+                        </div>
+                      )}
+                      {line.discount && (
+                        <div className="text-sm text-green-600">
+                          {formatDiscount(line.discount)} -{formatKSH(line.manualAmount)}
+                        </div>
+                      )}
+                    </div>
+                    <Button
+                      variant={line.discount ? "secondary" : "ghost"}
+                      className="h-12 w-12"
+                      aria-label={`Discount ${product.name}`}
+                      onClick={() => setDiscounting(product)}
+                    >
+                      <Percent className="h-5 w-5" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="h-12 w-12"
+                      aria-label={`One less ${product.name}`}
+                      onClick={() => basket.add(product, -1)}
+                    >
+                      <Minus className="h-5 w-5" />
+                    </Button>
+                    <span className="w-8 text-center text-lg font-semibold">{quantity}</span>
+                    <Button
+                      variant="outline"
+                      className="h-12 w-12"
+                      aria-label={`One more ${product.name}`}
+                      disabled={quantity >= product.stockQuantity}
+                      onClick={() => basket.add(product)}
+                    >
+                      <Plus className="h-5 w-5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      className="h-12 w-12"
+                      aria-label={`Remove ${product.name}`}
+                      onClick={() => basket.remove(product)}
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </CardContent>
+            <CardFooter className="flex flex-col gap-3 border-t pt-4">
+              {totals.discountTotal > 0 && (
+                <div className="w-full space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>{formatKSH(grossTotal)}</span>
+                  </div>
+                  <div className="flex justify-between text-green-600">
+                    <span>
+                      Discounts
+                      {basketDiscount && ` (basket ${formatDiscount(basketDiscount)})`}
+                    </span>
+                    <span>-{formatKSH(totals.discountTotal)}</span>
+                  </div>
+                </div>
+              )}
+              <div className="flex w-full items-center justify-between text-2xl font-bold">
+                <span>Total</span>
+                <span>{formatKSH(tax.total)}</span>
+              </div>
+              {tax.taxAmount > 0 && (
+                <div className="-mt-2 w-full text-right text-sm text-muted-foreground">
+                  {settings.pricesIncludeTax ? "Includes" : "Plus"} VAT of {formatKSH(tax.taxAmount)}
+                </div>
+              )}
+              {basket.lines.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setDiscounting("basket")}
+                >
+                  <Percent className="mr-2 h-4 w-4" />
+                  {basketDiscount ? "Change Basket Discount" : "Discount Basket"}
+                </Button>
+              )}
+              <div className="w-full">
+                <PaymentTenders payments={payments} onChange={setPayments} total={tax.total} />
+              </div>
+              {(onCredit || customerId) && (
+                <CustomerSelect value={customerId} onChange={setCustomerId} className="h-12" />
+              )}
+              {cashDue > 0 && (
+                <>
+                  <div className="flex w-full items-center gap-3">
+                    <label htmlFor="tendered" className="whitespace-nowrap text-sm font-medium">
+                      Cash tendered
+                    </label>
+                    <Input
+                      id="tendered"
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      step="0.01"
+                      className="h-12 text-lg"
+                      placeholder={cashDue.toFixed(2)}
+                      value={tendered}
+                      onChange={(e) => setTendered(e.target.value)}
+                    />
+                  </div>
+                  <div
+                    className={cn(
+                      "flex w-full justify-between text-lg font-semibold",
+                      changeDue < 0 && "text-destructive"
+                    )}
+                  >
+                    <span>{changeDue < 0 ? "Still owed" : "Change due"}</span>
+                    <span>{formatKSH(Math.abs(changeDue))}</span>
+                  </div>
+                </>
+              )}
+              {paymentError && (
+                <p className="w-full text-sm font-medium text-destructive">{paymentError}</p>
+              )}
+              <Button
+                className="h-14 w-full text-lg"
+                disabled={!canComplete}
+                onClick={completeSale}
+              >
+                {completing ? "Completing…" : "Complete Sale (Enter)"}
+              </Button>
+            </CardFooter>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={showCamera} onOpenChange={setShowCamera}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Scan Product</DialogTitle>
+          </DialogHeader>
+          {showCamera && <CameraScanner onScan={onScan} onClose={() => setShowCamera(false)} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!discounting} onOpenChange={(open) => !open && setDiscounting(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>
+              {discounting === "basket"
+                ? "Discount Basket"
+                : `Discount ${discountLine?.product.name ?? ""}`}
+            </DialogTitle>
+          </DialogHeader>
+          {discounting === "basket" ? (
+            <DiscountForm
+              base={totals.subtotal}
+              discount={basketDiscount}
+              limit={limit}
+              onApply={(discount, approved) => {
+                setBasketDiscount(discount);
+                if (approved) setApproval(approved);
+              }}
+              onClose={() => setDiscounting(null)}
+            />
+          ) : (
+            discountLine && (
+              <DiscountForm
+                base={discountLine.gross - discountLine.promotionAmount}
+                discount={discountLine.discount}
+                limit={limit}
+                onApply={(discount, approved) => {
+                  basket.setDiscount(discountLine.product, discount);
+                  if (approved) setApproval(approved);
+                }}
+                onClose={() => setDiscounting(null)}
+              />
+            )
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PointOfSale;
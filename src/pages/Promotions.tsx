@@ -0,0 +1,198 @@
+// src/pages/Promotions.tsx
+
+import React, { useState } from "react";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import Header from "@/components/Header";
+import PromotionForm from "@/components/PromotionForm";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useInventory } from "@/context/InventoryContext";
+import { usePromotions } from "@/hooks/use-promotions";
+import { isRunning, promotionTerms } from "@/lib/discounts";
+import { cn } from "@/lib/utils";
+import { Promotion } from "@/types";
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+/** Where a promotion stands today. */
+const promotionStatus = (promotion: Promotion, today: string) => {
+  if (isRunning(promotion, today)) return { label: "Running", variant: "default" as const };
+  if (!promotion.active) return { label: "Paused", variant: "outline" as const };
+  if (promotion.startsOn > today) return { label: "Upcoming", variant: "secondary" as const };
+  return { label: "Ended", variant: "outline" as const };
+};
+
+/**
+ * Promotions applied automatically at the till while they run. Where more
+ * than one covers a line, the one taking the most off wins.
+ */
+const Promotions = () => {
+  const { products, remoteChanges } = useInventory();
+  const { promotions, isLoading, deletePromotion } = usePromotions();
+  const [showForm, setShowForm] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [promotionToDelete, setPromotionToDelete] = useState<Promotion | null>(null);
+
+  const today = new Date().toISOString().split("T")[0];
+  const productName = (id: string) => products.find((p) => p.id === id)?.name ?? "Deleted product";
+
+  const handleDelete = async (promotion: Promotion) => {
+    try {
+      await deletePromotion(promotion.id);
+      toast.success(`${promotion.name} deleted`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+    setPromotionToDelete(null);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header />
+      <main className="flex-1">
+        <div className="container mx-auto px-4 pt-[108px] pb-6">
+          <Card>
+            <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <CardTitle>Promotions</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Taken off matching lines at the till, before any manual discount
+                </p>
+              </div>
+              <Button
+                onClick={() => {
+                  setEditingPromotion(null);
+                  setShowForm(true);
+                }}
+                className="w-full sm:w-auto"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Promotion
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Discount</TableHead>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead>Runs</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {promotions.map((promotion) => {
+                    const status = promotionStatus(promotion, today);
+                    return (
+                      <TableRow
+                        key={promotion.id}
+                        className={cn(remoteChanges.has(promotion.id) && "animate-remote-flash")}
+                      >
+                        <TableCell className="font-medium">{promotion.name}</TableCell>
+                        <TableCell>{promotionTerms(promotion)}</TableCell>
+                        <TableCell>
+                          {promotion.productId
+                            ? productName(promotion.productId)
+                            : promotion.category ?? "Everything"}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDate(promotion.startsOn)} –{" "}
+                          {promotion.endsOn ? formatDate(promotion.endsOn) : "no end"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => {
+                                setEditingPromotion(promotion);
+                                setShowForm(true);
+                              }}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setPromotionToDelete(promotion)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {!isLoading && promotions.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No promotions yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingPromotion ? "Edit Promotion" : "Add Promotion"}</DialogTitle>
+          </DialogHeader>
+          <PromotionForm editPromotion={editingPromotion} onClose={() => setShowForm(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!promotionToDelete} onOpenChange={() => setPromotionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Promotion</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {promotionToDelete?.name}? Sales it was applied to
+              keep their discount and its name.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => promotionToDelete && handleDelete(promotionToDelete)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Promotions;
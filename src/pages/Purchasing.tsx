@@ -0,0 +1,475 @@
+// src/pages/Purchasing.tsx
+
+import React, { Fragment, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Ban,
+  ChevronDown,
+  ChevronRight,
+  Edit,
+  PackageCheck,
+  Plus,
+  Tags,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import Header from "@/components/Header";
+import PurchaseOrderForm from "@/components/PurchaseOrderForm";
+import ReceiveForm from "@/components/ReceiveForm";
+import ReorderPlanner from "@/components/ReorderPlanner";
+import SupplierForm from "@/components/SupplierForm";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useInventory } from "@/context/InventoryContext";
+import { usePurchasing } from "@/hooks/use-purchasing";
+import { formatKSH } from "@/lib/formatCurrency";
+import {
+  ORDER_PROGRESS_LABELS,
+  OrderProgress,
+  formatOrderNumber,
+  isOrderLate,
+  orderProgress,
+  orderTotal,
+  receivedTotal,
+} from "@/lib/purchasing";
+import { formatQuantity } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import { PurchaseOrder, Supplier } from "@/types";
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+const PROGRESS_VARIANTS: Record<OrderProgress, "default" | "secondary" | "outline" | "destructive"> = {
+  open: "default",
+  partial: "outline",
+  received: "secondary",
+  cancelled: "destructive",
+};
+
+/**
+ * The reorder planner, purchase orders by status with receiving, and the
+ * supplier list they are raised against.
+ */
+const Purchasing = () => {
+  const { remoteChanges } = useInventory();
+  const { suppliers, purchaseOrders, deleteSupplier, cancelPurchaseOrder } = usePurchasing();
+  const navigate = useNavigate();
+  const [statusFilter, setStatusFilter] = useState<OrderProgress | "all">("all");
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [showOrderForm, setShowOrderForm] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [orderToReceive, setOrderToReceive] = useState<PurchaseOrder | null>(null);
+  const [orderToCancel, setOrderToCancel] = useState<PurchaseOrder | null>(null);
+  const [showSupplierForm, setShowSupplierForm] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [supplierToDelete, setSupplierToDelete] = useState<Supplier | null>(null);
+
+  const visibleOrders = useMemo(
+    () =>
+      purchaseOrders.filter(o => statusFilter === "all" || orderProgress(o) === statusFilter),
+    [purchaseOrders, statusFilter]
+  );
+
+  const onOrder = purchaseOrders
+    .filter(o => o.status === "open")
+    .reduce((sum, o) => sum + orderTotal(o) - receivedTotal(o), 0);
+
+  const handleCancel = async (order: PurchaseOrder) => {
+    try {
+      await cancelPurchaseOrder(order.id);
+      toast.success(`${formatOrderNumber(order)} cancelled`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+    setOrderToCancel(null);
+  };
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    try {
+      await deleteSupplier(supplier.id);
+      toast.success(`${supplier.name} deleted`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+    setSupplierToDelete(null);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header />
+      <main className="flex-1">
+        <div className="container mx-auto px-4 pt-[108px] pb-6 grid gap-6 xl:grid-cols-3">
+          <div className="xl:col-span-3">
+            <ReorderPlanner />
+          </div>
+          <Card className="xl:col-span-2">
+            <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <CardTitle>Purchase Orders</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {formatKSH(onOrder)} still on order
+                </p>
+              </div>
+              <div className="flex flex-row gap-2 w-full sm:w-auto">
+                <Select
+                  value={statusFilter}
+                  onValueChange={value => setStatusFilter(value as OrderProgress | "all")}
+                >
+                  <SelectTrigger className="w-full sm:w-[160px]" aria-label="Filter by status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All orders</SelectItem>
+                    {Object.entries(ORDER_PROGRESS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  disabled={suppliers.length === 0}
+                  onClick={() => {
+                    setEditingOrder(null);
+                    setShowOrderForm(true);
+                  }}
+                  className="w-full sm:w-auto"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Order
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Order</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Ordered</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleOrders.map(order => {
+                    const progress = orderProgress(order);
+                    const expanded = expandedOrderId === order.id;
+                    const late = isOrderLate(order);
+                    return (
+                      <Fragment key={order.id}>
+                        <TableRow
+                          className={cn(
+                            "cursor-pointer",
+                            remoteChanges.has(order.id) && "animate-remote-flash"
+                          )}
+                          onClick={() => setExpandedOrderId(expanded ? null : order.id)}
+                        >
+                          <TableCell>
+                            {expanded ? (
+                              <ChevronDown className="h-4 w-4" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4" />
+                            )}
+                          </TableCell>
+                          <TableCell className="font-medium">{formatOrderNumber(order)}</TableCell>
+                          <TableCell>{order.supplierName}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {formatDate(order.orderDate)}
+                          </TableCell>
+                          <TableCell
+                            className={cn("whitespace-nowrap", late && "text-destructive")}
+                          >
+                            {order.expectedDate ? formatDate(order.expectedDate) : "-"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={PROGRESS_VARIANTS[progress]}>
+                              {ORDER_PROGRESS_LABELS[progress]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{formatKSH(orderTotal(order))}</TableCell>
+                          <TableCell className="text-right">
+                            <div
+                              className="flex justify-end space-x-2"
+                              onClick={e => e.stopPropagation()}
+                            >
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                aria-label="Receive stock"
+                                disabled={order.status !== "open"}
+                                onClick={() => setOrderToReceive(order)}
+                              >
+                                <PackageCheck className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                aria-label="Print labels for received stock"
+                                disabled={!order.items.some(item => item.quantityReceived > 0)}
+                                onClick={() => navigate(`/labels?order=${order.id}`)}
+                              >
+                                <Tags className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                aria-label="Edit order"
+                                disabled={progress !== "open"}
+                                onClick={() => {
+                                  setEditingOrder(order);
+                                  setShowOrderForm(true);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                aria-label="Cancel order"
+                                disabled={order.status !== "open"}
+                                onClick={() => setOrderToCancel(order)}
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                        {expanded && (
+                          <TableRow className="bg-muted/30 hover:bg-muted/30">
+                            <TableCell />
+                            <TableCell colSpan={7}>
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    <TableHead>Product</TableHead>
+                                    <TableHead className="text-right">Ordered</TableHead>
+                                    <TableHead className="text-right">Received</TableHead>
+                                    <TableHead className="text-right">Unit Cost</TableHead>
+                                    <TableHead className="text-right">Line Total</TableHead>
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {order.items.map(item => (
+                                    <TableRow key={item.id}>
+                                      <TableCell>{item.productName}</TableCell>
+                                      <TableCell className="text-right">
+                                        {formatQuantity(item.quantityOrdered, item.unit)}
+                                      </TableCell>
+                                      <TableCell className="text-right">
+                                        {formatQuantity(item.quantityReceived, item.unit)}
+                                      </TableCell>
+                                      <TableCell className="text-right">
+                                        {formatKSH(item.unitCost)}/{item.unit}
+                                      </TableCell>
+                                      <TableCell className="text-right">
+                                        {formatKSH(item.unitCost * item.quantityOrdered)}
+                                      </TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                              {order.note && (
+                                <p className="mt-2 text-sm text-muted-foreground">{order.note}</p>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                  {visibleOrders.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} className="h-24 text-center">
+                        {suppliers.length === 0
+                          ? "Add a supplier to start raising purchase orders."
+                          : "No purchase orders found."}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="xl:self-start">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Suppliers</CardTitle>
+              <Button
+                size="sm"
+                onClick={() => {
+                  setEditingSupplier(null);
+                  setShowSupplierForm(true);
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Supplier
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="text-right">Lead Time</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppliers.map(supplier => (
+                    <TableRow
+                      key={supplier.id}
+                      className={cn(remoteChanges.has(supplier.id) && "animate-remote-flash")}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{supplier.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {[supplier.phone, supplier.email].filter(Boolean).join(" · ") || "-"}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{supplier.leadTimeDays} days</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setEditingSupplier(supplier);
+                              setShowSupplierForm(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setSupplierToDelete(supplier)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {suppliers.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={3} className="h-24 text-center">
+                        No suppliers yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={showOrderForm} onOpenChange={setShowOrderForm}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {editingOrder ? `Edit ${formatOrderNumber(editingOrder)}` : "New Purchase Order"}
+            </DialogTitle>
+          </DialogHeader>
+          <PurchaseOrderForm
+            editOrder={editingOrder}
+            onClose={() => setShowOrderForm(false)}
+            onSaved={order => setExpandedOrderId(order.id)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!orderToReceive} onOpenChange={() => setOrderToReceive(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              Receive {orderToReceive && formatOrderNumber(orderToReceive)}
+            </DialogTitle>
+          </DialogHeader>
+          {orderToReceive && (
+            <ReceiveForm order={orderToReceive} onClose={() => setOrderToReceive(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showSupplierForm} onOpenChange={setShowSupplierForm}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? "Edit Supplier" : "Add Supplier"}</DialogTitle>
+          </DialogHeader>
+          <SupplierForm editSupplier={editingSupplier} onClose={() => setShowSupplierForm(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!orderToCancel} onOpenChange={() => setOrderToCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Purchase Order</AlertDialogTitle>
+            <AlertDialogDescription>
+              Cancel {orderToCancel && formatOrderNumber(orderToCancel)}? Anything already received
+              stays in stock; the rest is no longer expected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Order</AlertDialogCancel>
+            <AlertDialogAction onClick={() => orderToCancel && handleCancel(orderToCancel)}>
+              Cancel Order
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!supplierToDelete} onOpenChange={() => setSupplierToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Supplier</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {supplierToDelete?.name}? Suppliers with purchase
+              orders on record can't be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => supplierToDelete && handleDeleteSupplier(supplierToDelete)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Purchasing;
@@ -0,0 +1,378 @@
+// src/pages/Settings.tsx
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { useInventory } from "@/context/InventoryContext";
+import { useShopSettings } from "@/hooks/use-shop-settings";
+import { COSTING_METHODS, costingMethodLabel } from "@/lib/costing";
+import { formatKSH } from "@/lib/formatCurrency";
+import { CostingMethod } from "@/types";
+
+/**
+ * Shop-wide settings: how the cost of goods sold is worked out (each sale
+ * line keeps the cost it was given when it was made, so switching method
+ * only affects sales made afterwards), how big a discount can be given
+ * by hand at the till (and the manager PIN that approves more), and
+ * whether and how VAT is charged.
+ */
+const Settings = () => {
+  const { products } = useInventory();
+  const {
+    settings,
+    isLoading,
+    setCostingMethod,
+    setDiscountLimit,
+    setManagerPin,
+    setTaxSettings,
+  } = useShopSettings();
+  const [method, setMethod] = useState<CostingMethod>(settings.costingMethod);
+  const [saving, setSaving] = useState(false);
+  // Blank means no limit.
+  const [limit, setLimit] = useState(settings.maxManualDiscount?.toString() ?? "");
+  const [savingLimit, setSavingLimit] = useState(false);
+  // The current manager PIN, which any change to the limit or the PIN needs.
+  const [pin, setPin] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [savingPin, setSavingPin] = useState(false);
+  const [vatRegistered, setVatRegistered] = useState(settings.vatRegistered);
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(settings.pricesIncludeTax);
+  const [vatRate, setVatRate] = useState(settings.vatRate.toString());
+  const [savingTax, setSavingTax] = useState(false);
+
+  useEffect(() => {
+    setMethod(settings.costingMethod);
+  }, [settings.costingMethod]);
+
+  useEffect(() => {
+    setLimit(settings.maxManualDiscount?.toString() ?? "");
+  }, [settings.maxManualDiscount]);
+
+  useEffect(() => {
+    setVatRegistered(settings.vatRegistered);
+    setPricesIncludeTax(settings.pricesIncludeTax);
+    setVatRate(settings.vatRate.toString());
+  }, [settings.vatRegistered, settings.pricesIncludeTax, settings.vatRate]);
+
+  const limitValue = limit.trim() === "" ? null : Number(limit);
+  const limitInvalid = limitValue !== null && !(limitValue >= 0 && limitValue <= 100);
+
+  const newPinInvalid = newPin !== "" && !/^[0-9]{4,8}$/.test(newPin);
+  const pinMissing = settings.managerPinSet && pin === "";
+
+  const vatRateValue = Number(vatRate);
+  const vatRateInvalid = vatRate.trim() === "" || !(vatRateValue >= 0 && vatRateValue <= 100);
+
+  const stockValue = products.reduce((sum, p) => sum + p.stockValue, 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await setCostingMethod(method);
+      toast.success(`Sales are now costed by ${costingMethodLabel(method).toLowerCase()}.`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveLimit = async () => {
+    setSavingLimit(true);
+    try {
+      await setDiscountLimit({ percent: limitValue, pin });
+      setPin("");
+      toast.success(
+        limitValue === null
+          ? "Manual discounts are no longer limited."
+          : `Manual discounts are limited to ${limitValue}% off.`
+      );
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setSavingLimit(false);
+    }
+  };
+
+  // With null, removes the PIN.
+  const handleSavePin = async (value: string | null) => {
+    setSavingPin(true);
+    try {
+      await setManagerPin({ pin: value, currentPin: pin });
+      setPin("");
+      setNewPin("");
+      toast.success(
+        value === null
+          ? "The manager PIN is removed."
+          : "The manager PIN is set. It is needed for discounts over the limit."
+      );
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setSavingPin(false);
+    }
+  };
+
+  const handleSaveTax = async () => {
+    setSavingTax(true);
+    try {
+      await setTaxSettings({ vatRegistered, pricesIncludeTax, vatRate: vatRateValue });
+      toast.success(
+        vatRegistered
+          ? `VAT is charged at ${vatRateValue}%, ${
+              pricesIncludeTax ? "included in" : "added to"
+            } selling prices.`
+          : "VAT is no longer charged on sales."
+      );
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setSavingTax(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header />
+      <main className="flex-1">
+        <div className="container mx-auto px-4 pt-[108px] pb-6 max-w-3xl space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Cost of Goods Sold</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                How each sale is costed from the prices stock was bought at. A sale keeps its cost
+                even if it is edited later, so past profit doesn't move when suppliers change their
+                prices.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <RadioGroup
+                value={method}
+                onValueChange={(v) => setMethod(v as CostingMethod)}
+                disabled={isLoading}
+              >
+                {COSTING_METHODS.map((m) => (
+                  <div key={m.value} className="flex items-start gap-3 rounded-md border p-3">
+                    <RadioGroupItem id={`costing-${m.value}`} value={m.value} className="mt-1" />
+                    <Label htmlFor={`costing-${m.value}`} className="space-y-1 font-normal">
+                      <span className="block font-medium">{m.label}</span>
+                      <span className="block text-sm text-muted-foreground">{m.description}</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  Stock on hand is valued at <strong>{formatKSH(stockValue)}</strong>.
+                </p>
+                <Button
+                  onClick={handleSave}
+                  disabled={saving || isLoading || method === settings.costingMethod}
+                >
+                  Save
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Discounts</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                The most a discount given by hand may take off a line or a sale, after promotions.
+                Promotions themselves aren't limited. Leave blank for no limit. Once a manager PIN
+                is set, it is needed to change the limit or the PIN, and to give a discount over
+                the limit at the till.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {settings.managerPinSet && (
+                <div className="space-y-1">
+                  <Label htmlFor="manager-pin">Manager PIN</Label>
+                  <Input
+                    id="manager-pin"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    className="w-40"
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+              <div className="flex items-end justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="max-manual-discount">Largest manual discount (%)</Label>
+                  <Input
+                    id="max-manual-discount"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.01"
+                    placeholder="No limit"
+                    className="w-40"
+                    value={limit}
+                    onChange={(e) => setLimit(e.target.value)}
+                    disabled={isLoading}
+                  />
+                  {limitInvalid && (
+                    <p className="text-sm font-medium text-destructive">
+                      Enter a percent between 0 and 100.
+                    </p>
+                  )}
+                </div>
+                <Button
+                  onClick={handleSaveLimit}
+                  disabled={
+                    savingLimit ||
+                    isLoading ||
+                    limitInvalid ||
+                    pinMissing ||
+                    limitValue === settings.maxManualDiscount
+                  }
+                >
+                  Save
+                </Button>
+              </div>
+              <div className="flex items-end justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="new-manager-pin">
+                    {settings.managerPinSet ? "New manager PIN" : "Manager PIN"}
+                  </Label>
+                  <Input
+                    id="new-manager-pin"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="new-password"
+                    placeholder="4 to 8 digits"
+                    className="w-40"
+                    value={newPin}
+                    onChange={(e) => setNewPin(e.target.value)}
+                    disabled={isLoading}
+                  />
+                  {newPinInvalid && (
+                    <p className="text-sm font-medium text-destructive">
+                      The PIN must be 4 to 8 digits.
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {settings.managerPinSet && (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleSavePin(null)}
+                      disabled={savingPin || isLoading || pinMissing}
+                    >
+                      Remove PIN
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => handleSavePin(newPin)}
+                    disabled={
+                      savingPin || isLoading || pinMissing || newPin === "" || newPinInvalid
+                    }
+                  >
+                    Set PIN
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>VAT</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Whether the shop charges VAT, the rate charged on standard-rated products, and
+                whether selling prices already include it. Each sale line keeps the VAT it was
+                charged, so changes only affect sales made afterwards.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <Label htmlFor="vat-registered" className="space-y-1 font-normal">
+                  <span className="block font-medium">VAT registered</span>
+                  <span className="block text-sm text-muted-foreground">
+                    Leave off unless the shop is registered with KRA; until then sales carry no
+                    VAT.
+                  </span>
+                </Label>
+                <Switch
+                  id="vat-registered"
+                  checked={vatRegistered}
+                  onCheckedChange={setVatRegistered}
+                  disabled={isLoading}
+                />
+              </div>
+              <RadioGroup
+                value={pricesIncludeTax ? "inclusive" : "exclusive"}
+                onValueChange={(v) => setPricesIncludeTax(v === "inclusive")}
+                disabled={isLoading || !vatRegistered}
+              >
+                <div className="flex items-start gap-3 rounded-md border p-3">
+                  <RadioGroupItem id="tax-inclusive" value="inclusive" className="mt-1" />
+                  <Label htmlFor="tax-inclusive" className="space-y-1 font-normal">
+                    <span className="block font-medium">Prices include VAT</span>
+                    <span className="block text-sm text-muted-foreground">
+                      Customers pay the shelf price; the VAT in it is worked out on each sale.
+                    </span>
+                  </Label>
+                </div>
+                <div className="flex items-start gap-3 rounded-md border p-3">
+                  <RadioGroupItem id="tax-exclusive" value="exclusive" className="mt-1" />
+                  <Label htmlFor="tax-exclusive" className="space-y-1 font-normal">
+                    <span className="block font-medium">VAT is added at the till</span>
+                    <span className="block text-sm text-muted-foreground">
+                      Selling prices are before VAT, which is added to the customer's total.
+                    </span>
+                  </Label>
+                </div>
+              </RadioGroup>
+              <div className="flex items-end justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="vat-rate">Standard rate (%)</Label>
+                  <Input
+                    id="vat-rate"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.01"
+                    className="w-40"
+                    value={vatRate}
+                    onChange={(e) => setVatRate(e.target.value)}
+                    disabled={isLoading || !vatRegistered}
+                  />
+                  {vatRateInvalid && (
+                    <p className="text-sm font-medium text-destructive">
+                      Enter a percent between 0 and 100.
+                    </p>
+                  )}
+                </div>
+                <Button
+                  onClick={handleSaveTax}
+                  disabled={
+                    savingTax ||
+                    isLoading ||
+                    vatRateInvalid ||
+                    (vatRegistered === settings.vatRegistered &&
+                      pricesIncludeTax === settings.pricesIncludeTax &&
+                      vatRateValue === settings.vatRate)
+                  }
+                >
+                  Save
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,487 @@
+// src/pages/StockTakes.tsx
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Ban, CheckCircle2, Download, Plus, Printer, Search } from "lucide-react";
+import { toast } from "sonner";
+import Header from "@/components/Header";
+import StockTakeForm from "@/components/StockTakeForm";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useInventory } from "@/context/InventoryContext";
+import { useStockTakes } from "@/hooks/use-stock-takes";
+import { downloadCSV } from "@/lib/csvUtils";
+import { formatKSH } from "@/lib/formatCurrency";
+import { formatStockDelta } from "@/lib/stock";
+import { formatQuantity, quantityStep } from "@/lib/units";
+import {
+  STOCK_TAKE_STATUS_LABELS,
+  formatStockTakeNumber,
+  lineVariance,
+  lineVarianceValue,
+  stockTakeSummary,
+  varianceReportRows,
+} from "@/lib/stocktake";
+import { cn } from "@/lib/utils";
+import { Product, StockTake, StockTakeLine } from "@/types";
+
+type LineFilter = "all" | "uncounted" | "variances";
+
+const formatDate = (date: string) => new Date(date).toLocaleString();
+
+interface CountInputProps {
+  line: StockTakeLine;
+  /** Undefined once the product has been deleted. */
+  product?: Product;
+  onSave: (countedQuantity: number | null) => void;
+}
+
+/** Saves when the field loses focus (or on Enter), so counts can be typed quickly. */
+const CountInput: React.FC<CountInputProps> = ({ line, product, onSave }) => {
+  const saved = line.countedQuantity === null ? "" : String(line.countedQuantity);
+  const [draft, setDraft] = useState(saved);
+
+  // Counts from other devices.
+  useEffect(() => setDraft(saved), [saved]);
+
+  const commit = () => {
+    if (draft === saved) return;
+    const value = draft.trim() === "" ? null : Number(draft);
+    if (value !== null && (isNaN(value) || value < 0)) {
+      setDraft(saved);
+      toast.error("Counts must be zero or more.");
+      return;
+    }
+    if (value !== null && !product?.decimalQuantities && !Number.isInteger(value)) {
+      setDraft(saved);
+      toast.error(`Count ${line.productName} in whole ${product?.unit ?? "units"}.`);
+      return;
+    }
+    onSave(value);
+  };
+
+  return (
+    <Input
+      type="number"
+      min={0}
+      step={quantityStep(product)}
+      inputMode={product?.decimalQuantities ? "decimal" : "numeric"}
+      className="ml-auto w-24 text-right print:hidden"
+      aria-label={`Counted quantity of ${line.productName}`}
+      value={draft}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+    />
+  );
+};
+
+/**
+ * Stock-takes: start a count of everything or one category, enter counts
+ * (from any number of devices), review variances in units and at cost, then
+ * approve to post the corrections. Approved counts stay as the variance
+ * report, which can be printed or exported.
+ */
+const StockTakes = () => {
+  const { products, remoteChanges } = useInventory();
+  const productById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+  // Lines don't keep the unit; deleted products show bare quantities.
+  const unitOf = (line: StockTakeLine) => productById.get(line.productId ?? "")?.unit;
+  const { stockTakes, recordCounts, approveStockTake, cancelStockTake } = useStockTakes();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [confirm, setConfirm] = useState<"approve" | "cancel" | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [lineFilter, setLineFilter] = useState<LineFilter>("all");
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const selected: StockTake | null =
+    stockTakes.find(t => t.id === selectedId) ??
+    stockTakes.find(t => t.status === "counting") ??
+    stockTakes[0] ??
+    null;
+  const summary = selected ? stockTakeSummary(selected) : null;
+  const counting = selected?.status === "counting";
+
+  const categories = useMemo(
+    () => Array.from(new Set(selected?.lines.map(l => l.category) ?? [])),
+    [selected]
+  );
+
+  const visibleLines = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return (selected?.lines ?? []).filter(line => {
+      if (categoryFilter !== "all" && line.category !== categoryFilter) return false;
+      if (lineFilter === "uncounted" && line.countedQuantity !== null) return false;
+      if (lineFilter === "variances" && !lineVariance(line)) return false;
+      return line.productName.toLowerCase().includes(term);
+    });
+  }, [selected, categoryFilter, lineFilter, searchTerm]);
+
+  const selectStockTake = (id: string) => {
+    setSelectedId(id);
+    setCategoryFilter("all");
+  };
+
+  const handleSave = async (line: StockTakeLine, countedQuantity: number | null) => {
+    if (!selected) return;
+    try {
+      await recordCounts(selected.id, [{ lineId: line.id, countedQuantity }]);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!selected) return;
+    try {
+      if (confirm === "approve") {
+        await approveStockTake(selected.id);
+        toast.success(`${formatStockTakeNumber(selected)} approved and stock corrected`);
+      } else {
+        await cancelStockTake(selected.id);
+        toast.success(`${formatStockTakeNumber(selected)} cancelled`);
+      }
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+    setConfirm(null);
+  };
+
+  const exportReport = () => {
+    if (!selected) return;
+    downloadCSV(
+      varianceReportRows(selected),
+      `stock_take_${formatStockTakeNumber(selected).toLowerCase()}.csv`
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <div className="print:hidden">
+        <Header />
+      </div>
+      <main className="flex-1">
+        <div className="container mx-auto px-4 pt-[108px] pb-6 grid gap-6 xl:grid-cols-4 print:block print:pt-0">
+          <Card className="xl:self-start print:hidden">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Stock-Takes</CardTitle>
+              <Button size="sm" onClick={() => setShowForm(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {stockTakes.map(take => {
+                const takeSummary = stockTakeSummary(take);
+                return (
+                  <button
+                    key={take.id}
+                    type="button"
+                    onClick={() => selectStockTake(take.id)}
+                    className={cn(
+                      "w-full rounded-md border p-3 text-left text-sm hover:bg-muted",
+                      take.id === selected?.id && "bg-muted",
+                      remoteChanges.has(take.id) && "animate-remote-flash"
+                    )}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{formatStockTakeNumber(take)}</span>
+                      <Badge variant={take.status === "counting" ? "default" : "secondary"}>
+                        {STOCK_TAKE_STATUS_LABELS[take.status]}
+                      </Badge>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {take.category ?? "All products"} · {new Date(take.startedAt).toLocaleDateString()}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {takeSummary.counted} of {takeSummary.lines} counted
+                      {takeSummary.counted > 0 && ` · ${formatKSH(takeSummary.value)}`}
+                    </div>
+                  </button>
+                );
+              })}
+              {stockTakes.length === 0 && (
+                <p className="py-8 text-center text-sm text-muted-foreground">
+                  No stock-takes yet.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="xl:col-span-3 print:border-0 print:shadow-none">
+            {selected && summary ? (
+              <>
+                <CardHeader className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+                  <div>
+                    <CardTitle>
+                      {formatStockTakeNumber(selected)}: {selected.category ?? "All products"}
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Started {formatDate(selected.startedAt)}
+                      {selected.approvedAt &&
+                        ` · Approved ${formatDate(selected.approvedAt)}${
+                          selected.approvedBy ? ` by ${selected.approvedBy}` : ""
+                        }`}
+                      {selected.status === "cancelled" && " · Cancelled"}
+                    </p>
+                    {selected.note && <p className="text-sm">{selected.note}</p>}
+                  </div>
+                  <div className="flex flex-wrap gap-2 print:hidden">
+                    <Button variant="outline" size="sm" onClick={() => window.print()}>
+                      <Printer className="mr-2 h-4 w-4" />
+                      Print
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={exportReport}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export CSV
+                    </Button>
+                    {counting && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => setConfirm("cancel")}>
+                          <Ban className="mr-2 h-4 w-4" />
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={summary.counted === 0}
+                          onClick={() => setConfirm("approve")}
+                        >
+                          <CheckCircle2 className="mr-2 h-4 w-4" />
+                          Approve
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+                    <div className="rounded-md bg-secondary p-3">
+                      <div className="text-sm text-muted-foreground">Counted</div>
+                      <div className="text-2xl font-bold">
+                        {summary.counted} / {summary.lines}
+                      </div>
+                    </div>
+                    <div className="rounded-md bg-secondary p-3">
+                      <div className="text-sm text-muted-foreground">Net Variance</div>
+                      <div
+                        className={cn("text-2xl font-bold", summary.units < 0 && "text-destructive")}
+                      >
+                        {summary.units ? formatStockDelta(summary.units) : 0} units
+                      </div>
+                    </div>
+                    <div className="rounded-md bg-secondary p-3">
+                      <div className="text-sm text-muted-foreground">Shortages at Cost</div>
+                      <div className="text-2xl font-bold text-destructive">
+                        {formatKSH(Math.abs(summary.shortageValue))}
+                      </div>
+                    </div>
+                    <div className="rounded-md bg-secondary p-3">
+                      <div className="text-sm text-muted-foreground">Surpluses at Cost</div>
+                      <div className="text-2xl font-bold">{formatKSH(summary.surplusValue)}</div>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-col gap-2 sm:flex-row print:hidden">
+                    <div className="relative w-full sm:w-[220px]">
+                      <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        type="search"
+                        placeholder="Search products..."
+                        className="pl-8 w-full"
+                        value={searchTerm}
+                        onChange={e => setSearchTerm(e.target.value)}
+                      />
+                    </div>
+                    {categories.length > 1 && (
+                      <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                        <SelectTrigger className="w-full sm:w-[180px]" aria-label="Category">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All categories</SelectItem>
+                          {categories.map(category => (
+                            <SelectItem key={category} value={category}>
+                              {category}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Select value={lineFilter} onValueChange={v => setLineFilter(v as LineFilter)}>
+                      <SelectTrigger className="w-full sm:w-[180px]" aria-label="Show">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All lines</SelectItem>
+                        <SelectItem value="uncounted">Not yet counted</SelectItem>
+                        <SelectItem value="variances">Variances only</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead className="text-right">Expected</TableHead>
+                        <TableHead className="text-right">Counted</TableHead>
+                        <TableHead className="text-right">Variance</TableHead>
+                        <TableHead className="text-right">At Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleLines.map(line => {
+                        const variance = lineVariance(line);
+                        return (
+                          <TableRow
+                            key={line.id}
+                            className={cn(remoteChanges.has(line.id) && "animate-remote-flash")}
+                          >
+                            <TableCell>
+                              <div className="font-medium">{line.productName}</div>
+                              {line.countedBy && (
+                                <div className="text-xs text-muted-foreground print:hidden">
+                                  Counted by {line.countedBy}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>{line.category}</TableCell>
+                            <TableCell className="text-right">
+                              {formatQuantity(line.expectedQuantity, unitOf(line))}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {counting && (
+                                <CountInput
+                                  line={line}
+                                  product={productById.get(line.productId ?? "")}
+                                  onSave={value => handleSave(line, value)}
+                                />
+                              )}
+                              <span className={cn(counting && "hidden print:inline")}>
+                                {line.countedQuantity === null
+                                  ? "-"
+                                  : formatQuantity(line.countedQuantity, unitOf(line))}
+                              </span>
+                            </TableCell>
+                            <TableCell
+                              className={cn(
+                                "text-right font-medium",
+                                variance && variance < 0 && "text-destructive",
+                                variance && variance > 0 && "text-green-600"
+                              )}
+                            >
+                              {variance
+                                ? formatStockDelta(variance, unitOf(line))
+                                : variance === 0
+                                  ? "0"
+                                  : "-"}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {variance ? formatKSH(lineVarianceValue(line)) : "-"}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                      {visibleLines.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={6} className="h-24 text-center">
+                            No lines match.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={4}>Net variance</TableCell>
+                        <TableCell className="text-right">
+                          {summary.units ? formatStockDelta(summary.units) : 0}
+                        </TableCell>
+                        <TableCell className="text-right">{formatKSH(summary.value)}</TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+                  {counting && (
+                    <p className="text-xs text-muted-foreground print:hidden">
+                      Approving adds each variance to current stock, so sales made while counting
+                      are kept. Products not counted are left as they are.
+                    </p>
+                  )}
+                </CardContent>
+              </>
+            ) : (
+              <CardContent className="py-16 text-center text-muted-foreground">
+                Start a stock-take to count your stock.
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Stock-Take</DialogTitle>
+          </DialogHeader>
+          <StockTakeForm onClose={() => setShowForm(false)} onStarted={take => selectStockTake(take.id)} />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!confirm} onOpenChange={() => setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirm === "approve" ? "Approve Stock-Take" : "Cancel Stock-Take"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm === "approve"
+                ? `This posts ${summary?.withVariance ?? 0} stock correction${
+                    summary?.withVariance === 1 ? "" : "s"
+                  } worth ${formatKSH(summary?.value ?? 0)} at cost. Counts can't be changed afterwards.`
+                : "Counts entered so far are discarded and no stock is changed."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Back</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>
+              {confirm === "approve" ? "Approve" : "Cancel Stock-Take"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default StockTakes;
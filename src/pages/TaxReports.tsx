@@ -0,0 +1,218 @@
+// src/pages/TaxReports.tsx
+
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import Header from "@/components/Header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useShopSettings } from "@/hooks/use-shop-settings";
+import { downloadCSV } from "@/lib/csvUtils";
+import { formatKSH } from "@/lib/formatCurrency";
+import { inventoryKeys } from "@/lib/queryKeys";
+import * as repo from "@/lib/repository";
+import {
+  monthRange,
+  taxCategoryLabel,
+  taxDetailReportRows,
+  taxLineDescription,
+  taxSummaryReportRows,
+} from "@/lib/tax";
+import { localDate } from "@/lib/utils";
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+/**
+ * VAT for a month, as filed with KRA: taxable sales and output VAT per tax
+ * category, less goods returned in the month, with the lines behind them.
+ */
+const TaxReports = () => {
+  const { settings } = useShopSettings();
+  const [month, setMonth] = useState(() => localDate().slice(0, 7));
+
+  const { from, to } = monthRange(month);
+  const { data, error } = useQuery({
+    queryKey: inventoryKeys.vatReturn(from, to),
+    queryFn: async () => {
+      const [summary, lines] = await Promise.all([
+        repo.getVatSummary(from, to),
+        repo.listVatLines(from, to),
+      ]);
+      return { summary, lines };
+    },
+  });
+  const { summary, lines } = data ?? { summary: [], lines: [] };
+
+  useEffect(() => {
+    if (error) toast.error(error.message);
+  }, [error]);
+  const total = (pick: (row: (typeof summary)[number]) => number) =>
+    summary.reduce((sum, row) => sum + pick(row), 0);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header />
+      <main className="flex-1">
+        <div className="container mx-auto px-4 pt-[108px] pb-6 space-y-6">
+          <Card>
+            <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+              <div>
+                <CardTitle>VAT Return</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {settings.vatRegistered ? (
+                    <>
+                      Standard rate {settings.vatRate}%, prices{" "}
+                      {settings.pricesIncludeTax ? "include" : "exclude"} VAT
+                    </>
+                  ) : (
+                    "Not VAT registered: sales are made without VAT"
+                  )}
+                </p>
+              </div>
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+                <div className="space-y-1">
+                  <Label htmlFor="tax-month">Period</Label>
+                  <Input
+                    id="tax-month"
+                    type="month"
+                    className="w-44"
+                    value={month}
+                    onChange={(e) => e.target.value && setMonth(e.target.value)}
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  disabled={!lines.length}
+                  onClick={() =>
+                    downloadCSV(taxSummaryReportRows(summary, from, to), `vat_summary_${month}.csv`)
+                  }
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Summary
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={!lines.length}
+                  onClick={() => downloadCSV(taxDetailReportRows(lines), `vat_lines_${month}.csv`)}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Lines
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tax Category</TableHead>
+                    <TableHead className="text-right">Sales</TableHead>
+                    <TableHead className="text-right">Returns</TableHead>
+                    <TableHead className="text-right">Taxable Value</TableHead>
+                    <TableHead className="text-right">Output VAT</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.map((row) => (
+                    <TableRow key={row.taxCategory ?? "untracked"}>
+                      <TableCell className="font-medium">
+                        {taxCategoryLabel(row.taxCategory)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatKSH(row.sales)}</TableCell>
+                      <TableCell className="text-right">{formatKSH(row.returns)}</TableCell>
+                      <TableCell className="text-right">{formatKSH(row.taxableValue)}</TableCell>
+                      <TableCell className="text-right">{formatKSH(row.vat)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {summary.length > 0 ? (
+                    <TableRow className="font-semibold">
+                      <TableCell>Total</TableCell>
+                      <TableCell className="text-right">{formatKSH(total((r) => r.sales))}</TableCell>
+                      <TableCell className="text-right">
+                        {formatKSH(total((r) => r.returns))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatKSH(total((r) => r.taxableValue))}
+                      </TableCell>
+                      <TableCell className="text-right">{formatKSH(total((r) => r.vat))}</TableCell>
+                    </TableRow>
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">
+                        No sales or returns in this period.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+              {summary.some((row) => row.taxCategory === null) && (
+                <p className="mt-4 text-sm text-muted-foreground">
+                  Not tracked: lines sold while the shop wasn't VAT registered, reported without
+                  VAT.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+          {lines.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Lines</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Tax Category</TableHead>
+                      <TableHead className="text-right">Taxable Value</TableHead>
+                      <TableHead className="text-right">VAT</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map((line) => (
+                      <TableRow key={line.id} className="text-sm">
+                        <TableCell className="whitespace-nowrap">{formatDate(line.date)}</TableCell>
+                        <TableCell>{line.customerName ?? "Walk-in"}</TableCell>
+                        <TableCell>
+                          {taxLineDescription(line)}
+                          {line.isReturn && (
+                            <Badge variant="outline" className="ml-2">
+                              Credit note
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {taxCategoryLabel(line.taxCategory)}
+                          {line.taxRate > 0 && ` (${line.taxRate}%)`}
+                        </TableCell>
+                        <TableCell className="text-right">{formatKSH(line.taxableValue)}</TableCell>
+                        <TableCell className="text-right">{formatKSH(line.vat)}</TableCell>
+                        <TableCell className="text-right">{formatKSH(line.total)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default TaxReports;
@@ -0,0 +1,205 @@
+// src/test/fixtures.ts
+
+import {
+  Customer,
+  Payment,
+  Product,
+  Promotion,
+  PurchaseOrder,
+  PurchaseOrderItem,
+  Repayment,
+  Sale,
+  SaleItem,
+  SaleReturn,
+  SaleReturnItem,
+  Supplier,
+} from "@/types";
+
+/*
+ * Records for the unit tests. Each factory fills in plain defaults; a test
+ * overrides only the fields it is about.
+ */
+
+export const product = (overrides: Partial<Product> = {}): Product => ({
+  id: "p1",
+  name: "Sugar 2kg",
+  category: "Groceries",
+  price: 330,
+  cost: 290,
+  stockQuantity: 10,
+  stockValue: 2900,
+  reorderLevel: 5,
+  unit: "pc",
+  decimalQuantities: false,
+  units: [],
+  supplierId: null,
+  sku: null,
+  barcode: null,
+  parentId: null,
+  optionValues: null,
+  priceOverride: null,
+  taxCategory: "standard",
+  ...overrides,
+});
+
+
+export const saleItem = (overrides: Partial<SaleItem> = {}): SaleItem => ({
+  id: "si1",
+  productId: "p1",
+  productName: "Sugar 2kg",
+  quantity: 2,
+  unit: "pc",
+  unitFactor: 1,
+  unitPrice: 330,
+  unitCost: 290,
+  lineTotal: 660,
+  profit: 80,
+  discount: null,
+  promotionId: null,
+  promotionName: null,
+  discountAmount: 0,
+  taxCategory: "standard",
+  taxRate: 0,
+  taxAmount: 0,
+  ...overrides,
+});
+
+
+export const payment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: "pay1",
+  method: "cash",
+  amount: 660,
+  reference: null,
+  status: "paid",
+  phone: null,
+  promptedAt: null,
+  failureReason: null,
+  ...overrides,
+});
+
+
+export const sale = (overrides: Partial<Sale> = {}): Sale => ({
+  id: "s1",
+  date: "2026-10-01",
+  totalAmount: 660,
+  profit: 80,
+  items: [],
+  payments: [],
+  customerId: null,
+  customerName: null,
+  amountDue: 0,
+  amountRepaid: 0,
+  returns: [],
+  discount: null,
+  discountAmount: 0,
+  taxAmount: 0,
+  ...overrides,
+});
+
+
+export const saleReturnItem = (overrides: Partial<SaleReturnItem> = {}): SaleReturnItem => ({
+  id: "ri1",
+  saleItemId: "si1",
+  quantity: 1,
+  restock: true,
+  refundAmount: 330,
+  taxAmount: 0,
+  profitReversed: 40,
+  ...overrides,
+});
+
+
+export const saleReturn = (overrides: Partial<SaleReturn> = {}): SaleReturn => ({
+  id: "r1",
+  saleId: "s1",
+  date: "2026-10-02",
+  reason: "Damaged",
+  refundMethod: "cash",
+  refundAmount: 330,
+  taxAmount: 0,
+  profitReversed: 40,
+  note: null,
+  items: [saleReturnItem()],
+  ...overrides,
+});
+
+
+export const customer = (overrides: Partial<Customer> = {}): Customer => ({
+  id: "c1",
+  name: "Mama Njeri",
+  phone: null,
+  creditLimit: null,
+  creditDays: 30,
+  ...overrides,
+});
+
+
+export const repayment = (overrides: Partial<Repayment> = {}): Repayment => ({
+  id: "rp1",
+  customerId: "c1",
+  date: "2026-10-10",
+  amount: 100,
+  method: "cash",
+  reference: null,
+  note: null,
+  voidedAt: null,
+  voidReason: null,
+  ...overrides,
+});
+
+
+export const supplier = (overrides: Partial<Supplier> = {}): Supplier => ({
+  id: "sup1",
+  name: "Supplier",
+  phone: null,
+  email: null,
+  leadTimeDays: 7,
+  notes: null,
+  ...overrides,
+});
+
+
+export const purchaseOrderItem = (
+  overrides: Partial<PurchaseOrderItem> = {}
+): PurchaseOrderItem => ({
+  id: "i1",
+  productId: "p1",
+  productName: "Sugar 2kg",
+  quantityOrdered: 10,
+  quantityReceived: 0,
+  unit: "pc",
+  unitFactor: 1,
+  unitCost: 290,
+  ...overrides,
+});
+
+
+export const purchaseOrder = (overrides: Partial<PurchaseOrder> = {}): PurchaseOrder => ({
+  id: "o1",
+  number: 1,
+  supplierId: "sup1",
+  supplierName: "Supplier",
+  status: "open",
+  orderDate: "2026-10-01",
+  expectedDate: null,
+  note: null,
+  receivedAt: null,
+  items: [purchaseOrderItem()],
+  ...overrides,
+});
+
+
+export const promotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: "promo",
+  name: "Promotion",
+  kind: "percent_off",
+  percent: 10,
+  buyQuantity: null,
+  freeQuantity: null,
+  productId: null,
+  category: null,
+  startsOn: "2026-10-01",
+  endsOn: null,
+  active: true,
+  ...overrides,
+});
@@ -5,18 +5,473 @@ export interface Product {
     name: string;
     category: string;
     price: number;
+    /** Average cost per base unit of the stock on hand (see CostingMethod). */
     cost: number;
+    /** On hand, in the base unit. */
     stockQuantity: number;
+    /** What the stock on hand cost, from its purchase layers. */
+    stockValue: number;
     reorderLevel: number;
+    /** The unit stock is kept in, e.g. "pc", "kg" or "bottle". */
+    unit: string;
+    /** Whether quantities may be fractions of a unit (loose goods sold by weight). */
+    decimalQuantities: boolean;
+    /** Packs the product is also bought or sold in, e.g. a 50kg bag. */
+    units: ProductUnit[];
+    /** The supplier this product is normally bought from. */
+    supplierId: string | null;
+    /** The shop's own stock code, unique per user. */
+    sku: string | null;
+    /** The code printed on the pack (usually EAN-13), unique per user. */
+    barcode: string | null;
+    /** Set on variants: the parent product they were generated from. */
+    parentId: string | null;
+    /** A variant's value on each of its parent's option axes. */
+    optionValues: Record<string, string> | null;
+    /** A variant's own selling price; null sells at the parent's price. */
+    priceOverride: number | null;
+    taxCategory: TaxCategory;
+  }
+
+  /**
+   * How a product is treated for VAT: at the shop's standard rate, taxable
+   * at 0%, or outside VAT altogether.
+   */
+  export type TaxCategory = "standard" | "zero_rated" | "exempt";
+
+  /** A pack of a product's base unit, e.g. a crate of 24 bottles. */
+  export interface ProductUnit {
+    name: string;
+    /** Base units in one pack. */
+    factor: number;
+    /** Selling price of the pack; null sells it at the base price × factor. */
+    price: number | null;
+    /** Offered on purchase orders. */
+    purchase: boolean;
+    /** Offered when selling. */
+    sale: boolean;
+  }
+
+  /** One option axis of a parent product, e.g. Size: S, M, L. */
+  export interface ProductOption {
+    name: string;
+    values: string[];
+  }
+
+  /**
+   * What a product's sizes/colours share. Each variant is a Product of its
+   * own, with its own stock, barcode and optionally price.
+   */
+  export interface ProductParent {
+    id: string;
+    name: string;
+    category: string;
+    price: number;
+    cost: number;
+    reorderLevel: number;
+    supplierId: string | null;
+    /** Copied to every variant. */
+    taxCategory: TaxCategory;
+    options: ProductOption[];
   }
   
-  export interface Sale {
+  /** One product line on a sale (receipt). */
+  export interface SaleItem {
     id: string;
     productId: string;
     productName: string;
+    /** In `unit`, which may be a pack of the product's base unit. */
     quantity: number;
+    unit: string;
+    /** Base units in one `unit`, as it was when the sale was made. */
+    unitFactor: number;
+    /** List price per `unit`; lineTotal is after discounts. */
+    unitPrice: number;
+    unitCost: number;
+    lineTotal: number;
+    profit: number;
+    /** The manual discount given on this line, as entered. */
+    discount: Discount | null;
+    promotionId: string | null;
+    /** Kept in case the promotion is deleted later. */
+    promotionName: string | null;
+    /**
+     * Everything taken off the line: its promotion, its manual discount and
+     * its share of the basket discount.
+     */
+    discountAmount: number;
+    /** As sold; null on lines sold before VAT was tracked. */
+    taxCategory: TaxCategory | null;
+    /** Percent; 0 unless standard rated. */
+    taxRate: number;
+    /** VAT included in lineTotal. */
+    taxAmount: number;
+  }
+
+  export type DiscountType = "percent" | "fixed";
+
+  /** A manual discount: a percent or a fixed amount in KSh off. */
+  export interface Discount {
+    type: DiscountType;
+    value: number;
+  }
+
+  export type PromotionKind = "percent_off" | "buy_x_get_y";
+
+  /**
+   * A discount applied automatically at sale time to the lines it covers
+   * while it runs: a product, a category, or (with neither) everything.
+   */
+  export interface Promotion {
+    id: string;
+    name: string;
+    kind: PromotionKind;
+    /** percent_off only. */
+    percent: number | null;
+    /** buy_x_get_y only: buy this many, get freeQuantity more free. */
+    buyQuantity: number | null;
+    freeQuantity: number | null;
+    productId: string | null;
+    category: string | null;
+    /** yyyy-mm-dd; the last day is inclusive, null runs until switched off. */
+    startsOn: string;
+    endsOn: string | null;
+    active: boolean;
+  }
+
+  export type PaymentMethod = "cash" | "mpesa" | "card" | "credit";
+
+  /** M-Pesa tenders taken by STK push are pending until Daraja calls back. */
+  export type PaymentStatus = "pending" | "paid" | "failed";
+
+  /** One tender used to settle a sale; a sale can be split across several. */
+  export interface Payment {
+    id: string;
+    method: PaymentMethod;
+    amount: number;
+    /** M-Pesa transaction code. */
+    reference: string | null;
+    status: PaymentStatus;
+    /** Phone the STK push prompt went to. */
+    phone: string | null;
+    /** When the last STK push prompt was sent. */
+    promptedAt: string | null;
+    failureReason: string | null;
+  }
+
+  export interface Sale {
+    id: string;
+    date: string;
     totalAmount: number;
     profit: number;
+    items: SaleItem[];
+    payments: Payment[];
+    customerId: string | null;
+    customerName: string | null;
+    /** Total of the sale's credit tenders, owed by the customer. */
+    amountDue: number;
+    /** How much of amountDue has been repaid so far. */
+    amountRepaid: number;
+    returns: SaleReturn[];
+    /** The discount given on the whole basket, as entered. */
+    discount: Discount | null;
+    /** Total taken off the sale's lines; totalAmount is after it. */
+    discountAmount: number;
+    /** VAT included in totalAmount. */
+    taxAmount: number;
+  }
+
+  /** Part of a sale line brought back by the customer. */
+  export interface SaleReturnItem {
+    id: string;
+    saleItemId: string;
+    quantity: number;
+    /** False when the goods were written off instead of going back on the shelf. */
+    restock: boolean;
+    refundAmount: number;
+    /** VAT included in refundAmount. */
+    taxAmount: number;
+    profitReversed: number;
+  }
+
+  export interface SaleReturn {
+    id: string;
+    saleId: string;
+    date: string;
+    reason: string;
+    refundMethod: PaymentMethod;
+    refundAmount: number;
+    /** VAT included in refundAmount. */
+    taxAmount: number;
+    /** Profit the sale no longer makes because of this return. */
+    profitReversed: number;
+    note: string | null;
+    items: SaleReturnItem[];
+  }
+
+  export interface Customer {
+    id: string;
+    name: string;
+    phone: string | null;
+    /** Most the customer may owe at once; null means no limit. */
+    creditLimit: number | null;
+    /** Days after a credit sale before it is overdue. */
+    creditDays: number;
+  }
+
+  /** Money received from a customer against their credit sales. */
+  export interface Repayment {
+    id: string;
+    customerId: string;
+    date: string;
+    amount: number;
+    method: PaymentMethod;
+    reference: string | null;
+    note: string | null;
+    /** Set once voided: the repayment no longer counts against what is owed. */
+    voidedAt: string | null;
+    voidReason: string | null;
+  }
+
+  /** What a customer owes, from the customer_balances RPC. */
+  export interface CustomerBalance {
+    customerId: string;
+    outstanding: number;
+    overdue: number;
+    /** Days the oldest overdue sale is past due; 0 when nothing is overdue. */
+    oldestOverdueDays: number;
+  }
+
+  /** A credit sale as it appears on the customer's ledger. */
+  export interface CreditSale {
+    id: string;
+    date: string;
+    /** What was sold, e.g. "Sugar 2kg × 2, Soap × 1". */
+    items: string;
+    amountDue: number;
+    amountRepaid: number;
+  }
+
+  /** One line of a customer's credit ledger: a credit sale or a repayment. */
+  export interface CreditLedgerLine {
+    id: string;
+    date: string;
+    sale: CreditSale | null;
+    repayment: Repayment | null;
+    /** What the customer owed after this line. */
+    balance: number;
+  }
+
+  /**
+   * One sale line, or one returned line (a credit note, with negative
+   * amounts), on a VAT return.
+   */
+  export interface TaxLine {
+    /** The sale line, or the returned line. */
+    id: string;
     date: string;
+    saleId: string;
+    customerName: string | null;
+    productName: string;
+    quantity: number;
+    unit: string;
+    taxCategory: TaxCategory | null;
+    taxRate: number;
+    /** Excluding VAT. */
+    taxableValue: number;
+    vat: number;
+    total: number;
+    /** Set on returns. */
+    isReturn: boolean;
+  }
+
+  /** One row of the VAT summary: a tax category's totals for the period. */
+  export interface TaxSummaryRow {
+    taxCategory: TaxCategory | null;
+    /** Excluding VAT, before returns. */
+    sales: number;
+    /** Excluding VAT; negative. */
+    returns: number;
+    taxableValue: number;
+    vat: number;
+  }
+
+  export interface Supplier {
+    id: string;
+    name: string;
+    phone: string | null;
+    email: string | null;
+    /** Typical days from ordering to delivery. */
+    leadTimeDays: number;
+    notes: string | null;
+  }
+
+  export type PurchaseOrderStatus = "open" | "received" | "cancelled";
+
+  export interface PurchaseOrderItem {
+    id: string;
+    productId: string;
+    productName: string;
+    /** Quantities and cost are per `unit`. */
+    quantityOrdered: number;
+    quantityReceived: number;
+    unit: string;
+    /** Base units in one `unit`. */
+    unitFactor: number;
+    unitCost: number;
+  }
+
+  export interface PurchaseOrder {
+    id: string;
+    number: number;
+    supplierId: string;
+    supplierName: string;
+    status: PurchaseOrderStatus;
+    orderDate: string;
+    expectedDate: string | null;
+    note: string | null;
+    receivedAt: string | null;
+    items: PurchaseOrderItem[];
+  }
+
+  export type StockMovementType =
+    | "opening"
+    | "sale"
+    | "sale_reversal"
+    | "return"
+    | "purchase_receipt"
+    | "adjustment"
+    | "stock_take"
+    | "transfer";
+
+  export type StockAdjustmentReason =
+    | "damaged"
+    | "expired"
+    | "theft"
+    | "found"
+    | "gift"
+    | "internal_use";
+
+  /** One entry in a product's append-only stock ledger. */
+  export interface StockMovement {
+    id: string;
+    /** Null once the product has been deleted. */
+    productId: string | null;
+    productName: string;
+    type: StockMovementType;
+    /** Change to stock: positive in, negative out. */
+    quantity: number;
+    /** Stock on hand after this movement. */
+    balance: number;
+    /** Value of the stock moved at cost: positive in, negative out. */
+    cost: number;
+    /** The sale, return or purchase order behind the movement. */
+    referenceId: string | null;
+    note: string | null;
+    /** Why a manual adjustment was made. */
+    reason: StockAdjustmentReason | null;
+    /** Email of whoever made the change; null for system changes. */
+    performedBy: string | null;
+    createdAt: string;
+  }
+
+  /**
+   * How sales are costed: from the oldest stock first, or at the average
+   * cost of the stock on hand.
+   */
+  export type CostingMethod = "fifo" | "weighted_average";
+
+  export interface ShopSettings {
+    costingMethod: CostingMethod;
+    /** Most a manual discount may take off, in percent; null for no limit. */
+    maxManualDiscount: number | null;
+    /**
+     * Whether a manager PIN is set; it is then needed to change the limit and
+     * to give a discount over it.
+     */
+    managerPinSet: boolean;
+    /** Whether the shop charges VAT at all; until it does, sales carry none. */
+    vatRegistered: boolean;
+    /** Whether prices include VAT; when not, VAT is added at the till. */
+    pricesIncludeTax: boolean;
+    /** The standard VAT rate, in percent. */
+    vatRate: number;
+  }
+
+  /** A lot of a product received together, usually with an expiry date. */
+  export interface StockBatch {
+    id: string;
+    productId: string;
+    lotNumber: string | null;
+    /** yyyy-mm-dd; null when only the lot is tracked. */
+    expiryDate: string | null;
+    /** Base units still in stock from this batch. */
+    quantity: number;
+    receivedQuantity: number;
+    purchaseOrderId: string | null;
+    receivedAt: string;
+  }
+
+  /**
+   * How a price change came about: when the product was added (or history
+   * began), an edit, a scheduled change taking effect, or the stock's cost
+   * moving with purchases and sales.
+   */
+  export type PriceChangeSource = "opening" | "manual" | "scheduled" | "stock_movement";
+
+  /** A product's price and cost from `effectiveAt` until its next change. */
+  export interface PriceChange {
+    id: string;
+    productId: string;
+    source: PriceChangeSource;
+    price: number;
+    cost: number;
+    /** Null for the opening entry. */
+    previousPrice: number | null;
+    previousCost: number | null;
+    /** Email of whoever made (or scheduled) the change; null for system changes. */
+    changedBy: string | null;
+    effectiveAt: string;
+  }
+
+  /** A price change waiting for its time; applied automatically once due. */
+  export interface ScheduledPriceChange {
+    id: string;
+    productId: string;
+    price: number;
+    effectiveAt: string;
+    note: string | null;
+    createdBy: string | null;
+    createdAt: string;
+    appliedAt: string | null;
+  }
+
+  export type StockTakeStatus = "counting" | "approved" | "cancelled";
+
+  export interface StockTakeLine {
+    id: string;
+    productId: string | null;
+    productName: string;
+    category: string;
+    /** Stock on hand when the stock-take started. */
+    expectedQuantity: number;
+    unitCost: number;
+    /** Null until counted. */
+    countedQuantity: number | null;
+    countedAt: string | null;
+    countedBy: string | null;
+  }
+
+  /** A physical count of every product, or of one category. */
+  export interface StockTake {
+    id: string;
+    number: number;
+    /** Null for a full count. */
+    category: string | null;
+    status: StockTakeStatus;
+    note: string | null;
+    startedAt: string;
+    approvedAt: string | null;
+    approvedBy: string | null;
+    lines: StockTakeLine[];
   }
-  
\ No newline at end of file
@@ -0,0 +1,119 @@
+// supabase/functions/_shared/daraja.ts
+//
+// Minimal Safaricom Daraja client for Lipa na M-Pesa Online (STK push).
+//
+// Configuration (edge function secrets):
+//   DARAJA_BASE_URL         https://sandbox.safaricom.co.ke (default),
+//                           https://api.safaricom.co.ke in production, or the
+//                           bundled mock (see supabase/mock-daraja/server.ts)
+//   MPESA_CONSUMER_KEY      Daraja app consumer key
+//   MPESA_CONSUMER_SECRET   Daraja app consumer secret
+//   MPESA_SHORTCODE         Paybill / till number
+//   MPESA_PASSKEY           Lipa na M-Pesa Online passkey
+//   MPESA_CALLBACK_URL      Public URL of the mpesa-callback function,
+//                           including ?token=<MPESA_CALLBACK_TOKEN>
+
+export interface StkPushRequest {
+  phone: string;
+  amount: number;
+  accountReference: string;
+  description: string;
+}
+
+export interface StkPushResponse {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResponseCode: string;
+  ResponseDescription: string;
+  CustomerMessage: string;
+}
+
+/** The `Body.stkCallback` object Daraja posts to the callback URL. */
+export interface StkCallback {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: number;
+  ResultDesc: string;
+  CallbackMetadata?: {
+    Item: { Name: string; Value?: string | number }[];
+  };
+}
+
+const env = (name: string, fallback?: string): string => {
+  const value = Deno.env.get(name) ?? fallback;
+  if (!value) throw new Error(`Missing ${name}`);
+  return value;
+};
+
+/**
+ * Converts 07XXXXXXXX, 01XXXXXXXX, +2547XXXXXXXX etc. to the 2547XXXXXXXX form
+ * Daraja expects, or returns null if it is not a Kenyan mobile number.
+ */
+export function normalizePhone(phone: string): string | null {
+  const digits = phone.replace(/\D/g, "");
+  const local = digits.startsWith("254") ? digits.slice(3) : digits.replace(/^0/, "");
+  return /^[17]\d{8}$/.test(local) ? `254${local}` : null;
+}
+
+/** yyyyMMddHHmmss in East Africa Time, as Daraja requires. */
+function timestamp(date = new Date()): string {
+  const eat = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[-:TZ]/g, "").slice(0, 14);
+}
+
+async function accessToken(baseUrl: string): Promise<string> {
+  const credentials = btoa(`${env("MPESA_CONSUMER_KEY")}:${env("MPESA_CONSUMER_SECRET")}`);
+  const res = await fetch(`${baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${credentials}` },
+  });
+  if (!res.ok) throw new Error(`Daraja auth failed (${res.status})`);
+  const body = await res.json();
+  return body.access_token;
+}
+
+/**
+ * Sends an STK push prompt to the customer's phone. Resolves once Daraja has
+ * accepted the request; the outcome arrives later at MPESA_CALLBACK_URL.
+ */
+export async function stkPush(req: StkPushRequest): Promise<StkPushResponse> {
+  // Daraja only accepts whole shillings; rounding would charge the customer
+  // more (or less) than the tender on the sale.
+  if (!Number.isInteger(req.amount)) {
+    throw new Error("M-Pesa prompts must be for whole shillings");
+  }
+  const baseUrl = env("DARAJA_BASE_URL", "https://sandbox.safaricom.co.ke");
+  const shortcode = env("MPESA_SHORTCODE");
+  const ts = timestamp();
+  const token = await accessToken(baseUrl);
+
+  const res = await fetch(`${baseUrl}/mpesa/stkpush/v1/processrequest`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      BusinessShortCode: shortcode,
+      Password: btoa(`${shortcode}${env("MPESA_PASSKEY")}${ts}`),
+      Timestamp: ts,
+      TransactionType: "CustomerPayBillOnline",
+      Amount: req.amount,
+      PartyA: req.phone,
+      PartyB: shortcode,
+      PhoneNumber: req.phone,
+      CallBackURL: env("MPESA_CALLBACK_URL"),
+      AccountReference: req.accountReference.slice(0, 12),
+      TransactionDesc: req.description.slice(0, 13),
+    }),
+  });
+
+  const body = await res.json();
+  if (!res.ok || body.ResponseCode !== "0") {
+    throw new Error(body.errorMessage ?? body.ResponseDescription ?? `STK push failed (${res.status})`);
+  }
+  return body as StkPushResponse;
+}
+
+/** Reads one value (e.g. "MpesaReceiptNumber") from a callback's metadata. */
+export const callbackItem = (callback: StkCallback, name: string) =>
+  callback.CallbackMetadata?.Item.find((item) => item.Name === name)?.Value;
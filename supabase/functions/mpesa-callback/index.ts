@@ -0,0 +1,61 @@
+// supabase/functions/mpesa-callback/index.ts
+//
+// Daraja posts the outcome of every STK push here. Daraja sends no Supabase
+// JWT (verify_jwt is off in config.toml), so the callback URL carries a
+// shared ?token= that must match MPESA_CALLBACK_TOKEN.
+import { serve } from "https://deno.land/x/sift@0.5.0/mod.ts";
+import { createClient } from "npm:@supabase/supabase-js";
+import { callbackItem, StkCallback } from "../_shared/daraja.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const CALLBACK_TOKEN = Deno.env.get("MPESA_CALLBACK_TOKEN");
+if (!SUPABASE_URL || !SERVICE_ROLE_KEY || !CALLBACK_TOKEN) {
+  throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY or MPESA_CALLBACK_TOKEN");
+}
+
+// Daraja only needs to know the callback arrived; it does not retry on errors.
+const accepted = () =>
+  new Response(JSON.stringify({ ResultCode: 0, ResultDesc: "Accepted" }), {
+    headers: { "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+  if (new URL(req.url).searchParams.get("token") !== CALLBACK_TOKEN) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  let callback: StkCallback | undefined;
+  try {
+    callback = (await req.json())?.Body?.stkCallback;
+  } catch {
+    // Fall through: malformed bodies are acknowledged and ignored.
+  }
+  if (!callback?.CheckoutRequestID) {
+    return accepted();
+  }
+
+  const paid = callback.ResultCode === 0;
+  const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+  const { error } = await admin
+    .from("sale_payments")
+    .update(
+      paid
+        ? {
+            status: "paid",
+            reference: String(callbackItem(callback, "MpesaReceiptNumber") ?? ""),
+            failure_reason: null,
+          }
+        : { status: "failed", failure_reason: callback.ResultDesc }
+    )
+    .eq("checkout_request_id", callback.CheckoutRequestID)
+    .neq("status", "paid");
+  if (error) {
+    console.error(`mpesa-callback: ${error.message}`);
+  }
+
+  return accepted();
+});
@@ -0,0 +1,135 @@
+// supabase/functions/mpesa-stk-push/index.ts
+//
+// Sends an M-Pesa STK push prompt for a pending sale_payments row.
+// POST { payment_id, phone? } with the signed-in user's JWT. The row is read
+// through the user's own client, so RLS keeps shops apart, and updated with
+// the service role, since clients cannot write sale_payments.
+//
+// A new prompt replaces the checkout_request_id that mpesa-callback matches
+// on, so one is only sent once the last has failed or timed out: the customer
+// could still pay a prompt that is open on their phone.
+import { serve } from "https://deno.land/x/sift@0.5.0/mod.ts";
+import { createClient } from "npm:@supabase/supabase-js";
+import { CORS_HEADERS } from "../_shared/cors.ts";
+import { normalizePhone, stkPush } from "../_shared/daraja.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SERVICE_ROLE_KEY) {
+  throw new Error("Missing SUPABASE_URL or SUPABASE_ANON_KEY or SUPABASE_SERVICE_ROLE_KEY");
+}
+
+// How long a prompt can still be paid, with some slack. Keep in step with
+// MPESA_PROMPT_TIMEOUT_MS in src/lib/payments.ts.
+const PROMPT_TIMEOUT_MS = 2 * 60 * 1000;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: CORS_HEADERS });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405);
+  }
+
+  const authHeader = req.headers.get("Authorization") || "";
+  if (!authHeader.startsWith("Bearer ")) {
+    return json({ error: "Missing or invalid Authorization header" }, 401);
+  }
+  const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error: userErr } = await userClient.auth.getUser();
+  if (userErr || !user) {
+    return json({ error: "Invalid user token" }, 401);
+  }
+
+  let body: { payment_id?: string; phone?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400);
+  }
+  if (!body.payment_id) {
+    return json({ error: "Missing payment_id" }, 400);
+  }
+
+  const { data: payment, error: loadErr } = await userClient
+    .from("sale_payments")
+    .select("id, sale_id, method, amount, phone, status")
+    .eq("id", body.payment_id)
+    .maybeSingle();
+  if (loadErr) {
+    return json({ error: loadErr.message }, 500);
+  }
+  if (!payment || payment.method !== "mpesa") {
+    return json({ error: "M-Pesa payment not found" }, 404);
+  }
+  if (payment.status === "paid") {
+    return json({ error: "This payment has already been received" }, 409);
+  }
+
+  const phone = normalizePhone(body.phone ?? payment.phone ?? "");
+  if (!phone) {
+    return json({ error: "Enter a valid Safaricom number, e.g. 0712345678" }, 400);
+  }
+
+  // Claim the payment before prompting, so two resends can't both go out.
+  const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+  const now = Date.now();
+  const cutoff = new Date(now - PROMPT_TIMEOUT_MS).toISOString();
+  const { data: claimed, error: claimErr } = await admin
+    .from("sale_payments")
+    .update({ prompted_at: new Date(now).toISOString() })
+    .eq("id", payment.id)
+    .neq("status", "paid")
+    .or(`status.eq.failed,prompted_at.is.null,prompted_at.lt.${cutoff}`)
+    .select("id");
+  if (claimErr) {
+    return json({ error: claimErr.message }, 500);
+  }
+  if (!claimed?.length) {
+    return json(
+      { error: "The customer can still pay the last prompt; resend once it fails or times out" },
+      409
+    );
+  }
+
+  let checkoutRequestId: string;
+  try {
+    const res = await stkPush({
+      phone,
+      amount: Number(payment.amount),
+      accountReference: payment.sale_id.slice(0, 8).toUpperCase(),
+      description: "Shop sale",
+    });
+    checkoutRequestId = res.CheckoutRequestID;
+  } catch (err) {
+    // Nothing reached the phone, so a resend can go out straight away.
+    await admin
+      .from("sale_payments")
+      .update({ status: "failed", failure_reason: (err as Error).message })
+      .eq("id", payment.id)
+      .neq("status", "paid");
+    return json({ error: (err as Error).message }, 502);
+  }
+
+  const { error: updateErr } = await admin
+    .from("sale_payments")
+    .update({
+      status: "pending",
+      phone,
+      checkout_request_id: checkoutRequestId,
+      failure_reason: null,
+    })
+    .eq("id", payment.id)
+    .neq("status", "paid");
+  if (updateErr) {
+    return json({ error: updateErr.message }, 500);
+  }
+
+  return json({ checkout_request_id: checkoutRequestId });
+});
@@ -0,0 +1,78 @@
+-- Baseline schema for the inventory and sales tables the app has used since
+-- the hosted project was created. Later migrations build on top of this one.
+
+create extension if not exists pgcrypto;
+
+-- Products ------------------------------------------------------------------
+
+create table if not exists public.inventory (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  category text not null default '',
+  price numeric(12, 2) not null default 0 check (price >= 0),
+  cost numeric(12, 2) not null default 0 check (cost >= 0),
+  stock_quantity integer not null default 0 check (stock_quantity >= 0),
+  reorder_level integer not null default 5 check (reorder_level >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists inventory_user_id_name_idx
+  on public.inventory (user_id, name);
+create index if not exists inventory_user_id_created_at_idx
+  on public.inventory (user_id, created_at desc);
+
+-- Sales ---------------------------------------------------------------------
+
+-- product_name and cost are copied onto the sale so history survives the
+-- product being renamed, repriced or deleted.
+create table if not exists public.sales (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  product_id uuid references public.inventory (id) on delete set null,
+  product_name text not null,
+  quantity integer not null check (quantity > 0),
+  total_amount numeric(12, 2) not null default 0,
+  cost numeric(12, 2) not null default 0,
+  profit numeric(12, 2) not null default 0,
+  date date not null default current_date,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sales_user_id_date_idx
+  on public.sales (user_id, date desc);
+create index if not exists sales_product_id_idx
+  on public.sales (product_id);
+
+-- Row-level security ----------------------------------------------------------
+
+alter table public.inventory enable row level security;
+alter table public.sales enable row level security;
+
+create policy "Users can read their own inventory"
+  on public.inventory for select
+  using (user_id = auth.uid());
+create policy "Users can add to their own inventory"
+  on public.inventory for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own inventory"
+  on public.inventory for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own inventory"
+  on public.inventory for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read their own sales"
+  on public.sales for select
+  using (user_id = auth.uid());
+create policy "Users can add their own sales"
+  on public.sales for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own sales"
+  on public.sales for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own sales"
+  on public.sales for delete
+  using (user_id = auth.uid());
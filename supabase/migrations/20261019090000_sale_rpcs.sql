@@ -0,0 +1,170 @@
+-- Sale recording RPCs.
+--
+-- Each function locks the affected inventory row(s), validates stock and then
+-- writes the sale and the stock change in the same transaction, so a sale can
+-- never be recorded against stock we do not have. They run as the caller
+-- (security invoker), so the row-level-security policies on inventory and
+-- sales still scope everything to auth.uid().
+
+create or replace function public.record_sale(
+  p_product_id uuid,
+  p_quantity integer,
+  p_date date default current_date
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_product public.inventory;
+  v_sale public.sales;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Quantity must be positive.';
+  end if;
+
+  select * into v_product
+  from public.inventory
+  where id = p_product_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Product not found.';
+  end if;
+
+  if v_product.stock_quantity < p_quantity then
+    raise exception 'Not enough stock for %: % available, % requested.',
+      v_product.name, v_product.stock_quantity, p_quantity;
+  end if;
+
+  insert into public.sales (
+    product_id, product_name, quantity, total_amount, cost, profit, date, user_id
+  )
+  values (
+    v_product.id,
+    v_product.name,
+    p_quantity,
+    v_product.price * p_quantity,
+    v_product.cost,
+    (v_product.price - v_product.cost) * p_quantity,
+    coalesce(p_date, current_date),
+    auth.uid()
+  )
+  returning * into v_sale;
+
+  update public.inventory
+  set stock_quantity = stock_quantity - p_quantity
+  where id = v_product.id;
+
+  return v_sale;
+end;
+$$;
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_product_id uuid,
+  p_quantity integer,
+  p_date date
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_product public.inventory;
+  v_available integer;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Quantity must be positive.';
+  end if;
+
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  -- Lock both products in a stable order so concurrent edits cannot deadlock.
+  perform 1
+  from public.inventory
+  where id in (v_sale.product_id, p_product_id) and user_id = auth.uid()
+  order by id
+  for update;
+
+  select * into v_product
+  from public.inventory
+  where id = p_product_id and user_id = auth.uid();
+
+  if not found then
+    raise exception 'Product not found.';
+  end if;
+
+  -- Stock available to this sale includes what it already took, if the
+  -- product is unchanged.
+  v_available := v_product.stock_quantity
+    + case when v_sale.product_id = p_product_id then v_sale.quantity else 0 end;
+
+  if v_available < p_quantity then
+    raise exception 'Not enough stock for %: % available, % requested.',
+      v_product.name, v_available, p_quantity;
+  end if;
+
+  update public.inventory
+  set stock_quantity = stock_quantity + v_sale.quantity
+  where id = v_sale.product_id;
+
+  update public.inventory
+  set stock_quantity = stock_quantity - p_quantity
+  where id = p_product_id;
+
+  update public.sales
+  set product_id = v_product.id,
+      product_name = v_product.name,
+      quantity = p_quantity,
+      total_amount = v_product.price * p_quantity,
+      cost = v_product.cost,
+      profit = (v_product.price - v_product.cost) * p_quantity,
+      date = coalesce(p_date, v_sale.date)
+  where id = v_sale.id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
+
+create or replace function public.delete_sale(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  -- The product may have been deleted since; the sale still goes.
+  update public.inventory
+  set stock_quantity = stock_quantity + v_sale.quantity
+  where id = v_sale.product_id and user_id = auth.uid();
+
+  delete from public.sales where id = v_sale.id;
+end;
+$$;
+
+grant execute on function public.record_sale(uuid, integer, date) to authenticated;
+grant execute on function public.update_sale(uuid, uuid, integer, date) to authenticated;
+grant execute on function public.delete_sale(uuid) to authenticated;
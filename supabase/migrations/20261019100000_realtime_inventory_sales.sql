@@ -0,0 +1,11 @@
+-- Broadcast inventory and sales changes over Supabase Realtime so every open
+-- session sees stock move live. Realtime still applies the tables' RLS
+-- policies, so each client only receives its own user's rows.
+--
+-- replica identity full makes UPDATE/DELETE payloads carry the old row
+-- (including user_id), which the client needs to merge deletes.
+
+alter table public.inventory replica identity full;
+alter table public.sales replica identity full;
+
+alter publication supabase_realtime add table public.inventory, public.sales;
@@ -0,0 +1,267 @@
+-- Multi-item sales: a sale becomes a receipt header with one sale_items row
+-- per product. Existing single-product sales are moved into one line each.
+
+create table public.sale_items (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  product_id uuid references public.inventory (id) on delete set null,
+  product_name text not null,
+  quantity integer not null check (quantity > 0),
+  unit_price numeric(12, 2) not null default 0,
+  unit_cost numeric(12, 2) not null default 0,
+  line_total numeric(12, 2) not null default 0,
+  profit numeric(12, 2) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index sale_items_sale_id_idx on public.sale_items (sale_id);
+create index sale_items_product_id_idx on public.sale_items (product_id);
+create index sale_items_user_id_idx on public.sale_items (user_id);
+
+insert into public.sale_items (
+  sale_id, user_id, product_id, product_name, quantity, unit_price, unit_cost, line_total, profit, created_at
+)
+select
+  id, user_id, product_id, product_name, quantity,
+  case when quantity > 0 then round(total_amount / quantity, 2) else 0 end,
+  cost, total_amount, profit, created_at
+from public.sales;
+
+drop index if exists public.sales_product_id_idx;
+alter table public.sales
+  drop column product_id,
+  drop column product_name,
+  drop column quantity,
+  drop column cost;
+
+alter table public.sale_items enable row level security;
+
+create policy "Users can read their own sale items"
+  on public.sale_items for select
+  using (user_id = auth.uid());
+create policy "Users can add their own sale items"
+  on public.sale_items for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own sale items"
+  on public.sale_items for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own sale items"
+  on public.sale_items for delete
+  using (user_id = auth.uid());
+
+alter table public.sale_items replica identity full;
+alter publication supabase_realtime add table public.sale_items;
+
+-- RPCs --------------------------------------------------------------------------
+--
+-- p_items is a JSON array of {"product_id": uuid, "quantity": integer}. Lines
+-- for the same product are merged. Prices and costs are taken from inventory
+-- at the time of the call.
+
+drop function if exists public.record_sale(uuid, integer, date);
+drop function if exists public.update_sale(uuid, uuid, integer, date);
+drop function if exists public.delete_sale(uuid);
+
+-- Helpers live in a schema the API does not expose, so they can only be
+-- reached through the RPCs below.
+create schema if not exists private;
+grant usage on schema private to authenticated;
+
+-- Adds p_items to a sale: validates and decrements stock for every line, then
+-- recomputes the sale's totals. Callers must already hold the product locks.
+create or replace function private.apply_sale_items(p_sale_id uuid, p_items jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_line record;
+  v_product public.inventory;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::integer, 0) <= 0
+  ) then
+    raise exception 'Quantity must be positive.';
+  end if;
+
+  for v_line in
+    select (e ->> 'product_id')::uuid as product_id, sum((e ->> 'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items) e
+    group by 1
+  loop
+    select * into v_product
+    from public.inventory
+    where id = v_line.product_id and user_id = auth.uid();
+
+    if not found then
+      raise exception 'Product not found.';
+    end if;
+
+    if v_product.stock_quantity < v_line.quantity then
+      raise exception 'Not enough stock for %: % available, % requested.',
+        v_product.name, v_product.stock_quantity, v_line.quantity;
+    end if;
+
+    insert into public.sale_items (
+      sale_id, user_id, product_id, product_name, quantity, unit_price, unit_cost, line_total, profit
+    )
+    values (
+      p_sale_id,
+      auth.uid(),
+      v_product.id,
+      v_product.name,
+      v_line.quantity,
+      v_product.price,
+      v_product.cost,
+      v_product.price * v_line.quantity,
+      (v_product.price - v_product.cost) * v_line.quantity
+    );
+
+    update public.inventory
+    set stock_quantity = stock_quantity - v_line.quantity
+    where id = v_product.id;
+  end loop;
+
+  update public.sales
+  set total_amount = totals.total_amount,
+      profit = totals.profit
+  from (
+    select coalesce(sum(line_total), 0) as total_amount, coalesce(sum(profit), 0) as profit
+    from public.sale_items
+    where sale_id = p_sale_id
+  ) as totals
+  where id = p_sale_id;
+end;
+$$;
+
+-- Returns every line of a sale to stock and removes the lines.
+create or replace function private.restock_sale_items(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  -- Products deleted since the sale are skipped; their lines still go.
+  update public.inventory i
+  set stock_quantity = i.stock_quantity + lines.quantity
+  from (
+    select product_id, sum(quantity) as quantity
+    from public.sale_items
+    where sale_id = p_sale_id and product_id is not null
+    group by product_id
+  ) as lines
+  where i.id = lines.product_id and i.user_id = auth.uid();
+
+  delete from public.sale_items where sale_id = p_sale_id;
+end;
+$$;
+
+-- Locks the given products plus any already on p_sale_id, in id order so
+-- concurrent sales cannot deadlock.
+create or replace function private.lock_sale_products(p_sale_id uuid, p_items jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform 1
+  from public.inventory
+  where user_id = auth.uid()
+    and id in (
+      select (e ->> 'product_id')::uuid from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) e
+      union
+      select product_id from public.sale_items where sale_id = p_sale_id
+    )
+  order by id
+  for update;
+end;
+$$;
+
+create or replace function public.record_sale(p_items jsonb, p_date date default current_date)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  insert into public.sales (user_id, date)
+  values (auth.uid(), coalesce(p_date, current_date))
+  returning * into v_sale;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.apply_sale_items(v_sale.id, p_items);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+create or replace function public.update_sale(p_sale_id uuid, p_items jsonb, p_date date)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.restock_sale_items(v_sale.id);
+  perform private.apply_sale_items(v_sale.id, p_items);
+
+  update public.sales
+  set date = coalesce(p_date, v_sale.date)
+  where id = v_sale.id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
+
+create or replace function public.delete_sale(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform 1
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  perform private.lock_sale_products(p_sale_id, null);
+  perform private.restock_sale_items(p_sale_id);
+
+  delete from public.sales where id = p_sale_id;
+end;
+$$;
+
+grant execute on function public.record_sale(jsonb, date) to authenticated;
+grant execute on function public.update_sale(uuid, jsonb, date) to authenticated;
+grant execute on function public.delete_sale(uuid) to authenticated;
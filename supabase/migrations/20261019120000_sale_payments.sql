@@ -0,0 +1,167 @@
+-- Payments on sales: each sale is settled by one or more tenders (cash,
+-- M-Pesa, card or credit) whose amounts add up to the sale total. Sales
+-- recorded before this migration are treated as cash.
+
+create type public.payment_method as enum ('cash', 'mpesa', 'card', 'credit');
+
+create table public.sale_payments (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  method public.payment_method not null,
+  amount numeric(12, 2) not null check (amount > 0),
+  -- M-Pesa transaction code (e.g. SGR7XK2P1Q); required for M-Pesa tenders.
+  reference text,
+  created_at timestamptz not null default now(),
+  constraint sale_payments_mpesa_reference check (method <> 'mpesa' or reference is not null)
+);
+
+create index sale_payments_sale_id_idx on public.sale_payments (sale_id);
+create index sale_payments_user_id_idx on public.sale_payments (user_id);
+
+insert into public.sale_payments (sale_id, user_id, method, amount, created_at)
+select id, user_id, 'cash', total_amount, created_at
+from public.sales
+where total_amount > 0;
+
+alter table public.sale_payments enable row level security;
+
+create policy "Users can read their own sale payments"
+  on public.sale_payments for select
+  using (user_id = auth.uid());
+create policy "Users can add their own sale payments"
+  on public.sale_payments for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own sale payments"
+  on public.sale_payments for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own sale payments"
+  on public.sale_payments for delete
+  using (user_id = auth.uid());
+
+alter table public.sale_payments replica identity full;
+alter publication supabase_realtime add table public.sale_payments;
+
+-- Replaces a sale's payments with p_payments, a JSON array of
+-- {"method": payment_method, "amount": number, "reference": text}. A null
+-- array means "all cash". The tenders must add up to the sale total.
+create or replace function private.apply_sale_payments(p_sale_id uuid, p_payments jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_total numeric(12, 2);
+  v_paid numeric(12, 2);
+begin
+  select total_amount into v_total from public.sales where id = p_sale_id;
+
+  delete from public.sale_payments where sale_id = p_sale_id;
+
+  if p_payments is null or jsonb_array_length(p_payments) = 0 then
+    insert into public.sale_payments (sale_id, user_id, method, amount)
+    values (p_sale_id, auth.uid(), 'cash', v_total);
+    return;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_payments) e
+    where coalesce((e ->> 'amount')::numeric, 0) <= 0
+  ) then
+    raise exception 'Payment amounts must be positive.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_payments) e
+    where e ->> 'method' = 'mpesa' and coalesce(trim(e ->> 'reference'), '') = ''
+  ) then
+    raise exception 'M-Pesa payments need a transaction code.';
+  end if;
+
+  insert into public.sale_payments (sale_id, user_id, method, amount, reference)
+  select
+    p_sale_id,
+    auth.uid(),
+    (e ->> 'method')::public.payment_method,
+    (e ->> 'amount')::numeric,
+    nullif(upper(trim(e ->> 'reference')), '')
+  from jsonb_array_elements(p_payments) e;
+
+  select coalesce(sum(amount), 0) into v_paid from public.sale_payments where sale_id = p_sale_id;
+
+  if v_paid <> v_total then
+    raise exception 'Payments (%) do not add up to the sale total (%).', v_paid, v_total;
+  end if;
+end;
+$$;
+
+drop function if exists public.record_sale(jsonb, date);
+drop function if exists public.update_sale(uuid, jsonb, date);
+
+create or replace function public.record_sale(
+  p_items jsonb,
+  p_date date default current_date,
+  p_payments jsonb default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  insert into public.sales (user_id, date)
+  values (auth.uid(), coalesce(p_date, current_date))
+  returning * into v_sale;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.apply_sale_items(v_sale.id, p_items);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_date date,
+  p_payments jsonb default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.restock_sale_items(v_sale.id);
+  perform private.apply_sale_items(v_sale.id, p_items);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+
+  update public.sales
+  set date = coalesce(p_date, v_sale.date)
+  where id = v_sale.id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.record_sale(jsonb, date, jsonb) to authenticated;
+grant execute on function public.update_sale(uuid, jsonb, date, jsonb) to authenticated;
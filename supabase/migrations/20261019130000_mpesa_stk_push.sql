@@ -0,0 +1,80 @@
+-- M-Pesa STK push: an M-Pesa tender can be recorded with the customer's phone
+-- instead of a transaction code. It starts out pending; the mpesa-stk-push
+-- edge function sends the prompt to the phone and the mpesa-callback function
+-- marks it paid (filling in the receipt number) or failed.
+
+create type public.payment_status as enum ('pending', 'paid', 'failed');
+
+alter table public.sale_payments
+  add column status public.payment_status not null default 'paid',
+  add column phone text,
+  add column checkout_request_id text unique,
+  add column failure_reason text;
+
+alter table public.sale_payments
+  drop constraint sale_payments_mpesa_reference,
+  add constraint sale_payments_mpesa_reference
+    check (method <> 'mpesa' or reference is not null or status <> 'paid'),
+  add constraint sale_payments_stk_phone
+    check (status = 'paid' or phone is not null);
+
+-- Same contract as before, plus: an M-Pesa tender with a "phone" and no
+-- "reference" is stored as a pending STK push.
+create or replace function private.apply_sale_payments(p_sale_id uuid, p_payments jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_total numeric(12, 2);
+  v_paid numeric(12, 2);
+begin
+  select total_amount into v_total from public.sales where id = p_sale_id;
+
+  delete from public.sale_payments where sale_id = p_sale_id;
+
+  if p_payments is null or jsonb_array_length(p_payments) = 0 then
+    insert into public.sale_payments (sale_id, user_id, method, amount)
+    values (p_sale_id, auth.uid(), 'cash', v_total);
+    return;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_payments) e
+    where coalesce((e ->> 'amount')::numeric, 0) <= 0
+  ) then
+    raise exception 'Payment amounts must be positive.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_payments) e
+    where e ->> 'method' = 'mpesa'
+      and coalesce(trim(e ->> 'reference'), '') = ''
+      and coalesce(trim(e ->> 'phone'), '') = ''
+  ) then
+    raise exception 'M-Pesa payments need a transaction code or a phone number.';
+  end if;
+
+  insert into public.sale_payments (sale_id, user_id, method, amount, reference, phone, status)
+  select
+    p_sale_id,
+    auth.uid(),
+    (e ->> 'method')::public.payment_method,
+    (e ->> 'amount')::numeric,
+    nullif(upper(trim(e ->> 'reference')), ''),
+    nullif(trim(e ->> 'phone'), ''),
+    case
+      when e ->> 'method' = 'mpesa' and coalesce(trim(e ->> 'reference'), '') = ''
+        then 'pending'::public.payment_status
+      else 'paid'::public.payment_status
+    end
+  from jsonb_array_elements(p_payments) e;
+
+  select coalesce(sum(amount), 0) into v_paid from public.sale_payments where sale_id = p_sale_id;
+
+  if v_paid <> v_total then
+    raise exception 'Payments (%) do not add up to the sale total (%).', v_paid, v_total;
+  end if;
+end;
+$$;
@@ -0,0 +1,377 @@
+-- Customers and credit sales. A sale can name a customer; any "credit" tender
+-- on it is owed by that customer (sales.amount_due) until repayments are
+-- allocated against it (sales.amount_repaid), oldest sale first.
+
+create table public.customers (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  phone text,
+  -- Most the customer may owe at once; null means no limit.
+  credit_limit numeric(12, 2) check (credit_limit >= 0),
+  -- Days after the sale before a credit sale is overdue.
+  credit_days integer not null default 30 check (credit_days >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index customers_user_id_idx on public.customers (user_id);
+
+alter table public.sales
+  add column customer_id uuid references public.customers (id) on delete restrict,
+  add column amount_due numeric(12, 2) not null default 0,
+  add column amount_repaid numeric(12, 2) not null default 0,
+  add constraint sales_amount_repaid check (amount_repaid >= 0 and amount_repaid <= amount_due);
+
+create index sales_customer_id_idx on public.sales (customer_id);
+
+update public.sales s
+set amount_due = p.credit
+from (
+  select sale_id, sum(amount) as credit
+  from public.sale_payments
+  where method = 'credit'
+  group by sale_id
+) p
+where p.sale_id = s.id;
+
+create table public.credit_repayments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  customer_id uuid not null references public.customers (id) on delete restrict,
+  date date not null default current_date,
+  amount numeric(12, 2) not null check (amount > 0),
+  method public.payment_method not null default 'cash' check (method <> 'credit'),
+  reference text,
+  note text,
+  created_at timestamptz not null default now(),
+  constraint credit_repayments_mpesa_reference check (method <> 'mpesa' or reference is not null)
+);
+
+create index credit_repayments_customer_id_idx on public.credit_repayments (customer_id);
+create index credit_repayments_user_id_idx on public.credit_repayments (user_id);
+
+-- Which sales a repayment settled, and by how much.
+create table public.credit_allocations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  repayment_id uuid not null references public.credit_repayments (id) on delete cascade,
+  sale_id uuid not null references public.sales (id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0)
+);
+
+create index credit_allocations_repayment_id_idx on public.credit_allocations (repayment_id);
+create index credit_allocations_sale_id_idx on public.credit_allocations (sale_id);
+
+alter table public.customers enable row level security;
+alter table public.credit_repayments enable row level security;
+alter table public.credit_allocations enable row level security;
+
+create policy "Users can read their own customers"
+  on public.customers for select
+  using (user_id = auth.uid());
+create policy "Users can add their own customers"
+  on public.customers for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own customers"
+  on public.customers for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own customers"
+  on public.customers for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read their own credit repayments"
+  on public.credit_repayments for select
+  using (user_id = auth.uid());
+create policy "Users can add their own credit repayments"
+  on public.credit_repayments for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own credit repayments"
+  on public.credit_repayments for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own credit repayments"
+  on public.credit_repayments for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read their own credit allocations"
+  on public.credit_allocations for select
+  using (user_id = auth.uid());
+create policy "Users can add their own credit allocations"
+  on public.credit_allocations for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own credit allocations"
+  on public.credit_allocations for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own credit allocations"
+  on public.credit_allocations for delete
+  using (user_id = auth.uid());
+
+alter table public.customers replica identity full;
+alter table public.credit_repayments replica identity full;
+alter publication supabase_realtime add table public.customers, public.credit_repayments;
+
+-- Sets a sale's amount_due from its credit tenders, which need a customer and
+-- must stay within the customer's credit limit. Call after
+-- private.apply_sale_payments.
+create or replace function private.apply_sale_credit(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_customer public.customers;
+  v_credit numeric(12, 2);
+  v_owed numeric(12, 2);
+begin
+  select * into v_sale from public.sales where id = p_sale_id;
+
+  select coalesce(sum(amount), 0) into v_credit
+  from public.sale_payments
+  where sale_id = p_sale_id and method = 'credit';
+
+  if v_credit < v_sale.amount_repaid then
+    raise exception 'This sale already has % repaid; the credit on it cannot be less than that.',
+      v_sale.amount_repaid;
+  end if;
+
+  if v_credit > 0 then
+    if v_sale.customer_id is null then
+      raise exception 'Credit sales need a customer.';
+    end if;
+
+    -- Serialises credit limit checks for the customer.
+    select * into v_customer
+    from public.customers
+    where id = v_sale.customer_id
+    for update;
+
+    if v_customer.credit_limit is not null then
+      select coalesce(sum(amount_due - amount_repaid), 0) into v_owed
+      from public.sales
+      where customer_id = v_customer.id and id <> p_sale_id;
+
+      if v_owed + v_credit - v_sale.amount_repaid > v_customer.credit_limit then
+        raise exception '% already owes % of a % credit limit.',
+          v_customer.name, v_owed, v_customer.credit_limit;
+      end if;
+    end if;
+  end if;
+
+  update public.sales set amount_due = v_credit where id = p_sale_id;
+end;
+$$;
+
+-- Raises unless p_customer_id is null or one of the caller's customers.
+create or replace function private.check_customer(p_customer_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if p_customer_id is not null and not exists (
+    select 1 from public.customers where id = p_customer_id and user_id = auth.uid()
+  ) then
+    raise exception 'Customer not found.';
+  end if;
+end;
+$$;
+
+drop function if exists public.record_sale(jsonb, date, jsonb);
+drop function if exists public.update_sale(uuid, jsonb, date, jsonb);
+
+create or replace function public.record_sale(
+  p_items jsonb,
+  p_date date default current_date,
+  p_payments jsonb default null,
+  p_customer_id uuid default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  perform private.check_customer(p_customer_id);
+
+  insert into public.sales (user_id, date, customer_id)
+  values (auth.uid(), coalesce(p_date, current_date), p_customer_id)
+  returning * into v_sale;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.apply_sale_items(v_sale.id, p_items);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+  perform private.apply_sale_credit(v_sale.id);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_date date,
+  p_payments jsonb default null,
+  p_customer_id uuid default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  perform private.check_customer(p_customer_id);
+
+  if v_sale.amount_repaid > 0 and p_customer_id is distinct from v_sale.customer_id then
+    raise exception 'This sale has repayments against it, so its customer cannot change.';
+  end if;
+
+  update public.sales
+  set date = coalesce(p_date, v_sale.date),
+      customer_id = p_customer_id
+  where id = v_sale.id;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.restock_sale_items(v_sale.id);
+  perform private.apply_sale_items(v_sale.id, p_items);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+  perform private.apply_sale_credit(v_sale.id);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+create or replace function public.delete_sale(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  if v_sale.amount_repaid > 0 then
+    raise exception 'This sale has repayments against it and cannot be deleted.';
+  end if;
+
+  perform private.lock_sale_products(p_sale_id, null);
+  perform private.restock_sale_items(p_sale_id);
+
+  delete from public.sales where id = p_sale_id;
+end;
+$$;
+
+-- Records money received from a customer against their credit sales and
+-- allocates it to the oldest unpaid sales first. A repayment cannot exceed
+-- what the customer owes.
+create or replace function public.record_repayment(
+  p_customer_id uuid,
+  p_amount numeric,
+  p_method public.payment_method default 'cash',
+  p_reference text default null,
+  p_date date default current_date,
+  p_note text default null
+)
+returns public.credit_repayments
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_repayment public.credit_repayments;
+  v_owed numeric(12, 2);
+  v_left numeric(12, 2) := p_amount;
+  v_sale record;
+  v_applied numeric(12, 2);
+begin
+  if coalesce(p_amount, 0) <= 0 then
+    raise exception 'Repayment amount must be positive.';
+  end if;
+
+  perform 1
+  from public.customers
+  where id = p_customer_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Customer not found.';
+  end if;
+
+  perform 1
+  from public.sales
+  where customer_id = p_customer_id and amount_due > amount_repaid
+  order by id
+  for update;
+
+  select coalesce(sum(amount_due - amount_repaid), 0) into v_owed
+  from public.sales
+  where customer_id = p_customer_id;
+
+  if p_amount > v_owed then
+    raise exception 'Repayment of % is more than the % owed.', p_amount, v_owed;
+  end if;
+
+  insert into public.credit_repayments (user_id, customer_id, date, amount, method, reference, note)
+  values (
+    auth.uid(),
+    p_customer_id,
+    coalesce(p_date, current_date),
+    p_amount,
+    coalesce(p_method, 'cash'),
+    nullif(upper(trim(p_reference)), ''),
+    nullif(trim(p_note), '')
+  )
+  returning * into v_repayment;
+
+  for v_sale in
+    select id, amount_due - amount_repaid as open
+    from public.sales
+    where customer_id = p_customer_id and amount_due > amount_repaid
+    order by date, created_at
+  loop
+    exit when v_left <= 0;
+    v_applied := least(v_left, v_sale.open);
+
+    insert into public.credit_allocations (user_id, repayment_id, sale_id, amount)
+    values (auth.uid(), v_repayment.id, v_sale.id, v_applied);
+
+    update public.sales set amount_repaid = amount_repaid + v_applied where id = v_sale.id;
+    v_left := v_left - v_applied;
+  end loop;
+
+  return v_repayment;
+end;
+$$;
+
+grant execute on function public.record_sale(jsonb, date, jsonb, uuid) to authenticated;
+grant execute on function public.update_sale(uuid, jsonb, date, jsonb, uuid) to authenticated;
+grant execute on function public.record_repayment(uuid, numeric, public.payment_method, text, date, text)
+  to authenticated;
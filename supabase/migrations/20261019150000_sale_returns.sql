@@ -0,0 +1,241 @@
+-- Returns and refunds. A return takes back some quantity of one or more lines
+-- of a sale, refunds it by a chosen method and either puts the goods back in
+-- stock or writes them off. The sale itself is left untouched; reports net
+-- the returns out.
+
+create table public.sale_returns (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  date date not null default current_date,
+  reason text not null check (length(trim(reason)) > 0),
+  -- "credit" takes the refund off what the customer owes on the sale.
+  refund_method public.payment_method not null,
+  refund_amount numeric(12, 2) not null default 0,
+  -- Profit the sale no longer makes: the refund, less the cost of any goods
+  -- that went back into stock.
+  profit_reversed numeric(12, 2) not null default 0,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index sale_returns_sale_id_idx on public.sale_returns (sale_id);
+create index sale_returns_user_id_idx on public.sale_returns (user_id);
+
+create table public.sale_return_items (
+  id uuid primary key default gen_random_uuid(),
+  return_id uuid not null references public.sale_returns (id) on delete cascade,
+  sale_item_id uuid not null references public.sale_items (id) on delete restrict,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  -- false: damaged or otherwise written off.
+  restock boolean not null,
+  refund_amount numeric(12, 2) not null,
+  profit_reversed numeric(12, 2) not null
+);
+
+create index sale_return_items_return_id_idx on public.sale_return_items (return_id);
+create index sale_return_items_sale_item_id_idx on public.sale_return_items (sale_item_id);
+
+alter table public.sale_returns enable row level security;
+alter table public.sale_return_items enable row level security;
+
+create policy "Users can read their own sale returns"
+  on public.sale_returns for select
+  using (user_id = auth.uid());
+create policy "Users can add their own sale returns"
+  on public.sale_returns for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own sale returns"
+  on public.sale_returns for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own sale returns"
+  on public.sale_returns for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read their own sale return items"
+  on public.sale_return_items for select
+  using (user_id = auth.uid());
+create policy "Users can add their own sale return items"
+  on public.sale_return_items for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own sale return items"
+  on public.sale_return_items for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own sale return items"
+  on public.sale_return_items for delete
+  using (user_id = auth.uid());
+
+alter table public.sale_returns replica identity full;
+alter publication supabase_realtime add table public.sale_returns;
+
+-- Editing or deleting a sale rewrites its lines, which would lose the
+-- returns recorded against them (and restock returned goods twice).
+create or replace function private.restock_sale_items(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if exists (select 1 from public.sale_returns where sale_id = p_sale_id) then
+    raise exception 'This sale has returns recorded against it and can no longer be edited or deleted.';
+  end if;
+
+  -- Products deleted since the sale are skipped; their lines still go.
+  update public.inventory i
+  set stock_quantity = i.stock_quantity + lines.quantity
+  from (
+    select product_id, sum(quantity) as quantity
+    from public.sale_items
+    where sale_id = p_sale_id and product_id is not null
+    group by product_id
+  ) as lines
+  where i.id = lines.product_id and i.user_id = auth.uid();
+
+  delete from public.sale_items where sale_id = p_sale_id;
+end;
+$$;
+
+-- Records a return against p_sale_id. p_items is a JSON array of
+-- {"sale_item_id": uuid, "quantity": integer, "restock": boolean}; quantities
+-- cannot exceed what is left to return on each line. Refunds are at the price
+-- the line was sold for.
+create or replace function public.record_return(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_reason text,
+  p_refund_method public.payment_method default 'cash',
+  p_date date default current_date,
+  p_note text default null
+)
+returns public.sale_returns
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_return public.sale_returns;
+  v_line record;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'Give a reason for the return.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Choose at least one item to return.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::integer, 0) <= 0
+  ) then
+    raise exception 'Return quantities must be positive.';
+  end if;
+
+  perform private.lock_sale_products(p_sale_id, null);
+
+  insert into public.sale_returns (sale_id, user_id, date, reason, refund_method, note)
+  values (
+    p_sale_id,
+    auth.uid(),
+    coalesce(p_date, current_date),
+    trim(p_reason),
+    coalesce(p_refund_method, 'cash'),
+    nullif(trim(p_note), '')
+  )
+  returning * into v_return;
+
+  for v_line in
+    select
+      si.id,
+      si.product_id,
+      si.product_name,
+      si.unit_price,
+      si.unit_cost,
+      si.quantity - coalesce((
+        select sum(ri.quantity) from public.sale_return_items ri where ri.sale_item_id = si.id
+      ), 0) as returnable,
+      req.quantity,
+      req.restock
+    from (
+      select
+        (e ->> 'sale_item_id')::uuid as sale_item_id,
+        sum((e ->> 'quantity')::integer) as quantity,
+        bool_or(coalesce((e ->> 'restock')::boolean, true)) as restock
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.sale_items si on si.id = req.sale_item_id and si.sale_id = p_sale_id
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this sale.';
+    end if;
+
+    if v_line.quantity > v_line.returnable then
+      raise exception 'Only % of % can still be returned.', v_line.returnable, v_line.product_name;
+    end if;
+
+    insert into public.sale_return_items (
+      return_id, sale_item_id, user_id, quantity, restock, refund_amount, profit_reversed
+    )
+    values (
+      v_return.id,
+      v_line.id,
+      auth.uid(),
+      v_line.quantity,
+      v_line.restock,
+      v_line.unit_price * v_line.quantity,
+      case
+        when v_line.restock then (v_line.unit_price - v_line.unit_cost) * v_line.quantity
+        else v_line.unit_price * v_line.quantity
+      end
+    );
+
+    if v_line.restock and v_line.product_id is not null then
+      update public.inventory
+      set stock_quantity = stock_quantity + v_line.quantity
+      where id = v_line.product_id and user_id = auth.uid();
+    end if;
+  end loop;
+
+  update public.sale_returns
+  set refund_amount = totals.refund_amount,
+      profit_reversed = totals.profit_reversed
+  from (
+    select sum(refund_amount) as refund_amount, sum(profit_reversed) as profit_reversed
+    from public.sale_return_items
+    where return_id = v_return.id
+  ) as totals
+  where id = v_return.id
+  returning * into v_return;
+
+  if v_return.refund_method = 'credit' then
+    if v_return.refund_amount > v_sale.amount_due - v_sale.amount_repaid then
+      raise exception 'The customer only owes % on this sale; refund the rest another way.',
+        v_sale.amount_due - v_sale.amount_repaid;
+    end if;
+
+    update public.sales
+    set amount_due = amount_due - v_return.refund_amount
+    where id = p_sale_id;
+  end if;
+
+  return v_return;
+end;
+$$;
+
+grant execute on function public.record_return(uuid, jsonb, text, public.payment_method, date, text)
+  to authenticated;
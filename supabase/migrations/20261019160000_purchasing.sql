@@ -0,0 +1,402 @@
+-- Suppliers and purchase orders. Stock comes in by receiving a purchase
+-- order, in one go or over several deliveries; each receipt adds to
+-- inventory.stock_quantity and sets the product's cost to what was paid.
+
+create table public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  phone text,
+  email text,
+  -- Typical days from ordering to delivery.
+  lead_time_days integer not null default 7 check (lead_time_days >= 0),
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index suppliers_user_id_idx on public.suppliers (user_id);
+
+create type public.purchase_order_status as enum ('open', 'received', 'cancelled');
+
+create table public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  -- Human-friendly PO number shown as PO-00042.
+  number integer generated by default as identity,
+  supplier_id uuid not null references public.suppliers (id) on delete restrict,
+  status public.purchase_order_status not null default 'open',
+  order_date date not null default current_date,
+  expected_date date,
+  note text,
+  received_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index purchase_orders_user_id_idx on public.purchase_orders (user_id);
+create index purchase_orders_supplier_id_idx on public.purchase_orders (supplier_id);
+
+create table public.purchase_order_items (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.purchase_orders (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  product_id uuid references public.inventory (id) on delete set null,
+  product_name text not null,
+  quantity_ordered integer not null check (quantity_ordered > 0),
+  quantity_received integer not null default 0,
+  unit_cost numeric(12, 2) not null check (unit_cost >= 0),
+  constraint purchase_order_items_received
+    check (quantity_received >= 0 and quantity_received <= quantity_ordered)
+);
+
+create index purchase_order_items_order_id_idx on public.purchase_order_items (order_id);
+create index purchase_order_items_product_id_idx on public.purchase_order_items (product_id);
+
+alter table public.suppliers enable row level security;
+alter table public.purchase_orders enable row level security;
+alter table public.purchase_order_items enable row level security;
+
+create policy "Users can read their own suppliers"
+  on public.suppliers for select
+  using (user_id = auth.uid());
+create policy "Users can add their own suppliers"
+  on public.suppliers for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own suppliers"
+  on public.suppliers for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own suppliers"
+  on public.suppliers for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read their own purchase orders"
+  on public.purchase_orders for select
+  using (user_id = auth.uid());
+create policy "Users can add their own purchase orders"
+  on public.purchase_orders for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own purchase orders"
+  on public.purchase_orders for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own purchase orders"
+  on public.purchase_orders for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read their own purchase order items"
+  on public.purchase_order_items for select
+  using (user_id = auth.uid());
+create policy "Users can add their own purchase order items"
+  on public.purchase_order_items for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own purchase order items"
+  on public.purchase_order_items for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own purchase order items"
+  on public.purchase_order_items for delete
+  using (user_id = auth.uid());
+
+alter table public.suppliers replica identity full;
+alter table public.purchase_orders replica identity full;
+alter table public.purchase_order_items replica identity full;
+alter publication supabase_realtime
+  add table public.suppliers, public.purchase_orders, public.purchase_order_items;
+
+-- RPCs --------------------------------------------------------------------------
+--
+-- p_items for creating/editing an order is a JSON array of
+-- {"product_id": uuid, "quantity": integer, "unit_cost": number}; unit_cost
+-- defaults to the product's current cost. Lines for the same product merge.
+
+create or replace function private.apply_purchase_order_items(p_order_id uuid, p_items jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A purchase order needs at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::integer, 0) <= 0
+  ) then
+    raise exception 'Quantity must be positive.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where (e ->> 'unit_cost')::numeric < 0
+  ) then
+    raise exception 'Unit cost cannot be negative.';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(p_items) e
+    left join public.inventory i
+      on i.id = (e ->> 'product_id')::uuid and i.user_id = auth.uid()
+    where i.id is null
+  ) then
+    raise exception 'Product not found.';
+  end if;
+
+  delete from public.purchase_order_items where order_id = p_order_id;
+
+  insert into public.purchase_order_items (
+    order_id, user_id, product_id, product_name, quantity_ordered, unit_cost
+  )
+  select
+    p_order_id,
+    auth.uid(),
+    i.id,
+    i.name,
+    lines.quantity,
+    coalesce(lines.unit_cost, i.cost)
+  from (
+    select
+      (e ->> 'product_id')::uuid as product_id,
+      sum((e ->> 'quantity')::integer) as quantity,
+      max((e ->> 'unit_cost')::numeric) as unit_cost
+    from jsonb_array_elements(p_items) e
+    group by 1
+  ) as lines
+  join public.inventory i on i.id = lines.product_id;
+end;
+$$;
+
+-- Raises unless p_supplier_id is one of the caller's suppliers.
+create or replace function private.check_supplier(p_supplier_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.suppliers where id = p_supplier_id and user_id = auth.uid()
+  ) then
+    raise exception 'Supplier not found.';
+  end if;
+end;
+$$;
+
+create or replace function public.create_purchase_order(
+  p_supplier_id uuid,
+  p_items jsonb,
+  p_order_date date default current_date,
+  p_expected_date date default null,
+  p_note text default null
+)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+begin
+  perform private.check_supplier(p_supplier_id);
+
+  insert into public.purchase_orders (user_id, supplier_id, order_date, expected_date, note)
+  values (
+    auth.uid(),
+    p_supplier_id,
+    coalesce(p_order_date, current_date),
+    p_expected_date,
+    nullif(trim(p_note), '')
+  )
+  returning * into v_order;
+
+  perform private.apply_purchase_order_items(v_order.id, p_items);
+
+  return v_order;
+end;
+$$;
+
+-- Only orders with nothing received yet can be edited.
+create or replace function public.update_purchase_order(
+  p_order_id uuid,
+  p_supplier_id uuid,
+  p_items jsonb,
+  p_order_date date,
+  p_expected_date date default null,
+  p_note text default null
+)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+begin
+  select * into v_order
+  from public.purchase_orders
+  where id = p_order_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Purchase order not found.';
+  end if;
+
+  if v_order.status <> 'open' then
+    raise exception 'Only open purchase orders can be edited.';
+  end if;
+
+  if exists (
+    select 1 from public.purchase_order_items
+    where order_id = p_order_id and quantity_received > 0
+  ) then
+    raise exception 'Stock has already been received on this order, so it can no longer be edited.';
+  end if;
+
+  perform private.check_supplier(p_supplier_id);
+  perform private.apply_purchase_order_items(p_order_id, p_items);
+
+  update public.purchase_orders
+  set supplier_id = p_supplier_id,
+      order_date = coalesce(p_order_date, v_order.order_date),
+      expected_date = p_expected_date,
+      note = nullif(trim(p_note), '')
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+-- Cancels whatever is still outstanding; anything already received stays in
+-- stock.
+create or replace function public.cancel_purchase_order(p_order_id uuid)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+begin
+  update public.purchase_orders
+  set status = 'cancelled'
+  where id = p_order_id and user_id = auth.uid() and status = 'open'
+  returning * into v_order;
+
+  if not found then
+    raise exception 'Only open purchase orders can be cancelled.';
+  end if;
+
+  return v_order;
+end;
+$$;
+
+-- Receives a delivery against an open order. p_items is a JSON array of
+-- {"item_id": uuid, "quantity": integer, "unit_cost": number}, where
+-- unit_cost (optional) is what this delivery actually cost. Stock goes up by
+-- the quantity and the product's cost becomes the unit cost. The order is
+-- marked received once every line is complete.
+create or replace function public.receive_purchase_order(p_order_id uuid, p_items jsonb)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_line record;
+begin
+  select * into v_order
+  from public.purchase_orders
+  where id = p_order_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Purchase order not found.';
+  end if;
+
+  if v_order.status <> 'open' then
+    raise exception 'Only open purchase orders can be received.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or not exists (
+    select 1 from jsonb_array_elements(p_items) e where (e ->> 'quantity')::integer > 0
+  ) then
+    raise exception 'Enter a quantity received for at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where (e ->> 'quantity')::integer < 0 or (e ->> 'unit_cost')::numeric < 0
+  ) then
+    raise exception 'Quantities and costs cannot be negative.';
+  end if;
+
+  perform 1
+  from public.inventory
+  where user_id = auth.uid()
+    and id in (select product_id from public.purchase_order_items where order_id = p_order_id)
+  order by id
+  for update;
+
+  for v_line in
+    select
+      poi.id,
+      poi.product_id,
+      poi.product_name,
+      poi.quantity_ordered - poi.quantity_received as outstanding,
+      req.quantity,
+      coalesce(req.unit_cost, poi.unit_cost) as unit_cost
+    from (
+      select
+        (e ->> 'item_id')::uuid as item_id,
+        sum((e ->> 'quantity')::integer) as quantity,
+        max((e ->> 'unit_cost')::numeric) as unit_cost
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.purchase_order_items poi
+      on poi.id = req.item_id and poi.order_id = p_order_id
+    where req.quantity > 0
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this purchase order.';
+    end if;
+
+    if v_line.quantity > v_line.outstanding then
+      raise exception 'Only % more of % are on order.', v_line.outstanding, v_line.product_name;
+    end if;
+
+    update public.purchase_order_items
+    set quantity_received = quantity_received + v_line.quantity,
+        unit_cost = v_line.unit_cost
+    where id = v_line.id;
+
+    -- Products deleted since the order was placed are skipped.
+    update public.inventory
+    set stock_quantity = stock_quantity + v_line.quantity,
+        cost = v_line.unit_cost
+    where id = v_line.product_id and user_id = auth.uid();
+  end loop;
+
+  if not exists (
+    select 1 from public.purchase_order_items
+    where order_id = p_order_id and quantity_received < quantity_ordered
+  ) then
+    update public.purchase_orders
+    set status = 'received', received_at = now()
+    where id = p_order_id;
+  end if;
+
+  select * into v_order from public.purchase_orders where id = p_order_id;
+  return v_order;
+end;
+$$;
+
+grant execute on function public.create_purchase_order(uuid, jsonb, date, date, text) to authenticated;
+grant execute on function public.update_purchase_order(uuid, uuid, jsonb, date, date, text)
+  to authenticated;
+grant execute on function public.cancel_purchase_order(uuid) to authenticated;
+grant execute on function public.receive_purchase_order(uuid, jsonb) to authenticated;
@@ -0,0 +1,8 @@
+-- Each product can name the supplier it is normally bought from, so the
+-- reorder planner can group its suggestions into one purchase order per
+-- supplier and use that supplier's lead time.
+
+alter table public.inventory
+  add column supplier_id uuid references public.suppliers (id) on delete set null;
+
+create index inventory_supplier_id_idx on public.inventory (supplier_id);
@@ -0,0 +1,469 @@
+-- Stock movements: an append-only ledger of every change to
+-- inventory.stock_quantity. A trigger on inventory writes one row per change
+-- with the delta and the resulting balance, so the ledger always reconciles
+-- with the stock level. The RPCs that move stock say why by calling
+-- private.set_stock_movement first; any other change (editing a product's
+-- stock by hand) is recorded as a manual adjustment.
+
+create type public.stock_movement_type as enum (
+  'opening',
+  'sale',
+  'sale_reversal',
+  'return',
+  'purchase_receipt',
+  'adjustment',
+  'stock_take',
+  'transfer'
+);
+
+create table public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  product_id uuid not null references public.inventory (id) on delete cascade,
+  movement_type public.stock_movement_type not null,
+  -- Change to stock_quantity: positive in, negative out.
+  quantity integer not null check (quantity <> 0),
+  -- stock_quantity after this movement.
+  balance integer not null,
+  -- The sale, return or purchase order behind the movement, if any.
+  reference_id uuid,
+  note text,
+  -- Who made the change; null for changes made outside a signed-in session.
+  performed_by uuid references auth.users (id) on delete set null,
+  -- Kept alongside the id because clients cannot read auth.users.
+  performed_by_email text,
+  created_at timestamptz not null default now()
+);
+
+create index stock_movements_product_id_idx on public.stock_movements (product_id, created_at);
+create index stock_movements_user_id_idx on public.stock_movements (user_id);
+
+-- Append-only: users can read their movements but only the trigger below
+-- writes them.
+alter table public.stock_movements enable row level security;
+
+create policy "Users can read their own stock movements"
+  on public.stock_movements for select
+  using (user_id = auth.uid());
+
+revoke insert, update, delete on public.stock_movements from anon, authenticated;
+
+alter table public.stock_movements replica identity full;
+alter publication supabase_realtime add table public.stock_movements;
+
+-- Tags the stock changes made by the rest of the current transaction.
+create or replace function private.set_stock_movement(
+  p_type public.stock_movement_type,
+  p_reference_id uuid default null,
+  p_note text default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform set_config('app.movement_type', p_type::text, true);
+  perform set_config('app.movement_reference', coalesce(p_reference_id::text, ''), true);
+  perform set_config('app.movement_note', coalesce(p_note, ''), true);
+end;
+$$;
+
+-- Security definer so that it can write to stock_movements, which users
+-- cannot.
+create or replace function private.record_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delta integer;
+begin
+  v_delta := new.stock_quantity - case when tg_op = 'INSERT' then 0 else old.stock_quantity end;
+  if v_delta = 0 then
+    return new;
+  end if;
+
+  insert into public.stock_movements (
+    user_id, product_id, movement_type, quantity, balance, reference_id, note, performed_by,
+    performed_by_email
+  )
+  values (
+    new.user_id,
+    new.id,
+    case
+      when tg_op = 'INSERT' then 'opening'
+      else coalesce(nullif(current_setting('app.movement_type', true), ''), 'adjustment')
+    end::public.stock_movement_type,
+    v_delta,
+    new.stock_quantity,
+    nullif(current_setting('app.movement_reference', true), '')::uuid,
+    nullif(current_setting('app.movement_note', true), ''),
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  );
+  return new;
+end;
+$$;
+
+create trigger inventory_stock_movement
+  after insert or update of stock_quantity on public.inventory
+  for each row execute function private.record_stock_movement();
+
+-- Existing stock becomes each product's opening balance.
+insert into public.stock_movements (user_id, product_id, movement_type, quantity, balance, created_at)
+select user_id, id, 'opening', stock_quantity, stock_quantity, created_at
+from public.inventory
+where stock_quantity <> 0;
+
+-- The stock-moving helpers and RPCs, now tagging their movements.
+
+-- Adds p_items to a sale: validates and decrements stock for every line, then
+-- recomputes the sale's totals. Callers must already hold the product locks.
+create or replace function private.apply_sale_items(p_sale_id uuid, p_items jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_line record;
+  v_product public.inventory;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::integer, 0) <= 0
+  ) then
+    raise exception 'Quantity must be positive.';
+  end if;
+
+  perform private.set_stock_movement('sale', p_sale_id);
+
+  for v_line in
+    select (e ->> 'product_id')::uuid as product_id, sum((e ->> 'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items) e
+    group by 1
+  loop
+    select * into v_product
+    from public.inventory
+    where id = v_line.product_id and user_id = auth.uid();
+
+    if not found then
+      raise exception 'Product not found.';
+    end if;
+
+    if v_product.stock_quantity < v_line.quantity then
+      raise exception 'Not enough stock for %: % available, % requested.',
+        v_product.name, v_product.stock_quantity, v_line.quantity;
+    end if;
+
+    insert into public.sale_items (
+      sale_id, user_id, product_id, product_name, quantity, unit_price, unit_cost, line_total, profit
+    )
+    values (
+      p_sale_id,
+      auth.uid(),
+      v_product.id,
+      v_product.name,
+      v_line.quantity,
+      v_product.price,
+      v_product.cost,
+      v_product.price * v_line.quantity,
+      (v_product.price - v_product.cost) * v_line.quantity
+    );
+
+    update public.inventory
+    set stock_quantity = stock_quantity - v_line.quantity
+    where id = v_product.id;
+  end loop;
+
+  update public.sales
+  set total_amount = totals.total_amount,
+      profit = totals.profit
+  from (
+    select coalesce(sum(line_total), 0) as total_amount, coalesce(sum(profit), 0) as profit
+    from public.sale_items
+    where sale_id = p_sale_id
+  ) as totals
+  where id = p_sale_id;
+end;
+$$;
+
+-- Editing or deleting a sale rewrites its lines, which would lose the
+-- returns recorded against them (and restock returned goods twice).
+create or replace function private.restock_sale_items(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if exists (select 1 from public.sale_returns where sale_id = p_sale_id) then
+    raise exception 'This sale has returns recorded against it and can no longer be edited or deleted.';
+  end if;
+
+  perform private.set_stock_movement('sale_reversal', p_sale_id);
+
+  -- Products deleted since the sale are skipped; their lines still go.
+  update public.inventory i
+  set stock_quantity = i.stock_quantity + lines.quantity
+  from (
+    select product_id, sum(quantity) as quantity
+    from public.sale_items
+    where sale_id = p_sale_id and product_id is not null
+    group by product_id
+  ) as lines
+  where i.id = lines.product_id and i.user_id = auth.uid();
+
+  delete from public.sale_items where sale_id = p_sale_id;
+end;
+$$;
+
+-- Records a return against p_sale_id. p_items is a JSON array of
+-- {"sale_item_id": uuid, "quantity": integer, "restock": boolean}; quantities
+-- cannot exceed what is left to return on each line. Refunds are at the price
+-- the line was sold for.
+create or replace function public.record_return(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_reason text,
+  p_refund_method public.payment_method default 'cash',
+  p_date date default current_date,
+  p_note text default null
+)
+returns public.sale_returns
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_return public.sale_returns;
+  v_line record;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'Give a reason for the return.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Choose at least one item to return.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::integer, 0) <= 0
+  ) then
+    raise exception 'Return quantities must be positive.';
+  end if;
+
+  perform private.lock_sale_products(p_sale_id, null);
+
+  insert into public.sale_returns (sale_id, user_id, date, reason, refund_method, note)
+  values (
+    p_sale_id,
+    auth.uid(),
+    coalesce(p_date, current_date),
+    trim(p_reason),
+    coalesce(p_refund_method, 'cash'),
+    nullif(trim(p_note), '')
+  )
+  returning * into v_return;
+
+  perform private.set_stock_movement('return', v_return.id);
+
+  for v_line in
+    select
+      si.id,
+      si.product_id,
+      si.product_name,
+      si.unit_price,
+      si.unit_cost,
+      si.quantity - coalesce((
+        select sum(ri.quantity) from public.sale_return_items ri where ri.sale_item_id = si.id
+      ), 0) as returnable,
+      req.quantity,
+      req.restock
+    from (
+      select
+        (e ->> 'sale_item_id')::uuid as sale_item_id,
+        sum((e ->> 'quantity')::integer) as quantity,
+        bool_or(coalesce((e ->> 'restock')::boolean, true)) as restock
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.sale_items si on si.id = req.sale_item_id and si.sale_id = p_sale_id
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this sale.';
+    end if;
+
+    if v_line.quantity > v_line.returnable then
+      raise exception 'Only % of % can still be returned.', v_line.returnable, v_line.product_name;
+    end if;
+
+    insert into public.sale_return_items (
+      return_id, sale_item_id, user_id, quantity, restock, refund_amount, profit_reversed
+    )
+    values (
+      v_return.id,
+      v_line.id,
+      auth.uid(),
+      v_line.quantity,
+      v_line.restock,
+      v_line.unit_price * v_line.quantity,
+      case
+        when v_line.restock then (v_line.unit_price - v_line.unit_cost) * v_line.quantity
+        else v_line.unit_price * v_line.quantity
+      end
+    );
+
+    if v_line.restock and v_line.product_id is not null then
+      update public.inventory
+      set stock_quantity = stock_quantity + v_line.quantity
+      where id = v_line.product_id and user_id = auth.uid();
+    end if;
+  end loop;
+
+  update public.sale_returns
+  set refund_amount = totals.refund_amount,
+      profit_reversed = totals.profit_reversed
+  from (
+    select sum(refund_amount) as refund_amount, sum(profit_reversed) as profit_reversed
+    from public.sale_return_items
+    where return_id = v_return.id
+  ) as totals
+  where id = v_return.id
+  returning * into v_return;
+
+  if v_return.refund_method = 'credit' then
+    if v_return.refund_amount > v_sale.amount_due - v_sale.amount_repaid then
+      raise exception 'The customer only owes % on this sale; refund the rest another way.',
+        v_sale.amount_due - v_sale.amount_repaid;
+    end if;
+
+    update public.sales
+    set amount_due = amount_due - v_return.refund_amount
+    where id = p_sale_id;
+  end if;
+
+  return v_return;
+end;
+$$;
+
+-- Receives a delivery against an open order. p_items is a JSON array of
+-- {"item_id": uuid, "quantity": integer, "unit_cost": number}, where
+-- unit_cost (optional) is what this delivery actually cost. Stock goes up by
+-- the quantity and the product's cost becomes the unit cost. The order is
+-- marked received once every line is complete.
+create or replace function public.receive_purchase_order(p_order_id uuid, p_items jsonb)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_line record;
+begin
+  select * into v_order
+  from public.purchase_orders
+  where id = p_order_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Purchase order not found.';
+  end if;
+
+  if v_order.status <> 'open' then
+    raise exception 'Only open purchase orders can be received.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or not exists (
+    select 1 from jsonb_array_elements(p_items) e where (e ->> 'quantity')::integer > 0
+  ) then
+    raise exception 'Enter a quantity received for at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where (e ->> 'quantity')::integer < 0 or (e ->> 'unit_cost')::numeric < 0
+  ) then
+    raise exception 'Quantities and costs cannot be negative.';
+  end if;
+
+  perform 1
+  from public.inventory
+  where user_id = auth.uid()
+    and id in (select product_id from public.purchase_order_items where order_id = p_order_id)
+  order by id
+  for update;
+
+  perform private.set_stock_movement('purchase_receipt', p_order_id);
+
+  for v_line in
+    select
+      poi.id,
+      poi.product_id,
+      poi.product_name,
+      poi.quantity_ordered - poi.quantity_received as outstanding,
+      req.quantity,
+      coalesce(req.unit_cost, poi.unit_cost) as unit_cost
+    from (
+      select
+        (e ->> 'item_id')::uuid as item_id,
+        sum((e ->> 'quantity')::integer) as quantity,
+        max((e ->> 'unit_cost')::numeric) as unit_cost
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.purchase_order_items poi
+      on poi.id = req.item_id and poi.order_id = p_order_id
+    where req.quantity > 0
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this purchase order.';
+    end if;
+
+    if v_line.quantity > v_line.outstanding then
+      raise exception 'Only % more of % are on order.', v_line.outstanding, v_line.product_name;
+    end if;
+
+    update public.purchase_order_items
+    set quantity_received = quantity_received + v_line.quantity,
+        unit_cost = v_line.unit_cost
+    where id = v_line.id;
+
+    -- Products deleted since the order was placed are skipped.
+    update public.inventory
+    set stock_quantity = stock_quantity + v_line.quantity,
+        cost = v_line.unit_cost
+    where id = v_line.product_id and user_id = auth.uid();
+  end loop;
+
+  if not exists (
+    select 1 from public.purchase_order_items
+    where order_id = p_order_id and quantity_received < quantity_ordered
+  ) then
+    update public.purchase_orders
+    set status = 'received', received_at = now()
+    where id = p_order_id;
+  end if;
+
+  select * into v_order from public.purchase_orders where id = p_order_id;
+  return v_order;
+end;
+$$;
@@ -0,0 +1,134 @@
+-- Manual stock adjustments. Stock can no longer be overwritten by updating
+-- inventory.stock_quantity directly: every change has to come through an RPC
+-- that tags it (see private.set_stock_movement), and by-hand changes go
+-- through adjust_stock with a reason code.
+
+create type public.stock_adjustment_reason as enum (
+  'damaged',
+  'expired',
+  'theft',
+  'found',
+  'gift',
+  'internal_use'
+);
+
+alter table public.stock_movements
+  add column reason public.stock_adjustment_reason;
+
+-- Adds p_reason; callers passing two or three arguments are unaffected.
+drop function if exists private.set_stock_movement(public.stock_movement_type, uuid, text);
+
+create or replace function private.set_stock_movement(
+  p_type public.stock_movement_type,
+  p_reference_id uuid default null,
+  p_note text default null,
+  p_reason public.stock_adjustment_reason default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform set_config('app.movement_type', p_type::text, true);
+  perform set_config('app.movement_reference', coalesce(p_reference_id::text, ''), true);
+  perform set_config('app.movement_note', coalesce(p_note, ''), true);
+  perform set_config('app.movement_reason', coalesce(p_reason::text, ''), true);
+end;
+$$;
+
+-- Untagged updates to stock_quantity are now rejected rather than recorded
+-- as adjustments.
+create or replace function private.record_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delta integer;
+  v_type text := nullif(current_setting('app.movement_type', true), '');
+begin
+  v_delta := new.stock_quantity - case when tg_op = 'INSERT' then 0 else old.stock_quantity end;
+  if v_delta = 0 then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and v_type is null then
+    raise exception 'Stock levels can only be changed with a stock adjustment.';
+  end if;
+
+  insert into public.stock_movements (
+    user_id, product_id, movement_type, quantity, balance, reference_id, note, reason,
+    performed_by, performed_by_email
+  )
+  values (
+    new.user_id,
+    new.id,
+    case when tg_op = 'INSERT' then 'opening' else v_type end::public.stock_movement_type,
+    v_delta,
+    new.stock_quantity,
+    nullif(current_setting('app.movement_reference', true), '')::uuid,
+    nullif(current_setting('app.movement_note', true), ''),
+    nullif(current_setting('app.movement_reason', true), '')::public.stock_adjustment_reason,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  );
+  return new;
+end;
+$$;
+
+-- Moves p_product_id's stock by p_quantity (negative to take stock out) for
+-- p_reason. "found" is the only reason that adds stock.
+create or replace function public.adjust_stock(
+  p_product_id uuid,
+  p_quantity integer,
+  p_reason public.stock_adjustment_reason,
+  p_note text default null
+)
+returns public.inventory
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_product public.inventory;
+begin
+  select * into v_product
+  from public.inventory
+  where id = p_product_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Product not found.';
+  end if;
+
+  if p_reason is null then
+    raise exception 'Choose a reason for the adjustment.';
+  end if;
+
+  if coalesce(p_quantity, 0) = 0 then
+    raise exception 'Enter a quantity to adjust by.';
+  end if;
+
+  if (p_reason = 'found') <> (p_quantity > 0) then
+    raise exception 'Only found stock can be added; other reasons take stock out.';
+  end if;
+
+  if v_product.stock_quantity + p_quantity < 0 then
+    raise exception 'Only % of % in stock.', v_product.stock_quantity, v_product.name;
+  end if;
+
+  perform private.set_stock_movement('adjustment', null, nullif(trim(p_note), ''), p_reason);
+
+  update public.inventory
+  set stock_quantity = stock_quantity + p_quantity
+  where id = p_product_id
+  returning * into v_product;
+
+  return v_product;
+end;
+$$;
+
+grant execute on function public.adjust_stock(uuid, integer, public.stock_adjustment_reason, text)
+  to authenticated;
@@ -0,0 +1,246 @@
+-- Stock-takes (physical counts). Starting one snapshots the expected quantity
+-- and cost of every product, or of one category. Counts can then be entered
+-- over several sittings and from several devices. Approving posts a
+-- stock_take movement for every counted line whose count differs from the
+-- snapshot. The lines are kept as the variance report.
+
+create type public.stock_take_status as enum ('counting', 'approved', 'cancelled');
+
+create table public.stock_takes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  -- Shown as ST-0007.
+  number integer generated by default as identity,
+  -- Null for a full count.
+  category text,
+  status public.stock_take_status not null default 'counting',
+  note text,
+  started_at timestamptz not null default now(),
+  approved_at timestamptz,
+  approved_by_email text
+);
+
+create index stock_takes_user_id_idx on public.stock_takes (user_id);
+
+create table public.stock_take_lines (
+  id uuid primary key default gen_random_uuid(),
+  stock_take_id uuid not null references public.stock_takes (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  product_id uuid references public.inventory (id) on delete set null,
+  product_name text not null,
+  category text not null,
+  -- Snapshot taken when the stock-take started.
+  expected_quantity integer not null,
+  unit_cost numeric(12, 2) not null,
+  -- Null until counted.
+  counted_quantity integer check (counted_quantity >= 0),
+  counted_at timestamptz,
+  counted_by_email text,
+  unique (stock_take_id, product_id)
+);
+
+create index stock_take_lines_stock_take_id_idx on public.stock_take_lines (stock_take_id);
+
+alter table public.stock_takes enable row level security;
+alter table public.stock_take_lines enable row level security;
+
+create policy "Users can read their own stock takes"
+  on public.stock_takes for select
+  using (user_id = auth.uid());
+create policy "Users can add their own stock takes"
+  on public.stock_takes for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own stock takes"
+  on public.stock_takes for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own stock takes"
+  on public.stock_takes for delete
+  using (user_id = auth.uid());
+
+create policy "Users can read their own stock take lines"
+  on public.stock_take_lines for select
+  using (user_id = auth.uid());
+create policy "Users can add their own stock take lines"
+  on public.stock_take_lines for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own stock take lines"
+  on public.stock_take_lines for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own stock take lines"
+  on public.stock_take_lines for delete
+  using (user_id = auth.uid());
+
+alter table public.stock_takes replica identity full;
+alter table public.stock_take_lines replica identity full;
+alter publication supabase_realtime add table public.stock_takes, public.stock_take_lines;
+
+-- RPCs --------------------------------------------------------------------------
+
+-- Starts a count of every product, or only those in p_category.
+create or replace function public.start_stock_take(
+  p_category text default null,
+  p_note text default null
+)
+returns public.stock_takes
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_take public.stock_takes;
+begin
+  if not exists (
+    select 1 from public.inventory
+    where user_id = auth.uid() and (p_category is null or category = p_category)
+  ) then
+    raise exception 'There are no products to count.';
+  end if;
+
+  insert into public.stock_takes (user_id, category, note)
+  values (auth.uid(), nullif(trim(p_category), ''), nullif(trim(p_note), ''))
+  returning * into v_take;
+
+  insert into public.stock_take_lines (
+    stock_take_id, user_id, product_id, product_name, category, expected_quantity, unit_cost
+  )
+  select v_take.id, auth.uid(), id, name, category, stock_quantity, cost
+  from public.inventory
+  where user_id = auth.uid() and (v_take.category is null or category = v_take.category);
+
+  return v_take;
+end;
+$$;
+
+-- Saves counts. p_counts is a JSON array of
+-- {"line_id": uuid, "counted_quantity": integer | null}; null clears a count.
+create or replace function public.record_stock_counts(p_stock_take_id uuid, p_counts jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.stock_takes
+    where id = p_stock_take_id and user_id = auth.uid() and status = 'counting'
+  ) then
+    raise exception 'This stock-take is no longer open for counting.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_counts) e
+    where (e ->> 'counted_quantity')::integer < 0
+  ) then
+    raise exception 'Counts cannot be negative.';
+  end if;
+
+  update public.stock_take_lines l
+  set counted_quantity = (c.value ->> 'counted_quantity')::integer,
+      counted_at = case when c.value ->> 'counted_quantity' is null then null else now() end,
+      counted_by_email = case
+        when c.value ->> 'counted_quantity' is null then null
+        else auth.jwt() ->> 'email'
+      end
+  from jsonb_array_elements(p_counts) c
+  where l.id = (c.value ->> 'line_id')::uuid and l.stock_take_id = p_stock_take_id;
+end;
+$$;
+
+-- Posts the variances. Each correction is counted - expected, applied to the
+-- current stock, so sales made since the snapshot still count. Uncounted lines
+-- are left alone.
+create or replace function public.approve_stock_take(p_stock_take_id uuid)
+returns public.stock_takes
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_take public.stock_takes;
+  v_line record;
+begin
+  select * into v_take
+  from public.stock_takes
+  where id = p_stock_take_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Stock-take not found.';
+  end if;
+
+  if v_take.status <> 'counting' then
+    raise exception 'This stock-take has already been %.', v_take.status;
+  end if;
+
+  if not exists (
+    select 1 from public.stock_take_lines
+    where stock_take_id = p_stock_take_id and counted_quantity is not null
+  ) then
+    raise exception 'Count at least one product before approving.';
+  end if;
+
+  perform 1
+  from public.inventory
+  where user_id = auth.uid()
+    and id in (select product_id from public.stock_take_lines where stock_take_id = p_stock_take_id)
+  order by id
+  for update;
+
+  perform private.set_stock_movement('stock_take', p_stock_take_id);
+
+  for v_line in
+    select l.product_id, l.product_name, l.counted_quantity - l.expected_quantity as variance,
+      i.stock_quantity
+    from public.stock_take_lines l
+    join public.inventory i on i.id = l.product_id
+    where l.stock_take_id = p_stock_take_id
+      and l.counted_quantity is not null
+      and l.counted_quantity <> l.expected_quantity
+  loop
+    if v_line.stock_quantity + v_line.variance < 0 then
+      raise exception 'Correcting % by % would take stock below zero; recount it.',
+        v_line.product_name, v_line.variance;
+    end if;
+
+    update public.inventory
+    set stock_quantity = stock_quantity + v_line.variance
+    where id = v_line.product_id;
+  end loop;
+
+  update public.stock_takes
+  set status = 'approved', approved_at = now(), approved_by_email = auth.jwt() ->> 'email'
+  where id = p_stock_take_id
+  returning * into v_take;
+
+  return v_take;
+end;
+$$;
+
+create or replace function public.cancel_stock_take(p_stock_take_id uuid)
+returns public.stock_takes
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_take public.stock_takes;
+begin
+  update public.stock_takes
+  set status = 'cancelled'
+  where id = p_stock_take_id and user_id = auth.uid() and status = 'counting'
+  returning * into v_take;
+
+  if not found then
+    raise exception 'Only stock-takes still being counted can be cancelled.';
+  end if;
+
+  return v_take;
+end;
+$$;
+
+grant execute on function public.start_stock_take(text, text) to authenticated;
+grant execute on function public.record_stock_counts(uuid, jsonb) to authenticated;
+grant execute on function public.approve_stock_take(uuid) to authenticated;
+grant execute on function public.cancel_stock_take(uuid) to authenticated;
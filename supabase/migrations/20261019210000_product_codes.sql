@@ -0,0 +1,17 @@
+-- Products can carry the shop's own SKU and the barcode printed on the pack,
+-- so they can be found by typing a code or scanning it. Both are optional
+-- but unique per user; SKUs compare case-insensitively.
+
+alter table public.inventory
+  add column sku text,
+  add column barcode text,
+  add constraint inventory_sku_not_blank check (sku is null or btrim(sku) <> ''),
+  add constraint inventory_barcode_not_blank check (barcode is null or btrim(barcode) <> '');
+
+create unique index inventory_user_sku_key
+  on public.inventory (user_id, lower(sku))
+  where sku is not null;
+
+create unique index inventory_user_barcode_key
+  on public.inventory (user_id, barcode)
+  where barcode is not null;
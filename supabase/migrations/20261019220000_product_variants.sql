@@ -0,0 +1,216 @@
+-- Product variants. A parent product holds what its sizes/colours share
+-- (name, category, price, cost, reorder level, supplier) and its option axes;
+-- each variant is an ordinary inventory row, so stock, sales, purchasing,
+-- stock-takes and the ledger all work per variant unchanged. Variants are
+-- saved together with their parent through save_product_parent.
+
+create table public.product_parents (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  category text not null default '',
+  price numeric(12, 2) not null check (price > 0),
+  cost numeric(12, 2) not null check (cost >= 0),
+  reorder_level integer not null default 5,
+  supplier_id uuid references public.suppliers (id) on delete set null,
+  -- Option axes, e.g. [{"name": "Size", "values": ["S", "M", "L"]}].
+  options jsonb not null default '[]' check (jsonb_typeof(options) = 'array'),
+  created_at timestamptz not null default now()
+);
+
+create index product_parents_user_id_idx on public.product_parents (user_id);
+
+alter table public.inventory
+  add column parent_id uuid references public.product_parents (id) on delete cascade,
+  -- The variant's value on each axis, e.g. {"Size": "M", "Colour": "Red"}.
+  add column option_values jsonb,
+  -- Set when the variant doesn't sell at the parent's price.
+  add column price_override numeric(12, 2) check (price_override > 0);
+
+create index inventory_parent_id_idx on public.inventory (parent_id);
+
+create unique index inventory_parent_options_key
+  on public.inventory (parent_id, option_values)
+  where parent_id is not null;
+
+alter table public.product_parents enable row level security;
+
+create policy "Users can read their own product parents"
+  on public.product_parents for select
+  using (user_id = auth.uid());
+create policy "Users can add their own product parents"
+  on public.product_parents for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own product parents"
+  on public.product_parents for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own product parents"
+  on public.product_parents for delete
+  using (user_id = auth.uid());
+
+alter table public.product_parents replica identity full;
+alter publication supabase_realtime add table public.product_parents;
+
+-- RPCs --------------------------------------------------------------------------
+
+-- "T-Shirt - Red / M": the parent's name and the variant's values in axis order.
+create or replace function private.variant_name(p_name text, p_options jsonb, p_values jsonb)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select p_name || coalesce(' - ' || string_agg(p_values ->> (axis ->> 'name'), ' / ' order by ord), '')
+  from jsonb_array_elements(p_options) with ordinality as axes (axis, ord)
+  where p_values ? (axis ->> 'name');
+$$;
+
+-- Creates (p_parent_id null) or updates a parent product and its variants.
+-- p_parent is {"name", "category", "price", "cost", "reorder_level",
+-- "supplier_id", "options"}. p_variants is a JSON array of
+-- {"id": uuid | null, "option_values": {...}, "price_override": number | null,
+--  "sku": text, "barcode": text, "opening_stock": integer}; variants without
+-- an id are added with their opening stock, and existing variants left out
+-- are deleted. A new parent cost is copied to every variant; after that
+-- receipts keep each variant's own cost.
+create or replace function public.save_product_parent(
+  p_parent_id uuid,
+  p_parent jsonb,
+  p_variants jsonb
+)
+returns public.product_parents
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_old public.product_parents;
+  v_parent public.product_parents;
+  v_variant jsonb;
+  v_values jsonb;
+  v_supplier_id uuid := nullif(p_parent ->> 'supplier_id', '')::uuid;
+begin
+  if coalesce(trim(p_parent ->> 'name'), '') = '' then
+    raise exception 'Product name is required.';
+  end if;
+
+  if coalesce((p_parent ->> 'price')::numeric, 0) <= 0 then
+    raise exception 'Price must be greater than 0.';
+  end if;
+
+  if p_variants is null or jsonb_typeof(p_variants) <> 'array'
+    or jsonb_array_length(p_variants) = 0 then
+    raise exception 'A product needs at least one variant.';
+  end if;
+
+  if (select count(distinct e -> 'option_values') from jsonb_array_elements(p_variants) e)
+    < jsonb_array_length(p_variants) then
+    raise exception 'Each variant needs its own combination of options.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_variants) e
+    where (e ->> 'price_override')::numeric <= 0 or (e ->> 'opening_stock')::integer < 0
+  ) then
+    raise exception 'Variant prices must be positive and opening stock cannot be negative.';
+  end if;
+
+  if v_supplier_id is not null then
+    perform private.check_supplier(v_supplier_id);
+  end if;
+
+  if p_parent_id is null then
+    insert into public.product_parents (
+      user_id, name, category, price, cost, reorder_level, supplier_id, options
+    )
+    values (
+      auth.uid(),
+      trim(p_parent ->> 'name'),
+      coalesce(trim(p_parent ->> 'category'), ''),
+      (p_parent ->> 'price')::numeric,
+      coalesce((p_parent ->> 'cost')::numeric, 0),
+      coalesce((p_parent ->> 'reorder_level')::integer, 5),
+      v_supplier_id,
+      coalesce(p_parent -> 'options', '[]'::jsonb)
+    )
+    returning * into v_parent;
+  else
+    select * into v_old
+    from public.product_parents
+    where id = p_parent_id and user_id = auth.uid()
+    for update;
+
+    if not found then
+      raise exception 'Product not found.';
+    end if;
+
+    update public.product_parents
+    set name = trim(p_parent ->> 'name'),
+        category = coalesce(trim(p_parent ->> 'category'), ''),
+        price = (p_parent ->> 'price')::numeric,
+        cost = coalesce((p_parent ->> 'cost')::numeric, cost),
+        reorder_level = coalesce((p_parent ->> 'reorder_level')::integer, reorder_level),
+        supplier_id = v_supplier_id,
+        options = coalesce(p_parent -> 'options', options)
+    where id = p_parent_id
+    returning * into v_parent;
+  end if;
+
+  -- Removed first, so a new variant can take a removed one's options.
+  delete from public.inventory i
+  where i.parent_id = v_parent.id
+    and not exists (
+      select 1 from jsonb_array_elements(p_variants) e
+      where (e ->> 'id')::uuid = i.id
+    );
+
+  for v_variant in select * from jsonb_array_elements(p_variants)
+  loop
+    v_values := coalesce(v_variant -> 'option_values', '{}'::jsonb);
+
+    if v_variant ->> 'id' is null then
+      insert into public.inventory (
+        user_id, parent_id, option_values, name, category, price, price_override, cost,
+        reorder_level, supplier_id, sku, barcode, stock_quantity
+      )
+      values (
+        auth.uid(),
+        v_parent.id,
+        v_values,
+        private.variant_name(v_parent.name, v_parent.options, v_values),
+        v_parent.category,
+        coalesce((v_variant ->> 'price_override')::numeric, v_parent.price),
+        (v_variant ->> 'price_override')::numeric,
+        v_parent.cost,
+        v_parent.reorder_level,
+        v_parent.supplier_id,
+        nullif(trim(v_variant ->> 'sku'), ''),
+        nullif(trim(v_variant ->> 'barcode'), ''),
+        coalesce((v_variant ->> 'opening_stock')::integer, 0)
+      );
+    else
+      update public.inventory
+      set option_values = v_values,
+          name = private.variant_name(v_parent.name, v_parent.options, v_values),
+          category = v_parent.category,
+          price = coalesce((v_variant ->> 'price_override')::numeric, v_parent.price),
+          price_override = (v_variant ->> 'price_override')::numeric,
+          cost = case when v_old.cost is distinct from v_parent.cost then v_parent.cost else cost end,
+          reorder_level = v_parent.reorder_level,
+          supplier_id = v_parent.supplier_id,
+          sku = nullif(trim(v_variant ->> 'sku'), ''),
+          barcode = nullif(trim(v_variant ->> 'barcode'), '')
+      where id = (v_variant ->> 'id')::uuid and parent_id = v_parent.id;
+
+      if not found then
+        raise exception 'Variant not found.';
+      end if;
+    end if;
+  end loop;
+
+  return v_parent;
+end;
+$$;
+
+grant execute on function public.save_product_parent(uuid, jsonb, jsonb) to authenticated;
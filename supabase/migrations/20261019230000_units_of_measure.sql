@@ -0,0 +1,713 @@
+-- Units of measure. Every product has a base unit (pc, kg, bottle, ...) and
+-- its stock is always kept in that unit. Pack units (a 50kg bag, a crate of
+-- 24) convert to it by a factor and can be used to buy, to sell, or both.
+-- Products whose base unit can be split (kg, litre) allow decimal quantities.
+--
+-- Sale and purchase order lines record the unit they were entered in and its
+-- factor at the time, so quantities and prices on them stay in that unit
+-- while stock moves by quantity × factor.
+
+-- The stock trigger depends on stock_quantity, so it has to be dropped while
+-- the column changes type.
+drop trigger inventory_stock_movement on public.inventory;
+
+alter table public.inventory
+  alter column stock_quantity type numeric(12, 3),
+  add column unit text not null default 'pc' check (trim(unit) <> ''),
+  add column decimal_quantities boolean not null default false,
+  -- [{"name": text, "factor": number, "price": number | null,
+  --   "purchase": boolean, "sale": boolean}]; a pack without a price of its
+  -- own sells at the base price times its factor.
+  add column units jsonb not null default '[]' check (jsonb_typeof(units) = 'array');
+
+create trigger inventory_stock_movement
+  after insert or update of stock_quantity on public.inventory
+  for each row execute function private.record_stock_movement();
+
+alter table public.stock_movements
+  alter column quantity type numeric(12, 3),
+  alter column balance type numeric(12, 3);
+
+alter table public.sale_items
+  alter column quantity type numeric(12, 3),
+  add column unit text not null default 'pc',
+  -- Base units per unit of quantity.
+  add column unit_factor numeric(12, 3) not null default 1 check (unit_factor > 0);
+
+alter table public.sale_return_items
+  alter column quantity type numeric(12, 3);
+
+alter table public.purchase_order_items
+  alter column quantity_ordered type numeric(12, 3),
+  alter column quantity_received type numeric(12, 3),
+  add column unit text not null default 'pc',
+  add column unit_factor numeric(12, 3) not null default 1 check (unit_factor > 0);
+
+alter table public.stock_take_lines
+  alter column expected_quantity type numeric(12, 3),
+  alter column counted_quantity type numeric(12, 3);
+
+-- Helpers -----------------------------------------------------------------------
+
+-- The unit p_unit of p_product as {"name", "factor", "price"}: the base unit
+-- when p_unit is null or names it, else one of the product's pack units
+-- usable for p_use ('sale' or 'purchase').
+create or replace function private.product_unit(
+  p_product public.inventory,
+  p_unit text,
+  p_use text
+)
+returns jsonb
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_unit jsonb;
+begin
+  if p_unit is null or p_unit = p_product.unit then
+    return jsonb_build_object('name', p_product.unit, 'factor', 1, 'price', p_product.price);
+  end if;
+
+  select u into v_unit
+  from jsonb_array_elements(p_product.units) u
+  where u ->> 'name' = p_unit and coalesce((u ->> p_use)::boolean, false);
+
+  if v_unit is null then
+    raise exception '% is not % by the %.',
+      p_product.name, case when p_use = 'sale' then 'sold' else 'bought' end, p_unit;
+  end if;
+
+  return jsonb_build_object(
+    'name', p_unit,
+    'factor', (v_unit ->> 'factor')::numeric,
+    'price', coalesce(
+      (v_unit ->> 'price')::numeric,
+      round(p_product.price * (v_unit ->> 'factor')::numeric, 2)
+    )
+  );
+end;
+$$;
+
+-- Raises unless p_quantity (of a unit worth p_factor base units) is whole,
+-- for products that don't allow decimal quantities.
+create or replace function private.check_whole_quantity(
+  p_product public.inventory,
+  p_quantity numeric,
+  p_factor numeric default 1
+)
+returns void
+language plpgsql
+immutable
+security invoker
+set search_path = public
+as $$
+begin
+  if not p_product.decimal_quantities
+    and (p_quantity <> trunc(p_quantity) or p_quantity * p_factor <> trunc(p_quantity * p_factor))
+  then
+    raise exception 'Quantities of % must be whole numbers.', p_product.name;
+  end if;
+end;
+$$;
+
+-- Stock movements ---------------------------------------------------------------
+
+create or replace function private.record_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delta numeric;
+  v_type text := nullif(current_setting('app.movement_type', true), '');
+begin
+  v_delta := new.stock_quantity - case when tg_op = 'INSERT' then 0 else old.stock_quantity end;
+  if v_delta = 0 then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and v_type is null then
+    raise exception 'Stock levels can only be changed with a stock adjustment.';
+  end if;
+
+  insert into public.stock_movements (
+    user_id, product_id, movement_type, quantity, balance, reference_id, note, reason,
+    performed_by, performed_by_email
+  )
+  values (
+    new.user_id,
+    new.id,
+    case when tg_op = 'INSERT' then 'opening' else v_type end::public.stock_movement_type,
+    v_delta,
+    new.stock_quantity,
+    nullif(current_setting('app.movement_reference', true), '')::uuid,
+    nullif(current_setting('app.movement_note', true), ''),
+    nullif(current_setting('app.movement_reason', true), '')::public.stock_adjustment_reason,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  );
+  return new;
+end;
+$$;
+
+-- p_quantity is now in the product's base unit and may be a fraction.
+drop function if exists public.adjust_stock(uuid, integer, public.stock_adjustment_reason, text);
+
+create or replace function public.adjust_stock(
+  p_product_id uuid,
+  p_quantity numeric,
+  p_reason public.stock_adjustment_reason,
+  p_note text default null
+)
+returns public.inventory
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_product public.inventory;
+begin
+  select * into v_product
+  from public.inventory
+  where id = p_product_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Product not found.';
+  end if;
+
+  if p_reason is null then
+    raise exception 'Choose a reason for the adjustment.';
+  end if;
+
+  if coalesce(p_quantity, 0) = 0 then
+    raise exception 'Enter a quantity to adjust by.';
+  end if;
+
+  if (p_reason = 'found') <> (p_quantity > 0) then
+    raise exception 'Only found stock can be added; other reasons take stock out.';
+  end if;
+
+  perform private.check_whole_quantity(v_product, p_quantity);
+
+  if v_product.stock_quantity + p_quantity < 0 then
+    raise exception 'Only % % of % in stock.',
+      trim_scale(v_product.stock_quantity), v_product.unit, v_product.name;
+  end if;
+
+  perform private.set_stock_movement('adjustment', null, nullif(trim(p_note), ''), p_reason);
+
+  update public.inventory
+  set stock_quantity = stock_quantity + p_quantity
+  where id = p_product_id
+  returning * into v_product;
+
+  return v_product;
+end;
+$$;
+
+grant execute on function public.adjust_stock(uuid, numeric, public.stock_adjustment_reason, text)
+  to authenticated;
+
+-- Sales -------------------------------------------------------------------------
+
+-- p_items is a JSON array of {"product_id": uuid, "quantity": number,
+-- "unit": text}; unit is one of the product's sale units and defaults to its
+-- base unit. Each line is priced at that unit's price.
+create or replace function private.apply_sale_items(p_sale_id uuid, p_items jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_line record;
+  v_product public.inventory;
+  v_unit jsonb;
+  v_factor numeric;
+  v_price numeric;
+  v_unit_cost numeric;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::numeric, 0) <= 0
+  ) then
+    raise exception 'Quantity must be positive.';
+  end if;
+
+  perform private.set_stock_movement('sale', p_sale_id);
+
+  for v_line in
+    select
+      (e ->> 'product_id')::uuid as product_id,
+      nullif(e ->> 'unit', '') as unit,
+      sum((e ->> 'quantity')::numeric) as quantity
+    from jsonb_array_elements(p_items) e
+    group by 1, 2
+  loop
+    select * into v_product
+    from public.inventory
+    where id = v_line.product_id and user_id = auth.uid();
+
+    if not found then
+      raise exception 'Product not found.';
+    end if;
+
+    v_unit := private.product_unit(v_product, v_line.unit, 'sale');
+    v_factor := (v_unit ->> 'factor')::numeric;
+    v_price := (v_unit ->> 'price')::numeric;
+    v_unit_cost := round(v_product.cost * v_factor, 2);
+
+    perform private.check_whole_quantity(v_product, v_line.quantity, v_factor);
+
+    if v_product.stock_quantity < v_line.quantity * v_factor then
+      raise exception 'Not enough stock for %: % % available, % % requested.',
+        v_product.name, trim_scale(v_product.stock_quantity), v_product.unit,
+        trim_scale(v_line.quantity * v_factor), v_product.unit;
+    end if;
+
+    insert into public.sale_items (
+      sale_id, user_id, product_id, product_name, quantity, unit, unit_factor, unit_price,
+      unit_cost, line_total, profit
+    )
+    values (
+      p_sale_id,
+      auth.uid(),
+      v_product.id,
+      v_product.name,
+      v_line.quantity,
+      v_unit ->> 'name',
+      v_factor,
+      v_price,
+      v_unit_cost,
+      round(v_price * v_line.quantity, 2),
+      round((v_price - v_unit_cost) * v_line.quantity, 2)
+    );
+
+    update public.inventory
+    set stock_quantity = stock_quantity - v_line.quantity * v_factor
+    where id = v_product.id;
+  end loop;
+
+  update public.sales
+  set total_amount = totals.total_amount,
+      profit = totals.profit
+  from (
+    select coalesce(sum(line_total), 0) as total_amount, coalesce(sum(profit), 0) as profit
+    from public.sale_items
+    where sale_id = p_sale_id
+  ) as totals
+  where id = p_sale_id;
+end;
+$$;
+
+create or replace function private.restock_sale_items(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if exists (select 1 from public.sale_returns where sale_id = p_sale_id) then
+    raise exception 'This sale has returns recorded against it and can no longer be edited or deleted.';
+  end if;
+
+  perform private.set_stock_movement('sale_reversal', p_sale_id);
+
+  -- Products deleted since the sale are skipped; their lines still go.
+  update public.inventory i
+  set stock_quantity = i.stock_quantity + lines.quantity
+  from (
+    select product_id, sum(quantity * unit_factor) as quantity
+    from public.sale_items
+    where sale_id = p_sale_id and product_id is not null
+    group by product_id
+  ) as lines
+  where i.id = lines.product_id and i.user_id = auth.uid();
+
+  delete from public.sale_items where sale_id = p_sale_id;
+end;
+$$;
+
+-- Return quantities are in the unit each line was sold in; restocked goods go
+-- back in the base unit.
+create or replace function public.record_return(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_reason text,
+  p_refund_method public.payment_method default 'cash',
+  p_date date default current_date,
+  p_note text default null
+)
+returns public.sale_returns
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_return public.sale_returns;
+  v_line record;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'Give a reason for the return.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Choose at least one item to return.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::numeric, 0) <= 0
+  ) then
+    raise exception 'Return quantities must be positive.';
+  end if;
+
+  perform private.lock_sale_products(p_sale_id, null);
+
+  insert into public.sale_returns (sale_id, user_id, date, reason, refund_method, note)
+  values (
+    p_sale_id,
+    auth.uid(),
+    coalesce(p_date, current_date),
+    trim(p_reason),
+    coalesce(p_refund_method, 'cash'),
+    nullif(trim(p_note), '')
+  )
+  returning * into v_return;
+
+  perform private.set_stock_movement('return', v_return.id);
+
+  for v_line in
+    select
+      si.id,
+      si.product_id,
+      si.product_name,
+      si.unit,
+      si.unit_factor,
+      si.unit_price,
+      si.unit_cost,
+      si.quantity - coalesce((
+        select sum(ri.quantity) from public.sale_return_items ri where ri.sale_item_id = si.id
+      ), 0) as returnable,
+      req.quantity,
+      req.restock
+    from (
+      select
+        (e ->> 'sale_item_id')::uuid as sale_item_id,
+        sum((e ->> 'quantity')::numeric) as quantity,
+        bool_or(coalesce((e ->> 'restock')::boolean, true)) as restock
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.sale_items si on si.id = req.sale_item_id and si.sale_id = p_sale_id
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this sale.';
+    end if;
+
+    if v_line.quantity > v_line.returnable then
+      raise exception 'Only % % of % can still be returned.',
+        trim_scale(v_line.returnable), v_line.unit, v_line.product_name;
+    end if;
+
+    insert into public.sale_return_items (
+      return_id, sale_item_id, user_id, quantity, restock, refund_amount, profit_reversed
+    )
+    values (
+      v_return.id,
+      v_line.id,
+      auth.uid(),
+      v_line.quantity,
+      v_line.restock,
+      round(v_line.unit_price * v_line.quantity, 2),
+      round(
+        case
+          when v_line.restock then (v_line.unit_price - v_line.unit_cost) * v_line.quantity
+          else v_line.unit_price * v_line.quantity
+        end,
+        2
+      )
+    );
+
+    if v_line.restock and v_line.product_id is not null then
+      update public.inventory
+      set stock_quantity = stock_quantity + v_line.quantity * v_line.unit_factor
+      where id = v_line.product_id and user_id = auth.uid();
+    end if;
+  end loop;
+
+  update public.sale_returns
+  set refund_amount = totals.refund_amount,
+      profit_reversed = totals.profit_reversed
+  from (
+    select sum(refund_amount) as refund_amount, sum(profit_reversed) as profit_reversed
+    from public.sale_return_items
+    where return_id = v_return.id
+  ) as totals
+  where id = v_return.id
+  returning * into v_return;
+
+  if v_return.refund_method = 'credit' then
+    if v_return.refund_amount > v_sale.amount_due - v_sale.amount_repaid then
+      raise exception 'The customer only owes % on this sale; refund the rest another way.',
+        v_sale.amount_due - v_sale.amount_repaid;
+    end if;
+
+    update public.sales
+    set amount_due = amount_due - v_return.refund_amount
+    where id = p_sale_id;
+  end if;
+
+  return v_return;
+end;
+$$;
+
+-- Purchasing --------------------------------------------------------------------
+
+-- p_items is a JSON array of {"product_id": uuid, "quantity": number,
+-- "unit": text, "unit_cost": number}; unit is one of the product's purchase
+-- units (default its base unit) and unit_cost is per that unit, defaulting to
+-- the product's cost times the unit's factor.
+create or replace function private.apply_purchase_order_items(p_order_id uuid, p_items jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_line record;
+  v_product public.inventory;
+  v_unit jsonb;
+  v_factor numeric;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A purchase order needs at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::numeric, 0) <= 0
+  ) then
+    raise exception 'Quantity must be positive.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where (e ->> 'unit_cost')::numeric < 0
+  ) then
+    raise exception 'Unit cost cannot be negative.';
+  end if;
+
+  delete from public.purchase_order_items where order_id = p_order_id;
+
+  for v_line in
+    select
+      (e ->> 'product_id')::uuid as product_id,
+      nullif(e ->> 'unit', '') as unit,
+      sum((e ->> 'quantity')::numeric) as quantity,
+      max((e ->> 'unit_cost')::numeric) as unit_cost
+    from jsonb_array_elements(p_items) e
+    group by 1, 2
+  loop
+    select * into v_product
+    from public.inventory
+    where id = v_line.product_id and user_id = auth.uid();
+
+    if not found then
+      raise exception 'Product not found.';
+    end if;
+
+    v_unit := private.product_unit(v_product, v_line.unit, 'purchase');
+    v_factor := (v_unit ->> 'factor')::numeric;
+
+    perform private.check_whole_quantity(v_product, v_line.quantity, v_factor);
+
+    insert into public.purchase_order_items (
+      order_id, user_id, product_id, product_name, quantity_ordered, unit, unit_factor, unit_cost
+    )
+    values (
+      p_order_id,
+      auth.uid(),
+      v_product.id,
+      v_product.name,
+      v_line.quantity,
+      v_unit ->> 'name',
+      v_factor,
+      coalesce(v_line.unit_cost, round(v_product.cost * v_factor, 2))
+    );
+  end loop;
+end;
+$$;
+
+-- Receipt quantities and costs are per the unit each line was ordered in.
+-- Stock goes up by quantity × factor and the product's cost becomes the
+-- cost per base unit.
+create or replace function public.receive_purchase_order(p_order_id uuid, p_items jsonb)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_line record;
+begin
+  select * into v_order
+  from public.purchase_orders
+  where id = p_order_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Purchase order not found.';
+  end if;
+
+  if v_order.status <> 'open' then
+    raise exception 'Only open purchase orders can be received.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or not exists (
+    select 1 from jsonb_array_elements(p_items) e where (e ->> 'quantity')::numeric > 0
+  ) then
+    raise exception 'Enter a quantity received for at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where (e ->> 'quantity')::numeric < 0 or (e ->> 'unit_cost')::numeric < 0
+  ) then
+    raise exception 'Quantities and costs cannot be negative.';
+  end if;
+
+  perform 1
+  from public.inventory
+  where user_id = auth.uid()
+    and id in (select product_id from public.purchase_order_items where order_id = p_order_id)
+  order by id
+  for update;
+
+  perform private.set_stock_movement('purchase_receipt', p_order_id);
+
+  for v_line in
+    select
+      poi.id,
+      poi.product_id,
+      poi.product_name,
+      poi.unit,
+      poi.unit_factor,
+      poi.quantity_ordered - poi.quantity_received as outstanding,
+      req.quantity,
+      coalesce(req.unit_cost, poi.unit_cost) as unit_cost
+    from (
+      select
+        (e ->> 'item_id')::uuid as item_id,
+        sum((e ->> 'quantity')::numeric) as quantity,
+        max((e ->> 'unit_cost')::numeric) as unit_cost
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.purchase_order_items poi
+      on poi.id = req.item_id and poi.order_id = p_order_id
+    where req.quantity > 0
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this purchase order.';
+    end if;
+
+    if v_line.quantity > v_line.outstanding then
+      raise exception 'Only % more % of % are on order.',
+        trim_scale(v_line.outstanding), v_line.unit, v_line.product_name;
+    end if;
+
+    update public.purchase_order_items
+    set quantity_received = quantity_received + v_line.quantity,
+        unit_cost = v_line.unit_cost
+    where id = v_line.id;
+
+    -- Products deleted since the order was placed are skipped.
+    update public.inventory
+    set stock_quantity = stock_quantity + v_line.quantity * v_line.unit_factor,
+        cost = round(v_line.unit_cost / v_line.unit_factor, 2)
+    where id = v_line.product_id and user_id = auth.uid();
+  end loop;
+
+  if not exists (
+    select 1 from public.purchase_order_items
+    where order_id = p_order_id and quantity_received < quantity_ordered
+  ) then
+    update public.purchase_orders
+    set status = 'received', received_at = now()
+    where id = p_order_id;
+  end if;
+
+  select * into v_order from public.purchase_orders where id = p_order_id;
+  return v_order;
+end;
+$$;
+
+-- Stock-takes -------------------------------------------------------------------
+
+-- Counts are in each product's base unit.
+create or replace function public.record_stock_counts(p_stock_take_id uuid, p_counts jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_product public.inventory;
+begin
+  if not exists (
+    select 1 from public.stock_takes
+    where id = p_stock_take_id and user_id = auth.uid() and status = 'counting'
+  ) then
+    raise exception 'This stock-take is no longer open for counting.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_counts) e
+    where (e ->> 'counted_quantity')::numeric < 0
+  ) then
+    raise exception 'Counts cannot be negative.';
+  end if;
+
+  select i.* into v_product
+  from jsonb_array_elements(p_counts) c
+  join public.stock_take_lines l on l.id = (c.value ->> 'line_id')::uuid
+  join public.inventory i on i.id = l.product_id
+  where not i.decimal_quantities
+    and (c.value ->> 'counted_quantity')::numeric <> trunc((c.value ->> 'counted_quantity')::numeric)
+  limit 1;
+
+  if found then
+    raise exception 'Quantities of % must be whole numbers.', v_product.name;
+  end if;
+
+  update public.stock_take_lines l
+  set counted_quantity = (c.value ->> 'counted_quantity')::numeric,
+      counted_at = case when c.value ->> 'counted_quantity' is null then null else now() end,
+      counted_by_email = case
+        when c.value ->> 'counted_quantity' is null then null
+        else auth.jwt() ->> 'email'
+      end
+  from jsonb_array_elements(p_counts) c
+  where l.id = (c.value ->> 'line_id')::uuid and l.stock_take_id = p_stock_take_id;
+end;
+$$;
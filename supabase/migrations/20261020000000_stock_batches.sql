@@ -0,0 +1,440 @@
+-- Batches (lots) with expiry dates. Stock received on a purchase order with a
+-- lot number or expiry date becomes a batch; stock without one (opening
+-- stock, returns, found stock) stays unbatched. A product's batches never
+-- hold more than its stock_quantity.
+--
+-- The stock trigger draws every decrease from the product's batches first,
+-- earliest expiry first (FEFO), and only then from unbatched stock, whose
+-- expiry is unknown. Batches already past their expiry are left for a
+-- write-off rather than sold. A sale that is edited or deleted puts its stock
+-- back into the batches it came from.
+
+create table public.stock_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  product_id uuid not null references public.inventory (id) on delete cascade,
+  lot_number text,
+  expiry_date date,
+  -- Base units left in the batch.
+  quantity numeric(12, 3) not null check (quantity >= 0),
+  received_quantity numeric(12, 3) not null check (received_quantity > 0),
+  purchase_order_id uuid references public.purchase_orders (id) on delete set null,
+  received_at timestamptz not null default now()
+);
+
+create index stock_batches_user_id_idx on public.stock_batches (user_id);
+create index stock_batches_product_id_idx on public.stock_batches (product_id, expiry_date);
+
+-- What each stock movement drew from which batch, so a sale reversal can put
+-- it back. quantity is what has not been put back yet.
+create table public.stock_batch_draws (
+  id uuid primary key default gen_random_uuid(),
+  batch_id uuid not null references public.stock_batches (id) on delete cascade,
+  movement_id uuid not null references public.stock_movements (id) on delete cascade,
+  quantity numeric(12, 3) not null check (quantity >= 0)
+);
+
+create index stock_batch_draws_movement_id_idx on public.stock_batch_draws (movement_id);
+
+-- Like the ledger, batches are only written by the stock trigger and the
+-- helpers below; users can read theirs. Draws are internal.
+alter table public.stock_batches enable row level security;
+alter table public.stock_batch_draws enable row level security;
+
+create policy "Users can read their own stock batches"
+  on public.stock_batches for select
+  using (user_id = auth.uid());
+
+revoke insert, update, delete on public.stock_batches from anon, authenticated;
+revoke all on public.stock_batch_draws from anon, authenticated;
+
+alter table public.stock_batches replica identity full;
+alter publication supabase_realtime add table public.stock_batches;
+
+-- Helpers -----------------------------------------------------------------------
+
+-- Adds p_batch_id; callers passing up to four arguments are unaffected. A
+-- batch id makes the rest of the transaction's decreases come out of that
+-- batch (a write-off) instead of FEFO.
+drop function if exists private.set_stock_movement(
+  public.stock_movement_type, uuid, text, public.stock_adjustment_reason
+);
+
+create or replace function private.set_stock_movement(
+  p_type public.stock_movement_type,
+  p_reference_id uuid default null,
+  p_note text default null,
+  p_reason public.stock_adjustment_reason default null,
+  p_batch_id uuid default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform set_config('app.movement_type', p_type::text, true);
+  perform set_config('app.movement_reference', coalesce(p_reference_id::text, ''), true);
+  perform set_config('app.movement_note', coalesce(p_note, ''), true);
+  perform set_config('app.movement_reason', coalesce(p_reason::text, ''), true);
+  perform set_config('app.movement_batch', coalesce(p_batch_id::text, ''), true);
+end;
+$$;
+
+-- Records p_quantity base units of p_product_id as a new batch. Call after
+-- the stock itself has gone up.
+create or replace function private.add_stock_batch(
+  p_product_id uuid,
+  p_quantity numeric,
+  p_lot_number text,
+  p_expiry_date date,
+  p_purchase_order_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.inventory where id = p_product_id and user_id = auth.uid()
+  ) then
+    raise exception 'Product not found.';
+  end if;
+
+  insert into public.stock_batches (
+    user_id, product_id, lot_number, expiry_date, quantity, received_quantity, purchase_order_id
+  )
+  values (
+    auth.uid(), p_product_id, p_lot_number, p_expiry_date, p_quantity, p_quantity,
+    p_purchase_order_id
+  );
+end;
+$$;
+
+-- Takes up to p_quantity out of p_batch for p_movement_id; returns how much
+-- it took.
+create or replace function private.draw_stock_batch(
+  p_batch public.stock_batches,
+  p_movement_id uuid,
+  p_quantity numeric
+)
+returns numeric
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_take numeric := least(p_batch.quantity, p_quantity);
+begin
+  if v_take <= 0 then
+    return 0;
+  end if;
+
+  update public.stock_batches set quantity = quantity - v_take where id = p_batch.id;
+  insert into public.stock_batch_draws (batch_id, movement_id, quantity)
+  values (p_batch.id, p_movement_id, v_take);
+  return v_take;
+end;
+$$;
+
+-- Stock movements ---------------------------------------------------------------
+
+create or replace function private.record_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delta numeric;
+  v_type text := nullif(current_setting('app.movement_type', true), '');
+  v_reference uuid := nullif(current_setting('app.movement_reference', true), '')::uuid;
+  v_batch_id uuid := nullif(current_setting('app.movement_batch', true), '')::uuid;
+  v_movement_id uuid;
+  v_remaining numeric;
+  v_batch public.stock_batches;
+  v_draw record;
+  v_back numeric;
+begin
+  v_delta := new.stock_quantity - case when tg_op = 'INSERT' then 0 else old.stock_quantity end;
+  if v_delta = 0 then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and v_type is null then
+    raise exception 'Stock levels can only be changed with a stock adjustment.';
+  end if;
+
+  insert into public.stock_movements (
+    user_id, product_id, movement_type, quantity, balance, reference_id, note, reason,
+    performed_by, performed_by_email
+  )
+  values (
+    new.user_id,
+    new.id,
+    case when tg_op = 'INSERT' then 'opening' else v_type end::public.stock_movement_type,
+    v_delta,
+    new.stock_quantity,
+    v_reference,
+    nullif(current_setting('app.movement_note', true), ''),
+    nullif(current_setting('app.movement_reason', true), '')::public.stock_adjustment_reason,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  )
+  returning id into v_movement_id;
+
+  if v_delta < 0 then
+    v_remaining := -v_delta;
+
+    -- A write-off names its batch.
+    if v_batch_id is not null then
+      select * into v_batch
+      from public.stock_batches
+      where id = v_batch_id and product_id = new.id
+      for update;
+      if found then
+        v_remaining := v_remaining - private.draw_stock_batch(v_batch, v_movement_id, v_remaining);
+      end if;
+    end if;
+
+    for v_batch in
+      select *
+      from public.stock_batches
+      where product_id = new.id
+        and quantity > 0
+        and (expiry_date is null or expiry_date >= current_date)
+      order by expiry_date nulls last, received_at
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_remaining := v_remaining - private.draw_stock_batch(v_batch, v_movement_id, v_remaining);
+    end loop;
+
+    -- Expired batches only give up stock the unbatched remainder can't
+    -- cover, so the batches never add up to more than is in stock.
+    v_remaining := (
+      select coalesce(sum(quantity), 0) from public.stock_batches where product_id = new.id
+    ) - new.stock_quantity;
+
+    for v_batch in
+      select *
+      from public.stock_batches
+      where product_id = new.id and quantity > 0 and expiry_date < current_date
+      order by expiry_date, received_at
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_remaining := v_remaining - private.draw_stock_batch(v_batch, v_movement_id, v_remaining);
+    end loop;
+
+  elsif v_type = 'sale_reversal' and v_reference is not null then
+    -- Put a sale's stock back into the batches it was drawn from, latest
+    -- expiry first.
+    v_remaining := v_delta;
+    for v_draw in
+      select d.id, d.batch_id, d.quantity
+      from public.stock_batch_draws d
+      join public.stock_movements m on m.id = d.movement_id
+      join public.stock_batches b on b.id = d.batch_id
+      where m.product_id = new.id
+        and m.movement_type = 'sale'
+        and m.reference_id = v_reference
+        and d.quantity > 0
+      order by b.expiry_date desc nulls first, b.received_at desc
+      for update of d
+    loop
+      exit when v_remaining <= 0;
+      v_back := least(v_draw.quantity, v_remaining);
+      update public.stock_batches set quantity = quantity + v_back where id = v_draw.batch_id;
+      update public.stock_batch_draws set quantity = quantity - v_back where id = v_draw.id;
+      v_remaining := v_remaining - v_back;
+    end loop;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Purchasing --------------------------------------------------------------------
+
+-- Receipt lines may carry "lot_number" and "expiry_date"; a line with either
+-- is booked as a batch of quantity × factor base units. The same item can
+-- appear on several lines to receive more than one lot.
+create or replace function public.receive_purchase_order(p_order_id uuid, p_items jsonb)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_line record;
+begin
+  select * into v_order
+  from public.purchase_orders
+  where id = p_order_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Purchase order not found.';
+  end if;
+
+  if v_order.status <> 'open' then
+    raise exception 'Only open purchase orders can be received.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or not exists (
+    select 1 from jsonb_array_elements(p_items) e where (e ->> 'quantity')::numeric > 0
+  ) then
+    raise exception 'Enter a quantity received for at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where (e ->> 'quantity')::numeric < 0 or (e ->> 'unit_cost')::numeric < 0
+  ) then
+    raise exception 'Quantities and costs cannot be negative.';
+  end if;
+
+  perform 1
+  from public.inventory
+  where user_id = auth.uid()
+    and id in (select product_id from public.purchase_order_items where order_id = p_order_id)
+  order by id
+  for update;
+
+  perform private.set_stock_movement('purchase_receipt', p_order_id);
+
+  for v_line in
+    select
+      poi.id,
+      poi.product_id,
+      poi.product_name,
+      poi.unit,
+      poi.unit_factor,
+      poi.quantity_ordered - poi.quantity_received as outstanding,
+      req.quantity,
+      coalesce(req.unit_cost, poi.unit_cost) as unit_cost
+    from (
+      select
+        (e ->> 'item_id')::uuid as item_id,
+        sum((e ->> 'quantity')::numeric) as quantity,
+        max((e ->> 'unit_cost')::numeric) as unit_cost
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.purchase_order_items poi
+      on poi.id = req.item_id and poi.order_id = p_order_id
+    where req.quantity > 0
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this purchase order.';
+    end if;
+
+    if v_line.quantity > v_line.outstanding then
+      raise exception 'Only % more % of % are on order.',
+        trim_scale(v_line.outstanding), v_line.unit, v_line.product_name;
+    end if;
+
+    update public.purchase_order_items
+    set quantity_received = quantity_received + v_line.quantity,
+        unit_cost = v_line.unit_cost
+    where id = v_line.id;
+
+    -- Products deleted since the order was placed are skipped.
+    update public.inventory
+    set stock_quantity = stock_quantity + v_line.quantity * v_line.unit_factor,
+        cost = round(v_line.unit_cost / v_line.unit_factor, 2)
+    where id = v_line.product_id and user_id = auth.uid();
+  end loop;
+
+  for v_line in
+    select poi.product_id, poi.unit_factor, lot.quantity, lot.lot_number, lot.expiry_date
+    from (
+      select
+        (e ->> 'item_id')::uuid as item_id,
+        nullif(trim(e ->> 'lot_number'), '') as lot_number,
+        (nullif(e ->> 'expiry_date', ''))::date as expiry_date,
+        sum((e ->> 'quantity')::numeric) as quantity
+      from jsonb_array_elements(p_items) e
+      group by 1, 2, 3
+    ) lot
+    join public.purchase_order_items poi on poi.id = lot.item_id
+    join public.inventory i on i.id = poi.product_id
+    where lot.quantity > 0 and (lot.lot_number is not null or lot.expiry_date is not null)
+  loop
+    perform private.add_stock_batch(
+      v_line.product_id, v_line.quantity * v_line.unit_factor, v_line.lot_number,
+      v_line.expiry_date, p_order_id
+    );
+  end loop;
+
+  if not exists (
+    select 1 from public.purchase_order_items
+    where order_id = p_order_id and quantity_received < quantity_ordered
+  ) then
+    update public.purchase_orders
+    set status = 'received', received_at = now()
+    where id = p_order_id;
+  end if;
+
+  select * into v_order from public.purchase_orders where id = p_order_id;
+  return v_order;
+end;
+$$;
+
+-- Write-offs --------------------------------------------------------------------
+
+-- Takes what is left of a batch out of stock as an 'expired' adjustment that
+-- references the batch.
+create or replace function public.write_off_batch(p_batch_id uuid, p_note text default null)
+returns public.stock_batches
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_batch public.stock_batches;
+begin
+  select * into v_batch
+  from public.stock_batches
+  where id = p_batch_id and user_id = auth.uid();
+
+  if not found then
+    raise exception 'Batch not found.';
+  end if;
+
+  perform 1 from public.inventory where id = v_batch.product_id for update;
+
+  -- Re-read under the product lock in case a sale drew from it meanwhile.
+  select * into v_batch from public.stock_batches where id = p_batch_id;
+
+  if v_batch.quantity = 0 then
+    raise exception 'Nothing is left in this batch.';
+  end if;
+
+  perform private.set_stock_movement(
+    'adjustment',
+    p_batch_id,
+    coalesce(
+      nullif(trim(p_note), ''),
+      'Batch ' || coalesce(v_batch.lot_number, 'without a lot number') || ' written off'
+    ),
+    'expired',
+    p_batch_id
+  );
+
+  update public.inventory
+  set stock_quantity = stock_quantity - v_batch.quantity
+  where id = v_batch.product_id;
+
+  -- Later changes in this transaction go back to FEFO.
+  perform set_config('app.movement_batch', '', true);
+
+  select * into v_batch from public.stock_batches where id = p_batch_id;
+  return v_batch;
+end;
+$$;
+
+grant execute on function public.write_off_batch(uuid, text) to authenticated;
@@ -0,0 +1,869 @@
+-- Cost of goods sold from purchase layers. Every increase in stock adds a
+-- cost layer (quantity at a cost per base unit: the purchase cost for a
+-- receipt, the sale's cost for a return, the product's cost otherwise) and
+-- every decrease draws layers down oldest first. Each shop picks a costing
+-- method in shop_settings:
+--
+--   fifo              layers keep their own cost, so sales cost what the
+--                     oldest stock cost;
+--   weighted_average  after every increase all of a product's layers are
+--                     repriced to the average cost of the stock on hand.
+--
+-- The stock trigger works out what each movement cost and records it on the
+-- ledger; sale lines take their cost from it once, when the sale is made.
+-- Editing a sale puts its stock back into the layers it came from and draws
+-- the same layers again at the same cost, so old profit stays put.
+-- inventory.stock_value is the value of the layers on hand and
+-- inventory.cost its average per base unit.
+
+create type public.costing_method as enum ('fifo', 'weighted_average');
+
+create table public.shop_settings (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  costing_method public.costing_method not null default 'weighted_average',
+  updated_at timestamptz not null default now()
+);
+
+alter table public.shop_settings enable row level security;
+
+create policy "Users can read their own shop settings"
+  on public.shop_settings for select
+  using (user_id = auth.uid());
+
+-- Changing the method goes through set_costing_method, which reprices stock.
+revoke insert, update, delete on public.shop_settings from anon, authenticated;
+
+alter table public.inventory
+  add column stock_value numeric(14, 2) not null default 0;
+
+-- Value of the stock moved at cost: positive in, negative out. Movements
+-- from before cost layers carry none.
+alter table public.stock_movements
+  add column cost numeric(14, 2) not null default 0;
+
+create table public.cost_layers (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  product_id uuid not null references public.inventory (id) on delete cascade,
+  -- Base units left in the layer.
+  quantity numeric(12, 3) not null check (quantity >= 0),
+  -- Per base unit.
+  unit_cost numeric(14, 4) not null check (unit_cost >= 0),
+  -- The movement that brought the stock in.
+  movement_id uuid references public.stock_movements (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index cost_layers_product_id_idx on public.cost_layers (product_id, created_at);
+
+-- What each decrease drew from which layer and at what cost. quantity is
+-- what a sale reversal hasn't put back yet; restored is what one put back in
+-- transaction restored_txid and the edited sale hasn't drawn again yet.
+create table public.cost_layer_draws (
+  id uuid primary key default gen_random_uuid(),
+  layer_id uuid not null references public.cost_layers (id) on delete cascade,
+  movement_id uuid not null references public.stock_movements (id) on delete cascade,
+  quantity numeric(12, 3) not null check (quantity >= 0),
+  unit_cost numeric(14, 4) not null,
+  restored numeric(12, 3) not null default 0,
+  restored_txid bigint
+);
+
+create index cost_layer_draws_movement_id_idx on public.cost_layer_draws (movement_id);
+
+-- Layers and draws are internal to the stock trigger.
+alter table public.cost_layers enable row level security;
+alter table public.cost_layer_draws enable row level security;
+revoke all on public.cost_layers from anon, authenticated;
+revoke all on public.cost_layer_draws from anon, authenticated;
+
+-- Stock on hand becomes one layer at the product's current cost.
+insert into public.cost_layers (user_id, product_id, quantity, unit_cost)
+select user_id, id, stock_quantity, cost
+from public.inventory
+where stock_quantity > 0;
+
+update public.inventory set stock_value = round(stock_quantity * cost, 2);
+
+-- Helpers -----------------------------------------------------------------------
+
+create or replace function private.costing_method(p_user_id uuid)
+returns public.costing_method
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select costing_method from public.shop_settings where user_id = p_user_id),
+    'weighted_average'
+  );
+$$;
+
+-- set_stock_movement now also clears the incoming cost set below.
+create or replace function private.set_stock_movement(
+  p_type public.stock_movement_type,
+  p_reference_id uuid default null,
+  p_note text default null,
+  p_reason public.stock_adjustment_reason default null,
+  p_batch_id uuid default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform set_config('app.movement_type', p_type::text, true);
+  perform set_config('app.movement_reference', coalesce(p_reference_id::text, ''), true);
+  perform set_config('app.movement_note', coalesce(p_note, ''), true);
+  perform set_config('app.movement_reason', coalesce(p_reason::text, ''), true);
+  perform set_config('app.movement_batch', coalesce(p_batch_id::text, ''), true);
+  perform set_config('app.movement_unit_cost', '', true);
+end;
+$$;
+
+-- What the next stock increases cost per base unit; without one they come in
+-- at the product's cost.
+create or replace function private.set_movement_unit_cost(p_unit_cost numeric)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform set_config('app.movement_unit_cost', coalesce(p_unit_cost::text, ''), true);
+end;
+$$;
+
+-- What the last stock movement in this transaction cost (positive for a
+-- decrease), for the sale lines that caused it.
+create or replace function private.last_movement_cost()
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(nullif(current_setting('app.movement_cost', true), '')::numeric, 0);
+$$;
+
+-- Moves p_product's layers by p_delta base units and returns the value moved
+-- (positive in, negative out). Runs inside the stock trigger.
+create or replace function private.move_cost_layers(
+  p_product public.inventory,
+  p_delta numeric,
+  p_movement_id uuid,
+  p_type text,
+  p_reference uuid
+)
+returns numeric
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_method public.costing_method := private.costing_method(p_product.user_id);
+  v_old_value numeric;
+  v_value numeric := 0;
+  v_remaining numeric := abs(p_delta);
+  v_take numeric;
+  v_unit_cost numeric;
+  v_draw record;
+  v_layer public.cost_layers;
+begin
+  select coalesce(sum(quantity * unit_cost), 0) into v_old_value
+  from public.cost_layers
+  where product_id = p_product.id;
+
+  if p_delta > 0 then
+    -- An edited or deleted sale: back into the layers it drew, remembering
+    -- it so the edit can draw the same layers again.
+    if p_type = 'sale_reversal' and p_reference is not null then
+      for v_draw in
+        select d.id, d.layer_id, d.quantity, d.unit_cost
+        from public.cost_layer_draws d
+        join public.stock_movements m on m.id = d.movement_id
+        join public.cost_layers l on l.id = d.layer_id
+        where m.product_id = p_product.id
+          and m.movement_type = 'sale'
+          and m.reference_id = p_reference
+          and d.quantity > 0
+        order by l.created_at desc, l.id desc
+        for update of d
+      loop
+        exit when v_remaining <= 0;
+        v_take := least(v_draw.quantity, v_remaining);
+        update public.cost_layers set quantity = quantity + v_take where id = v_draw.layer_id;
+        update public.cost_layer_draws
+        set quantity = quantity - v_take,
+            restored = case when restored_txid = txid_current() then restored else 0 end + v_take,
+            restored_txid = txid_current()
+        where id = v_draw.id;
+        v_value := v_value + v_take * v_draw.unit_cost;
+        v_remaining := v_remaining - v_take;
+      end loop;
+    end if;
+
+    if v_remaining > 0 then
+      v_unit_cost := coalesce(
+        nullif(current_setting('app.movement_unit_cost', true), '')::numeric,
+        p_product.cost
+      );
+      insert into public.cost_layers (user_id, product_id, quantity, unit_cost, movement_id)
+      values (p_product.user_id, p_product.id, v_remaining, v_unit_cost, p_movement_id);
+      v_value := v_value + v_remaining * v_unit_cost;
+    end if;
+  else
+    -- A sale being re-entered by an edit draws what the edit put back first,
+    -- at the cost it was drawn at.
+    if p_type = 'sale' and p_reference is not null then
+      for v_draw in
+        select d.id, d.layer_id, d.restored, d.unit_cost, l.quantity as available
+        from public.cost_layer_draws d
+        join public.stock_movements m on m.id = d.movement_id
+        join public.cost_layers l on l.id = d.layer_id
+        where m.product_id = p_product.id
+          and m.movement_type = 'sale'
+          and m.reference_id = p_reference
+          and d.restored > 0
+          and d.restored_txid = txid_current()
+        order by l.created_at, l.id
+        for update of d, l
+      loop
+        exit when v_remaining <= 0;
+        v_take := least(v_draw.restored, v_draw.available, v_remaining);
+        continue when v_take <= 0;
+        update public.cost_layers set quantity = quantity - v_take where id = v_draw.layer_id;
+        update public.cost_layer_draws set restored = restored - v_take where id = v_draw.id;
+        insert into public.cost_layer_draws (layer_id, movement_id, quantity, unit_cost)
+        values (v_draw.layer_id, p_movement_id, v_take, v_draw.unit_cost);
+        v_value := v_value - v_take * v_draw.unit_cost;
+        v_remaining := v_remaining - v_take;
+      end loop;
+    end if;
+
+    for v_layer in
+      select *
+      from public.cost_layers
+      where product_id = p_product.id and quantity > 0
+      order by created_at, id
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_take := least(v_layer.quantity, v_remaining);
+      update public.cost_layers set quantity = quantity - v_take where id = v_layer.id;
+      insert into public.cost_layer_draws (layer_id, movement_id, quantity, unit_cost)
+      values (v_layer.id, p_movement_id, v_take, v_layer.unit_cost);
+      v_value := v_value - v_take * v_layer.unit_cost;
+      v_remaining := v_remaining - v_take;
+    end loop;
+
+    -- Layers only run short for stock that predates them.
+    if v_remaining > 0 then
+      v_value := v_value - v_remaining * p_product.cost;
+    end if;
+  end if;
+
+  if v_method = 'weighted_average' then
+    update public.cost_layers
+    set unit_cost = case
+      when p_product.stock_quantity > 0
+        then greatest(v_old_value + v_value, 0) / p_product.stock_quantity
+      else unit_cost
+    end
+    where product_id = p_product.id and quantity > 0;
+  end if;
+
+  -- Empty layers are only kept while a sale could still put stock back.
+  delete from public.cost_layers l
+  where l.product_id = p_product.id
+    and l.quantity = 0
+    and not exists (select 1 from public.cost_layer_draws d where d.layer_id = l.id and d.quantity > 0);
+
+  return v_value;
+end;
+$$;
+
+-- Stock movements ---------------------------------------------------------------
+
+create or replace function private.record_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delta numeric;
+  v_type text := nullif(current_setting('app.movement_type', true), '');
+  v_reference uuid := nullif(current_setting('app.movement_reference', true), '')::uuid;
+  v_batch_id uuid := nullif(current_setting('app.movement_batch', true), '')::uuid;
+  v_movement_id uuid;
+  v_cost numeric;
+  v_stock_value numeric;
+  v_remaining numeric;
+  v_batch public.stock_batches;
+  v_draw record;
+  v_back numeric;
+begin
+  v_delta := new.stock_quantity - case when tg_op = 'INSERT' then 0 else old.stock_quantity end;
+  if v_delta = 0 then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and v_type is null then
+    raise exception 'Stock levels can only be changed with a stock adjustment.';
+  end if;
+
+  insert into public.stock_movements (
+    user_id, product_id, movement_type, quantity, balance, reference_id, note, reason,
+    performed_by, performed_by_email
+  )
+  values (
+    new.user_id,
+    new.id,
+    case when tg_op = 'INSERT' then 'opening' else v_type end::public.stock_movement_type,
+    v_delta,
+    new.stock_quantity,
+    v_reference,
+    nullif(current_setting('app.movement_note', true), ''),
+    nullif(current_setting('app.movement_reason', true), '')::public.stock_adjustment_reason,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  )
+  returning id into v_movement_id;
+
+  -- Cost.
+  v_cost := private.move_cost_layers(new, v_delta, v_movement_id, v_type, v_reference);
+  update public.stock_movements set cost = round(v_cost, 2) where id = v_movement_id;
+  perform set_config('app.movement_cost', (-v_cost)::text, true);
+
+  select coalesce(sum(quantity * unit_cost), 0) into v_stock_value
+  from public.cost_layers
+  where product_id = new.id;
+
+  update public.inventory
+  set stock_value = round(v_stock_value, 2),
+      cost = case
+        when new.stock_quantity > 0 then round(v_stock_value / new.stock_quantity, 2)
+        else cost
+      end
+  where id = new.id;
+
+  -- Batches.
+  if v_delta < 0 then
+    v_remaining := -v_delta;
+
+    -- A write-off names its batch.
+    if v_batch_id is not null then
+      select * into v_batch
+      from public.stock_batches
+      where id = v_batch_id and product_id = new.id
+      for update;
+      if found then
+        v_remaining := v_remaining - private.draw_stock_batch(v_batch, v_movement_id, v_remaining);
+      end if;
+    end if;
+
+    for v_batch in
+      select *
+      from public.stock_batches
+      where product_id = new.id
+        and quantity > 0
+        and (expiry_date is null or expiry_date >= current_date)
+      order by expiry_date nulls last, received_at
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_remaining := v_remaining - private.draw_stock_batch(v_batch, v_movement_id, v_remaining);
+    end loop;
+
+    -- Expired batches only give up stock the unbatched remainder can't
+    -- cover, so the batches never add up to more than is in stock.
+    v_remaining := (
+      select coalesce(sum(quantity), 0) from public.stock_batches where product_id = new.id
+    ) - new.stock_quantity;
+
+    for v_batch in
+      select *
+      from public.stock_batches
+      where product_id = new.id and quantity > 0 and expiry_date < current_date
+      order by expiry_date, received_at
+      for update
+    loop
+      exit when v_remaining <= 0;
+      v_remaining := v_remaining - private.draw_stock_batch(v_batch, v_movement_id, v_remaining);
+    end loop;
+
+  elsif v_type = 'sale_reversal' and v_reference is not null then
+    -- Put a sale's stock back into the batches it was drawn from, latest
+    -- expiry first.
+    v_remaining := v_delta;
+    for v_draw in
+      select d.id, d.batch_id, d.quantity
+      from public.stock_batch_draws d
+      join public.stock_movements m on m.id = d.movement_id
+      join public.stock_batches b on b.id = d.batch_id
+      where m.product_id = new.id
+        and m.movement_type = 'sale'
+        and m.reference_id = v_reference
+        and d.quantity > 0
+      order by b.expiry_date desc nulls first, b.received_at desc
+      for update of d
+    loop
+      exit when v_remaining <= 0;
+      v_back := least(v_draw.quantity, v_remaining);
+      update public.stock_batches set quantity = quantity + v_back where id = v_draw.batch_id;
+      update public.stock_batch_draws set quantity = quantity - v_back where id = v_draw.id;
+      v_remaining := v_remaining - v_back;
+    end loop;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Editing a product's cost by hand revalues its stock on hand at that cost.
+-- The stock trigger's own cost updates run one level deeper and are skipped.
+create or replace function private.revalue_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if pg_trigger_depth() > 1 or new.cost is not distinct from old.cost then
+    return new;
+  end if;
+
+  update public.cost_layers
+  set unit_cost = new.cost
+  where product_id = new.id and quantity > 0;
+
+  update public.inventory
+  set stock_value = round(stock_quantity * new.cost, 2)
+  where id = new.id;
+
+  return new;
+end;
+$$;
+
+create trigger inventory_revalue_stock
+  after update of cost on public.inventory
+  for each row execute function private.revalue_stock();
+
+-- Settings ----------------------------------------------------------------------
+
+-- Switching to weighted average reprices each product's layers to the
+-- average of what is on hand; switching to FIFO starts from the layers as
+-- they stand. Stock values don't change either way.
+create or replace function public.set_costing_method(p_method public.costing_method)
+returns public.shop_settings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.shop_settings;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to change settings.';
+  end if;
+
+  if p_method is null then
+    raise exception 'Choose a costing method.';
+  end if;
+
+  insert into public.shop_settings (user_id, costing_method)
+  values (auth.uid(), p_method)
+  on conflict (user_id) do update
+    set costing_method = excluded.costing_method, updated_at = now()
+  returning * into v_settings;
+
+  if p_method = 'weighted_average' then
+    update public.cost_layers l
+    set unit_cost = totals.value / totals.quantity
+    from (
+      select product_id, sum(quantity * unit_cost) as value, sum(quantity) as quantity
+      from public.cost_layers
+      where user_id = auth.uid() and quantity > 0
+      group by product_id
+    ) as totals
+    where l.product_id = totals.product_id and l.quantity > 0;
+  end if;
+
+  return v_settings;
+end;
+$$;
+
+grant execute on function public.set_costing_method(public.costing_method) to authenticated;
+
+-- Sales -------------------------------------------------------------------------
+
+-- Each line's cost is what its stock cost under the shop's costing method,
+-- fixed when the line is made.
+create or replace function private.apply_sale_items(p_sale_id uuid, p_items jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_line record;
+  v_product public.inventory;
+  v_unit jsonb;
+  v_factor numeric;
+  v_price numeric;
+  v_cost numeric;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::numeric, 0) <= 0
+  ) then
+    raise exception 'Quantity must be positive.';
+  end if;
+
+  perform private.set_stock_movement('sale', p_sale_id);
+
+  for v_line in
+    select
+      (e ->> 'product_id')::uuid as product_id,
+      nullif(e ->> 'unit', '') as unit,
+      sum((e ->> 'quantity')::numeric) as quantity
+    from jsonb_array_elements(p_items) e
+    group by 1, 2
+  loop
+    select * into v_product
+    from public.inventory
+    where id = v_line.product_id and user_id = auth.uid();
+
+    if not found then
+      raise exception 'Product not found.';
+    end if;
+
+    v_unit := private.product_unit(v_product, v_line.unit, 'sale');
+    v_factor := (v_unit ->> 'factor')::numeric;
+    v_price := (v_unit ->> 'price')::numeric;
+
+    perform private.check_whole_quantity(v_product, v_line.quantity, v_factor);
+
+    if v_product.stock_quantity < v_line.quantity * v_factor then
+      raise exception 'Not enough stock for %: % % available, % % requested.',
+        v_product.name, trim_scale(v_product.stock_quantity), v_product.unit,
+        trim_scale(v_line.quantity * v_factor), v_product.unit;
+    end if;
+
+    update public.inventory
+    set stock_quantity = stock_quantity - v_line.quantity * v_factor
+    where id = v_product.id;
+
+    v_cost := private.last_movement_cost();
+
+    insert into public.sale_items (
+      sale_id, user_id, product_id, product_name, quantity, unit, unit_factor, unit_price,
+      unit_cost, line_total, profit
+    )
+    values (
+      p_sale_id,
+      auth.uid(),
+      v_product.id,
+      v_product.name,
+      v_line.quantity,
+      v_unit ->> 'name',
+      v_factor,
+      v_price,
+      round(v_cost / v_line.quantity, 2),
+      round(v_price * v_line.quantity, 2),
+      round(v_price * v_line.quantity - v_cost, 2)
+    );
+  end loop;
+
+  update public.sales
+  set total_amount = totals.total_amount,
+      profit = totals.profit
+  from (
+    select coalesce(sum(line_total), 0) as total_amount, coalesce(sum(profit), 0) as profit
+    from public.sale_items
+    where sale_id = p_sale_id
+  ) as totals
+  where id = p_sale_id;
+end;
+$$;
+
+-- Returns ------------------------------------------------------------------------
+
+-- Restocked goods come back in at the cost they were sold at.
+create or replace function public.record_return(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_reason text,
+  p_refund_method public.payment_method default 'cash',
+  p_date date default current_date,
+  p_note text default null
+)
+returns public.sale_returns
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_return public.sale_returns;
+  v_line record;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'Give a reason for the return.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Choose at least one item to return.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::numeric, 0) <= 0
+  ) then
+    raise exception 'Return quantities must be positive.';
+  end if;
+
+  perform private.lock_sale_products(p_sale_id, null);
+
+  insert into public.sale_returns (sale_id, user_id, date, reason, refund_method, note)
+  values (
+    p_sale_id,
+    auth.uid(),
+    coalesce(p_date, current_date),
+    trim(p_reason),
+    coalesce(p_refund_method, 'cash'),
+    nullif(trim(p_note), '')
+  )
+  returning * into v_return;
+
+  perform private.set_stock_movement('return', v_return.id);
+
+  for v_line in
+    select
+      si.id,
+      si.product_id,
+      si.product_name,
+      si.unit,
+      si.unit_factor,
+      si.unit_price,
+      si.unit_cost,
+      si.quantity - coalesce((
+        select sum(ri.quantity) from public.sale_return_items ri where ri.sale_item_id = si.id
+      ), 0) as returnable,
+      req.quantity,
+      req.restock
+    from (
+      select
+        (e ->> 'sale_item_id')::uuid as sale_item_id,
+        sum((e ->> 'quantity')::numeric) as quantity,
+        bool_or(coalesce((e ->> 'restock')::boolean, true)) as restock
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.sale_items si on si.id = req.sale_item_id and si.sale_id = p_sale_id
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this sale.';
+    end if;
+
+    if v_line.quantity > v_line.returnable then
+      raise exception 'Only % % of % can still be returned.',
+        trim_scale(v_line.returnable), v_line.unit, v_line.product_name;
+    end if;
+
+    insert into public.sale_return_items (
+      return_id, sale_item_id, user_id, quantity, restock, refund_amount, profit_reversed
+    )
+    values (
+      v_return.id,
+      v_line.id,
+      auth.uid(),
+      v_line.quantity,
+      v_line.restock,
+      round(v_line.unit_price * v_line.quantity, 2),
+      round(
+        case
+          when v_line.restock then (v_line.unit_price - v_line.unit_cost) * v_line.quantity
+          else v_line.unit_price * v_line.quantity
+        end,
+        2
+      )
+    );
+
+    if v_line.restock and v_line.product_id is not null then
+      perform private.set_movement_unit_cost(v_line.unit_cost / v_line.unit_factor);
+
+      update public.inventory
+      set stock_quantity = stock_quantity + v_line.quantity * v_line.unit_factor
+      where id = v_line.product_id and user_id = auth.uid();
+    end if;
+  end loop;
+
+  update public.sale_returns
+  set refund_amount = totals.refund_amount,
+      profit_reversed = totals.profit_reversed
+  from (
+    select sum(refund_amount) as refund_amount, sum(profit_reversed) as profit_reversed
+    from public.sale_return_items
+    where return_id = v_return.id
+  ) as totals
+  where id = v_return.id
+  returning * into v_return;
+
+  if v_return.refund_method = 'credit' then
+    if v_return.refund_amount > v_sale.amount_due - v_sale.amount_repaid then
+      raise exception 'The customer only owes % on this sale; refund the rest another way.',
+        v_sale.amount_due - v_sale.amount_repaid;
+    end if;
+
+    update public.sales
+    set amount_due = amount_due - v_return.refund_amount
+    where id = p_sale_id;
+  end if;
+
+  return v_return;
+end;
+$$;
+
+-- Purchasing --------------------------------------------------------------------
+
+-- Each line comes in as a cost layer at what was paid per base unit; the
+-- product's cost follows from the costing method rather than being
+-- overwritten with the latest price.
+create or replace function public.receive_purchase_order(p_order_id uuid, p_items jsonb)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_line record;
+begin
+  select * into v_order
+  from public.purchase_orders
+  where id = p_order_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Purchase order not found.';
+  end if;
+
+  if v_order.status <> 'open' then
+    raise exception 'Only open purchase orders can be received.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or not exists (
+    select 1 from jsonb_array_elements(p_items) e where (e ->> 'quantity')::numeric > 0
+  ) then
+    raise exception 'Enter a quantity received for at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where (e ->> 'quantity')::numeric < 0 or (e ->> 'unit_cost')::numeric < 0
+  ) then
+    raise exception 'Quantities and costs cannot be negative.';
+  end if;
+
+  perform 1
+  from public.inventory
+  where user_id = auth.uid()
+    and id in (select product_id from public.purchase_order_items where order_id = p_order_id)
+  order by id
+  for update;
+
+  perform private.set_stock_movement('purchase_receipt', p_order_id);
+
+  for v_line in
+    select
+      poi.id,
+      poi.product_id,
+      poi.product_name,
+      poi.unit,
+      poi.unit_factor,
+      poi.quantity_ordered - poi.quantity_received as outstanding,
+      req.quantity,
+      coalesce(req.unit_cost, poi.unit_cost) as unit_cost
+    from (
+      select
+        (e ->> 'item_id')::uuid as item_id,
+        sum((e ->> 'quantity')::numeric) as quantity,
+        max((e ->> 'unit_cost')::numeric) as unit_cost
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.purchase_order_items poi
+      on poi.id = req.item_id and poi.order_id = p_order_id
+    where req.quantity > 0
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this purchase order.';
+    end if;
+
+    if v_line.quantity > v_line.outstanding then
+      raise exception 'Only % more % of % are on order.',
+        trim_scale(v_line.outstanding), v_line.unit, v_line.product_name;
+    end if;
+
+    update public.purchase_order_items
+    set quantity_received = quantity_received + v_line.quantity,
+        unit_cost = v_line.unit_cost
+    where id = v_line.id;
+
+    perform private.set_movement_unit_cost(v_line.unit_cost / v_line.unit_factor);
+
+    -- Products deleted since the order was placed are skipped.
+    update public.inventory
+    set stock_quantity = stock_quantity + v_line.quantity * v_line.unit_factor
+    where id = v_line.product_id and user_id = auth.uid();
+  end loop;
+
+  for v_line in
+    select poi.product_id, poi.unit_factor, lot.quantity, lot.lot_number, lot.expiry_date
+    from (
+      select
+        (e ->> 'item_id')::uuid as item_id,
+        nullif(trim(e ->> 'lot_number'), '') as lot_number,
+        (nullif(e ->> 'expiry_date', ''))::date as expiry_date,
+        sum((e ->> 'quantity')::numeric) as quantity
+      from jsonb_array_elements(p_items) e
+      group by 1, 2, 3
+    ) lot
+    join public.purchase_order_items poi on poi.id = lot.item_id
+    join public.inventory i on i.id = poi.product_id
+    where lot.quantity > 0 and (lot.lot_number is not null or lot.expiry_date is not null)
+  loop
+    perform private.add_stock_batch(
+      v_line.product_id, v_line.quantity * v_line.unit_factor, v_line.lot_number,
+      v_line.expiry_date, p_order_id
+    );
+  end loop;
+
+  if not exists (
+    select 1 from public.purchase_order_items
+    where order_id = p_order_id and quantity_received < quantity_ordered
+  ) then
+    update public.purchase_orders
+    set status = 'received', received_at = now()
+    where id = p_order_id;
+  end if;
+
+  select * into v_order from public.purchase_orders where id = p_order_id;
+  return v_order;
+end;
+$$;
@@ -0,0 +1,266 @@
+-- Price history. A trigger on inventory records every change to a product's
+-- price or cost in price_changes, with who made it and when it took effect,
+-- so "what did this sell at in March" is the latest change effective before
+-- then. Costs the stock trigger works out as stock moves are recorded too.
+--
+-- A price change can also be scheduled for later: scheduled_price_changes
+-- holds it until its time, when a pg_cron job applies it through the same
+-- trigger, recorded as effective at the scheduled time and made by whoever
+-- scheduled it.
+
+create extension if not exists pg_cron with schema pg_catalog;
+
+create type public.price_change_source as enum (
+  'opening',
+  'manual',
+  'scheduled',
+  'stock_movement'
+);
+
+create table public.scheduled_price_changes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  product_id uuid not null references public.inventory (id) on delete cascade,
+  price numeric(12, 2) not null check (price > 0),
+  effective_at timestamptz not null,
+  note text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_by_email text,
+  created_at timestamptz not null default now(),
+  -- Set once the job has applied it; applied changes can't be cancelled.
+  applied_at timestamptz
+);
+
+create index scheduled_price_changes_user_id_idx on public.scheduled_price_changes (user_id);
+create index scheduled_price_changes_product_id_idx
+  on public.scheduled_price_changes (product_id, effective_at);
+create index scheduled_price_changes_due_idx
+  on public.scheduled_price_changes (effective_at)
+  where applied_at is null;
+
+create table public.price_changes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  product_id uuid not null references public.inventory (id) on delete cascade,
+  source public.price_change_source not null,
+  -- Price and cost from this change on; previous_* are null for 'opening'.
+  price numeric(12, 2) not null,
+  cost numeric(12, 2) not null,
+  previous_price numeric(12, 2),
+  previous_cost numeric(12, 2),
+  scheduled_change_id uuid references public.scheduled_price_changes (id) on delete set null,
+  changed_by uuid references auth.users (id) on delete set null,
+  changed_by_email text,
+  effective_at timestamptz not null default now()
+);
+
+create index price_changes_product_id_idx on public.price_changes (product_id, effective_at);
+create index price_changes_user_id_idx on public.price_changes (user_id);
+
+-- Like the stock ledger, history is only written by the trigger below and
+-- schedules only through the RPCs; users can read theirs.
+alter table public.price_changes enable row level security;
+alter table public.scheduled_price_changes enable row level security;
+
+create policy "Users can read their own price changes"
+  on public.price_changes for select
+  using (user_id = auth.uid());
+
+create policy "Users can read their own scheduled price changes"
+  on public.scheduled_price_changes for select
+  using (user_id = auth.uid());
+
+revoke insert, update, delete on public.price_changes from anon, authenticated;
+revoke insert, update, delete on public.scheduled_price_changes from anon, authenticated;
+
+alter table public.price_changes replica identity full;
+alter table public.scheduled_price_changes replica identity full;
+alter publication supabase_realtime add table public.price_changes;
+alter publication supabase_realtime add table public.scheduled_price_changes;
+
+-- Recording changes ---------------------------------------------------------------
+
+-- Security definer so that it can write to price_changes. The stock trigger's
+-- cost updates run one level deeper than a user's own edits; the scheduler
+-- names the change it is applying in app.price_change_schedule.
+create or replace function private.record_price_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scheduled public.scheduled_price_changes;
+begin
+  if tg_op = 'UPDATE'
+    and new.price is not distinct from old.price
+    and new.cost is not distinct from old.cost then
+    return new;
+  end if;
+
+  select * into v_scheduled
+  from public.scheduled_price_changes
+  where id = nullif(current_setting('app.price_change_schedule', true), '')::uuid;
+
+  insert into public.price_changes (
+    user_id, product_id, source, price, cost, previous_price, previous_cost,
+    scheduled_change_id, changed_by, changed_by_email, effective_at
+  )
+  values (
+    new.user_id,
+    new.id,
+    case
+      when tg_op = 'INSERT' then 'opening'
+      when v_scheduled.id is not null then 'scheduled'
+      when pg_trigger_depth() > 1 then 'stock_movement'
+      else 'manual'
+    end::public.price_change_source,
+    new.price,
+    new.cost,
+    case when tg_op = 'UPDATE' then old.price end,
+    case when tg_op = 'UPDATE' then old.cost end,
+    v_scheduled.id,
+    coalesce(v_scheduled.created_by, auth.uid()),
+    coalesce(v_scheduled.created_by_email, auth.jwt() ->> 'email'),
+    coalesce(v_scheduled.effective_at, now())
+  );
+  return new;
+end;
+$$;
+
+create trigger inventory_price_change
+  after insert or update of price, cost on public.inventory
+  for each row execute function private.record_price_change();
+
+-- Earlier prices weren't kept; each product's history starts from what it
+-- has now.
+insert into public.price_changes (user_id, product_id, source, price, cost)
+select user_id, id, 'opening', price, cost
+from public.inventory;
+
+-- Scheduling --------------------------------------------------------------------
+
+create or replace function public.schedule_price_change(
+  p_product_id uuid,
+  p_price numeric,
+  p_effective_at timestamptz,
+  p_note text default null
+)
+returns public.scheduled_price_changes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_change public.scheduled_price_changes;
+begin
+  if not exists (
+    select 1 from public.inventory where id = p_product_id and user_id = auth.uid()
+  ) then
+    raise exception 'Product not found.';
+  end if;
+
+  if coalesce(p_price, 0) <= 0 then
+    raise exception 'Price must be positive.';
+  end if;
+
+  if p_effective_at is null or p_effective_at <= now() then
+    raise exception 'Schedule the change for a time in the future.';
+  end if;
+
+  insert into public.scheduled_price_changes (
+    user_id, product_id, price, effective_at, note, created_by, created_by_email
+  )
+  values (
+    auth.uid(),
+    p_product_id,
+    p_price,
+    p_effective_at,
+    nullif(trim(p_note), ''),
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  )
+  returning * into v_change;
+
+  return v_change;
+end;
+$$;
+
+grant execute on function public.schedule_price_change(uuid, numeric, timestamptz, text)
+  to authenticated;
+
+create or replace function public.cancel_scheduled_price_change(p_change_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_change public.scheduled_price_changes;
+begin
+  select * into v_change
+  from public.scheduled_price_changes
+  where id = p_change_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Scheduled price change not found.';
+  end if;
+
+  if v_change.applied_at is not null then
+    raise exception 'This price change has already taken effect.';
+  end if;
+
+  delete from public.scheduled_price_changes where id = p_change_id;
+end;
+$$;
+
+grant execute on function public.cancel_scheduled_price_change(uuid) to authenticated;
+
+-- Applies every scheduled change that has come due, oldest first, and returns
+-- how many it applied. A variant's scheduled price becomes its own price
+-- rather than following its parent's. Runs from pg_cron, outside any user's
+-- session, so it is security definer and not granted to clients.
+create or replace function private.apply_due_price_changes()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_change public.scheduled_price_changes;
+  v_applied integer := 0;
+begin
+  for v_change in
+    select *
+    from public.scheduled_price_changes
+    where applied_at is null and effective_at <= now()
+    order by effective_at
+    for update skip locked
+  loop
+    perform set_config('app.price_change_schedule', v_change.id::text, true);
+
+    update public.inventory
+    set price = v_change.price,
+        price_override = case when parent_id is null then price_override else v_change.price end
+    where id = v_change.product_id;
+
+    update public.scheduled_price_changes
+    set applied_at = now()
+    where id = v_change.id;
+
+    v_applied := v_applied + 1;
+  end loop;
+
+  perform set_config('app.price_change_schedule', '', true);
+  return v_applied;
+end;
+$$;
+
+revoke execute on function private.apply_due_price_changes() from public, anon, authenticated;
+
+select cron.schedule(
+  'apply-due-price-changes',
+  '* * * * *',
+  $$select private.apply_due_price_changes()$$
+);
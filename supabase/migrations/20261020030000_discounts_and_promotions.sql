@@ -0,0 +1,620 @@
+-- Discounts and promotions. A sale line can carry a manual discount (percent
+-- or a fixed amount off the line) and the sale one off the whole basket;
+-- promotions apply by themselves to the lines they cover. Each line keeps
+-- its list price in unit_price and everything taken off it in
+-- discount_amount, so line_total, profit and the sale's totals are what was
+-- actually charged, and refunds give back what was paid.
+--
+-- On each line the best promotion comes off first, then the manual line
+-- discount; the basket discount comes off what is left and is shared across
+-- the lines in proportion to their totals. shop_settings.max_manual_discount
+-- caps how much (as a percent) any manual discount may take off.
+
+create type public.discount_type as enum ('percent', 'fixed');
+
+create type public.promotion_kind as enum ('percent_off', 'buy_x_get_y');
+
+create table public.promotions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  kind public.promotion_kind not null,
+  -- percent_off: how much comes off each line it covers.
+  percent numeric(5, 2) check (percent > 0 and percent <= 100),
+  -- buy_x_get_y: for every buy_quantity + free_quantity on a line, the last
+  -- free_quantity are free.
+  buy_quantity integer check (buy_quantity > 0),
+  free_quantity integer check (free_quantity > 0),
+  -- What it covers: one product, else one category, else everything.
+  product_id uuid references public.inventory (id) on delete cascade,
+  category text,
+  starts_on date not null default current_date,
+  -- Last day it applies; null runs until it is switched off.
+  ends_on date,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint promotions_kind_terms check (
+    case kind
+      when 'percent_off' then percent is not null
+      when 'buy_x_get_y' then buy_quantity is not null and free_quantity is not null
+    end
+  ),
+  constraint promotions_dates check (ends_on is null or ends_on >= starts_on)
+);
+
+create index promotions_user_id_idx on public.promotions (user_id);
+
+alter table public.promotions enable row level security;
+
+create policy "Users can read their own promotions"
+  on public.promotions for select
+  using (user_id = auth.uid());
+create policy "Users can add their own promotions"
+  on public.promotions for insert
+  with check (user_id = auth.uid());
+create policy "Users can update their own promotions"
+  on public.promotions for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+create policy "Users can delete their own promotions"
+  on public.promotions for delete
+  using (user_id = auth.uid());
+
+alter table public.promotions replica identity full;
+alter publication supabase_realtime add table public.promotions;
+
+-- Largest manual discount allowed, as a percent of what it comes off; null
+-- means no limit.
+alter table public.shop_settings
+  add column max_manual_discount numeric(5, 2)
+    check (max_manual_discount >= 0 and max_manual_discount <= 100);
+
+-- The manual line discount as entered (kept so an edited sale shows it
+-- again), the promotion applied, and everything taken off the line.
+alter table public.sale_items
+  add column discount_type public.discount_type,
+  add column discount_value numeric(12, 2),
+  add column promotion_id uuid references public.promotions (id) on delete set null,
+  add column promotion_name text,
+  add column discount_amount numeric(12, 2) not null default 0;
+
+-- The basket discount as entered, and the total taken off every line.
+alter table public.sales
+  add column discount_type public.discount_type,
+  add column discount_value numeric(12, 2),
+  add column discount_amount numeric(12, 2) not null default 0;
+
+-- Helpers -----------------------------------------------------------------------
+
+create or replace function private.max_manual_discount(p_user_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select max_manual_discount from public.shop_settings where user_id = p_user_id;
+$$;
+
+-- What a manual discount takes off p_base; raises if it is negative, over
+-- 100% or more than p_base, or more than p_limit percent of it.
+create or replace function private.discount_amount(
+  p_type public.discount_type,
+  p_value numeric,
+  p_base numeric,
+  p_limit numeric
+)
+returns numeric
+language plpgsql
+immutable
+as $$
+declare
+  v_amount numeric;
+begin
+  if p_type is null or coalesce(p_value, 0) = 0 then
+    return 0;
+  end if;
+
+  if p_value < 0 then
+    raise exception 'Discounts cannot be negative.';
+  end if;
+
+  if p_type = 'percent' and p_value > 100 then
+    raise exception 'A discount cannot be more than 100%%.';
+  end if;
+
+  v_amount := case p_type
+    when 'percent' then round(p_base * p_value / 100, 2)
+    else p_value
+  end;
+
+  if v_amount > p_base then
+    raise exception 'A discount of % is more than the % it comes off.', v_amount, p_base;
+  end if;
+
+  if p_limit is not null and v_amount > round(p_base * p_limit / 100, 2) then
+    raise exception 'Manual discounts are limited to % off; the limit is set in Settings.',
+      trim_scale(p_limit) || '%';
+  end if;
+
+  return v_amount;
+end;
+$$;
+
+-- What p_promotion takes off p_quantity at p_price each.
+create or replace function private.promotion_discount(
+  p_promotion public.promotions,
+  p_quantity numeric,
+  p_price numeric
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case p_promotion.kind
+    when 'percent_off' then round(p_price * p_quantity * p_promotion.percent / 100, 2)
+    when 'buy_x_get_y' then round(
+      floor(p_quantity / (p_promotion.buy_quantity + p_promotion.free_quantity))
+        * p_promotion.free_quantity * p_price,
+      2
+    )
+  end;
+$$;
+
+-- Sales -------------------------------------------------------------------------
+
+-- Adds p_discount, the basket discount ({"type", "value"}); each item can
+-- carry its own "discount" the same way. record_sale and update_sale are
+-- the only callers and are redefined below.
+drop function if exists private.apply_sale_items(uuid, jsonb);
+
+create or replace function private.apply_sale_items(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_discount jsonb default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_limit numeric;
+  v_line record;
+  v_product public.inventory;
+  v_unit jsonb;
+  v_factor numeric;
+  v_price numeric;
+  v_cost numeric;
+  v_gross numeric;
+  v_promotion record;
+  v_promotion_amount numeric;
+  v_manual numeric;
+  v_subtotal numeric;
+  v_basket numeric;
+  v_left numeric;
+  v_share numeric;
+  v_item record;
+  v_largest uuid;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::numeric, 0) <= 0
+  ) then
+    raise exception 'Quantity must be positive.';
+  end if;
+
+  select * into v_sale from public.sales where id = p_sale_id;
+  v_limit := private.max_manual_discount(auth.uid());
+
+  perform private.set_stock_movement('sale', p_sale_id);
+
+  for v_line in
+    select
+      (e ->> 'product_id')::uuid as product_id,
+      nullif(e ->> 'unit', '') as unit,
+      nullif(e #>> '{discount,type}', '')::public.discount_type as discount_type,
+      (e #>> '{discount,value}')::numeric as discount_value,
+      sum((e ->> 'quantity')::numeric) as quantity
+    from jsonb_array_elements(p_items) e
+    group by 1, 2, 3, 4
+  loop
+    select * into v_product
+    from public.inventory
+    where id = v_line.product_id and user_id = auth.uid();
+
+    if not found then
+      raise exception 'Product not found.';
+    end if;
+
+    v_unit := private.product_unit(v_product, v_line.unit, 'sale');
+    v_factor := (v_unit ->> 'factor')::numeric;
+    v_price := (v_unit ->> 'price')::numeric;
+
+    perform private.check_whole_quantity(v_product, v_line.quantity, v_factor);
+
+    if v_product.stock_quantity < v_line.quantity * v_factor then
+      raise exception 'Not enough stock for %: % % available, % % requested.',
+        v_product.name, trim_scale(v_product.stock_quantity), v_product.unit,
+        trim_scale(v_line.quantity * v_factor), v_product.unit;
+    end if;
+
+    update public.inventory
+    set stock_quantity = stock_quantity - v_line.quantity * v_factor
+    where id = v_product.id;
+
+    v_cost := private.last_movement_cost();
+    v_gross := round(v_price * v_line.quantity, 2);
+
+    -- The promotion running on the sale's date that takes the most off.
+    select p.id, p.name, private.promotion_discount(p, v_line.quantity, v_price) as amount
+    into v_promotion
+    from public.promotions p
+    where p.user_id = auth.uid()
+      and p.active
+      and v_sale.date >= p.starts_on
+      and (p.ends_on is null or v_sale.date <= p.ends_on)
+      and (
+        p.product_id = v_product.id
+        or (p.product_id is null and (p.category is null or p.category = v_product.category))
+      )
+    order by 3 desc, p.created_at
+    limit 1;
+
+    v_promotion_amount := least(coalesce(v_promotion.amount, 0), v_gross);
+    v_manual := private.discount_amount(
+      v_line.discount_type, v_line.discount_value, v_gross - v_promotion_amount, v_limit
+    );
+
+    insert into public.sale_items (
+      sale_id, user_id, product_id, product_name, quantity, unit, unit_factor, unit_price,
+      unit_cost, line_total, profit, discount_type, discount_value, promotion_id,
+      promotion_name, discount_amount
+    )
+    values (
+      p_sale_id,
+      auth.uid(),
+      v_product.id,
+      v_product.name,
+      v_line.quantity,
+      v_unit ->> 'name',
+      v_factor,
+      v_price,
+      round(v_cost / v_line.quantity, 2),
+      v_gross - v_promotion_amount - v_manual,
+      round(v_gross - v_promotion_amount - v_manual - v_cost, 2),
+      case when v_manual > 0 then v_line.discount_type end,
+      case when v_manual > 0 then v_line.discount_value end,
+      case when v_promotion_amount > 0 then v_promotion.id end,
+      case when v_promotion_amount > 0 then v_promotion.name end,
+      v_promotion_amount + v_manual
+    );
+  end loop;
+
+  -- The basket discount, shared across the lines by their totals; rounding
+  -- leftovers go on the largest line.
+  select coalesce(sum(line_total), 0) into v_subtotal
+  from public.sale_items
+  where sale_id = p_sale_id;
+
+  v_basket := private.discount_amount(
+    nullif(p_discount ->> 'type', '')::public.discount_type,
+    (p_discount ->> 'value')::numeric,
+    v_subtotal,
+    v_limit
+  );
+
+  if v_basket > 0 then
+    v_left := v_basket;
+    for v_item in
+      select id, line_total
+      from public.sale_items
+      where sale_id = p_sale_id and line_total > 0
+      order by line_total desc, id
+    loop
+      v_largest := coalesce(v_largest, v_item.id);
+      v_share := least(v_left, round(v_basket * v_item.line_total / v_subtotal, 2));
+      v_left := v_left - v_share;
+
+      update public.sale_items
+      set line_total = line_total - v_share,
+          profit = profit - v_share,
+          discount_amount = discount_amount + v_share
+      where id = v_item.id;
+    end loop;
+
+    update public.sale_items
+    set line_total = line_total - v_left,
+        profit = profit - v_left,
+        discount_amount = discount_amount + v_left
+    where id = v_largest;
+  end if;
+
+  update public.sales
+  set total_amount = totals.total_amount,
+      profit = totals.profit,
+      discount_type = case when v_basket > 0 then (p_discount ->> 'type')::public.discount_type end,
+      discount_value = case when v_basket > 0 then (p_discount ->> 'value')::numeric end,
+      discount_amount = totals.discount_amount
+  from (
+    select
+      coalesce(sum(line_total), 0) as total_amount,
+      coalesce(sum(profit), 0) as profit,
+      coalesce(sum(discount_amount), 0) as discount_amount
+    from public.sale_items
+    where sale_id = p_sale_id
+  ) as totals
+  where id = p_sale_id;
+end;
+$$;
+
+-- Adds p_discount; callers passing up to four arguments are unaffected.
+drop function if exists public.record_sale(jsonb, date, jsonb, uuid);
+drop function if exists public.update_sale(uuid, jsonb, date, jsonb, uuid);
+
+create or replace function public.record_sale(
+  p_items jsonb,
+  p_date date default current_date,
+  p_payments jsonb default null,
+  p_customer_id uuid default null,
+  p_discount jsonb default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  perform private.check_customer(p_customer_id);
+
+  insert into public.sales (user_id, date, customer_id)
+  values (auth.uid(), coalesce(p_date, current_date), p_customer_id)
+  returning * into v_sale;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.apply_sale_items(v_sale.id, p_items, p_discount);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+  perform private.apply_sale_credit(v_sale.id);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_date date,
+  p_payments jsonb default null,
+  p_customer_id uuid default null,
+  p_discount jsonb default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  perform private.check_customer(p_customer_id);
+
+  if v_sale.amount_repaid > 0 and p_customer_id is distinct from v_sale.customer_id then
+    raise exception 'This sale has repayments against it, so its customer cannot change.';
+  end if;
+
+  update public.sales
+  set date = coalesce(p_date, v_sale.date),
+      customer_id = p_customer_id
+  where id = v_sale.id;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.restock_sale_items(v_sale.id);
+  perform private.apply_sale_items(v_sale.id, p_items, p_discount);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+  perform private.apply_sale_credit(v_sale.id);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.record_sale(jsonb, date, jsonb, uuid, jsonb) to authenticated;
+grant execute on function public.update_sale(uuid, jsonb, date, jsonb, uuid, jsonb)
+  to authenticated;
+
+-- Returns ------------------------------------------------------------------------
+
+-- Refunds are now at the price paid per unit after discounts, not the list
+-- price.
+create or replace function public.record_return(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_reason text,
+  p_refund_method public.payment_method default 'cash',
+  p_date date default current_date,
+  p_note text default null
+)
+returns public.sale_returns
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_return public.sale_returns;
+  v_line record;
+  v_refund numeric;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'Give a reason for the return.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Choose at least one item to return.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::numeric, 0) <= 0
+  ) then
+    raise exception 'Return quantities must be positive.';
+  end if;
+
+  perform private.lock_sale_products(p_sale_id, null);
+
+  insert into public.sale_returns (sale_id, user_id, date, reason, refund_method, note)
+  values (
+    p_sale_id,
+    auth.uid(),
+    coalesce(p_date, current_date),
+    trim(p_reason),
+    coalesce(p_refund_method, 'cash'),
+    nullif(trim(p_note), '')
+  )
+  returning * into v_return;
+
+  perform private.set_stock_movement('return', v_return.id);
+
+  for v_line in
+    select
+      si.id,
+      si.product_id,
+      si.product_name,
+      si.unit,
+      si.unit_factor,
+      si.line_total / si.quantity as paid_price,
+      si.unit_cost,
+      si.quantity - coalesce((
+        select sum(ri.quantity) from public.sale_return_items ri where ri.sale_item_id = si.id
+      ), 0) as returnable,
+      req.quantity,
+      req.restock
+    from (
+      select
+        (e ->> 'sale_item_id')::uuid as sale_item_id,
+        sum((e ->> 'quantity')::numeric) as quantity,
+        bool_or(coalesce((e ->> 'restock')::boolean, true)) as restock
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.sale_items si on si.id = req.sale_item_id and si.sale_id = p_sale_id
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this sale.';
+    end if;
+
+    if v_line.quantity > v_line.returnable then
+      raise exception 'Only % % of % can still be returned.',
+        trim_scale(v_line.returnable), v_line.unit, v_line.product_name;
+    end if;
+
+    v_refund := round(v_line.paid_price * v_line.quantity, 2);
+
+    insert into public.sale_return_items (
+      return_id, sale_item_id, user_id, quantity, restock, refund_amount, profit_reversed
+    )
+    values (
+      v_return.id,
+      v_line.id,
+      auth.uid(),
+      v_line.quantity,
+      v_line.restock,
+      v_refund,
+      case
+        when v_line.restock then round(v_refund - v_line.unit_cost * v_line.quantity, 2)
+        else v_refund
+      end
+    );
+
+    if v_line.restock and v_line.product_id is not null then
+      perform private.set_movement_unit_cost(v_line.unit_cost / v_line.unit_factor);
+
+      update public.inventory
+      set stock_quantity = stock_quantity + v_line.quantity * v_line.unit_factor
+      where id = v_line.product_id and user_id = auth.uid();
+    end if;
+  end loop;
+
+  update public.sale_returns
+  set refund_amount = totals.refund_amount,
+      profit_reversed = totals.profit_reversed
+  from (
+    select sum(refund_amount) as refund_amount, sum(profit_reversed) as profit_reversed
+    from public.sale_return_items
+    where return_id = v_return.id
+  ) as totals
+  where id = v_return.id
+  returning * into v_return;
+
+  if v_return.refund_method = 'credit' then
+    if v_return.refund_amount > v_sale.amount_due - v_sale.amount_repaid then
+      raise exception 'The customer only owes % on this sale; refund the rest another way.',
+        v_sale.amount_due - v_sale.amount_repaid;
+    end if;
+
+    update public.sales
+    set amount_due = amount_due - v_return.refund_amount
+    where id = p_sale_id;
+  end if;
+
+  return v_return;
+end;
+$$;
+
+-- Settings ----------------------------------------------------------------------
+
+-- Sets (or, with null, lifts) the limit on manual discounts.
+create or replace function public.set_discount_limit(p_percent numeric)
+returns public.shop_settings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.shop_settings;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to change settings.';
+  end if;
+
+  if p_percent < 0 or p_percent > 100 then
+    raise exception 'The discount limit must be between 0 and 100%%.';
+  end if;
+
+  insert into public.shop_settings (user_id, max_manual_discount)
+  values (auth.uid(), p_percent)
+  on conflict (user_id) do update
+    set max_manual_discount = excluded.max_manual_discount, updated_at = now()
+  returning * into v_settings;
+
+  return v_settings;
+end;
+$$;
+
+grant execute on function public.set_discount_limit(numeric) to authenticated;
@@ -0,0 +1,533 @@
+-- VAT. Each product has a tax category: standard rated (VAT at the shop's
+-- rate, 16% unless changed), zero rated (taxable at 0%) or exempt (outside
+-- VAT). Zero-rated and exempt sales both carry no VAT but are reported
+-- apart. Each shop sets whether its prices include VAT; when they don't, VAT
+-- is added on top of every line.
+--
+-- Once its discounts are taken off, each sale line stores its tax category,
+-- rate and VAT, and line_total is what the customer pays including VAT.
+-- Profit leaves VAT out, since it is owed to KRA. Lines sold before this
+-- have no tax category and no VAT. Returns give back VAT in proportion to
+-- what is returned and record it, so output VAT for a period is the sales'
+-- VAT less that of the returns made in it.
+
+create type public.tax_category as enum ('standard', 'zero_rated', 'exempt');
+
+alter table public.inventory
+  add column tax_category public.tax_category not null default 'standard';
+
+-- Copied to every variant when the parent is saved.
+alter table public.product_parents
+  add column tax_category public.tax_category not null default 'standard';
+
+alter table public.shop_settings
+  add column prices_include_tax boolean not null default true,
+  add column vat_rate numeric(5, 2) not null default 16
+    check (vat_rate >= 0 and vat_rate <= 100);
+
+-- As they were when the line was sold; tax_category is null on lines sold
+-- before VAT was tracked.
+alter table public.sale_items
+  add column tax_category public.tax_category,
+  add column tax_rate numeric(5, 2) not null default 0,
+  add column tax_amount numeric(12, 2) not null default 0;
+
+alter table public.sales
+  add column tax_amount numeric(12, 2) not null default 0;
+
+alter table public.sale_return_items
+  add column tax_amount numeric(12, 2) not null default 0;
+
+alter table public.sale_returns
+  add column tax_amount numeric(12, 2) not null default 0;
+
+-- Sales -------------------------------------------------------------------------
+
+-- Works out each line's VAT from its product's tax category and the shop's
+-- settings, after apply_sale_items has priced and discounted it, and adds it
+-- to line_total when prices exclude VAT.
+create or replace function private.apply_sale_tax(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_inclusive boolean;
+  v_vat_rate numeric;
+  v_item record;
+  v_rate numeric;
+  v_tax numeric;
+begin
+  select prices_include_tax, vat_rate into v_inclusive, v_vat_rate
+  from public.shop_settings
+  where user_id = auth.uid();
+
+  v_inclusive := coalesce(v_inclusive, true);
+  v_vat_rate := coalesce(v_vat_rate, 16);
+
+  for v_item in
+    select si.id, si.line_total, i.tax_category
+    from public.sale_items si
+    join public.inventory i on i.id = si.product_id
+    where si.sale_id = p_sale_id
+  loop
+    v_rate := case when v_item.tax_category = 'standard' then v_vat_rate else 0 end;
+    v_tax := case
+      when v_inclusive then round(v_item.line_total * v_rate / (100 + v_rate), 2)
+      else round(v_item.line_total * v_rate / 100, 2)
+    end;
+
+    update public.sale_items
+    set tax_category = v_item.tax_category,
+        tax_rate = v_rate,
+        tax_amount = v_tax,
+        line_total = line_total + case when v_inclusive then 0 else v_tax end,
+        profit = profit - case when v_inclusive then v_tax else 0 end
+    where id = v_item.id;
+  end loop;
+
+  update public.sales
+  set total_amount = totals.total_amount,
+      profit = totals.profit,
+      tax_amount = totals.tax_amount
+  from (
+    select
+      coalesce(sum(line_total), 0) as total_amount,
+      coalesce(sum(profit), 0) as profit,
+      coalesce(sum(tax_amount), 0) as tax_amount
+    from public.sale_items
+    where sale_id = p_sale_id
+  ) as totals
+  where id = p_sale_id;
+end;
+$$;
+
+-- Both now apply VAT before taking payment; their signatures are unchanged.
+create or replace function public.record_sale(
+  p_items jsonb,
+  p_date date default current_date,
+  p_payments jsonb default null,
+  p_customer_id uuid default null,
+  p_discount jsonb default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  perform private.check_customer(p_customer_id);
+
+  insert into public.sales (user_id, date, customer_id)
+  values (auth.uid(), coalesce(p_date, current_date), p_customer_id)
+  returning * into v_sale;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.apply_sale_items(v_sale.id, p_items, p_discount);
+  perform private.apply_sale_tax(v_sale.id);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+  perform private.apply_sale_credit(v_sale.id);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_date date,
+  p_payments jsonb default null,
+  p_customer_id uuid default null,
+  p_discount jsonb default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  perform private.check_customer(p_customer_id);
+
+  if v_sale.amount_repaid > 0 and p_customer_id is distinct from v_sale.customer_id then
+    raise exception 'This sale has repayments against it, so its customer cannot change.';
+  end if;
+
+  update public.sales
+  set date = coalesce(p_date, v_sale.date),
+      customer_id = p_customer_id
+  where id = v_sale.id;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.restock_sale_items(v_sale.id);
+  perform private.apply_sale_items(v_sale.id, p_items, p_discount);
+  perform private.apply_sale_tax(v_sale.id);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+  perform private.apply_sale_credit(v_sale.id);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+-- Returns ------------------------------------------------------------------------
+
+-- Now records the VAT given back, and leaves it out of the profit reversed.
+create or replace function public.record_return(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_reason text,
+  p_refund_method public.payment_method default 'cash',
+  p_date date default current_date,
+  p_note text default null
+)
+returns public.sale_returns
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_return public.sale_returns;
+  v_line record;
+  v_refund numeric;
+  v_tax numeric;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'Give a reason for the return.';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Choose at least one item to return.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) e
+    where coalesce((e ->> 'quantity')::numeric, 0) <= 0
+  ) then
+    raise exception 'Return quantities must be positive.';
+  end if;
+
+  perform private.lock_sale_products(p_sale_id, null);
+
+  insert into public.sale_returns (sale_id, user_id, date, reason, refund_method, note)
+  values (
+    p_sale_id,
+    auth.uid(),
+    coalesce(p_date, current_date),
+    trim(p_reason),
+    coalesce(p_refund_method, 'cash'),
+    nullif(trim(p_note), '')
+  )
+  returning * into v_return;
+
+  perform private.set_stock_movement('return', v_return.id);
+
+  for v_line in
+    select
+      si.id,
+      si.product_id,
+      si.product_name,
+      si.unit,
+      si.unit_factor,
+      si.line_total / si.quantity as paid_price,
+      si.tax_amount / si.quantity as tax_per_unit,
+      si.unit_cost,
+      si.quantity - coalesce((
+        select sum(ri.quantity) from public.sale_return_items ri where ri.sale_item_id = si.id
+      ), 0) as returnable,
+      req.quantity,
+      req.restock
+    from (
+      select
+        (e ->> 'sale_item_id')::uuid as sale_item_id,
+        sum((e ->> 'quantity')::numeric) as quantity,
+        bool_or(coalesce((e ->> 'restock')::boolean, true)) as restock
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) req
+    left join public.sale_items si on si.id = req.sale_item_id and si.sale_id = p_sale_id
+  loop
+    if v_line.id is null then
+      raise exception 'That item is not on this sale.';
+    end if;
+
+    if v_line.quantity > v_line.returnable then
+      raise exception 'Only % % of % can still be returned.',
+        trim_scale(v_line.returnable), v_line.unit, v_line.product_name;
+    end if;
+
+    v_refund := round(v_line.paid_price * v_line.quantity, 2);
+    v_tax := round(v_line.tax_per_unit * v_line.quantity, 2);
+
+    insert into public.sale_return_items (
+      return_id, sale_item_id, user_id, quantity, restock, refund_amount, tax_amount,
+      profit_reversed
+    )
+    values (
+      v_return.id,
+      v_line.id,
+      auth.uid(),
+      v_line.quantity,
+      v_line.restock,
+      v_refund,
+      v_tax,
+      case
+        when v_line.restock then round(v_refund - v_tax - v_line.unit_cost * v_line.quantity, 2)
+        else v_refund - v_tax
+      end
+    );
+
+    if v_line.restock and v_line.product_id is not null then
+      perform private.set_movement_unit_cost(v_line.unit_cost / v_line.unit_factor);
+
+      update public.inventory
+      set stock_quantity = stock_quantity + v_line.quantity * v_line.unit_factor
+      where id = v_line.product_id and user_id = auth.uid();
+    end if;
+  end loop;
+
+  update public.sale_returns
+  set refund_amount = totals.refund_amount,
+      tax_amount = totals.tax_amount,
+      profit_reversed = totals.profit_reversed
+  from (
+    select
+      sum(refund_amount) as refund_amount,
+      sum(tax_amount) as tax_amount,
+      sum(profit_reversed) as profit_reversed
+    from public.sale_return_items
+    where return_id = v_return.id
+  ) as totals
+  where id = v_return.id
+  returning * into v_return;
+
+  if v_return.refund_method = 'credit' then
+    if v_return.refund_amount > v_sale.amount_due - v_sale.amount_repaid then
+      raise exception 'The customer only owes % on this sale; refund the rest another way.',
+        v_sale.amount_due - v_sale.amount_repaid;
+    end if;
+
+    update public.sales
+    set amount_due = amount_due - v_return.refund_amount
+    where id = p_sale_id;
+  end if;
+
+  return v_return;
+end;
+$$;
+
+-- Products ----------------------------------------------------------------------
+
+-- Adds "tax_category" to p_parent, copied to every variant.
+create or replace function public.save_product_parent(
+  p_parent_id uuid,
+  p_parent jsonb,
+  p_variants jsonb
+)
+returns public.product_parents
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_old public.product_parents;
+  v_parent public.product_parents;
+  v_variant jsonb;
+  v_values jsonb;
+  v_supplier_id uuid := nullif(p_parent ->> 'supplier_id', '')::uuid;
+  v_tax_category public.tax_category :=
+    nullif(p_parent ->> 'tax_category', '')::public.tax_category;
+begin
+  if coalesce(trim(p_parent ->> 'name'), '') = '' then
+    raise exception 'Product name is required.';
+  end if;
+
+  if coalesce((p_parent ->> 'price')::numeric, 0) <= 0 then
+    raise exception 'Price must be greater than 0.';
+  end if;
+
+  if p_variants is null or jsonb_typeof(p_variants) <> 'array'
+    or jsonb_array_length(p_variants) = 0 then
+    raise exception 'A product needs at least one variant.';
+  end if;
+
+  if (select count(distinct e -> 'option_values') from jsonb_array_elements(p_variants) e)
+    < jsonb_array_length(p_variants) then
+    raise exception 'Each variant needs its own combination of options.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_variants) e
+    where (e ->> 'price_override')::numeric <= 0 or (e ->> 'opening_stock')::integer < 0
+  ) then
+    raise exception 'Variant prices must be positive and opening stock cannot be negative.';
+  end if;
+
+  if v_supplier_id is not null then
+    perform private.check_supplier(v_supplier_id);
+  end if;
+
+  if p_parent_id is null then
+    insert into public.product_parents (
+      user_id, name, category, price, cost, reorder_level, supplier_id, options, tax_category
+    )
+    values (
+      auth.uid(),
+      trim(p_parent ->> 'name'),
+      coalesce(trim(p_parent ->> 'category'), ''),
+      (p_parent ->> 'price')::numeric,
+      coalesce((p_parent ->> 'cost')::numeric, 0),
+      coalesce((p_parent ->> 'reorder_level')::integer, 5),
+      v_supplier_id,
+      coalesce(p_parent -> 'options', '[]'::jsonb),
+      coalesce(v_tax_category, 'standard')
+    )
+    returning * into v_parent;
+  else
+    select * into v_old
+    from public.product_parents
+    where id = p_parent_id and user_id = auth.uid()
+    for update;
+
+    if not found then
+      raise exception 'Product not found.';
+    end if;
+
+    update public.product_parents
+    set name = trim(p_parent ->> 'name'),
+        category = coalesce(trim(p_parent ->> 'category'), ''),
+        price = (p_parent ->> 'price')::numeric,
+        cost = coalesce((p_parent ->> 'cost')::numeric, cost),
+        reorder_level = coalesce((p_parent ->> 'reorder_level')::integer, reorder_level),
+        supplier_id = v_supplier_id,
+        options = coalesce(p_parent -> 'options', options),
+        tax_category = coalesce(v_tax_category, tax_category)
+    where id = p_parent_id
+    returning * into v_parent;
+  end if;
+
+  -- Removed first, so a new variant can take a removed one's options.
+  delete from public.inventory i
+  where i.parent_id = v_parent.id
+    and not exists (
+      select 1 from jsonb_array_elements(p_variants) e
+      where (e ->> 'id')::uuid = i.id
+    );
+
+  for v_variant in select * from jsonb_array_elements(p_variants)
+  loop
+    v_values := coalesce(v_variant -> 'option_values', '{}'::jsonb);
+
+    if v_variant ->> 'id' is null then
+      insert into public.inventory (
+        user_id, parent_id, option_values, name, category, price, price_override, cost,
+        reorder_level, supplier_id, sku, barcode, stock_quantity, tax_category
+      )
+      values (
+        auth.uid(),
+        v_parent.id,
+        v_values,
+        private.variant_name(v_parent.name, v_parent.options, v_values),
+        v_parent.category,
+        coalesce((v_variant ->> 'price_override')::numeric, v_parent.price),
+        (v_variant ->> 'price_override')::numeric,
+        v_parent.cost,
+        v_parent.reorder_level,
+        v_parent.supplier_id,
+        nullif(trim(v_variant ->> 'sku'), ''),
+        nullif(trim(v_variant ->> 'barcode'), ''),
+        coalesce((v_variant ->> 'opening_stock')::integer, 0),
+        v_parent.tax_category
+      );
+    else
+      update public.inventory
+      set option_values = v_values,
+          name = private.variant_name(v_parent.name, v_parent.options, v_values),
+          category = v_parent.category,
+          price = coalesce((v_variant ->> 'price_override')::numeric, v_parent.price),
+          price_override = (v_variant ->> 'price_override')::numeric,
+          cost = case when v_old.cost is distinct from v_parent.cost then v_parent.cost else cost end,
+          reorder_level = v_parent.reorder_level,
+          supplier_id = v_parent.supplier_id,
+          sku = nullif(trim(v_variant ->> 'sku'), ''),
+          barcode = nullif(trim(v_variant ->> 'barcode'), ''),
+          tax_category = v_parent.tax_category
+      where id = (v_variant ->> 'id')::uuid and parent_id = v_parent.id;
+
+      if not found then
+        raise exception 'Variant not found.';
+      end if;
+    end if;
+  end loop;
+
+  return v_parent;
+end;
+$$;
+
+grant execute on function public.save_product_parent(uuid, jsonb, jsonb) to authenticated;
+
+-- Settings ----------------------------------------------------------------------
+
+-- Sets the standard VAT rate and whether prices include it. Sales already
+-- made keep the VAT they were given.
+create or replace function public.set_tax_settings(
+  p_prices_include_tax boolean,
+  p_vat_rate numeric
+)
+returns public.shop_settings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.shop_settings;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to change settings.';
+  end if;
+
+  if p_prices_include_tax is null or p_vat_rate is null then
+    raise exception 'Choose a VAT rate and whether prices include it.';
+  end if;
+
+  if p_vat_rate < 0 or p_vat_rate > 100 then
+    raise exception 'The VAT rate must be between 0 and 100%%.';
+  end if;
+
+  insert into public.shop_settings (user_id, prices_include_tax, vat_rate)
+  values (auth.uid(), p_prices_include_tax, p_vat_rate)
+  on conflict (user_id) do update
+    set prices_include_tax = excluded.prices_include_tax,
+        vat_rate = excluded.vat_rate,
+        updated_at = now()
+  returning * into v_settings;
+
+  return v_settings;
+end;
+$$;
+
+grant execute on function public.set_tax_settings(boolean, numeric) to authenticated;
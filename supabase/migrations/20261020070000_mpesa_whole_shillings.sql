@@ -0,0 +1,103 @@
+-- M-Pesa only moves whole shillings, and the STK push used to round a tender
+-- with cents up, charging the customer more than the sale recorded. Such
+-- tenders are now refused; the cents go on another payment.
+
+-- Same as before, plus the whole-shilling check.
+create or replace function private.apply_sale_payments(p_sale_id uuid, p_payments jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_total numeric(12, 2);
+  v_paid numeric(12, 2);
+  v_prompted public.sale_payments;
+  v_entry jsonb;
+begin
+  select total_amount into v_total
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid();
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  for v_prompted in
+    select *
+    from public.sale_payments
+    where sale_id = p_sale_id and checkout_request_id is not null and status <> 'failed'
+  loop
+    select e into v_entry
+    from jsonb_array_elements(coalesce(p_payments, '[]'::jsonb)) e
+    where e ->> 'id' = v_prompted.id::text;
+
+    if v_entry is null
+      or v_entry ->> 'method' is distinct from 'mpesa'
+      or (v_entry ->> 'amount')::numeric is distinct from v_prompted.amount then
+      raise exception 'The M-Pesa payment of % from % has already been %, so it must stay on the sale as it is.',
+        v_prompted.amount,
+        v_prompted.phone,
+        case when v_prompted.status = 'paid' then 'received' else 'requested' end;
+    end if;
+  end loop;
+
+  delete from public.sale_payments
+  where sale_id = p_sale_id and (checkout_request_id is null or status = 'failed');
+
+  if p_payments is null or jsonb_array_length(p_payments) = 0 then
+    insert into public.sale_payments (sale_id, user_id, method, amount)
+    values (p_sale_id, auth.uid(), 'cash', v_total);
+    return;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_payments) e
+    where coalesce((e ->> 'amount')::numeric, 0) <= 0
+  ) then
+    raise exception 'Payment amounts must be positive.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_payments) e
+    where e ->> 'method' = 'mpesa'
+      and coalesce(trim(e ->> 'reference'), '') = ''
+      and coalesce(trim(e ->> 'phone'), '') = ''
+  ) then
+    raise exception 'M-Pesa payments need a transaction code or a phone number.';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_payments) e
+    where e ->> 'method' = 'mpesa'
+      and (e ->> 'amount')::numeric <> trunc((e ->> 'amount')::numeric)
+  ) then
+    raise exception 'M-Pesa payments must be in whole shillings.';
+  end if;
+
+  insert into public.sale_payments (sale_id, user_id, method, amount, reference, phone, status)
+  select
+    p_sale_id,
+    auth.uid(),
+    (e ->> 'method')::public.payment_method,
+    (e ->> 'amount')::numeric,
+    nullif(upper(trim(e ->> 'reference')), ''),
+    nullif(trim(e ->> 'phone'), ''),
+    case
+      when e ->> 'method' = 'mpesa' and coalesce(trim(e ->> 'reference'), '') = ''
+        then 'pending'::public.payment_status
+      else 'paid'::public.payment_status
+    end
+  from jsonb_array_elements(p_payments) e
+  where not exists (
+    select 1 from public.sale_payments p
+    where p.sale_id = p_sale_id and p.id::text = e ->> 'id'
+  );
+
+  select coalesce(sum(amount), 0) into v_paid from public.sale_payments where sale_id = p_sale_id;
+
+  if v_paid <> v_total then
+    raise exception 'Payments (%) do not add up to the sale total (%).', v_paid, v_total;
+  end if;
+end;
+$$;
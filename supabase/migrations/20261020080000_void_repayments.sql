@@ -0,0 +1,78 @@
+-- The credit ledger can only be written through RPCs. Clients used to be
+-- able to edit or delete credit_repayments and credit_allocations rows
+-- directly, which left sales.amount_repaid counting money that was no longer
+-- on record. A repayment taken in error is now voided with void_repayment:
+-- it stays on the customer's history, marked void, and what it settled is
+-- owed again.
+
+alter table public.credit_repayments
+  add column voided_at timestamptz,
+  add column void_reason text;
+
+drop policy "Users can add their own credit repayments" on public.credit_repayments;
+drop policy "Users can update their own credit repayments" on public.credit_repayments;
+drop policy "Users can delete their own credit repayments" on public.credit_repayments;
+drop policy "Users can add their own credit allocations" on public.credit_allocations;
+drop policy "Users can update their own credit allocations" on public.credit_allocations;
+drop policy "Users can delete their own credit allocations" on public.credit_allocations;
+
+revoke insert, update, delete on public.credit_repayments from anon, authenticated;
+revoke insert, update, delete on public.credit_allocations from anon, authenticated;
+
+-- Security definer so that it can write the ledger, which users cannot. It
+-- only touches the caller's own customer and their sales.
+alter function public.record_repayment(uuid, numeric, public.payment_method, text, date, text)
+  security definer;
+
+-- Voids a repayment: takes its allocations off the sales they settled and
+-- marks it void with the reason given.
+create or replace function public.void_repayment(p_repayment_id uuid, p_reason text)
+returns public.credit_repayments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_repayment public.credit_repayments;
+begin
+  select * into v_repayment
+  from public.credit_repayments
+  where id = p_repayment_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Repayment not found.';
+  end if;
+
+  if v_repayment.voided_at is not null then
+    raise exception 'This repayment has already been voided.';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'Give a reason for voiding the repayment.';
+  end if;
+
+  perform 1
+  from public.sales
+  where id in (select sale_id from public.credit_allocations where repayment_id = p_repayment_id)
+  order by id
+  for update;
+
+  update public.sales s
+  set amount_repaid = s.amount_repaid - a.amount
+  from public.credit_allocations a
+  where a.repayment_id = p_repayment_id and a.sale_id = s.id;
+
+  delete from public.credit_allocations where repayment_id = p_repayment_id;
+
+  update public.credit_repayments
+  set voided_at = now(),
+      void_reason = trim(p_reason)
+  where id = p_repayment_id
+  returning * into v_repayment;
+
+  return v_repayment;
+end;
+$$;
+
+grant execute on function public.void_repayment(uuid, text) to authenticated;
@@ -0,0 +1,16 @@
+-- Sales can only be written through the sale RPCs. Clients used to be able
+-- to update sales rows directly, and so change a sale's total_amount or
+-- profit after the sale had been priced and paid.
+
+drop policy "Users can add their own sales" on public.sales;
+drop policy "Users can update their own sales" on public.sales;
+drop policy "Users can delete their own sales" on public.sales;
+
+revoke insert, update, delete on public.sales from anon, authenticated;
+
+-- Security definer so that they can write sales, which users cannot. Each
+-- looks up the sale, customer and products by auth.uid() itself, so only
+-- ever touches the caller's own rows.
+alter function public.record_sale(jsonb, date, jsonb, uuid, jsonb) security definer;
+alter function public.update_sale(uuid, jsonb, date, jsonb, uuid, jsonb) security definer;
+alter function public.delete_sale(uuid) security definer;
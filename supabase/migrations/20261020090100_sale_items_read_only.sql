@@ -0,0 +1,9 @@
+-- Sale lines are written only by record_sale and update_sale. Clients used to
+-- be able to update sale_items rows directly, and so change a line's
+-- unit_cost, line_total or profit after the sale.
+
+drop policy "Users can add their own sale items" on public.sale_items;
+drop policy "Users can update their own sale items" on public.sale_items;
+drop policy "Users can delete their own sale items" on public.sale_items;
+
+revoke insert, update, delete on public.sale_items from anon, authenticated;
@@ -0,0 +1,17 @@
+-- Returns can only be written through record_return. Clients used to be able
+-- to change a return's refund_amount or profit_reversed directly.
+
+drop policy "Users can add their own sale returns" on public.sale_returns;
+drop policy "Users can update their own sale returns" on public.sale_returns;
+drop policy "Users can delete their own sale returns" on public.sale_returns;
+drop policy "Users can add their own sale return items" on public.sale_return_items;
+drop policy "Users can update their own sale return items" on public.sale_return_items;
+drop policy "Users can delete their own sale return items" on public.sale_return_items;
+
+revoke insert, update, delete on public.sale_returns from anon, authenticated;
+revoke insert, update, delete on public.sale_return_items from anon, authenticated;
+
+-- Security definer so that it can write returns, which users cannot. It looks
+-- up the sale by auth.uid() itself, so only ever touches the caller's own rows.
+alter function public.record_return(uuid, jsonb, text, public.payment_method, date, text)
+  security definer;
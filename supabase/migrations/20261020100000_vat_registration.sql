@@ -0,0 +1,124 @@
+-- VAT is opt-in. Every shop used to be charged VAT at 16% from the moment it
+-- was tracked, so a shop that isn't registered for VAT (most small shops,
+-- under KRA's turnover threshold) saw it taken out of every sale's profit.
+-- A shop now says whether it is VAT registered, which is off until it turns
+-- it on; until then sales carry no VAT, and their lines no tax category, as
+-- for sales made before VAT was tracked.
+
+alter table public.shop_settings
+  add column vat_registered boolean not null default false;
+
+-- Sales -------------------------------------------------------------------------
+
+-- Unchanged, except that it leaves the sale without VAT unless the shop is
+-- VAT registered. Its tax_amount is still cleared, for a sale edited after
+-- the shop stopped charging VAT.
+create or replace function private.apply_sale_tax(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_registered boolean;
+  v_inclusive boolean;
+  v_vat_rate numeric;
+  v_item record;
+  v_rate numeric;
+  v_tax numeric;
+begin
+  select vat_registered, prices_include_tax, vat_rate
+  into v_registered, v_inclusive, v_vat_rate
+  from public.shop_settings
+  where user_id = auth.uid();
+
+  if not coalesce(v_registered, false) then
+    update public.sales set tax_amount = 0 where id = p_sale_id;
+    return;
+  end if;
+
+  v_inclusive := coalesce(v_inclusive, true);
+  v_vat_rate := coalesce(v_vat_rate, 16);
+
+  for v_item in
+    select si.id, si.line_total, i.tax_category
+    from public.sale_items si
+    join public.inventory i on i.id = si.product_id
+    where si.sale_id = p_sale_id
+  loop
+    v_rate := case when v_item.tax_category = 'standard' then v_vat_rate else 0 end;
+    v_tax := case
+      when v_inclusive then round(v_item.line_total * v_rate / (100 + v_rate), 2)
+      else round(v_item.line_total * v_rate / 100, 2)
+    end;
+
+    update public.sale_items
+    set tax_category = v_item.tax_category,
+        tax_rate = v_rate,
+        tax_amount = v_tax,
+        line_total = line_total + case when v_inclusive then 0 else v_tax end,
+        profit = profit - case when v_inclusive then v_tax else 0 end
+    where id = v_item.id;
+  end loop;
+
+  update public.sales
+  set total_amount = totals.total_amount,
+      profit = totals.profit,
+      tax_amount = totals.tax_amount
+  from (
+    select
+      coalesce(sum(line_total), 0) as total_amount,
+      coalesce(sum(profit), 0) as profit,
+      coalesce(sum(tax_amount), 0) as tax_amount
+    from public.sale_items
+    where sale_id = p_sale_id
+  ) as totals
+  where id = p_sale_id;
+end;
+$$;
+
+-- Settings ----------------------------------------------------------------------
+
+drop function if exists public.set_tax_settings(boolean, numeric);
+
+-- Sets whether the shop is VAT registered, the standard VAT rate and whether
+-- prices include it. Sales already made keep the VAT they were given.
+create or replace function public.set_tax_settings(
+  p_vat_registered boolean,
+  p_prices_include_tax boolean,
+  p_vat_rate numeric
+)
+returns public.shop_settings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.shop_settings;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to change settings.';
+  end if;
+
+  if p_vat_registered is null or p_prices_include_tax is null or p_vat_rate is null then
+    raise exception 'Choose whether the shop is VAT registered, a VAT rate and whether prices include it.';
+  end if;
+
+  if p_vat_rate < 0 or p_vat_rate > 100 then
+    raise exception 'The VAT rate must be between 0 and 100%%.';
+  end if;
+
+  insert into public.shop_settings (user_id, vat_registered, prices_include_tax, vat_rate)
+  values (auth.uid(), p_vat_registered, p_prices_include_tax, p_vat_rate)
+  on conflict (user_id) do update
+    set vat_registered = excluded.vat_registered,
+        prices_include_tax = excluded.prices_include_tax,
+        vat_rate = excluded.vat_rate,
+        updated_at = now()
+  returning * into v_settings;
+
+  return v_settings;
+end;
+$$;
+
+grant execute on function public.set_tax_settings(boolean, boolean, numeric) to authenticated;
@@ -0,0 +1,285 @@
+-- Discounts over the limit need a manager. The limit on manual discounts was
+-- a shop-wide setting that anyone signed in could raise, so it held back
+-- nobody at the till. A shop can now set a manager PIN: once it has one, the
+-- limit and the PIN itself can only be changed with it, and a sale can only
+-- take a manual discount over the limit if the PIN is given with it.
+--
+-- The PIN is kept hashed in the private schema, which users cannot read;
+-- shop_settings only says whether there is one.
+
+create table private.manager_pins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  pin_hash text not null,
+  updated_at timestamptz not null default now()
+);
+
+revoke all on private.manager_pins from anon, authenticated;
+
+alter table public.shop_settings
+  add column manager_pin_set boolean not null default false;
+
+-- Helpers -----------------------------------------------------------------------
+
+-- Whether p_pin is the caller's manager PIN; false when they have none.
+create or replace function private.manager_pin_matches(p_pin text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select exists (
+    select 1
+    from private.manager_pins
+    where user_id = auth.uid() and pin_hash = crypt(coalesce(p_pin, ''), pin_hash)
+  );
+$$;
+
+-- Raises unless the caller has no manager PIN or p_pin is it. p_action says
+-- what the PIN is needed for, e.g. "change the discount limit".
+create or replace function private.check_manager_pin(p_pin text, p_action text)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from private.manager_pins where user_id = auth.uid()) then
+    return;
+  end if;
+
+  if coalesce(p_pin, '') = '' then
+    raise exception 'Enter the manager PIN to %.', p_action;
+  end if;
+
+  if not private.manager_pin_matches(p_pin) then
+    raise exception 'That manager PIN is not right.';
+  end if;
+end;
+$$;
+
+-- Lifts the limit on manual discounts for the rest of the transaction when
+-- p_pin is the caller's manager PIN; raises when it is given but wrong.
+create or replace function private.approve_discounts(p_pin text)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if p_pin is null then
+    return;
+  end if;
+
+  if not private.manager_pin_matches(p_pin) then
+    raise exception 'That manager PIN is not right.';
+  end if;
+
+  perform set_config('app.discount_approved', 'on', true);
+end;
+$$;
+
+-- No limit once private.approve_discounts has passed.
+create or replace function private.max_manual_discount(p_user_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select max_manual_discount
+  from public.shop_settings
+  where user_id = p_user_id
+    and coalesce(current_setting('app.discount_approved', true), '') <> 'on';
+$$;
+
+-- Sales -------------------------------------------------------------------------
+
+drop function if exists public.record_sale(jsonb, date, jsonb, uuid, jsonb);
+drop function if exists public.update_sale(uuid, jsonb, date, jsonb, uuid, jsonb);
+
+-- Both take p_approval_pin, the manager PIN approving manual discounts over
+-- the limit; otherwise unchanged.
+create or replace function public.record_sale(
+  p_items jsonb,
+  p_date date default current_date,
+  p_payments jsonb default null,
+  p_customer_id uuid default null,
+  p_discount jsonb default null,
+  p_approval_pin text default null
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  perform private.check_customer(p_customer_id);
+  perform private.approve_discounts(p_approval_pin);
+
+  insert into public.sales (user_id, date, customer_id)
+  values (auth.uid(), coalesce(p_date, current_date), p_customer_id)
+  returning * into v_sale;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.apply_sale_items(v_sale.id, p_items, p_discount);
+  perform private.apply_sale_tax(v_sale.id);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+  perform private.apply_sale_credit(v_sale.id);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_date date,
+  p_payments jsonb default null,
+  p_customer_id uuid default null,
+  p_discount jsonb default null,
+  p_approval_pin text default null
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  perform private.check_customer(p_customer_id);
+  perform private.approve_discounts(p_approval_pin);
+
+  if v_sale.amount_repaid > 0 and p_customer_id is distinct from v_sale.customer_id then
+    raise exception 'This sale has repayments against it, so its customer cannot change.';
+  end if;
+
+  update public.sales
+  set date = coalesce(p_date, v_sale.date),
+      customer_id = p_customer_id
+  where id = v_sale.id;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.restock_sale_items(v_sale.id);
+  perform private.apply_sale_items(v_sale.id, p_items, p_discount);
+  perform private.apply_sale_tax(v_sale.id);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+  perform private.apply_sale_credit(v_sale.id);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.record_sale(jsonb, date, jsonb, uuid, jsonb, text) to authenticated;
+grant execute on function public.update_sale(uuid, jsonb, date, jsonb, uuid, jsonb, text)
+  to authenticated;
+
+-- Settings ----------------------------------------------------------------------
+
+-- Whether p_pin is the manager PIN, so the till can take a discount over the
+-- limit before the sale is completed. The sale checks it again.
+create or replace function public.check_manager_pin(p_pin text)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to check the manager PIN.';
+  end if;
+
+  return private.manager_pin_matches(p_pin);
+end;
+$$;
+
+-- Sets the manager PIN, 4 to 8 digits, or with null removes it. Needs the
+-- current PIN once there is one.
+create or replace function public.set_manager_pin(p_pin text, p_current_pin text default null)
+returns public.shop_settings
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_settings public.shop_settings;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to change settings.';
+  end if;
+
+  perform private.check_manager_pin(p_current_pin, 'change the manager PIN');
+
+  if p_pin is null then
+    delete from private.manager_pins where user_id = auth.uid();
+  elsif p_pin !~ '^[0-9]{4,8}$' then
+    raise exception 'The manager PIN must be 4 to 8 digits.';
+  else
+    insert into private.manager_pins (user_id, pin_hash)
+    values (auth.uid(), crypt(p_pin, gen_salt('bf')))
+    on conflict (user_id) do update
+      set pin_hash = excluded.pin_hash, updated_at = now();
+  end if;
+
+  insert into public.shop_settings (user_id, manager_pin_set)
+  values (auth.uid(), p_pin is not null)
+  on conflict (user_id) do update
+    set manager_pin_set = excluded.manager_pin_set, updated_at = now()
+  returning * into v_settings;
+
+  return v_settings;
+end;
+$$;
+
+drop function if exists public.set_discount_limit(numeric);
+
+-- Sets (or, with null, lifts) the limit on manual discounts. Needs the
+-- manager PIN once there is one.
+create or replace function public.set_discount_limit(p_percent numeric, p_pin text default null)
+returns public.shop_settings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.shop_settings;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to change settings.';
+  end if;
+
+  perform private.check_manager_pin(p_pin, 'change the discount limit');
+
+  if p_percent < 0 or p_percent > 100 then
+    raise exception 'The discount limit must be between 0 and 100%%.';
+  end if;
+
+  insert into public.shop_settings (user_id, max_manual_discount)
+  values (auth.uid(), p_percent)
+  on conflict (user_id) do update
+    set max_manual_discount = excluded.max_manual_discount, updated_at = now()
+  returning * into v_settings;
+
+  return v_settings;
+end;
+$$;
+
+grant execute on function public.check_manager_pin(text) to authenticated;
+grant execute on function public.set_manager_pin(text, text) to authenticated;
+grant execute on function public.set_discount_limit(numeric, text) to authenticated;
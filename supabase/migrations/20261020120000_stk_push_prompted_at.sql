@@ -0,0 +1,7 @@
+-- When the last STK push prompt went out for an M-Pesa tender. Each resend
+-- replaces checkout_request_id, which is all mpesa-callback matches on, so a
+-- prompt still open on the customer's phone must not be replaced: if they
+-- paid it, the payment would never be recorded. mpesa-stk-push only sends
+-- another prompt once the last one failed or has had time to expire.
+
+alter table public.sale_payments add column prompted_at timestamptz;
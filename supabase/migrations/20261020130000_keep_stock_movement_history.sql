@@ -0,0 +1,36 @@
+-- Stock movements outlive the product they moved. Deleting a product used to
+-- cascade to its movements, erasing the stock ledger along with it. The
+-- product's name is now stored on each movement, and deleting the product
+-- only clears product_id.
+
+alter table public.stock_movements add column product_name text;
+
+update public.stock_movements m
+set product_name = i.name
+from public.inventory i
+where i.id = m.product_id;
+
+alter table public.stock_movements
+  alter column product_name set not null,
+  alter column product_id drop not null,
+  drop constraint stock_movements_product_id_fkey,
+  add constraint stock_movements_product_id_fkey
+    foreign key (product_id) references public.inventory (id) on delete set null;
+
+-- Copies the product's name onto each new movement, so that
+-- record_stock_movement doesn't have to.
+create or replace function private.set_stock_movement_product_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select name into new.product_name from public.inventory where id = new.product_id;
+  return new;
+end;
+$$;
+
+create trigger stock_movements_set_product_name
+  before insert on public.stock_movements
+  for each row execute function private.set_stock_movement_product_name();
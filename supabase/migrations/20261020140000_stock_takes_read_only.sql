@@ -0,0 +1,56 @@
+-- Stock-takes can only be written through their RPCs. Clients used to be able
+-- to insert, edit or delete stock_takes and stock_take_lines directly, so an
+-- approved count (the variance report behind its stock_take movements) could
+-- be changed afterwards. Clients now only read them, and an approved
+-- stock-take cannot be changed at all.
+
+drop policy "Users can add their own stock takes" on public.stock_takes;
+drop policy "Users can update their own stock takes" on public.stock_takes;
+drop policy "Users can delete their own stock takes" on public.stock_takes;
+drop policy "Users can add their own stock take lines" on public.stock_take_lines;
+drop policy "Users can update their own stock take lines" on public.stock_take_lines;
+drop policy "Users can delete their own stock take lines" on public.stock_take_lines;
+
+revoke insert, update, delete on public.stock_takes from anon, authenticated;
+revoke insert, update, delete on public.stock_take_lines from anon, authenticated;
+
+-- Security definer so that they can write stock-takes, which users cannot.
+-- Each one only touches the caller's own stock-takes.
+alter function public.start_stock_take(text, text) security definer;
+alter function public.record_stock_counts(uuid, jsonb) security definer;
+alter function public.approve_stock_take(uuid) security definer;
+alter function public.cancel_stock_take(uuid) security definer;
+
+-- Refuses changes to an approved stock-take or its lines.
+create or replace function private.prevent_approved_stock_take_changes()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'stock_takes' then
+    if old.approved_at is not null then
+      raise exception 'Stock-take ST-% has been approved and can no longer be changed.',
+        lpad(old.number::text, 4, '0');
+    end if;
+  -- Deleting a counted product still clears product_id on its lines.
+  elsif new.product_id is null
+    and to_jsonb(new) - 'product_id' = to_jsonb(old) - 'product_id' then
+    return new;
+  elsif exists (
+    select 1 from public.stock_takes where id = old.stock_take_id and approved_at is not null
+  ) then
+    raise exception 'This stock-take has been approved and can no longer be changed.';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger stock_takes_prevent_approved_changes
+  before update on public.stock_takes
+  for each row execute function private.prevent_approved_stock_take_changes();
+
+create trigger stock_take_lines_prevent_approved_changes
+  before update on public.stock_take_lines
+  for each row execute function private.prevent_approved_stock_take_changes();
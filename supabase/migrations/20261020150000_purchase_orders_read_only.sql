@@ -0,0 +1,59 @@
+-- Purchase orders can only be written through their RPCs. Clients used to be
+-- able to edit purchase_order_items directly, and so change quantity_received
+-- without any stock coming in, or delete an order or line that stock had
+-- already been received against. Received quantities are now only written by
+-- receive_purchase_order, and nothing that has had a receipt can be deleted.
+
+drop policy "Users can add their own purchase orders" on public.purchase_orders;
+drop policy "Users can update their own purchase orders" on public.purchase_orders;
+drop policy "Users can delete their own purchase orders" on public.purchase_orders;
+drop policy "Users can add their own purchase order items" on public.purchase_order_items;
+drop policy "Users can update their own purchase order items" on public.purchase_order_items;
+drop policy "Users can delete their own purchase order items" on public.purchase_order_items;
+
+revoke insert, update, delete on public.purchase_orders from anon, authenticated;
+revoke insert, update, delete on public.purchase_order_items from anon, authenticated;
+
+-- Security definer so that they can write purchase orders, which users
+-- cannot. Each looks up the order, supplier and products by auth.uid()
+-- itself, so only ever touches the caller's own rows.
+alter function public.create_purchase_order(uuid, jsonb, date, date, text) security definer;
+alter function public.update_purchase_order(uuid, uuid, jsonb, date, date, text) security definer;
+alter function public.cancel_purchase_order(uuid) security definer;
+alter function public.receive_purchase_order(uuid, jsonb) security definer;
+
+-- Refuses to delete an order, or a line, that stock has been received
+-- against. Deleting the user's account still removes them.
+create or replace function private.prevent_received_purchase_order_deletes()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from auth.users where id = old.user_id) then
+    return old;
+  end if;
+
+  if tg_table_name = 'purchase_orders' then
+    if exists (
+      select 1 from public.purchase_order_items where order_id = old.id and quantity_received > 0
+    ) then
+      raise exception 'Stock has been received on PO-%, so it cannot be deleted.',
+        lpad(old.number::text, 5, '0');
+    end if;
+  elsif old.quantity_received > 0 then
+    raise exception 'Stock has been received for %, so it cannot be taken off the order.',
+      old.product_name;
+  end if;
+
+  return old;
+end;
+$$;
+
+create trigger purchase_orders_prevent_received_deletes
+  before delete on public.purchase_orders
+  for each row execute function private.prevent_received_purchase_order_deletes();
+
+create trigger purchase_order_items_prevent_received_deletes
+  before delete on public.purchase_order_items
+  for each row execute function private.prevent_received_purchase_order_deletes();
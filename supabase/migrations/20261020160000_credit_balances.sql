@@ -0,0 +1,139 @@
+-- What customers owe, worked out on the server. The Customers page and the
+-- dashboard used to add up balances, ageing and the ledger from the sales
+-- list the client had loaded, which is not the whole history: PostgREST
+-- returns at most max_rows rows, so older credit sales dropped out of the
+-- totals.
+
+-- Each customer's outstanding and overdue credit on p_today, and how many
+-- days the oldest overdue sale is past due. Customers who owe nothing are
+-- left out.
+create or replace function public.customer_balances(p_today date default current_date)
+returns table (
+  customer_id uuid,
+  outstanding numeric,
+  overdue numeric,
+  oldest_overdue_days integer
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    s.customer_id,
+    sum(s.amount_due - s.amount_repaid),
+    coalesce(
+      sum(s.amount_due - s.amount_repaid) filter (where p_today - (s.date + c.credit_days) > 0),
+      0
+    ),
+    greatest(max(p_today - (s.date + c.credit_days)), 0)
+  from public.sales s
+  join public.customers c on c.id = s.customer_id
+  where s.user_id = auth.uid() and s.amount_due > s.amount_repaid
+  group by s.customer_id;
+$$;
+
+-- Every unpaid credit balance on p_today, totalled by days past due: bucket
+-- 0 is not yet due, then 1–30, 31–60, 61–90 and over 90 days overdue (the
+-- AGE_BUCKETS in src/lib/credit.ts). Empty buckets are left out.
+create or replace function public.aged_debt(p_today date default current_date)
+returns table (bucket integer, amount numeric)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    case
+      when days <= 0 then 0
+      when days <= 30 then 1
+      when days <= 60 then 2
+      when days <= 90 then 3
+      else 4
+    end as bucket,
+    sum(balance)
+  from (
+    select p_today - (s.date + c.credit_days) as days, s.amount_due - s.amount_repaid as balance
+    from public.sales s
+    join public.customers c on c.id = s.customer_id
+    where s.user_id = auth.uid() and s.amount_due > s.amount_repaid
+  ) debts
+  group by 1;
+$$;
+
+-- A customer's credit sales and repayments, newest first, with what they
+-- owed after each. Voided repayments are listed but pay nothing. The running
+-- balance is worked out over the whole history, so it stays right however
+-- few of the rows are fetched.
+create or replace function public.customer_ledger(p_customer_id uuid)
+returns table (
+  id uuid,
+  date date,
+  sale_id uuid,
+  sale_items text,
+  amount_due numeric,
+  amount_repaid numeric,
+  repayment_id uuid,
+  method public.payment_method,
+  amount numeric,
+  reference text,
+  note text,
+  voided_at timestamptz,
+  void_reason text,
+  balance numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    entries.*,
+    sum(
+      entries.amount_due
+        - case when entries.voided_at is null then coalesce(entries.amount, 0) else 0 end
+    ) over (order by entries.date, entries.amount_due desc, entries.id)
+  from (
+    select
+      s.id,
+      s.date,
+      s.id as sale_id,
+      (
+        select string_agg(
+          i.product_name || ' × ' || trim_scale(i.quantity)::text, ', ' order by i.created_at, i.id
+        )
+        from public.sale_items i
+        where i.sale_id = s.id
+      ) as sale_items,
+      s.amount_due,
+      s.amount_repaid,
+      null::uuid as repayment_id,
+      null::public.payment_method as method,
+      null::numeric as amount,
+      null::text as reference,
+      null::text as note,
+      null::timestamptz as voided_at,
+      null::text as void_reason
+    from public.sales s
+    where s.customer_id = p_customer_id and s.user_id = auth.uid() and s.amount_due > 0
+    union all
+    select
+      r.id,
+      r.date,
+      null,
+      null,
+      0,
+      null,
+      r.id,
+      r.method,
+      r.amount,
+      r.reference,
+      r.note,
+      r.voided_at,
+      r.void_reason
+    from public.credit_repayments r
+    where r.customer_id = p_customer_id and r.user_id = auth.uid()
+  ) entries
+  order by entries.date desc, entries.amount_due, entries.id desc;
+$$;
+
+grant execute on function public.customer_balances(date) to authenticated;
+grant execute on function public.aged_debt(date) to authenticated;
+grant execute on function public.customer_ledger(uuid) to authenticated;
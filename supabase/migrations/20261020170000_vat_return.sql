@@ -0,0 +1,99 @@
+-- The VAT return, worked out on the server for the period asked for. The
+-- VAT Return page used to build it from the sales list the client had
+-- loaded, which has no date filter and is cut off at PostgREST's max_rows, so
+-- a busy shop's return left out sales.
+
+-- Every sale line dated from p_from to p_to, and every returned line (a
+-- credit note, with negative amounts) whose return is, oldest first.
+create or replace function public.vat_lines(p_from date, p_to date)
+returns table (
+  id uuid,
+  date date,
+  sale_id uuid,
+  customer_name text,
+  product_name text,
+  quantity numeric,
+  unit text,
+  tax_category public.tax_category,
+  tax_rate numeric,
+  taxable_value numeric,
+  vat numeric,
+  total numeric,
+  is_return boolean
+)
+language sql
+stable
+set search_path = public
+as $$
+  select *
+  from (
+    select
+      si.id,
+      s.date,
+      s.id,
+      c.name,
+      si.product_name,
+      si.quantity,
+      si.unit,
+      si.tax_category,
+      si.tax_rate,
+      si.line_total - si.tax_amount,
+      si.tax_amount,
+      si.line_total,
+      false
+    from public.sales s
+    join public.sale_items si on si.sale_id = s.id
+    left join public.customers c on c.id = s.customer_id
+    where s.user_id = auth.uid() and s.date between p_from and p_to
+    union all
+    select
+      ri.id,
+      r.date,
+      s.id,
+      c.name,
+      si.product_name,
+      ri.quantity,
+      si.unit,
+      si.tax_category,
+      si.tax_rate,
+      -(ri.refund_amount - ri.tax_amount),
+      -ri.tax_amount,
+      -ri.refund_amount,
+      true
+    from public.sale_returns r
+    join public.sale_return_items ri on ri.return_id = r.id
+    join public.sale_items si on si.id = ri.sale_item_id
+    join public.sales s on s.id = r.sale_id
+    left join public.customers c on c.id = s.customer_id
+    where r.user_id = auth.uid() and r.date between p_from and p_to
+  ) lines
+  order by 2, 13, 3, 1;
+$$;
+
+-- The vat_lines totals per tax category: standard, zero rated, exempt, then
+-- lines sold before VAT was tracked. Empty categories are left out.
+create or replace function public.vat_summary(p_from date, p_to date)
+returns table (
+  tax_category public.tax_category,
+  sales numeric,
+  returns numeric,
+  taxable_value numeric,
+  vat numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    l.tax_category,
+    coalesce(sum(l.taxable_value) filter (where not l.is_return), 0),
+    coalesce(sum(l.taxable_value) filter (where l.is_return), 0),
+    sum(l.taxable_value),
+    sum(l.vat)
+  from public.vat_lines(p_from, p_to) l
+  group by l.tax_category
+  order by l.tax_category nulls last;
+$$;
+
+grant execute on function public.vat_lines(date, date) to authenticated;
+grant execute on function public.vat_summary(date, date) to authenticated;
@@ -0,0 +1,308 @@
+-- Manager PIN guessing. check_manager_pin answered "is this the PIN?" as
+-- often as it was asked, so a 4-digit PIN could be found by trying them all,
+-- and every RPC that took the PIN was a second way to try. The PIN is now
+-- only ever checked by check_manager_pin, which counts wrong guesses and
+-- locks the PIN for 15 minutes after 5 in a row. A right PIN gets back an
+-- approval: a single-use id, good for 10 minutes, that the sale or settings
+-- change it is for passes instead of the PIN.
+--
+-- A wrong guess returns null rather than raising, so the count is committed
+-- along with the call.
+
+alter table private.manager_pins
+  add column failed_attempts integer not null default 0,
+  add column locked_until timestamptz;
+
+create table private.manager_approvals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  expires_at timestamptz not null default now() + interval '10 minutes'
+);
+
+revoke all on private.manager_approvals from anon, authenticated;
+
+-- Helpers -----------------------------------------------------------------------
+
+drop function if exists private.check_manager_pin(text, text);
+drop function if exists private.approve_discounts(text);
+drop function if exists private.manager_pin_matches(text);
+
+-- Uses up p_approval; raises unless it is one of the caller's and still good.
+create or replace function private.redeem_manager_approval(p_approval uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from private.manager_approvals
+  where id = p_approval and user_id = auth.uid() and expires_at > now();
+
+  if not found then
+    raise exception 'The manager''s approval has expired. Enter the PIN again.';
+  end if;
+end;
+$$;
+
+-- Raises unless the caller has no manager PIN or p_approval is a good
+-- approval. p_action says what the PIN is needed for, e.g. "change the
+-- discount limit".
+create or replace function private.check_manager_approval(p_approval uuid, p_action text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from private.manager_pins where user_id = auth.uid()) then
+    return;
+  end if;
+
+  if p_approval is null then
+    raise exception 'Enter the manager PIN to %.', p_action;
+  end if;
+
+  perform private.redeem_manager_approval(p_approval);
+end;
+$$;
+
+-- Lifts the limit on manual discounts for the rest of the transaction when
+-- p_approval is a good approval; raises when it is given but not.
+create or replace function private.approve_discounts(p_approval uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if p_approval is null then
+    return;
+  end if;
+
+  perform private.redeem_manager_approval(p_approval);
+  perform set_config('app.discount_approved', 'on', true);
+end;
+$$;
+
+-- Sales -------------------------------------------------------------------------
+
+drop function if exists public.record_sale(jsonb, date, jsonb, uuid, jsonb, text);
+drop function if exists public.update_sale(uuid, jsonb, date, jsonb, uuid, jsonb, text);
+
+-- Both take p_approval, from check_manager_pin, approving manual discounts
+-- over the limit; otherwise unchanged.
+create or replace function public.record_sale(
+  p_items jsonb,
+  p_date date default current_date,
+  p_payments jsonb default null,
+  p_customer_id uuid default null,
+  p_discount jsonb default null,
+  p_approval uuid default null
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  perform private.check_customer(p_customer_id);
+  perform private.approve_discounts(p_approval);
+
+  insert into public.sales (user_id, date, customer_id)
+  values (auth.uid(), coalesce(p_date, current_date), p_customer_id)
+  returning * into v_sale;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.apply_sale_items(v_sale.id, p_items, p_discount);
+  perform private.apply_sale_tax(v_sale.id);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+  perform private.apply_sale_credit(v_sale.id);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_date date,
+  p_payments jsonb default null,
+  p_customer_id uuid default null,
+  p_discount jsonb default null,
+  p_approval uuid default null
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+begin
+  select * into v_sale
+  from public.sales
+  where id = p_sale_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Sale not found.';
+  end if;
+
+  perform private.check_customer(p_customer_id);
+  perform private.approve_discounts(p_approval);
+
+  if v_sale.amount_repaid > 0 and p_customer_id is distinct from v_sale.customer_id then
+    raise exception 'This sale has repayments against it, so its customer cannot change.';
+  end if;
+
+  update public.sales
+  set date = coalesce(p_date, v_sale.date),
+      customer_id = p_customer_id
+  where id = v_sale.id;
+
+  perform private.lock_sale_products(v_sale.id, p_items);
+  perform private.restock_sale_items(v_sale.id);
+  perform private.apply_sale_items(v_sale.id, p_items, p_discount);
+  perform private.apply_sale_tax(v_sale.id);
+  perform private.apply_sale_payments(v_sale.id, p_payments);
+  perform private.apply_sale_credit(v_sale.id);
+
+  select * into v_sale from public.sales where id = v_sale.id;
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.record_sale(jsonb, date, jsonb, uuid, jsonb, uuid) to authenticated;
+grant execute on function public.update_sale(uuid, jsonb, date, jsonb, uuid, jsonb, uuid)
+  to authenticated;
+
+-- Settings ----------------------------------------------------------------------
+
+drop function if exists public.check_manager_pin(text);
+drop function if exists public.set_manager_pin(text, text);
+drop function if exists public.set_discount_limit(numeric, text);
+
+-- An approval for one action when p_pin is the manager PIN; null when it is
+-- not, or there is none. Raises while the PIN is locked.
+create or replace function public.check_manager_pin(p_pin text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_pin private.manager_pins;
+  v_approval uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to check the manager PIN.';
+  end if;
+
+  select * into v_pin from private.manager_pins where user_id = auth.uid() for update;
+
+  if not found then
+    return null;
+  end if;
+
+  if v_pin.locked_until > now() then
+    raise exception 'Too many wrong manager PINs. Try again in % minutes.',
+      ceil(extract(epoch from v_pin.locked_until - now()) / 60);
+  end if;
+
+  if v_pin.pin_hash <> crypt(coalesce(p_pin, ''), v_pin.pin_hash) then
+    update private.manager_pins
+    set failed_attempts = case when failed_attempts >= 4 then 0 else failed_attempts + 1 end,
+        locked_until = case when failed_attempts >= 4 then now() + interval '15 minutes' end
+    where user_id = auth.uid();
+    return null;
+  end if;
+
+  update private.manager_pins set failed_attempts = 0 where user_id = auth.uid();
+
+  insert into private.manager_approvals (user_id)
+  values (auth.uid())
+  returning id into v_approval;
+
+  return v_approval;
+end;
+$$;
+
+-- Sets the manager PIN, 4 to 8 digits, or with null removes it. Needs an
+-- approval from the current PIN once there is one.
+create or replace function public.set_manager_pin(p_pin text, p_approval uuid default null)
+returns public.shop_settings
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_settings public.shop_settings;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to change settings.';
+  end if;
+
+  perform private.check_manager_approval(p_approval, 'change the manager PIN');
+
+  if p_pin is null then
+    delete from private.manager_pins where user_id = auth.uid();
+  elsif p_pin !~ '^[0-9]{4,8}$' then
+    raise exception 'The manager PIN must be 4 to 8 digits.';
+  else
+    insert into private.manager_pins (user_id, pin_hash)
+    values (auth.uid(), crypt(p_pin, gen_salt('bf')))
+    on conflict (user_id) do update
+      set pin_hash = excluded.pin_hash, failed_attempts = 0, locked_until = null,
+        updated_at = now();
+  end if;
+
+  -- Approvals given under the old PIN go with it.
+  delete from private.manager_approvals where user_id = auth.uid();
+
+  insert into public.shop_settings (user_id, manager_pin_set)
+  values (auth.uid(), p_pin is not null)
+  on conflict (user_id) do update
+    set manager_pin_set = excluded.manager_pin_set, updated_at = now()
+  returning * into v_settings;
+
+  return v_settings;
+end;
+$$;
+
+-- Sets (or, with null, lifts) the limit on manual discounts. Needs an
+-- approval from the manager PIN once there is one.
+create or replace function public.set_discount_limit(p_percent numeric, p_approval uuid default null)
+returns public.shop_settings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.shop_settings;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to change settings.';
+  end if;
+
+  perform private.check_manager_approval(p_approval, 'change the discount limit');
+
+  if p_percent < 0 or p_percent > 100 then
+    raise exception 'The discount limit must be between 0 and 100%%.';
+  end if;
+
+  insert into public.shop_settings (user_id, max_manual_discount)
+  values (auth.uid(), p_percent)
+  on conflict (user_id) do update
+    set max_manual_discount = excluded.max_manual_discount, updated_at = now()
+  returning * into v_settings;
+
+  return v_settings;
+end;
+$$;
+
+grant execute on function public.check_manager_pin(text) to authenticated;
+grant execute on function public.set_manager_pin(text, uuid) to authenticated;
+grant execute on function public.set_discount_limit(numeric, uuid) to authenticated;
@@ -0,0 +1,85 @@
+// supabase/mock-daraja/server.ts
+//
+// A stand-in for the Daraja sandbox so STK push can be exercised locally
+// without Safaricom credentials or a public callback URL.
+//
+//   deno run --allow-net --allow-env supabase/mock-daraja/server.ts
+//
+// Then point the edge functions at it (see README). Every STK push is
+// "answered" after MOCK_DARAJA_DELAY_MS (default 5000): phone numbers ending
+// in 0000 are declined as if the customer cancelled, everything else pays.
+
+const PORT = Number(Deno.env.get("MOCK_DARAJA_PORT") ?? 8089);
+const DELAY_MS = Number(Deno.env.get("MOCK_DARAJA_DELAY_MS") ?? 5000);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const randomCode = (length: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(length)))
+    .map((n) => "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789"[n % 36])
+    .join("");
+
+async function sendCallback(url: string, checkoutRequestId: string, phone: string, amount: number) {
+  await new Promise((resolve) => setTimeout(resolve, DELAY_MS));
+  const stkCallback = phone.endsWith("0000")
+    ? {
+        MerchantRequestID: `mock-${checkoutRequestId}`,
+        CheckoutRequestID: checkoutRequestId,
+        ResultCode: 1032,
+        ResultDesc: "Request cancelled by user",
+      }
+    : {
+        MerchantRequestID: `mock-${checkoutRequestId}`,
+        CheckoutRequestID: checkoutRequestId,
+        ResultCode: 0,
+        ResultDesc: "The service request is processed successfully.",
+        CallbackMetadata: {
+          Item: [
+            { Name: "Amount", Value: amount },
+            { Name: "MpesaReceiptNumber", Value: randomCode(10) },
+            { Name: "PhoneNumber", Value: Number(phone) },
+          ],
+        },
+      };
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ Body: { stkCallback } }),
+    });
+    console.log(`callback ${checkoutRequestId} -> ${res.status}`);
+  } catch (err) {
+    console.error(`callback ${checkoutRequestId} failed: ${(err as Error).message}`);
+  }
+}
+
+Deno.serve({ port: PORT }, async (req) => {
+  const { pathname } = new URL(req.url);
+
+  if (pathname === "/oauth/v1/generate") {
+    return json({ access_token: "mock-token", expires_in: "3599" });
+  }
+
+  if (pathname === "/mpesa/stkpush/v1/processrequest" && req.method === "POST") {
+    const body = await req.json();
+    if (!body.PhoneNumber || !body.Amount || !body.CallBackURL) {
+      return json({ errorCode: "400.002.02", errorMessage: "Bad Request - Invalid request" }, 400);
+    }
+    const checkoutRequestId = `ws_CO_${Date.now()}_${randomCode(6)}`;
+    console.log(`stk push ${checkoutRequestId}: KES ${body.Amount} to ${body.PhoneNumber}`);
+    sendCallback(body.CallBackURL, checkoutRequestId, String(body.PhoneNumber), body.Amount);
+    return json({
+      MerchantRequestID: `mock-${checkoutRequestId}`,
+      CheckoutRequestID: checkoutRequestId,
+      ResponseCode: "0",
+      ResponseDescription: "Success. Request accepted for processing",
+      CustomerMessage: "Success. Request accepted for processing",
+    });
+  }
+
+  return json({ errorMessage: "Not found" }, 404);
+});
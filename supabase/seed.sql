@@ -0,0 +1,286 @@
+-- Sample data for a local Supabase stack (`supabase db reset` loads it after
+-- the migrations). Sign in as demo@shopinvt.local / demo1234.
+--
+-- Stock figures are already net of the sample sales below, because the sales
+-- are inserted directly rather than through record_sale.
+
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change_token_new, email_change
+)
+values (
+  '00000000-0000-0000-0000-000000000000',
+  '11111111-1111-1111-1111-111111111111',
+  'authenticated',
+  'authenticated',
+  'demo@shopinvt.local',
+  crypt('demo1234', gen_salt('bf')),
+  now(),
+  '{"provider": "email", "providers": ["email"]}',
+  '{}',
+  now(),
+  now(),
+  '', '', '', ''
+)
+on conflict (id) do nothing;
+
+insert into auth.identities (
+  id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at
+)
+values (
+  gen_random_uuid(),
+  '11111111-1111-1111-1111-111111111111',
+  '11111111-1111-1111-1111-111111111111',
+  '{"sub": "11111111-1111-1111-1111-111111111111", "email": "demo@shopinvt.local"}',
+  'email',
+  now(),
+  now(),
+  now()
+)
+on conflict do nothing;
+
+insert into public.inventory (id, user_id, name, category, price, cost, stock_quantity, reorder_level)
+values
+  ('a0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'Sugar 2kg',            'Groceries',  330, 290, 24, 10),
+  ('a0000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'Maize Flour 2kg',      'Groceries',  180, 155, 40, 15),
+  ('a0000000-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111', 'Cooking Oil 1L',       'Groceries',  390, 340,  6, 8),
+  ('a0000000-0000-0000-0000-000000000004', '11111111-1111-1111-1111-111111111111', 'Rice 1kg',             'Groceries',  210, 175, 30, 10),
+  ('a0000000-0000-0000-0000-000000000005', '11111111-1111-1111-1111-111111111111', 'Tea Leaves 250g',      'Beverages',  150, 120, 18, 6),
+  ('a0000000-0000-0000-0000-000000000006', '11111111-1111-1111-1111-111111111111', 'Soda 500ml',           'Beverages',   70,  50, 48, 24),
+  ('a0000000-0000-0000-0000-000000000007', '11111111-1111-1111-1111-111111111111', 'Fresh Milk 500ml',     'Dairy',       65,  52,  9, 12),
+  ('a0000000-0000-0000-0000-000000000008', '11111111-1111-1111-1111-111111111111', 'Bread 400g',           'Bakery',      65,  55, 14, 10),
+  ('a0000000-0000-0000-0000-000000000009', '11111111-1111-1111-1111-111111111111', 'Bar Soap 800g',        'Household',  260, 215, 12, 5),
+  ('a0000000-0000-0000-0000-000000000010', '11111111-1111-1111-1111-111111111111', 'Toothpaste 100ml',     'Toiletries', 140, 110,  3, 5)
+on conflict (id) do nothing;
+
+-- Receipts spread over the last few months so the dashboard charts have data.
+-- Each row is one line; lines sharing a receipt number form one sale.
+create temporary table seed_sale_lines (receipt integer, product_id uuid, quantity integer, days_ago integer);
+
+insert into seed_sale_lines (receipt, product_id, quantity, days_ago)
+values
+  (1,  'a0000000-0000-0000-0000-000000000001', 2,  1),
+  (1,  'a0000000-0000-0000-0000-000000000002', 3,  1),
+  (2,  'a0000000-0000-0000-0000-000000000006', 6,  2),
+  (3,  'a0000000-0000-0000-0000-000000000007', 4,  3),
+  (3,  'a0000000-0000-0000-0000-000000000008', 5,  3),
+  (4,  'a0000000-0000-0000-0000-000000000003', 2,  5),
+  (5,  'a0000000-0000-0000-0000-000000000005', 1,  8),
+  (6,  'a0000000-0000-0000-0000-000000000004', 4, 12),
+  (7,  'a0000000-0000-0000-0000-000000000009', 2, 20),
+  (7,  'a0000000-0000-0000-0000-000000000010', 3, 20),
+  (8,  'a0000000-0000-0000-0000-000000000001', 5, 35),
+  (9,  'a0000000-0000-0000-0000-000000000006', 12, 41),
+  (10, 'a0000000-0000-0000-0000-000000000002', 6, 55),
+  (11, 'a0000000-0000-0000-0000-000000000007', 8, 63),
+  (11, 'a0000000-0000-0000-0000-000000000003', 3, 63);
+
+insert into public.sales (id, user_id, date, total_amount, profit)
+select
+  ('b0000000-0000-0000-0000-' || lpad(l.receipt::text, 12, '0'))::uuid,
+  '11111111-1111-1111-1111-111111111111',
+  current_date - l.days_ago,
+  sum(p.price * l.quantity),
+  sum((p.price - p.cost) * l.quantity)
+from seed_sale_lines l
+join public.inventory p on p.id = l.product_id
+group by l.receipt, l.days_ago
+on conflict (id) do nothing;
+
+insert into public.sale_items (
+  sale_id, user_id, product_id, product_name, quantity, unit_price, unit_cost, line_total, profit
+)
+select
+  ('b0000000-0000-0000-0000-' || lpad(l.receipt::text, 12, '0'))::uuid,
+  '11111111-1111-1111-1111-111111111111',
+  p.id,
+  p.name,
+  l.quantity,
+  p.price,
+  p.cost,
+  p.price * l.quantity,
+  (p.price - p.cost) * l.quantity
+from seed_sale_lines l
+join public.inventory p on p.id = l.product_id;
+
+drop table seed_sale_lines;
+
+-- Regulars who buy on credit.
+insert into public.customers (id, user_id, name, phone, credit_limit, credit_days)
+values
+  ('c0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'Mama Wanjiku', '0712345678', 5000, 30),
+  ('c0000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'Otieno Hardware Works', '0722000111', 20000, 14),
+  ('c0000000-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111', 'Grace Akinyi', '0733555000', null, 30)
+on conflict (id) do nothing;
+
+-- Receipts 06, 08 and 11 were taken on credit.
+update public.sales
+set customer_id = case right(id::text, 2)
+    when '06' then 'c0000000-0000-0000-0000-000000000001'::uuid
+    else 'c0000000-0000-0000-0000-000000000002'::uuid
+  end,
+  amount_due = total_amount
+where user_id = '11111111-1111-1111-1111-111111111111'
+  and right(id::text, 2) in ('06', '08', '11');
+
+-- Most receipts were paid in cash; a few by M-Pesa, the rest on credit.
+insert into public.sale_payments (sale_id, user_id, method, amount, reference)
+select
+  s.id,
+  s.user_id,
+  case
+    when right(s.id::text, 2) in ('02', '05', '09') then 'mpesa'
+    when s.customer_id is not null then 'credit'
+    else 'cash'
+  end::public.payment_method,
+  s.total_amount,
+  case when right(s.id::text, 2) in ('02', '05', '09') then 'SEED' || right(s.id::text, 6) end
+from public.sales s
+where s.user_id = '11111111-1111-1111-1111-111111111111'
+  and not exists (select 1 from public.sale_payments p where p.sale_id = s.id);
+
+-- Otieno Hardware Works paid part of its oldest debt (receipt 11) in cash.
+insert into public.credit_repayments (id, user_id, customer_id, date, amount, method)
+values (
+  'd0000000-0000-0000-0000-000000000001',
+  '11111111-1111-1111-1111-111111111111',
+  'c0000000-0000-0000-0000-000000000002',
+  current_date - 30,
+  1000,
+  'cash'
+)
+on conflict (id) do nothing;
+
+insert into public.credit_allocations (user_id, repayment_id, sale_id, amount)
+select
+  '11111111-1111-1111-1111-111111111111',
+  'd0000000-0000-0000-0000-000000000001',
+  'b0000000-0000-0000-0000-000000000011',
+  1000
+where not exists (
+  select 1 from public.credit_allocations
+  where repayment_id = 'd0000000-0000-0000-0000-000000000001'
+);
+
+update public.sales
+set amount_repaid = (
+  select coalesce(sum(amount), 0) from public.credit_allocations a where a.sale_id = sales.id
+)
+where user_id = '11111111-1111-1111-1111-111111111111';
+
+-- Suppliers, one delivered purchase order and one still partly outstanding.
+insert into public.suppliers (id, user_id, name, phone, email, lead_time_days)
+values
+  ('e0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'Bidco Distributors', '0700100200', 'orders@bidco.example', 5),
+  ('e0000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'Brookside Dairy', '0711300400', null, 2)
+on conflict (id) do nothing;
+
+insert into public.purchase_orders (id, user_id, supplier_id, status, order_date, expected_date, received_at)
+values
+  ('f0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'e0000000-0000-0000-0000-000000000001',
+   'received', current_date - 20, current_date - 15, now() - interval '15 days'),
+  ('f0000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'e0000000-0000-0000-0000-000000000002',
+   'open', current_date - 3, current_date - 1, null)
+on conflict (id) do nothing;
+
+insert into public.purchase_order_items (
+  id, order_id, user_id, product_id, product_name, quantity_ordered, quantity_received, unit_cost
+)
+values
+  ('f1000000-0000-0000-0000-000000000001', 'f0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000001', 'Sugar 2kg', 20, 20, 290),
+  ('f1000000-0000-0000-0000-000000000002', 'f0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000002', 'Maize Flour 2kg', 30, 30, 155),
+  ('f1000000-0000-0000-0000-000000000003', 'f0000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000007', 'Fresh Milk 500ml', 24, 12, 52),
+  ('f1000000-0000-0000-0000-000000000004', 'f0000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000008', 'Bread 400g', 20, 0, 55)
+on conflict (id) do nothing;
+
+-- Preferred suppliers for the reorder planner; the rest have none yet.
+update public.inventory
+set supplier_id = case
+  when id in ('a0000000-0000-0000-0000-000000000007', 'a0000000-0000-0000-0000-000000000008')
+    then 'e0000000-0000-0000-0000-000000000002'::uuid
+  else 'e0000000-0000-0000-0000-000000000001'::uuid
+end
+where user_id = '11111111-1111-1111-1111-111111111111'
+  and id in (
+    'a0000000-0000-0000-0000-000000000001', 'a0000000-0000-0000-0000-000000000002',
+    'a0000000-0000-0000-0000-000000000003', 'a0000000-0000-0000-0000-000000000004',
+    'a0000000-0000-0000-0000-000000000007', 'a0000000-0000-0000-0000-000000000008'
+  );
+
+-- Shop SKUs for every product; barcodes only where the pack has one.
+update public.inventory
+set sku = 'SKU-' || right(id::text, 3),
+    barcode = case id
+      when 'a0000000-0000-0000-0000-000000000001' then '6161100110014'
+      when 'a0000000-0000-0000-0000-000000000006' then '5449000000996'
+      when 'a0000000-0000-0000-0000-000000000010' then '6001067021179'
+    end
+where user_id = '11111111-1111-1111-1111-111111111111'
+  and sku is null;
+
+-- A product sold in colours and sizes; each variant is its own inventory row.
+insert into public.product_parents (id, user_id, name, category, price, cost, reorder_level, options)
+values (
+  'b0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+  'Cotton T-Shirt', 'Clothing', 800, 520, 3,
+  '[{"name": "Colour", "values": ["Red", "Blue"]}, {"name": "Size", "values": ["M", "L"]}]'
+)
+on conflict (id) do nothing;
+
+insert into public.inventory (
+  id, user_id, parent_id, option_values, name, category, price, price_override, cost,
+  stock_quantity, reorder_level
+)
+values
+  ('a0000000-0000-0000-0000-000000000011', '11111111-1111-1111-1111-111111111111', 'b0000000-0000-0000-0000-000000000001',
+   '{"Colour": "Red", "Size": "M"}', 'Cotton T-Shirt - Red / M', 'Clothing', 800, null, 520, 6, 3),
+  ('a0000000-0000-0000-0000-000000000012', '11111111-1111-1111-1111-111111111111', 'b0000000-0000-0000-0000-000000000001',
+   '{"Colour": "Red", "Size": "L"}', 'Cotton T-Shirt - Red / L', 'Clothing', 800, null, 520, 4, 3),
+  ('a0000000-0000-0000-0000-000000000013', '11111111-1111-1111-1111-111111111111', 'b0000000-0000-0000-0000-000000000001',
+   '{"Colour": "Blue", "Size": "M"}', 'Cotton T-Shirt - Blue / M', 'Clothing', 800, null, 520, 2, 3),
+  ('a0000000-0000-0000-0000-000000000014', '11111111-1111-1111-1111-111111111111', 'b0000000-0000-0000-0000-000000000001',
+   '{"Colour": "Blue", "Size": "L"}', 'Cotton T-Shirt - Blue / L', 'Clothing', 850, 850, 520, 5, 3)
+on conflict (id) do nothing;
+
+-- Units of measure: sugar bought by the 50kg bag and sold loose by the kg,
+-- soda bought by the crate of 24 and sold by the bottle or the crate.
+insert into public.inventory (
+  id, user_id, name, category, price, cost, stock_quantity, reorder_level, supplier_id, sku,
+  unit, decimal_quantities, units
+)
+values (
+  'a0000000-0000-0000-0000-000000000015', '11111111-1111-1111-1111-111111111111',
+  'Sugar (loose)', 'Groceries', 160, 140, 37.5, 10, 'e0000000-0000-0000-0000-000000000001',
+  'SKU-015', 'kg', true,
+  '[{"name": "bag", "factor": 50, "price": null, "purchase": true, "sale": false}]'
+)
+on conflict (id) do nothing;
+
+update public.inventory
+set unit = 'bottle',
+    units = '[{"name": "crate", "factor": 24, "price": 1560, "purchase": true, "sale": true}]'
+where id = 'a0000000-0000-0000-0000-000000000006'
+  and units = '[]';
+
+-- Batches with expiry dates: milk from the part-received Brookside order
+-- (one lot already past its date) and a lot of toothpaste.
+insert into public.stock_batches (
+  id, user_id, product_id, lot_number, expiry_date, quantity, received_quantity,
+  purchase_order_id, received_at
+)
+values
+  ('c1000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000007', 'BD-2291', current_date - 1, 2, 6, null,
+   now() - interval '9 days'),
+  ('c1000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000007', 'BD-2318', current_date + 3, 6, 12,
+   'f0000000-0000-0000-0000-000000000002', now() - interval '1 day'),
+  ('c1000000-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000010', 'CG4417A', current_date + 20, 3, 10, null,
+   now() - interval '60 days')
+on conflict (id) do nothing;
@@ -84,11 +84,20 @@ export default {
 					to: {
 						height: '0'
 					}
+				},
+				'remote-flash': {
+					from: {
+						backgroundColor: 'rgb(251 191 36 / 0.35)'
+					},
+					to: {
+						backgroundColor: 'transparent'
+					}
 				}
 			},
 			animation: {
 				'accordion-down': 'accordion-down 0.2s ease-out',
-				'accordion-up': 'accordion-up 0.2s ease-out'
+				'accordion-up': 'accordion-up 0.2s ease-out',
+				'remote-flash': 'remote-flash 4s ease-out'
 			}
 		}
 	},